@@ -4,6 +4,12 @@ const basePath = scopeUrl.pathname.endsWith("/") ? scopeUrl.pathname : `${scopeU
 const INDEX_URL = `${basePath}index.html`;
 const MANIFEST_URL = `${basePath}manifest.webmanifest`;
 const APP_SHELL = [basePath, INDEX_URL, MANIFEST_URL];
+const DB_NAME = "piscinaPwaDB";
+const REMINDERS_STORE = "reminders";
+const REMINDERS_UPDATED_MESSAGE = "reminders-updated";
+const REMINDERS_SYNC_TAG = "reminders";
+const DAY_MS = 24 * 60 * 60 * 1000;
+let reminderTimers = [];
 
 self.addEventListener("install", (event) => {
   event.waitUntil(
@@ -28,6 +34,131 @@ self.addEventListener("activate", (event) => {
     )
   );
   self.clients.claim();
+  event.waitUntil(scheduleReminders());
+});
+
+function openRemindersDb() {
+  return new Promise((resolve) => {
+    // Sin version se abre la version actual; si la base no existe se aborta para no crearla.
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(REMINDERS_STORE)) {
+        database.close();
+        resolve(null);
+        return;
+      }
+      resolve(database);
+    };
+    request.onerror = () => resolve(null);
+  });
+}
+
+function readReminders(database) {
+  return new Promise((resolve) => {
+    const request = database
+      .transaction(REMINDERS_STORE, "readonly")
+      .objectStore(REMINDERS_STORE)
+      .getAll();
+    request.onsuccess = () => resolve(request.result.filter((reminder) => !reminder.firedAt));
+    request.onerror = () => resolve([]);
+  });
+}
+
+function saveReminder(database, reminder) {
+  return new Promise((resolve) => {
+    const transaction = database.transaction(REMINDERS_STORE, "readwrite");
+    transaction.objectStore(REMINDERS_STORE).put(reminder);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+}
+
+async function fireReminder(reminder) {
+  const database = await openRemindersDb();
+  if (!database) {
+    return;
+  }
+
+  // Los momentos de control se repiten a diario; las esperas se avisan una sola vez.
+  if (reminder.kind === "check-moment") {
+    let next = Date.parse(reminder.fireAt);
+    while (next <= Date.now()) {
+      next += DAY_MS;
+    }
+    const repeated = { ...reminder, fireAt: new Date(next).toISOString() };
+    await saveReminder(database, repeated);
+    // Sin un nuevo mensaje de la app, el aviso del dia siguiente solo sale si se programa aqui.
+    armReminder(repeated);
+  } else {
+    await saveReminder(database, { ...reminder, firedAt: new Date().toISOString() });
+  }
+  database.close();
+
+  if (Notification.permission === "granted") {
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.id,
+      icon: `${basePath}icons/icon-192x192.png`
+    });
+  }
+}
+
+function armReminder(reminder) {
+  const delay = Math.max(0, Date.parse(reminder.fireAt) - Date.now());
+  // El SW puede detenerse antes; al volver a abrir la app se avisan los vencidos.
+  reminderTimers.push(setTimeout(() => void fireReminder(reminder), delay));
+}
+
+async function scheduleReminders() {
+  for (const timer of reminderTimers) {
+    clearTimeout(timer);
+  }
+  reminderTimers = [];
+
+  const database = await openRemindersDb();
+  if (!database) {
+    return;
+  }
+  const reminders = await readReminders(database);
+  database.close();
+
+  const now = Date.now();
+  const due = [];
+  for (const reminder of reminders) {
+    const delay = Date.parse(reminder.fireAt) - now;
+    if (delay <= 0) {
+      due.push(fireReminder(reminder));
+    } else {
+      armReminder(reminder);
+    }
+  }
+  await Promise.all(due);
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === REMINDERS_UPDATED_MESSAGE) {
+    event.waitUntil(scheduleReminders());
+  }
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === REMINDERS_SYNC_TAG) {
+    event.waitUntil(scheduleReminders());
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      if (clients.length > 0) {
+        return clients[0].focus();
+      }
+      return self.clients.openWindow(basePath);
+    })
+  );
 });
 
 self.addEventListener("fetch", (event) => {
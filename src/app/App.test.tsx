@@ -3,38 +3,134 @@ import userEvent from "@testing-library/user-event";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { App } from "./App";
 import { defaultPoolConfig } from "../domain/defaults";
-import type { PoolConfig, Session } from "../domain/types";
+import type { SessionQuery } from "../domain/sessionQuery";
+import type {
+  ChemicalProduct,
+  IntensiveCycle,
+  PoolConfig,
+  Session,
+  WaterTopUp
+} from "../domain/types";
 
 let savedConfig: PoolConfig | undefined;
 let savedSessions: Session[] = [];
+let savedProducts: ChemicalProduct[] = [];
+let savedTopUps: WaterTopUp[] = [];
+let savedIntensiveCycles: IntensiveCycle[] = [];
 
 const repoMocks = vi.hoisted(() => ({
   loadConfigMock: vi.fn(async () => savedConfig),
+  listConfigsMock: vi.fn(async () => (savedConfig ? [savedConfig] : [])),
   saveConfigMock: vi.fn(async (config: PoolConfig) => {
     savedConfig = {
       ...config,
       updatedAt: new Date().toISOString()
     };
   }),
-  listSessionsMock: vi.fn(async () =>
-    savedSessions.slice().sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+  listSessionsMock: vi.fn(async (poolId: string) =>
+    savedSessions
+      .filter((session) => session.poolId === poolId).sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
   ),
   saveSessionMock: vi.fn(async (session: Session) => {
     savedSessions.push(session);
+    return [];
+  }),
+  updateSessionMock: vi.fn(async (session: Session) => {
+    savedSessions = savedSessions.map((item) => (item.id === session.id ? session : item));
+    return null;
+  }),
+  removeSessionMock: vi.fn(async (id: string) => {
+    savedSessions = savedSessions.filter((item) => item.id !== id);
+  }),
+  listProductsMock: vi.fn(async () => savedProducts.filter((product) => !product.archivedAt)),
+  saveTopUpMock: vi.fn(async (topUp: WaterTopUp) => {
+    savedTopUps = [topUp, ...savedTopUps];
+  }),
+  saveIntensiveCycleMock: vi.fn(async (cycle: IntensiveCycle) => {
+    savedIntensiveCycles = [cycle, ...savedIntensiveCycles.filter((item) => item.id !== cycle.id)];
+  }),
+  saveAllIntensiveCyclesMock: vi.fn(async (cycles: IntensiveCycle[]) => {
+    savedIntensiveCycles = [...cycles, ...savedIntensiveCycles];
   })
 }));
 
 vi.mock("../data/repositories/configRepo", () => ({
   configRepo: {
     load: repoMocks.loadConfigMock,
-    save: repoMocks.saveConfigMock
+    list: repoMocks.listConfigsMock,
+    save: repoMocks.saveConfigMock,
+    select: vi.fn(async () => undefined),
+    create: vi.fn(async (config: PoolConfig) => config),
+    archive: vi.fn(async () => undefined)
+  }
+}));
+
+vi.mock("../data/repositories/sessionRepo", async () => {
+  const { compareSessionsDesc, matchesSessionQuery, paginateSessions, summarizeSessions } =
+    await import("../domain/sessionQuery");
+  const getPoolSessions = (poolId: string) =>
+    savedSessions.filter((session) => session.poolId === poolId).sort(compareSessionsDesc);
+
+  return {
+    sessionRepo: {
+      list: repoMocks.listSessionsMock,
+      save: repoMocks.saveSessionMock,
+      update: repoMocks.updateSessionMock,
+      remove: repoMocks.removeSessionMock,
+      listRevisions: vi.fn(async () => []),
+      query: vi.fn(async (poolId: string, query: SessionQuery, config: PoolConfig) =>
+        paginateSessions(getPoolSessions(poolId), query, config)
+      ),
+      count: vi.fn(async (poolId: string, query: SessionQuery, config: PoolConfig) =>
+        summarizeSessions(
+          getPoolSessions(poolId).filter((session) => matchesSessionQuery(session, query, config)),
+          config
+        )
+      )
+    }
+  };
+});
+
+vi.mock("../data/repositories/productRepo", () => ({
+  productRepo: {
+    list: repoMocks.listProductsMock,
+    seedFromConfig: vi.fn(async () => undefined),
+    create: vi.fn(async () => undefined),
+    archive: vi.fn(async () => undefined)
+  }
+}));
+
+vi.mock("../data/repositories/inventoryRepo", () => ({
+  inventoryRepo: {
+    listContainers: vi.fn(async () => []),
+    listMovements: vi.fn(async () => [])
   }
 }));
 
-vi.mock("../data/repositories/sessionRepo", () => ({
-  sessionRepo: {
-    list: repoMocks.listSessionsMock,
-    save: repoMocks.saveSessionMock
+vi.mock("../data/repositories/topUpRepo", () => ({
+  topUpRepo: {
+    list: vi.fn(async () => savedTopUps),
+    save: repoMocks.saveTopUpMock
+  }
+}));
+
+vi.mock("../data/repositories/intensiveCycleRepo", () => ({
+  intensiveCycleRepo: {
+    list: vi.fn(async (poolId: string) =>
+      savedIntensiveCycles
+        .filter((cycle) => cycle.poolId === poolId)
+        .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt))
+    ),
+    save: repoMocks.saveIntensiveCycleMock,
+    saveAll: repoMocks.saveAllIntensiveCyclesMock
+  }
+}));
+
+vi.mock("../data/repositories/reminderRepo", () => ({
+  reminderRepo: {
+    listPending: vi.fn(async () => []),
+    schedule: vi.fn(async () => undefined),
+    cancel: vi.fn(async () => undefined)
   }
 }));
 
@@ -46,10 +142,19 @@ describe("App flows", () => {
   beforeEach(() => {
     savedConfig = structuredClone(defaultPoolConfig);
     savedSessions = [];
+    savedProducts = [];
+    savedTopUps = [];
+    savedIntensiveCycles = [];
     repoMocks.loadConfigMock.mockClear();
+    repoMocks.listConfigsMock.mockClear();
     repoMocks.saveConfigMock.mockClear();
     repoMocks.listSessionsMock.mockClear();
     repoMocks.saveSessionMock.mockClear();
+    repoMocks.updateSessionMock.mockClear();
+    repoMocks.removeSessionMock.mockClear();
+    repoMocks.saveTopUpMock.mockClear();
+    repoMocks.saveIntensiveCycleMock.mockClear();
+    repoMocks.saveAllIntensiveCyclesMock.mockClear();
     localStorage.clear();
   });
 
@@ -71,10 +176,40 @@ describe("App flows", () => {
     await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
     const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
     expect(saved.kind).toBe("check");
+    expect(saved.poolId).toBe(defaultPoolConfig.id);
     expect(saved.measuredPh).toBe(7.4);
     expect(saved.measuredChlorinePpm).toBe(1.2);
   });
 
+  it("registra el cobertor solo en mediciones de noche con el uso habitual por defecto", async () => {
+    savedConfig = {
+      ...structuredClone(defaultPoolConfig),
+      chemistry: { ...defaultPoolConfig.chemistry, usesCover: true }
+    };
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion fuera de ciclo" }));
+
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    expect(screen.queryByLabelText("Cobertor puesto esta noche")).not.toBeInTheDocument();
+    await user.selectOptions(screen.getByLabelText("Momento de la medicion"), "night");
+    expect(screen.getByLabelText("Cobertor puesto esta noche")).toBeChecked();
+    await user.click(screen.getByLabelText("Cobertor puesto esta noche"));
+    await user.clear(screen.getByLabelText("pH medido"));
+    await user.type(screen.getByLabelText("pH medido"), "7.4");
+    await user.clear(screen.getByLabelText("Cloro medido (ppm)"));
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "2");
+
+    await user.click(screen.getByRole("button", { name: "Guardar medicion" }));
+
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.checkMoment).toBe("night");
+    expect(saved.coverOn).toBe(false);
+  });
+
   it("permite habilitar ciclo intensivo desde configuracion", async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -128,5 +263,554 @@ describe("App flows", () => {
     const lastSaved = repoMocks.saveSessionMock.mock.calls[repoMocks.saveSessionMock.mock.calls.length - 1][0] as Session;
     expect(lastSaved.kind).toBe("intensive-cycle");
     expect(lastSaved.checkMoment).toBe("night");
+    expect(lastSaved.intensiveCycleId).toBe(savedIntensiveCycles[0].id);
+    expect(savedIntensiveCycles[0]).toMatchObject({
+      reason: "cambio a dicloro",
+      minNights: defaultPoolConfig.workflow.intensiveMinNights,
+      maxOvernightLossPpm: defaultPoolConfig.workflow.intensiveMaxOvernightLossPpm
+    });
+  });
+
+  it("cierra el ciclo intensivo con las noches propias y guarda el resumen", async () => {
+    savedConfig = {
+      ...structuredClone(defaultPoolConfig),
+      workflow: { ...defaultPoolConfig.workflow, enableIntensiveCycle: true }
+    };
+    const previous: IntensiveCycle = {
+      id: "ciclo-anterior",
+      poolId: defaultPoolConfig.id,
+      reason: "inicio de temporada",
+      startedAt: new Date(2026, 0, 1, 10).toISOString(),
+      closedAt: new Date(2026, 0, 4, 8).toISOString(),
+      minNights: 2,
+      maxOvernightLossPpm: 1,
+      summary: {
+        nightsEvaluated: 2,
+        avgOvernightLossPpm: 0.6,
+        lastOvernightLossPpm: 0.5,
+        recommendation: "Patron estabilizado."
+      }
+    };
+    const current: IntensiveCycle = {
+      ...previous,
+      id: "ciclo-actual",
+      reason: "cambio a dicloro",
+      startedAt: new Date(2026, 0, 10, 10).toISOString(),
+      closedAt: undefined,
+      summary: undefined
+    };
+    savedIntensiveCycles = [current, previous];
+    const night = (id: string, day: number, chlorine: number, cycleId: string): Session => ({
+      id,
+      poolId: defaultPoolConfig.id,
+      timestamp: new Date(2026, 0, day, 22).toISOString(),
+      kind: "intensive-cycle",
+      checkMoment: "night",
+      intensiveCycleId: cycleId,
+      waterHeightCm: 70,
+      measuredPh: 7.4,
+      measuredChlorinePpm: chlorine,
+      calculatedVolumeLiters: 5114,
+      requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+      requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+      appliedDoses: {}
+    });
+    const morning = (id: string, day: number, chlorine: number, cycleId: string): Session => ({
+      ...night(id, day, chlorine, cycleId),
+      timestamp: new Date(2026, 0, day, 8).toISOString(),
+      checkMoment: "start-day"
+    });
+    savedSessions = [
+      night("a1", 2, 3, "ciclo-anterior"),
+      morning("a2", 3, 2.5, "ciclo-anterior"),
+      night("b1", 10, 2.5, "ciclo-actual"),
+      morning("b2", 11, 2, "ciclo-actual"),
+      night("b3", 11, 2.6, "ciclo-actual"),
+      morning("b4", 12, 2.1, "ciclo-actual")
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    expect(screen.getByText("Ciclo intensivo activo: cambio a dicloro.")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Ciclo intensivo" }));
+    await screen.findByRole("heading", { name: "Ciclo intensivo" });
+    expect(screen.getByText("Ciclos registrados")).toBeInTheDocument();
+    expect(screen.getByText("inicio de temporada")).toBeInTheDocument();
+    expect(screen.getByText("Noches registradas").nextElementSibling).toHaveTextContent("2");
+
+    await user.click(screen.getByRole("button", { name: "Cerrar ciclo" }));
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    expect(repoMocks.saveIntensiveCycleMock).toHaveBeenCalledTimes(1);
+    const closed = repoMocks.saveIntensiveCycleMock.mock.calls[0][0] as IntensiveCycle;
+    expect(closed.id).toBe("ciclo-actual");
+    expect(closed.closedAt).toBeDefined();
+    expect(closed.summary).toMatchObject({
+      nightsEvaluated: 2,
+      avgOvernightLossPpm: 0.5,
+      lastOvernightLossPpm: 0.5
+    });
+    expect(screen.getByText("Ultimo cierre de ciclo intensivo")).toBeInTheDocument();
+  });
+
+  it("migra el ciclo guardado en localStorage a la tabla de ciclos", async () => {
+    localStorage.setItem(
+      "piscina-intensive-cycle-v1",
+      JSON.stringify({
+        active: true,
+        reason: "cloro inestable",
+        startedAtIso: new Date(2026, 0, 5, 10).toISOString()
+      })
+    );
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    expect(screen.getByText("Ciclo intensivo activo: cloro inestable.")).toBeInTheDocument();
+    expect(savedIntensiveCycles).toHaveLength(1);
+    expect(savedIntensiveCycles[0]).toMatchObject({
+      poolId: defaultPoolConfig.id,
+      reason: "cloro inestable",
+      startedAt: new Date(2026, 0, 5, 10).toISOString()
+    });
+    expect(localStorage.getItem("piscina-intensive-cycle-v1")).toBeNull();
+  });
+
+  it("conserva el ciclo en localStorage si no se pudo guardar en la tabla", async () => {
+    const legacy = JSON.stringify({
+      active: true,
+      reason: "cloro inestable",
+      startedAtIso: new Date(2026, 0, 5, 10).toISOString()
+    });
+    localStorage.setItem("piscina-intensive-cycle-v1", legacy);
+    repoMocks.saveAllIntensiveCyclesMock.mockRejectedValueOnce(new Error("QuotaExceededError"));
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    expect(
+      screen.getByText(/No se pudieron migrar los ciclos intensivos anteriores/)
+    ).toBeInTheDocument();
+    expect(savedIntensiveCycles).toHaveLength(0);
+    expect(localStorage.getItem("piscina-intensive-cycle-v1")).toBe(legacy);
+  });
+
+  it("muestra altura y volumen en unidades imperiales y guarda valores canonicos", async () => {
+    savedConfig = {
+      ...structuredClone(defaultPoolConfig),
+      preferences: { unitSystem: "imperial" }
+    };
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+
+    const height = screen.getByLabelText("Altura actual (in)");
+    await user.clear(height);
+    await user.type(height, "29");
+    await user.type(screen.getByLabelText("pH medido"), "7.8");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "0.2");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    expect(screen.getByText(/Volumen estimado: \d+ gal/)).toBeInTheDocument();
+    expect(screen.getAllByText(/fl oz|oz/).length).toBeGreaterThan(0);
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.waterHeightCm).toBeCloseTo(73.66, 9);
+    expect(saved.requiredPhCorrection.unit).toBe("ml");
+  });
+
+  it("calcula el cloro con el producto elegido en la medicion y lo guarda en la sesion", async () => {
+    savedProducts = [
+      {
+        id: "cloro-gl",
+        role: "chlorine",
+        type: "Hipoclorito concentrado",
+        concentration: 100,
+        unit: "g/L",
+        presentation: "liquid-ml",
+        createdAt: "2026-01-01T00:00:00.000Z"
+      }
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+
+    await user.type(screen.getByLabelText("pH medido"), "7.4");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "0.2");
+    await user.selectOptions(screen.getByLabelText("Producto de cloro"), "cloro-gl");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    expect(screen.getByText(/Hipoclorito concentrado 100 g\/L/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.products?.chlorine).toEqual({
+      id: "cloro-gl",
+      type: "Hipoclorito concentrado",
+      concentration: 100,
+      unit: "g/L",
+      presentation: "liquid-ml"
+    });
+  });
+
+  it("completa el checklist post-aplicacion y lo guarda en la sesion", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    await user.type(screen.getByLabelText("pH medido"), "7.4");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "0.2");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    await user.click(screen.getByRole("button", { name: "Abrir checklist" }));
+    await user.click(screen.getByLabelText("Bomba encendida durante la aplicacion"));
+    await user.click(screen.getByLabelText("Aplicado repartido en el perimetro"));
+    await user.click(screen.getByRole("button", { name: "Confirmar checklist" }));
+    expect(screen.getByText(/Checklist confirmado: 2 de 4 puntos/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.postApplicationChecklist).toEqual({
+      pumpOn: true,
+      dilutedCorrectly: false,
+      perimeterApplication: true,
+      waitRespected: false
+    });
+  });
+
+  it("rechaza la etapa 2 de pH antes de cumplir la espera", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    await user.type(screen.getByLabelText("pH medido"), "7.9");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "2");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    await user.click(screen.getByRole("button", { name: "Etapa 1 aplicada" }));
+    await user.type(screen.getByLabelText("pH intermedio"), "7.7");
+    await user.click(screen.getByRole("button", { name: "Registrar pH intermedio" }));
+    expect(screen.getByText(/Etapa 2 recalculada con pH intermedio 7.7/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Aplicar etapa 2" }));
+    expect(screen.getByText(/Faltan \d+ min de espera/)).toBeInTheDocument();
+  });
+
+  it("no acorta la espera configurada de la etapa 2 con una pausa menor", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    await user.type(screen.getByLabelText("pH medido"), "7.9");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "2");
+    await user.selectOptions(screen.getByLabelText("Pausa antes de re-medicion de pH"), "15");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    await user.click(screen.getByRole("button", { name: "Etapa 1 aplicada" }));
+    await user.type(screen.getByLabelText("pH intermedio"), "7.7");
+    await user.click(screen.getByRole("button", { name: "Registrar pH intermedio" }));
+    await user.click(screen.getByRole("button", { name: "Aplicar etapa 2" }));
+    expect(screen.getByText(/Faltan 45 min de espera/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.measuredPhIntermediate).toBe(7.7);
+    expect(saved.appliedDoses.phStage2).toBeUndefined();
+    expect(saved.appliedDoses.phStage1At).toEqual(expect.any(String));
+    expect(saved.appliedDoses.phStage2At).toBeUndefined();
+  });
+
+  it("registra la alcalinidad medida y recomienda bicarbonato cuando esta baja", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    await user.type(screen.getByLabelText("pH medido"), "7.4");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "2");
+    await user.type(screen.getByLabelText("Alcalinidad total medida (ppm, opcional)"), "60");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    expect(screen.getByText(/Alcalinidad baja: disolver/)).toBeInTheDocument();
+    expect(
+      screen.getByText(/Alcalinidad usada en el calculo de acido: 60 ppm/)
+    ).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.measuredAlkalinityPpm).toBe(60);
+  });
+
+  it("guarda el acido para bajar la alcalinidad y bloquea el cloro de la sesion", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    await user.type(screen.getByLabelText("pH medido"), "7.4");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "0.2");
+    await user.type(screen.getByLabelText("Alcalinidad total medida (ppm, opcional)"), "180");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    expect(screen.getByText(/Alcalinidad alta: aplicar/)).toBeInTheDocument();
+    expect(screen.getByText(/Cloro bloqueado: se aplica acido en esta sesion/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.requiredAlkalinityCorrection?.direction).toBe("down");
+    expect(saved.appliedDoses.alkalinity).toBeGreaterThan(0);
+    expect(saved.appliedDoses.alkalinity).toBe(saved.requiredAlkalinityCorrection?.amount);
+    expect(saved.products?.acid).toBeDefined();
+    expect(saved.appliedDoses.chlorine).toBe(0);
+  });
+
+  it("bloquea el cloro cuando el plan aplica acido y lo explica", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Medicion + plan de accion" }));
+    await screen.findByRole("heading", { name: "Ingreso de medicion" });
+    await user.type(screen.getByLabelText("pH medido"), "7.9");
+    await user.type(screen.getByLabelText("Cloro medido (ppm)"), "0.2");
+    await user.click(screen.getByRole("button", { name: "Ver plan de accion" }));
+
+    await screen.findByRole("heading", { name: "Plan de accion" });
+    expect(screen.getByText(/Cloro bloqueado: se aplica acido en esta sesion/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar plan y medicion" }));
+    await waitFor(() => expect(repoMocks.saveSessionMock).toHaveBeenCalledTimes(1));
+    const saved = repoMocks.saveSessionMock.mock.calls[0][0] as Session;
+    expect(saved.appliedDoses.phStage1).toBeGreaterThan(0);
+    expect(saved.appliedDoses.chlorine).toBe(0);
+  });
+
+  it("corrige una lectura de cloro y recalcula la dosis requerida", async () => {
+    savedSessions = [
+      {
+        id: "s1",
+        poolId: defaultPoolConfig.id,
+        timestamp: new Date(2026, 0, 10, 9).toISOString(),
+        kind: "adjustment",
+        waterHeightCm: 70,
+        measuredPh: 7.4,
+        measuredChlorinePpm: 5,
+        calculatedVolumeLiters: 5114,
+        requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+        requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+        appliedDoses: {}
+      }
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Historial" }));
+    await user.click(await screen.findByRole("button", { name: "Editar" }));
+    await screen.findByRole("heading", { name: "Corregir sesion" });
+    await user.clear(screen.getByLabelText("Cloro libre (ppm)"));
+    await user.type(screen.getByLabelText("Cloro libre (ppm)"), "0.5");
+    await user.click(screen.getByRole("button", { name: "Guardar correccion" }));
+
+    await waitFor(() => expect(repoMocks.updateSessionMock).toHaveBeenCalledTimes(1));
+    const [updated, author] = repoMocks.updateSessionMock.mock.calls[0] as unknown as [
+      Session,
+      string
+    ];
+    expect(updated.measuredChlorinePpm).toBe(0.5);
+    expect(updated.requiredChlorineDose.corrective).toBeGreaterThan(0);
+    expect(updated.updatedAt).toBeDefined();
+    expect(author).toBe("Usuario local");
+    await screen.findByRole("heading", { name: "Historial" });
+  });
+
+  it("elimina una sesion del historial tras confirmar", async () => {
+    savedSessions = [
+      {
+        id: "s1",
+        poolId: defaultPoolConfig.id,
+        timestamp: new Date(2026, 0, 10, 9).toISOString(),
+        kind: "check",
+        waterHeightCm: 70,
+        measuredPh: 7.4,
+        measuredChlorinePpm: 1.2,
+        calculatedVolumeLiters: 5114,
+        requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+        requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+        appliedDoses: {}
+      }
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Historial" }));
+    await user.click(await screen.findByRole("button", { name: "Eliminar" }));
+    expect(repoMocks.removeSessionMock).not.toHaveBeenCalled();
+    await user.click(screen.getByRole("button", { name: "Confirmar eliminacion" }));
+
+    await waitFor(() =>
+      expect(repoMocks.removeSessionMock).toHaveBeenCalledWith("s1", "Usuario local")
+    );
+    expect(await screen.findByText("No hay sesiones guardadas.")).toBeInTheDocument();
+  });
+
+  it("marca fuera de rango con los objetivos de cloro ajustados por CYA", async () => {
+    savedSessions = [
+      {
+        id: "s1",
+        poolId: defaultPoolConfig.id,
+        timestamp: "2026-01-02T09:00:00.000Z",
+        kind: "check",
+        waterHeightCm: 70,
+        measuredPh: 7.4,
+        measuredChlorinePpm: 2,
+        measuredCyaPpm: 80,
+        calculatedVolumeLiters: 5114,
+        requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+        requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+        appliedDoses: {}
+      }
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Historial" }));
+    expect(await screen.findByText(/0 con dosis y 1 fuera de rango/)).toBeInTheDocument();
+  });
+
+  it("pagina el historial y aplica filtros", async () => {
+    savedSessions = Array.from({ length: 22 }, (_, index) => ({
+      id: `s${String(index).padStart(2, "0")}`,
+      poolId: defaultPoolConfig.id,
+      timestamp: new Date(2026, 0, index + 1, 9).toISOString(),
+      kind: "check" as const,
+      waterHeightCm: 70,
+      measuredPh: 7.4,
+      measuredChlorinePpm: 1.2,
+      calculatedVolumeLiters: 5114,
+      requiredPhCorrection: {
+        direction: "none" as const,
+        total: 0,
+        stage1: 0,
+        unit: "ml" as const
+      },
+      requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" as const },
+      appliedDoses: {}
+    }));
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Historial" }));
+    await waitFor(() => expect(screen.getAllByRole("button", { name: "Editar" })).toHaveLength(20));
+    expect(screen.getByText(/22 sesiones: 0 planes, 22 mediciones/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Cargar mas" }));
+    await waitFor(() => expect(screen.getAllByRole("button", { name: "Editar" })).toHaveLength(22));
+    expect(screen.queryByRole("button", { name: "Cargar mas" })).not.toBeInTheDocument();
+
+    await user.click(screen.getByLabelText("Solo con dosis aplicada"));
+    expect(
+      await screen.findByText("No hay sesiones que coincidan con los filtros.")
+    ).toBeInTheDocument();
+  });
+  it("muestra tiempo en rango y dosis semanales en tendencias", async () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    savedSessions = [hoursAgo(30), hoursAgo(6)].map((timestamp, index) => ({
+      id: `s${index}`,
+      poolId: defaultPoolConfig.id,
+      timestamp,
+      kind: "adjustment" as const,
+      waterHeightCm: 70,
+      measuredPh: 7.4,
+      measuredChlorinePpm: 1.5,
+      calculatedVolumeLiters: 5114,
+      requiredPhCorrection: {
+        direction: "none" as const,
+        total: 0,
+        stage1: 0,
+        unit: "ml" as const
+      },
+      requiredChlorineDose: { maintenance: 10, corrective: 0, unit: "g" as const },
+      appliedDoses: { chlorine: 10, chlorineUnit: "g" as const }
+    }));
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Tendencias" }));
+
+    expect(await screen.findByRole("heading", { name: "Tendencias" })).toBeInTheDocument();
+    expect(screen.getAllByText("100% del tiempo")).toHaveLength(2);
+    expect(screen.getByRole("img", { name: "pH: 2 lecturas" })).toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: "Dosis por semana" })).toBeInTheDocument();
+  });
+  it("registra un llenado, muestra la dilucion y marca una baja excesiva", async () => {
+    savedSessions = [
+      {
+        id: "s1",
+        poolId: defaultPoolConfig.id,
+        timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+        kind: "check",
+        waterHeightCm: 70,
+        measuredPh: 7.4,
+        measuredChlorinePpm: 2.5,
+        measuredAlkalinityPpm: 100,
+        calculatedVolumeLiters: 5114,
+        requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+        requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+        appliedDoses: {}
+      }
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await screen.findByRole("heading", { name: "Inicio" });
+    await user.click(screen.getByRole("button", { name: "Registrar llenado" }));
+    await screen.findByRole("heading", { name: "Llenado de agua" });
+    await user.type(screen.getByLabelText("Altura antes del llenado (cm)"), "60");
+    await user.clear(screen.getByLabelText("Altura despues del llenado (cm)"));
+    await user.type(screen.getByLabelText("Altura despues del llenado (cm)"), "75");
+
+    expect(screen.getByText(/20% de dilucion/)).toBeInTheDocument();
+    expect(screen.getByText("Alcalinidad estimada: 100 ppm -> 80 ppm")).toBeInTheDocument();
+    expect(screen.getByText(/mas que la evaporacion normal/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Guardar llenado" }));
+    await waitFor(() =>
+      expect(repoMocks.saveTopUpMock).toHaveBeenCalledWith(
+        expect.objectContaining({ heightBeforeCm: 60, heightAfterCm: 75 })
+      )
+    );
+    expect(await screen.findByText(/60 cm -> 75 cm/)).toBeInTheDocument();
   });
 });
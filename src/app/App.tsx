@@ -1,81 +1,284 @@
 import { useEffect, useMemo, useState } from "react";
+import { backupRepo } from "../data/repositories/backupRepo";
 import { configRepo } from "../data/repositories/configRepo";
+import { intensiveCycleRepo } from "../data/repositories/intensiveCycleRepo";
+import { inventoryRepo } from "../data/repositories/inventoryRepo";
+import { productRepo } from "../data/repositories/productRepo";
+import { reminderRepo } from "../data/repositories/reminderRepo";
 import { sessionRepo } from "../data/repositories/sessionRepo";
+import { topUpRepo } from "../data/repositories/topUpRepo";
+import { buildActionPlan, buildShockPlan, type ActionPlan } from "../domain/actionPlan";
+import { getEffectiveAlkalinityPpm, isAlkalinityInRange } from "../domain/alkalinity";
 import {
-  calculateChlorineDose,
-  calculatePhCorrectionMl,
-  calculatePhRaiseDose,
-  calculateVolumeLiters,
-  classifyChlorine,
-  classifyPh,
+  applyCyaChlorineTargets,
+  DICHLOR_CYA_PER_FC_PPM,
+  estimateCyaPpm,
+  isCyaInRange,
+  type CyaSource
+} from "../domain/cya";
+import {
+  calculatePhStage2MlTraced,
   getStatusLabel,
   isChlorineInRange,
   isHeightInRange,
   isPhInRange,
   toFixedNumber
 } from "../domain/calculations";
-import { defaultPoolConfig } from "../domain/defaults";
+import {
+  BACKUP_TABLE_LABELS,
+  BACKUP_TABLES,
+  buildBackupFileName,
+  parseBackupDocument,
+  type BackupDocument,
+  type BackupImportMode,
+  type BackupImportPlan,
+  type BackupIssue,
+  type BackupRecordCounts
+} from "../domain/backup";
+import { defaultPoolConfig, normalizePoolConfig } from "../domain/defaults";
 import {
   buildIntensiveSummary,
+  buildOvernightPairs,
+  compareOvernightLossByCover,
+  createIntensiveCycle,
   evaluateIntensiveCycle,
-  getIntensiveSessions
+  getActiveIntensiveCycle,
+  getIntensiveSessions,
+  getLastClosedIntensiveCycle,
+  getOvernightLossThreshold,
+  MIN_COVER_COMPARISON_NIGHTS
 } from "../domain/intensiveCycle";
-import type { CheckMoment, DoseUnit, PoolConfig, Session } from "../domain/types";
+import { analyzeSessions } from "../domain/analytics";
+import { forecastChlorine } from "../domain/chlorineForecast";
+import { evaluateDoseSafety, getDoseChemicalLabel, type DoseDecision } from "../domain/safety";
+import {
+  getProductStock,
+  getRestockHistory,
+  getStockWarnings,
+  STOCK_WARNING_DAYS,
+  type ProductUsage,
+  type StockWarning
+} from "../domain/inventory";
+import { getLsiStatusLabel } from "../domain/lsi";
+import { calculateCombinedChlorinePpm, evaluateShockReentry, needsShock } from "../domain/shock";
+import {
+  createPhWizard,
+  getRemainingPhDose,
+  transitionPhWizard,
+  type PhWizardEvent,
+  type PostApplicationChecklist,
+  type PhWizardState
+} from "../domain/phWizard";
+import {
+  getChlorineProductIssue,
+  getPresentationDoseUnit,
+  getPresentationLabel,
+  getProductRoleLabel,
+  PRODUCT_ROLES,
+  resolveSessionProduct
+} from "../domain/products";
+import { buildCheckMomentReminders, buildWaitReminders } from "../domain/reminders";
+import {
+  applySessionEdit,
+  DEFAULT_REVISION_AUTHOR,
+  getSessionFieldLabel,
+  type SessionEdit
+} from "../domain/sessionEdit";
+import type { SessionCountSummary, SessionQuery } from "../domain/sessionQuery";
+import {
+  buildExportFileName,
+  buildSessionExportDocument,
+  sessionsToCsv
+} from "../domain/sessionExport";
+import {
+  estimateTopUpEffect,
+  evaluateEvaporation,
+  MAX_EVAPORATION_CM_PER_DAY,
+  type EvaporationCheck
+} from "../domain/topUp";
+import {
+  formatConcentration,
+  formatDose,
+  formatHeight,
+  formatQuantity,
+  formatVolume,
+  fromDisplayHeight,
+  fromDisplayLength,
+  fromDisplayTemperature,
+  toConcentrationPct,
+  toDisplayHeight,
+  toDisplayLength,
+  toDisplayTemperature
+} from "../domain/units";
+import type {
+  CalculationTrace,
+  ChemicalProduct,
+  ChemicalUnit,
+  CheckMoment,
+  IntensiveCycle,
+  IntensiveCycleSummary,
+  PoolConfig,
+  PoolDimensions,
+  PoolShape,
+  ProductPresentation,
+  ProductRole,
+  InventoryContainer,
+  InventoryMovement,
+  Reminder,
+  ReminderKind,
+  Session,
+  SessionKind,
+  SessionRevision,
+  SessionRevisionValue,
+  UnitSystem,
+  WaterTopUp
+} from "../domain/types";
+import { validatePoolConfig, ValidationError } from "../domain/validation";
+import { CalculationTraceView } from "./CalculationTraceView";
+import { downloadTextFile } from "./download";
+import { TrendChart } from "./TrendChart";
+import {
+  areNotificationsSupported,
+  notifyRemindersUpdated,
+  requestReminderPermission
+} from "./pwa/registerSW";
 import "./App.css";
 
-type Screen = "home" | "measure" | "plan" | "history" | "settings" | "help" | "intensive-cycle";
-type MeasureMode = "plan" | "measure-only";
+type Screen =
+  | "home"
+  | "measure"
+  | "plan"
+  | "history"
+  | "settings"
+  | "backup"
+  | "products"
+  | "inventory"
+  | "edit-session"
+  | "trends"
+  | "top-up"
+  | "help"
+  | "intensive-cycle";
+type MeasureMode = "plan" | "measure-only" | "shock";
 
 interface MeasureDraft {
   mode: MeasureMode;
   waterHeightCm: number | null;
   measuredPh: number | null;
   measuredChlorinePpm: number | null;
+  measuredTotalChlorinePpm: number | null;
+  measuredAlkalinityPpm: number | null;
+  measuredCyaPpm: number | null;
+  measuredCalciumHardnessPpm: number | null;
+  measuredTdsPpm: number | null;
+  waterTemperatureC: number | null;
   checkMoment: CheckMoment;
+  coverOn: boolean;
   notes: string;
   waitMinutes: number;
   forIntensiveCycle: boolean;
+  chlorineProductId: string | null;
+  acidProductId: string | null;
 }
 
-interface ActionPlan {
-  volumeLitersRaw: number;
-  volumeLiters: number;
-  phStatus: "ok" | "leve" | "ajuste";
-  chlorineStatus: "ok" | "leve" | "ajuste";
-  phDirection: "down" | "up" | "none";
-  phTotal: number;
-  phStage1: number;
-  phUnit: DoseUnit;
-  chlorineMaintenance: number;
-  chlorineCorrective: number;
-  chlorineUnit: DoseUnit;
+interface ProductDraft {
+  role: ProductRole;
+  type: string;
+  concentration: number;
+  unit: ChemicalUnit;
+  presentation: ProductPresentation;
+  cyaPerFcPpm: number;
 }
 
 const WAIT_OPTIONS = [15, 30, 45, 60];
+const POOL_SHAPES: PoolShape[] = [
+  "round",
+  "rectangular",
+  "oval",
+  "sloped-rectangular",
+  "sloped-oval"
+];
+// Claves de versiones anteriores: al cargar se migran a la tabla de ciclos intensivos.
 const INTENSIVE_STATE_KEY = "piscina-intensive-cycle-v1";
 const INTENSIVE_SUMMARY_KEY = "piscina-intensive-summary-v1";
 
-interface IntensiveCycleState {
+interface PendingBackupImport {
+  document: BackupDocument;
+  issues: BackupIssue[];
+  plan: BackupImportPlan;
+}
+
+interface LegacyIntensiveCycleState {
   active: boolean;
   reason: string;
   startedAtIso: string | null;
 }
 
-interface IntensiveCycleSummary {
+interface LegacyIntensiveCycleSummary extends IntensiveCycleSummary {
   closedAtIso: string;
   reason: string;
-  nightsEvaluated: number;
-  avgOvernightLossPpm: number;
-  lastOvernightLossPpm: number;
-  recommendation: string;
 }
 
-function createDefaultIntensiveCycleState(): IntensiveCycleState {
-  return {
-    active: false,
-    reason: "",
-    startedAtIso: null
-  };
+// El resumen guardado no tenia fecha de inicio: el ciclo migrado empieza y termina al cierre.
+function readLegacyIntensiveCycles(config: PoolConfig): IntensiveCycle[] {
+  const cycles: IntensiveCycle[] = [];
+
+  const rawState = localStorage.getItem(INTENSIVE_STATE_KEY);
+  if (rawState) {
+    const parsed = JSON.parse(rawState) as Partial<LegacyIntensiveCycleState>;
+    if (parsed.active && typeof parsed.startedAtIso === "string") {
+      cycles.push(
+        createIntensiveCycle(
+          crypto.randomUUID(),
+          config,
+          typeof parsed.reason === "string" && parsed.reason.trim()
+            ? parsed.reason
+            : "ciclo intensivo",
+          parsed.startedAtIso
+        )
+      );
+    }
+  }
+
+  const rawSummary = localStorage.getItem(INTENSIVE_SUMMARY_KEY);
+  if (rawSummary) {
+    const parsed = JSON.parse(rawSummary) as Partial<LegacyIntensiveCycleSummary>;
+    if (
+      typeof parsed.closedAtIso === "string" &&
+      typeof parsed.reason === "string" &&
+      typeof parsed.nightsEvaluated === "number" &&
+      typeof parsed.avgOvernightLossPpm === "number" &&
+      typeof parsed.lastOvernightLossPpm === "number" &&
+      typeof parsed.recommendation === "string"
+    ) {
+      cycles.push({
+        ...createIntensiveCycle(
+          crypto.randomUUID(),
+          config,
+          parsed.reason.trim() ? parsed.reason : "ciclo intensivo",
+          parsed.closedAtIso
+        ),
+        closedAt: parsed.closedAtIso,
+        summary: {
+          nightsEvaluated: parsed.nightsEvaluated,
+          avgOvernightLossPpm: parsed.avgOvernightLossPpm,
+          lastOvernightLossPpm: parsed.lastOvernightLossPpm,
+          recommendation: parsed.recommendation
+        }
+      });
+    }
+  }
+
+  return cycles;
+}
+
+function formatIntensiveCycleOutcome(cycle: IntensiveCycle): string {
+  if (cycle.closedAt) {
+    return `Cerrado ${new Date(cycle.closedAt).toLocaleString()}`;
+  }
+  if (cycle.cancelledAt) {
+    return `Cancelado ${new Date(cycle.cancelledAt).toLocaleString()}`;
+  }
+  return "Activo";
 }
 
 function createDraft(config: PoolConfig | null): MeasureDraft {
@@ -84,56 +287,209 @@ function createDraft(config: PoolConfig | null): MeasureDraft {
     waterHeightCm: config?.pool.maxHeightCm ?? null,
     measuredPh: null,
     measuredChlorinePpm: null,
+    measuredTotalChlorinePpm: null,
+    measuredAlkalinityPpm: null,
+    measuredCyaPpm: null,
+    measuredCalciumHardnessPpm: null,
+    measuredTdsPpm: null,
+    waterTemperatureC: null,
     checkMoment: "start-day",
+    coverOn: config?.chemistry.usesCover ?? false,
     notes: "",
     waitMinutes: config?.workflow.defaultWaitMinutes ?? 45,
-    forIntensiveCycle: false
+    forIntensiveCycle: false,
+    chlorineProductId: null,
+    acidProductId: null
+  };
+}
+
+interface RestockDraft {
+  productId: string;
+  quantity: number | null;
+  price: number | null;
+  opened: boolean;
+}
+
+function createRestockDraft(productId = ""): RestockDraft {
+  return {
+    productId,
+    quantity: null,
+    price: null,
+    opened: false
+  };
+}
+
+interface WaterTopUpDraft {
+  heightBeforeCm: number | null;
+  heightAfterCm: number | null;
+  notes: string;
+}
+
+function createWaterTopUpDraft(config: PoolConfig | null): WaterTopUpDraft {
+  return {
+    heightBeforeCm: null,
+    heightAfterCm: config?.pool.maxHeightCm ?? null,
+    notes: ""
+  };
+}
+
+interface SessionEditDraft {
+  sessionId: string;
+  waterHeightCm: number | null;
+  measuredPh: number | null;
+  measuredChlorinePpm: number | null;
+  measuredTotalChlorinePpm: number | null;
+  measuredAlkalinityPpm: number | null;
+  measuredCyaPpm: number | null;
+  notes: string;
+  author: string;
+}
+
+function createSessionEditDraft(session: Session, author: string): SessionEditDraft {
+  return {
+    sessionId: session.id,
+    waterHeightCm: session.waterHeightCm,
+    measuredPh: session.measuredPh,
+    measuredChlorinePpm: session.measuredChlorinePpm,
+    measuredTotalChlorinePpm: session.measuredTotalChlorinePpm ?? null,
+    measuredAlkalinityPpm: session.measuredAlkalinityPpm ?? null,
+    measuredCyaPpm: session.measuredCyaPpm ?? null,
+    notes: session.notes ?? "",
+    author
+  };
+}
+
+interface HistoryFilters {
+  kind: SessionKind | "all";
+  checkMoment: CheckMoment | "all";
+  fromDate: string;
+  toDate: string;
+  hadDose: boolean;
+  outOfRange: boolean;
+}
+
+function createHistoryFilters(): HistoryFilters {
+  return {
+    kind: "all",
+    checkMoment: "all",
+    fromDate: "",
+    toDate: "",
+    hadDose: false,
+    outOfRange: false
+  };
+}
+
+// Las fechas del filtro son dias locales completos.
+function buildHistoryQuery(filters: HistoryFilters, cursor: string | null = null): SessionQuery {
+  return {
+    from: filters.fromDate ? new Date(`${filters.fromDate}T00:00:00`).toISOString() : undefined,
+    to: filters.toDate ? new Date(`${filters.toDate}T23:59:59.999`).toISOString() : undefined,
+    kinds: filters.kind === "all" ? undefined : [filters.kind],
+    checkMoments: filters.checkMoment === "all" ? undefined : [filters.checkMoment],
+    hadDose: filters.hadDose ? true : undefined,
+    outOfRange: filters.outOfRange ? true : undefined,
+    cursor
+  };
+}
+
+function getSessionKindLabel(kind: SessionKind | undefined): string {
+  if (kind === "intensive-cycle") {
+    return "Ciclo intensivo";
+  }
+  if (kind === "check") {
+    return "Medicion";
+  }
+  if (kind === "shock") {
+    return "Supercloracion";
+  }
+  return "Plan de accion";
+}
+
+function formatRevisionValue(value: SessionRevisionValue): string {
+  return value === null || value === "" ? "-" : String(value);
+}
+
+const CHECKLIST_ITEMS: { key: keyof PostApplicationChecklist; label: string }[] = [
+  { key: "pumpOn", label: "Bomba encendida durante la aplicacion" },
+  { key: "dilutedCorrectly", label: "Producto diluido antes de aplicar" },
+  { key: "perimeterApplication", label: "Aplicado repartido en el perimetro" },
+  { key: "waitRespected", label: "Pausa respetada antes de re-medir" }
+];
+
+function createChecklistDraft(): PostApplicationChecklist {
+  return {
+    pumpOn: false,
+    dilutedCorrectly: false,
+    perimeterApplication: false,
+    waitRespected: false
+  };
+}
+
+function createProductDraft(): ProductDraft {
+  return {
+    role: "chlorine",
+    type: "",
+    concentration: 5,
+    unit: "%",
+    presentation: "liquid-ml",
+    cyaPerFcPpm: 0
   };
 }
 
 function getMeasureModeLabel(mode: MeasureMode): string {
+  if (mode === "shock") {
+    return "Supercloracion (shock)";
+  }
   return mode === "measure-only" ? "Medicion fuera de ciclo" : "Medicion + plan de accion";
 }
 
-function normalizeConfig(loaded: PoolConfig | undefined): PoolConfig {
-  if (!loaded) {
-    return defaultPoolConfig;
-  }
+function changePoolShape(pool: PoolDimensions, shape: PoolShape): PoolDimensions {
+  const lengthM = pool.shape === "round" ? pool.diameterM : pool.lengthM;
+  const widthM = pool.shape === "round" ? pool.diameterM : pool.widthM;
+  const referenceDepthCm = pool.maxHeightCm ?? 76;
 
+  if (shape === "round") {
+    return { shape, diameterM: lengthM, maxHeightCm: pool.maxHeightCm };
+  }
+  if (shape === "rectangular" || shape === "oval") {
+    return { shape, lengthM, widthM, maxHeightCm: pool.maxHeightCm };
+  }
   return {
-    ...defaultPoolConfig,
-    ...loaded,
-    pool: {
-      ...defaultPoolConfig.pool,
-      ...loaded.pool
-    },
-    chlorineProduct: {
-      ...defaultPoolConfig.chlorineProduct,
-      ...loaded.chlorineProduct
-    },
-    acidProduct: {
-      ...defaultPoolConfig.acidProduct,
-      ...loaded.acidProduct
-    },
-    phUpProduct: {
-      ...defaultPoolConfig.phUpProduct,
-      ...loaded.phUpProduct
-    },
-    chemistry: {
-      ...defaultPoolConfig.chemistry,
-      ...loaded.chemistry
-    },
-    workflow: {
-      ...defaultPoolConfig.workflow,
-      ...loaded.workflow
-    },
-    targets: {
-      ...defaultPoolConfig.targets,
-      ...loaded.targets
-    }
+    shape,
+    lengthM,
+    widthM,
+    shallowDepthCm:
+      pool.shape === "sloped-rectangular" || pool.shape === "sloped-oval"
+        ? pool.shallowDepthCm
+        : referenceDepthCm,
+    deepDepthCm:
+      pool.shape === "sloped-rectangular" || pool.shape === "sloped-oval"
+        ? pool.deepDepthCm
+        : referenceDepthCm,
+    maxHeightCm: pool.maxHeightCm
   };
 }
 
+function getPoolShapeLabel(shape: PoolShape): string {
+  if (shape === "rectangular") {
+    return "Rectangular";
+  }
+  if (shape === "oval") {
+    return "Ovalada";
+  }
+  if (shape === "sloped-rectangular") {
+    return "Rectangular con fondo inclinado";
+  }
+  if (shape === "sloped-oval") {
+    return "Ovalada con fondo inclinado";
+  }
+  return "Redonda";
+}
+
+function getSaveErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof ValidationError ? err.message : fallback;
+}
+
 function canComputePlan(draft: MeasureDraft, config: PoolConfig): boolean {
   return (
     draft.waterHeightCm !== null &&
@@ -141,53 +497,67 @@ function canComputePlan(draft: MeasureDraft, config: PoolConfig): boolean {
     draft.measuredChlorinePpm !== null &&
     isHeightInRange(draft.waterHeightCm, config.pool.maxHeightCm) &&
     isPhInRange(draft.measuredPh) &&
-    isChlorineInRange(draft.measuredChlorinePpm)
+    isChlorineInRange(draft.measuredChlorinePpm) &&
+    (draft.measuredTotalChlorinePpm === null ||
+      (isChlorineInRange(draft.measuredTotalChlorinePpm) &&
+        draft.measuredTotalChlorinePpm >= draft.measuredChlorinePpm)) &&
+    (draft.measuredAlkalinityPpm === null || isAlkalinityInRange(draft.measuredAlkalinityPpm)) &&
+    (draft.measuredCyaPpm === null || isCyaInRange(draft.measuredCyaPpm))
   );
 }
 
-function getPhRecommendation(
-  measuredPh: number,
-  volumeLitersRaw: number,
-  config: PoolConfig
-): { direction: "down" | "up" | "none"; total: number; stage1: number; unit: DoseUnit } {
-  if (measuredPh > config.targets.phMax) {
-    const total = calculatePhCorrectionMl(
-      measuredPh,
-      volumeLitersRaw,
-      config.acidProduct.concentration,
-      config.targets.phMax,
-      config.chemistry.estimatedAlkalinityPpm
-    );
-    return {
-      direction: "down",
-      total,
-      stage1: total * 0.5,
-      unit: "ml"
-    };
+function toHeightInput(heightCm: number, system: UnitSystem): number {
+  return toFixedNumber(toDisplayHeight(heightCm, system).value, 1);
+}
+
+function toLengthInput(lengthM: number, system: UnitSystem): number {
+  return toFixedNumber(toDisplayLength(lengthM, system).value, 2);
+}
+
+function formatBackupCounts(counts: BackupRecordCounts): string {
+  return `${counts.added} nuevos, ${counts.updated} actualizados, ${counts.kept} sin cambios, ${counts.removed} eliminados`;
+}
+
+function getCyaSourceLabel(source: CyaSource): string {
+  return source === "measured" ? "medido" : "estimado";
+}
+
+function formatOvernightLossCriterion(
+  maxOvernightLossPpm: number,
+  coverFactor: number | null
+): string {
+  const uncovered = `<= ${maxOvernightLossPpm} ppm por noche`;
+  if (coverFactor === null) {
+    return uncovered;
   }
+  const covered = getOvernightLossThreshold(maxOvernightLossPpm, true, coverFactor);
+  return `${uncovered}, ${toFixedNumber(covered, 2)} ppm con cobertor`;
+}
 
-  if (measuredPh < config.targets.phMin && config.phUpProduct.enabled) {
-    const total = calculatePhRaiseDose(
-      measuredPh,
-      volumeLitersRaw,
-      config.phUpProduct.concentration,
-      config.targets.phMin,
-      config.phUpProduct.referenceDoseGPerPointPer10kL
-    );
-    return {
-      direction: "up",
-      total,
-      stage1: total * 0.5,
-      unit: "g"
-    };
+function formatEvaporation(check: EvaporationCheck, unitSystem: UnitSystem): string {
+  const rate = formatQuantity(toDisplayHeight(check.rateCmPerDay, unitSystem), 1);
+  const max = formatQuantity(toDisplayHeight(MAX_EVAPORATION_CM_PER_DAY, unitSystem), 1);
+  return check.excessive
+    ? `La altura bajo ${rate}/dia desde la ultima lectura, mas que la evaporacion normal (hasta ${max}/dia). Revisa fugas o salpicaduras.`
+    : `La altura bajo ${rate}/dia desde la ultima lectura, dentro de la evaporacion normal.`;
+}
+
+function formatStockWarning(
+  warning: StockWarning,
+  productName: string,
+  unitSystem: UnitSystem
+): string {
+  const remaining = formatDose(toFixedNumber(warning.remaining, 0), warning.unit, unitSystem);
+  if (warning.kind === "plan") {
+    return `${productName}: la dosis del plan (${formatDose(toFixedNumber(warning.required, 0), warning.unit, unitSystem)}) supera el stock (${remaining}).`;
   }
+  return `${productName}: quedan ${remaining}, alcanza para ~${toFixedNumber(warning.daysLeft ?? 0, 1)} dias al consumo actual.`;
+}
 
-  return {
-    direction: "none",
-    total: 0,
-    stage1: 0,
-    unit: "ml"
-  };
+function formatProductLabel(
+  product: Pick<ChemicalProduct, "type" | "concentration" | "unit" | "presentation">
+): string {
+  return `${product.type} ${formatConcentration(product.concentration, product.unit)} (${getPresentationLabel(product.presentation)})`;
 }
 
 function statusTone(value: "ok" | "leve" | "ajuste"): string {
@@ -200,6 +570,23 @@ function statusTone(value: "ok" | "leve" | "ajuste"): string {
   return "status-danger";
 }
 
+function DoseSafetyNotes({ decisions }: { decisions: DoseDecision[] }) {
+  return (
+    <>
+      {decisions.flatMap((decision) =>
+        decision.violations.map((violation) => (
+          <p
+            className={`status-pill ${decision.status === "blocked" ? "status-danger" : "status-warn"}`}
+            key={`${decision.chemical}-${violation.rule}-${violation.message}`}
+          >
+            {violation.message}
+          </p>
+        ))
+      )}
+    </>
+  );
+}
+
 function getLegacyPhTotal(session: Session): number {
   const legacy = session.requiredPhCorrection as unknown as { totalMl?: number; total?: number };
   return typeof legacy.total === "number" ? legacy.total : legacy.totalMl ?? 0;
@@ -228,6 +615,7 @@ function getLegacyChlorineCorrective(session: Session): number {
 
 export function App() {
   const [config, setConfig] = useState<PoolConfig | null>(null);
+  const [pools, setPools] = useState<PoolConfig[]>([]);
   const [settingsDraft, setSettingsDraft] = useState<PoolConfig | null>(null);
   const [draft, setDraft] = useState<MeasureDraft>(() => createDraft(null));
   const [screen, setScreen] = useState<Screen>("home");
@@ -235,67 +623,79 @@ export function App() {
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [intensiveCycle, setIntensiveCycle] = useState<IntensiveCycleState>(
-    createDefaultIntensiveCycleState
-  );
+  const [intensiveCycles, setIntensiveCycles] = useState<IntensiveCycle[]>([]);
   const [intensiveReasonDraft, setIntensiveReasonDraft] = useState("cambio a dicloro");
-  const [intensiveSummary, setIntensiveSummary] = useState<IntensiveCycleSummary | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<PendingBackupImport | null>(null);
+  const [products, setProducts] = useState<ChemicalProduct[]>([]);
+  const [productDraft, setProductDraft] = useState<ProductDraft>(() => createProductDraft());
+  const [phWizard, setPhWizard] = useState<PhWizardState>(() =>
+    createPhWizard(defaultPoolConfig.workflow.defaultWaitMinutes)
+  );
+  const [intermediatePhDraft, setIntermediatePhDraft] = useState<number | null>(null);
+  const [checklistDraft, setChecklistDraft] =
+    useState<PostApplicationChecklist>(createChecklistDraft);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [inventory, setInventory] = useState<InventoryContainer[]>([]);
+  const [inventoryMovements, setInventoryMovements] = useState<InventoryMovement[]>([]);
+  const [restockDraft, setRestockDraft] = useState<RestockDraft>(() => createRestockDraft());
+  const [stockNotice, setStockNotice] = useState<string | null>(null);
+  const [sessionEditDraft, setSessionEditDraft] = useState<SessionEditDraft | null>(null);
+  const [sessionRevisions, setSessionRevisions] = useState<SessionRevision[]>([]);
+  const [revisionAuthor, setRevisionAuthor] = useState(DEFAULT_REVISION_AUTHOR);
+  const [pendingDeleteSessionId, setPendingDeleteSessionId] = useState<string | null>(null);
+  const [topUps, setTopUps] = useState<WaterTopUp[]>([]);
+  const [topUpDraft, setTopUpDraft] = useState<WaterTopUpDraft>(() => createWaterTopUpDraft(null));
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(() =>
+    createHistoryFilters()
+  );
+  const [historyItems, setHistoryItems] = useState<Session[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historySummary, setHistorySummary] = useState<SessionCountSummary | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<
+    NotificationPermission | "unsupported"
+  >(() => (areNotificationsSupported() ? Notification.permission : "unsupported"));
 
   useEffect(() => {
     void (async () => {
       setLoading(true);
       try {
         const loaded = await configRepo.load();
-        const nextConfig = normalizeConfig(loaded);
+        const nextConfig = normalizePoolConfig(loaded);
         if (!loaded) {
           await configRepo.save(nextConfig);
         }
 
-        const loadedSessions = await sessionRepo.list();
+        await productRepo.seedFromConfig(nextConfig);
+        const loadedPools = await configRepo.list();
+        const loadedSessions = await sessionRepo.list(nextConfig.id);
+        setPools(loadedPools.length > 0 ? loadedPools : [nextConfig]);
+        setProducts(await productRepo.list());
+        setInventory(await inventoryRepo.listContainers());
+        setInventoryMovements(await inventoryRepo.listMovements());
         setConfig(nextConfig);
         setSettingsDraft(nextConfig);
         setDraft(createDraft(nextConfig));
         setSessions(loadedSessions);
+        setTopUps(await topUpRepo.list(nextConfig.id));
+        setReminders(await reminderRepo.listPending(nextConfig.id));
 
+        let legacyCycles: IntensiveCycle[] = [];
         try {
-          const rawIntensive = localStorage.getItem(INTENSIVE_STATE_KEY);
-          if (rawIntensive) {
-            const parsed = JSON.parse(rawIntensive) as Partial<IntensiveCycleState>;
-            setIntensiveCycle({
-              active: Boolean(parsed.active),
-              reason: typeof parsed.reason === "string" ? parsed.reason : "",
-              startedAtIso: typeof parsed.startedAtIso === "string" ? parsed.startedAtIso : null
-            });
-          }
+          legacyCycles = readLegacyIntensiveCycles(nextConfig);
         } catch {
-          localStorage.removeItem(INTENSIVE_STATE_KEY);
+          // Un estado anterior ilegible se descarta igual que antes.
         }
-
         try {
-          const rawSummary = localStorage.getItem(INTENSIVE_SUMMARY_KEY);
-          if (rawSummary) {
-            const parsed = JSON.parse(rawSummary) as Partial<IntensiveCycleSummary>;
-            if (
-              typeof parsed.closedAtIso === "string" &&
-              typeof parsed.reason === "string" &&
-              typeof parsed.nightsEvaluated === "number" &&
-              typeof parsed.avgOvernightLossPpm === "number" &&
-              typeof parsed.lastOvernightLossPpm === "number" &&
-              typeof parsed.recommendation === "string"
-            ) {
-              setIntensiveSummary({
-                closedAtIso: parsed.closedAtIso,
-                reason: parsed.reason,
-                nightsEvaluated: parsed.nightsEvaluated,
-                avgOvernightLossPpm: parsed.avgOvernightLossPpm,
-                lastOvernightLossPpm: parsed.lastOvernightLossPpm,
-                recommendation: parsed.recommendation
-              });
-            }
-          }
-        } catch {
+          await intensiveCycleRepo.saveAll(legacyCycles);
+          localStorage.removeItem(INTENSIVE_STATE_KEY);
           localStorage.removeItem(INTENSIVE_SUMMARY_KEY);
+        } catch (err) {
+          // Se conserva el estado anterior para reintentar la migracion en la proxima carga.
+          setError(
+            getSaveErrorMessage(err, "No se pudieron migrar los ciclos intensivos anteriores.")
+          );
         }
+        setIntensiveCycles(await intensiveCycleRepo.list(nextConfig.id));
       } catch {
         setError("No se pudieron cargar los datos locales.");
       } finally {
@@ -304,53 +704,247 @@ export function App() {
     })();
   }, []);
 
-  useEffect(() => {
-    localStorage.setItem(INTENSIVE_STATE_KEY, JSON.stringify(intensiveCycle));
-  }, [intensiveCycle]);
+  const cyaEstimate = useMemo(
+    () =>
+      config
+        ? estimateCyaPpm(sessions, config, topUps)
+        : { ppm: 0, source: "none" as const, measuredAt: null, addedSinceMeasurementPpm: 0 },
+    [config, sessions, topUps]
+  );
 
+  const cyaTargetConfig = useMemo(
+    () => (config ? applyCyaChlorineTargets(config, cyaEstimate.ppm) : null),
+    [config, cyaEstimate]
+  );
+
+  // Se recarga la primera pagina al abrir el historial, cambiar filtros o guardar sesiones.
+  // "Fuera de rango" usa los mismos objetivos ajustados por CYA que el plan y las tendencias.
   useEffect(() => {
-    if (!intensiveSummary) {
-      localStorage.removeItem(INTENSIVE_SUMMARY_KEY);
+    if (screen !== "history" || !config || !cyaTargetConfig) {
       return;
     }
-    localStorage.setItem(INTENSIVE_SUMMARY_KEY, JSON.stringify(intensiveSummary));
-  }, [intensiveSummary]);
+
+    let cancelled = false;
+    void (async () => {
+      try {
+        const query = buildHistoryQuery(historyFilters);
+        const [page, summary] = await Promise.all([
+          sessionRepo.query(config.id, query, cyaTargetConfig),
+          sessionRepo.count(config.id, query, cyaTargetConfig)
+        ]);
+        if (!cancelled) {
+          setHistoryItems(page.items);
+          setHistoryCursor(page.nextCursor);
+          setHistorySummary(summary);
+        }
+      } catch {
+        if (!cancelled) {
+          setError("No se pudo cargar el historial.");
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [config, cyaTargetConfig, historyFilters, screen, sessions]);
+
+  const chlorineProductIssue = useMemo(
+    () =>
+      config
+        ? getChlorineProductIssue(
+            resolveSessionProduct(products, draft.chlorineProductId, "chlorine", config)
+          )
+        : null,
+    [config, draft.chlorineProductId, products]
+  );
 
   const plan = useMemo<ActionPlan | null>(() => {
-    if (!config || !canComputePlan(draft, config)) {
+    if (!config || !canComputePlan(draft, config) || chlorineProductIssue) {
       return null;
     }
 
-    const volumeLitersRaw = calculateVolumeLiters(config.pool.diameterM, draft.waterHeightCm!);
-    const phPlan = getPhRecommendation(draft.measuredPh!, volumeLitersRaw, config);
-    const chlorineDose = calculateChlorineDose(
-      draft.measuredChlorinePpm!,
-      volumeLitersRaw,
-      config.chlorineProduct.concentration,
-      config.chlorineProduct.presentation,
-      config.targets.chlorineMinPpm,
-      config.targets.chlorineMaxPpm
+    return buildActionPlan(
+      {
+        waterHeightCm: draft.waterHeightCm!,
+        measuredPh: draft.measuredPh!,
+        measuredChlorinePpm: draft.measuredChlorinePpm!,
+        measuredAlkalinityPpm: draft.measuredAlkalinityPpm ?? undefined,
+        measuredCyaPpm: draft.measuredCyaPpm ?? undefined,
+        measuredCalciumHardnessPpm: draft.measuredCalciumHardnessPpm ?? undefined,
+        measuredTdsPpm: draft.measuredTdsPpm ?? undefined,
+        waterTemperatureC: draft.waterTemperatureC ?? undefined
+      },
+      config,
+      {
+        chlorine: resolveSessionProduct(products, draft.chlorineProductId, "chlorine", config),
+        acid: resolveSessionProduct(products, draft.acidProductId, "acid", config),
+        phUp: resolveSessionProduct(products, null, "ph-up", config)
+      },
+      { sessions, topUps, now: new Date() }
     );
+  }, [chlorineProductIssue, config, draft, products, sessions, topUps]);
 
-    return {
-      volumeLitersRaw,
-      volumeLiters: toFixedNumber(volumeLitersRaw, 0),
-      phStatus: classifyPh(draft.measuredPh!, config),
-      chlorineStatus: classifyChlorine(draft.measuredChlorinePpm!, config),
-      phDirection: phPlan.direction,
-      phTotal: toFixedNumber(phPlan.total, 0),
-      phStage1: toFixedNumber(phPlan.stage1, 0),
-      phUnit: phPlan.unit,
-      chlorineMaintenance: toFixedNumber(chlorineDose.maintenance, 0),
-      chlorineCorrective: toFixedNumber(chlorineDose.corrective, 0),
-      chlorineUnit: chlorineDose.unit
-    };
-  }, [config, draft]);
+  const phStage2 = useMemo<{
+    value: number;
+    trace: CalculationTrace | null;
+    safety?: DoseDecision;
+  } | null>(() => {
+    if (!config || !plan || phWizard.measuredPhIntermediate === null) {
+      return null;
+    }
+
+    if (plan.phDirection !== "down" || !plan.phProduct) {
+      return { value: toFixedNumber(getRemainingPhDose(phWizard), 0), trace: null };
+    }
+
+    const { value, trace } = calculatePhStage2MlTraced(
+      draft.measuredPh!,
+      phWizard.measuredPhIntermediate,
+      plan.phStage1,
+      plan.volumeLitersRaw,
+      toConcentrationPct(plan.phProduct.concentration, plan.phProduct.unit),
+      config.targets.phMin,
+      config.targets.phMax,
+      plan.alkalinityPpm
+    );
+    // La etapa 1 de esta sesion aun no esta guardada: el historial solo aporta dosis anteriores.
+    const [decision] = evaluateDoseSafety([{ chemical: "acid", amount: value, unit: "ml" }], {
+      volumeLiters: plan.volumeLitersRaw,
+      capacityLiters: plan.capacityLiters,
+      now: new Date(),
+      sessions,
+      limits: plan.doseLimits
+    });
+    return { value: toFixedNumber(decision.allowed, 0), trace, safety: decision };
+  }, [config, draft.measuredPh, phWizard, plan, sessions]);
+
+  const shockPlan = useMemo(() => {
+    if (!plan || draft.mode !== "shock" || draft.measuredTotalChlorinePpm === null) {
+      return null;
+    }
+
+    return buildShockPlan(plan, draft.measuredChlorinePpm!, draft.measuredTotalChlorinePpm, {
+      sessions,
+      now: new Date()
+    });
+  }, [draft.measuredChlorinePpm, draft.measuredTotalChlorinePpm, draft.mode, plan, sessions]);
+
+  const shockReentry = useMemo(
+    () =>
+      evaluateShockReentry(
+        sessions,
+        config ? applyCyaChlorineTargets(config, cyaEstimate.ppm).targets.chlorineMaxPpm : 0
+      ),
+    [config, cyaEstimate, sessions]
+  );
+
+  const plannedUsage = useMemo<ProductUsage[]>(() => {
+    if (!plan) {
+      return [];
+    }
+    if (shockPlan) {
+      return [
+        { productId: plan.chlorineProduct.id, amount: shockPlan.amount, unit: shockPlan.unit }
+      ];
+    }
+
+    const usage: ProductUsage[] = [
+      {
+        productId: plan.chlorineProduct.id,
+        amount: plan.chlorineCorrective,
+        unit: plan.chlorineUnit
+      }
+    ];
+    if (plan.phProduct) {
+      usage.push({ productId: plan.phProduct.id, amount: plan.phTotal, unit: plan.phUnit });
+    }
+    if (plan.alkalinityDirection === "down") {
+      usage.push({
+        productId: plan.acidProduct.id,
+        amount: plan.alkalinityDose,
+        unit: plan.alkalinityUnit
+      });
+    }
+    return usage;
+  }, [plan, shockPlan]);
+
+  const stockWarnings = useMemo(
+    () => getStockWarnings(inventory, sessions, plannedUsage, new Date()),
+    [inventory, plannedUsage, sessions]
+  );
+
+  const chlorineForecast = useMemo(
+    () =>
+      cyaTargetConfig
+        ? forecastChlorine(
+            sessions,
+            cyaTargetConfig,
+            new Date(),
+            topUps,
+            resolveSessionProduct(products, draft.chlorineProductId, "chlorine", cyaTargetConfig)
+          )
+        : null,
+    [cyaTargetConfig, draft.chlorineProductId, products, sessions, topUps]
+  );
+
+  const analytics = useMemo(
+    () => (cyaTargetConfig ? analyzeSessions(sessions, cyaTargetConfig) : null),
+    [cyaTargetConfig, sessions]
+  );
 
   const latest = sessions[0];
-  const intensiveSessions = useMemo(() => getIntensiveSessions(sessions), [sessions]);
+
+  // Vista previa del llenado sobre el estado esperado actual del agua.
+  const topUpPreview = useMemo(() => {
+    if (
+      !config ||
+      topUpDraft.heightBeforeCm === null ||
+      topUpDraft.heightAfterCm === null ||
+      topUpDraft.heightAfterCm <= topUpDraft.heightBeforeCm
+    ) {
+      return null;
+    }
+
+    const draftTopUp = {
+      timestamp: new Date().toISOString(),
+      heightBeforeCm: topUpDraft.heightBeforeCm,
+      heightAfterCm: topUpDraft.heightAfterCm
+    };
+    return {
+      effect: estimateTopUpEffect(config.pool, draftTopUp, {
+        chlorinePpm: chlorineForecast?.currentPpm ?? latest?.measuredChlorinePpm ?? null,
+        cyaPpm: cyaEstimate.source === "none" ? null : cyaEstimate.ppm,
+        alkalinityPpm: getEffectiveAlkalinityPpm(sessions, config, topUps)
+      }),
+      evaporation: evaluateEvaporation(draftTopUp, sessions, topUps)
+    };
+  }, [chlorineForecast, config, cyaEstimate, latest, sessions, topUpDraft, topUps]);
+  const chlorineProducts = products.filter((product) => product.role === "chlorine");
+  const acidProducts = products.filter((product) => product.role === "acid");
+  const activeIntensiveCycle = useMemo(
+    () => getActiveIntensiveCycle(intensiveCycles),
+    [intensiveCycles]
+  );
+  const lastClosedIntensiveCycle = useMemo(
+    () => getLastClosedIntensiveCycle(intensiveCycles),
+    [intensiveCycles]
+  );
+  const intensiveSessions = useMemo(
+    () => getIntensiveSessions(sessions, activeIntensiveCycle),
+    [activeIntensiveCycle, sessions]
+  );
+  const coverComparison = useMemo(
+    () =>
+      compareOvernightLossByCover(
+        buildOvernightPairs(
+          sessions.slice().sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+          config?.chemistry.usesCover ?? false
+        )
+      ),
+    [config, sessions]
+  );
   const intensiveStats = useMemo(() => {
-    if (!config) {
+    if (!config || !activeIntensiveCycle) {
       return {
         nightCount: 0,
         overnightPairs: [],
@@ -361,82 +955,466 @@ export function App() {
 
     return evaluateIntensiveCycle(
       intensiveSessions,
-      config.workflow.intensiveMinNights,
-      config.workflow.intensiveMaxOvernightLossPpm,
+      activeIntensiveCycle.minNights,
+      activeIntensiveCycle.maxOvernightLossPpm,
       config.targets.chlorineMinPpm,
-      config.targets.chlorineMaxPpm
+      config.targets.chlorineMaxPpm,
+      config.chemistry.usesCover,
+      coverComparison.coverFactor
     );
-  }, [config, intensiveSessions]);
+  }, [activeIntensiveCycle, config, coverComparison, intensiveSessions]);
 
-  async function refreshSessions(): Promise<void> {
-    const updated = await sessionRepo.list();
+  async function refreshSessions(poolId: string): Promise<void> {
+    const updated = await sessionRepo.list(poolId);
     setSessions(updated);
   }
 
-  async function saveMeasureOnly(): Promise<void> {
-    if (!config || !plan || saving) {
+  async function openSessionEdit(session: Session): Promise<void> {
+    try {
+      setError(null);
+      setSessionRevisions(await sessionRepo.listRevisions(session.id));
+      setSessionEditDraft(createSessionEditDraft(session, revisionAuthor));
+      setPendingDeleteSessionId(null);
+      setScreen("edit-session");
+    } catch {
+      setError("No se pudo abrir la sesion.");
+    }
+  }
+
+  async function saveSessionEdit(): Promise<void> {
+    const session = sessions.find((item) => item.id === sessionEditDraft?.sessionId);
+    if (!config || !sessionEditDraft || !session || saving) {
       return;
     }
 
+    if (
+      sessionEditDraft.waterHeightCm === null ||
+      sessionEditDraft.measuredPh === null ||
+      sessionEditDraft.measuredChlorinePpm === null
+    ) {
+      setError("Completa altura, pH y cloro de la sesion.");
+      return;
+    }
+
+    const edit: SessionEdit = {
+      waterHeightCm: sessionEditDraft.waterHeightCm,
+      measuredPh: sessionEditDraft.measuredPh,
+      measuredChlorinePpm: sessionEditDraft.measuredChlorinePpm,
+      measuredTotalChlorinePpm: sessionEditDraft.measuredTotalChlorinePpm ?? undefined,
+      measuredAlkalinityPpm: sessionEditDraft.measuredAlkalinityPpm ?? undefined,
+      measuredCyaPpm: sessionEditDraft.measuredCyaPpm ?? undefined,
+      notes: sessionEditDraft.notes
+    };
+
     setSaving(true);
     setError(null);
     try {
-      const isIntensiveMeasurement = intensiveCycle.active && draft.forIntensiveCycle;
-      const session: Session = {
+      const updated = applySessionEdit(session, edit, config, sessions, topUps);
+      await sessionRepo.update(updated, sessionEditDraft.author);
+      setRevisionAuthor(sessionEditDraft.author.trim() || DEFAULT_REVISION_AUTHOR);
+      await refreshSessions(config.id);
+      await refreshInventory();
+      setSessionEditDraft(null);
+      setScreen("history");
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo guardar la correccion de la sesion."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveTopUp(): Promise<void> {
+    if (!config || saving) {
+      return;
+    }
+    if (topUpDraft.heightBeforeCm === null || topUpDraft.heightAfterCm === null) {
+      setError("Completa la altura antes y despues del llenado.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await topUpRepo.save({
         id: crypto.randomUUID(),
+        poolId: config.id,
         timestamp: new Date().toISOString(),
-        kind: isIntensiveMeasurement ? "intensive-cycle" : "check",
-        checkMoment: draft.checkMoment,
-        waterHeightCm: draft.waterHeightCm!,
-        measuredPh: draft.measuredPh!,
-        measuredChlorinePpm: draft.measuredChlorinePpm!,
-        calculatedVolumeLiters: plan.volumeLiters,
-        requiredPhCorrection: {
-          direction: "none",
-          total: 0,
-          stage1: 0,
-          unit: "ml"
-        },
-        requiredChlorineDose: {
-          maintenance: 0,
-          corrective: 0,
-          unit: plan.chlorineUnit
-        },
-        appliedDoses: {},
-        notes: draft.notes.trim() || undefined
-      };
-
-      await sessionRepo.save(session);
-      await refreshSessions();
-      setDraft(createDraft(config));
-      setScreen(isIntensiveMeasurement ? "intensive-cycle" : "home");
-    } catch {
-      setError("No se pudo guardar la medicion.");
+        heightBeforeCm: topUpDraft.heightBeforeCm,
+        heightAfterCm: topUpDraft.heightAfterCm,
+        notes: topUpDraft.notes.trim() || undefined
+      });
+      setTopUps(await topUpRepo.list(config.id));
+      setTopUpDraft(createWaterTopUpDraft(config));
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo guardar el llenado."));
     } finally {
       setSaving(false);
     }
   }
 
-  async function savePlanSession(): Promise<void> {
-    if (!config || !plan || saving) {
+  async function deleteSession(sessionId: string): Promise<void> {
+    if (!config || saving) {
       return;
     }
 
     setSaving(true);
     setError(null);
+    try {
+      await sessionRepo.remove(sessionId, revisionAuthor);
+      await refreshSessions(config.id);
+      await refreshInventory();
+      setPendingDeleteSessionId(null);
+    } catch {
+      setError("No se pudo eliminar la sesion.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function loadMoreHistory(): Promise<void> {
+    if (!config || !cyaTargetConfig || !historyCursor) {
+      return;
+    }
 
     try {
-      const isIntensiveMeasurement = intensiveCycle.active && draft.forIntensiveCycle;
-      const session: Session = {
-        id: crypto.randomUUID(),
-        timestamp: new Date().toISOString(),
-        kind: isIntensiveMeasurement ? "intensive-cycle" : "adjustment",
-        checkMoment: draft.checkMoment,
-        waterHeightCm: draft.waterHeightCm!,
-        measuredPh: draft.measuredPh!,
-        measuredChlorinePpm: draft.measuredChlorinePpm!,
-        calculatedVolumeLiters: plan.volumeLiters,
-        requiredPhCorrection: {
+      const page = await sessionRepo.query(
+        config.id,
+        buildHistoryQuery(historyFilters, historyCursor),
+        cyaTargetConfig
+      );
+      setHistoryItems((prev) => [...prev, ...page.items]);
+      setHistoryCursor(page.nextCursor);
+    } catch {
+      setError("No se pudo cargar el historial.");
+    }
+  }
+
+  async function refreshInventory(): Promise<void> {
+    setInventory(await inventoryRepo.listContainers());
+    setInventoryMovements(await inventoryRepo.listMovements());
+  }
+
+  async function reportStockShortfalls(shortfalls: ProductUsage[]): Promise<void> {
+    try {
+      await refreshInventory();
+    } catch {
+      setError("No se pudo cargar el inventario.");
+    }
+    setStockNotice(
+      shortfalls.length > 0
+        ? `Stock insuficiente: faltaron ${shortfalls
+            .map(
+              (usage) =>
+                `${formatDose(toFixedNumber(usage.amount, 0), usage.unit, config?.preferences.unitSystem ?? "metric")} de ${getProductName(usage.productId)}`
+            )
+            .join(", ")}.`
+        : null
+    );
+  }
+
+  function getProductName(productId: string): string {
+    return products.find((product) => product.id === productId)?.type ?? "producto sin catalogo";
+  }
+
+  async function registerRestock(): Promise<void> {
+    const product = products.find((item) => item.id === restockDraft.productId);
+    if (!product) {
+      setError("Elige el producto comprado.");
+      return;
+    }
+    if (restockDraft.quantity === null || restockDraft.quantity <= 0) {
+      setError("La cantidad del envase debe ser mayor que 0.");
+      return;
+    }
+    if (restockDraft.price !== null && restockDraft.price < 0) {
+      setError("El precio no puede ser negativo.");
+      return;
+    }
+
+    try {
+      setError(null);
+      const now = new Date().toISOString();
+      await inventoryRepo.restock({
+        productId: product.id,
+        quantity: restockDraft.quantity,
+        unit: getPresentationDoseUnit(product.presentation),
+        price: restockDraft.price ?? undefined,
+        purchasedAt: now,
+        openedAt: restockDraft.opened ? now : undefined
+      });
+      await refreshInventory();
+      setRestockDraft(createRestockDraft(product.id));
+    } catch {
+      setError("No se pudo registrar la compra.");
+    }
+  }
+
+  async function updateContainer(id: string, action: "open" | "discard"): Promise<void> {
+    try {
+      setError(null);
+      if (action === "open") {
+        await inventoryRepo.markOpened(id);
+      } else {
+        await inventoryRepo.discard(id);
+      }
+      await refreshInventory();
+    } catch {
+      setError("No se pudo actualizar el envase.");
+    }
+  }
+
+  async function rescheduleReminders(
+    poolId: string,
+    next: Reminder[],
+    replacedKinds: ReminderKind[]
+  ): Promise<void> {
+    try {
+      await reminderRepo.cancel(poolId, replacedKinds);
+      await reminderRepo.schedule(next);
+      setReminders(await reminderRepo.listPending(poolId));
+      notifyRemindersUpdated();
+    } catch {
+      setError("No se pudieron programar los recordatorios.");
+    }
+  }
+
+  async function enableNotifications(): Promise<void> {
+    setNotificationPermission(await requestReminderPermission());
+    notifyRemindersUpdated();
+  }
+
+  async function activatePool(poolId: string): Promise<void> {
+    try {
+      setError(null);
+      await configRepo.select(poolId);
+      const nextConfig = normalizePoolConfig(await configRepo.load(poolId));
+      setPools(await configRepo.list());
+      setConfig(nextConfig);
+      setSettingsDraft(nextConfig);
+      setDraft(createDraft(nextConfig));
+      await refreshSessions(nextConfig.id);
+      setTopUps(await topUpRepo.list(nextConfig.id));
+      setIntensiveCycles(await intensiveCycleRepo.list(nextConfig.id));
+      setReminders(await reminderRepo.listPending(nextConfig.id));
+    } catch {
+      setError("No se pudo cambiar de piscina.");
+    }
+  }
+
+  async function createPool(): Promise<void> {
+    try {
+      const created = await configRepo.create({
+        ...defaultPoolConfig,
+        name: `Piscina ${pools.length + 1}`
+      });
+      await activatePool(created.id);
+      setScreen("settings");
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo crear la piscina."));
+    }
+  }
+
+  async function archiveActivePool(): Promise<void> {
+    if (!config || pools.length <= 1) {
+      return;
+    }
+
+    try {
+      await configRepo.archive(config.id);
+      const nextActive = await configRepo.load();
+      if (nextActive) {
+        await activatePool(nextActive.id);
+      }
+      setScreen("home");
+    } catch {
+      setError("No se pudo archivar la piscina.");
+    }
+  }
+
+  function openPlan(): void {
+    if (!config || !plan) {
+      return;
+    }
+
+    // La pausa elegida puede alargar la espera de la etapa 2, nunca acortar la configurada.
+    const waitMinutes = Math.max(draft.waitMinutes, config.workflow.defaultWaitMinutes);
+    const result = transitionPhWizard(createPhWizard(waitMinutes), {
+      type: "evaluate",
+      measuredPh: draft.measuredPh!,
+      correction: {
+        direction: plan.phDirection,
+        total: plan.phTotal,
+        stage1: plan.phStage1,
+        unit: plan.phUnit
+      }
+    });
+    setPhWizard(result.state);
+    setIntermediatePhDraft(null);
+    setChecklistDraft(createChecklistDraft());
+    setScreen("plan");
+  }
+
+  function advancePhWizard(...events: PhWizardEvent[]): boolean {
+    let next = phWizard;
+    for (const event of events) {
+      const result = transitionPhWizard(next, event);
+      if (!result.ok) {
+        setError(result.reason);
+        return false;
+      }
+      next = result.state;
+    }
+    setError(null);
+    setPhWizard(next);
+    return true;
+  }
+
+  async function saveMeasureOnly(): Promise<void> {
+    if (!config || !plan || saving) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const intensiveCycleId = draft.forIntensiveCycle ? activeIntensiveCycle?.id : undefined;
+      const isIntensiveMeasurement = intensiveCycleId !== undefined;
+      const session: Session = {
+        id: crypto.randomUUID(),
+        poolId: config.id,
+        timestamp: new Date().toISOString(),
+        kind: isIntensiveMeasurement ? "intensive-cycle" : "check",
+        checkMoment: draft.checkMoment,
+        coverOn: draft.checkMoment === "night" ? draft.coverOn : undefined,
+        intensiveCycleId,
+        waterHeightCm: draft.waterHeightCm!,
+        measuredPh: draft.measuredPh!,
+        measuredChlorinePpm: draft.measuredChlorinePpm!,
+        measuredTotalChlorinePpm: draft.measuredTotalChlorinePpm ?? undefined,
+        measuredAlkalinityPpm: draft.measuredAlkalinityPpm ?? undefined,
+        measuredCyaPpm: draft.measuredCyaPpm ?? undefined,
+        measuredCalciumHardnessPpm: draft.measuredCalciumHardnessPpm ?? undefined,
+        measuredTdsPpm: draft.measuredTdsPpm ?? undefined,
+        waterTemperatureC: draft.waterTemperatureC ?? undefined,
+        calculatedVolumeLiters: plan.volumeLiters,
+        requiredPhCorrection: {
+          direction: "none",
+          total: 0,
+          stage1: 0,
+          unit: "ml"
+        },
+        requiredChlorineDose: {
+          maintenance: 0,
+          corrective: 0,
+          unit: plan.chlorineUnit
+        },
+        appliedDoses: {},
+        notes: draft.notes.trim() || undefined
+      };
+
+      await reportStockShortfalls(await sessionRepo.save(session));
+      await refreshSessions(config.id);
+      await rescheduleReminders(config.id, buildCheckMomentReminders(config.id, new Date()), [
+        "check-moment"
+      ]);
+      setDraft(createDraft(config));
+      setScreen(isIntensiveMeasurement ? "intensive-cycle" : "home");
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo guardar la medicion."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveShockSession(): Promise<void> {
+    if (!config || !plan || !shockPlan || saving) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const session: Session = {
+        id: crypto.randomUUID(),
+        poolId: config.id,
+        timestamp: new Date().toISOString(),
+        kind: "shock",
+        checkMoment: draft.checkMoment,
+        coverOn: draft.checkMoment === "night" ? draft.coverOn : undefined,
+        waterHeightCm: draft.waterHeightCm!,
+        measuredPh: draft.measuredPh!,
+        measuredChlorinePpm: draft.measuredChlorinePpm!,
+        measuredTotalChlorinePpm: draft.measuredTotalChlorinePpm ?? undefined,
+        measuredCyaPpm: draft.measuredCyaPpm ?? undefined,
+        calculatedVolumeLiters: plan.volumeLiters,
+        requiredPhCorrection: {
+          direction: "none",
+          total: 0,
+          stage1: 0,
+          unit: "ml"
+        },
+        requiredChlorineDose: {
+          maintenance: 0,
+          corrective: shockPlan.amount,
+          unit: shockPlan.unit
+        },
+        appliedDoses: {
+          chlorine: shockPlan.amount,
+          chlorineUnit: shockPlan.unit
+        },
+        products: {
+          chlorine: plan.chlorineProduct
+        },
+        calculationTrace: {
+          shock: shockPlan.trace
+        },
+        notes: draft.notes.trim() || undefined
+      };
+
+      await reportStockShortfalls(await sessionRepo.save(session));
+      await refreshSessions(config.id);
+      await rescheduleReminders(config.id, buildCheckMomentReminders(config.id, new Date()), [
+        "check-moment"
+      ]);
+      setDraft(createDraft(config));
+      setScreen("home");
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo guardar la supercloracion."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function savePlanSession(): Promise<void> {
+    if (!config || !plan || saving) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const intensiveCycleId = draft.forIntensiveCycle ? activeIntensiveCycle?.id : undefined;
+      const isIntensiveMeasurement = intensiveCycleId !== undefined;
+      const session: Session = {
+        id: crypto.randomUUID(),
+        poolId: config.id,
+        timestamp: new Date().toISOString(),
+        kind: isIntensiveMeasurement ? "intensive-cycle" : "adjustment",
+        checkMoment: draft.checkMoment,
+        coverOn: draft.checkMoment === "night" ? draft.coverOn : undefined,
+        intensiveCycleId,
+        waterHeightCm: draft.waterHeightCm!,
+        measuredPh: draft.measuredPh!,
+        measuredChlorinePpm: draft.measuredChlorinePpm!,
+        measuredTotalChlorinePpm: draft.measuredTotalChlorinePpm ?? undefined,
+        measuredAlkalinityPpm: draft.measuredAlkalinityPpm ?? undefined,
+        measuredCyaPpm: draft.measuredCyaPpm ?? undefined,
+        measuredCalciumHardnessPpm: draft.measuredCalciumHardnessPpm ?? undefined,
+        measuredTdsPpm: draft.measuredTdsPpm ?? undefined,
+        waterTemperatureC: draft.waterTemperatureC ?? undefined,
+        calculatedVolumeLiters: plan.volumeLiters,
+        requiredPhCorrection: {
           direction: plan.phDirection,
           total: plan.phTotal,
           stage1: plan.phStage1,
@@ -447,21 +1425,56 @@ export function App() {
           corrective: plan.chlorineCorrective,
           unit: plan.chlorineUnit
         },
+        requiredAlkalinityCorrection:
+          plan.alkalinityDirection !== "none"
+            ? {
+                direction: plan.alkalinityDirection,
+                amount: plan.alkalinityDose,
+                unit: plan.alkalinityUnit
+              }
+            : undefined,
+        measuredPhIntermediate: phWizard.measuredPhIntermediate ?? undefined,
         appliedDoses: {
           phStage1: plan.phStage1,
+          phStage2: phWizard.stage2AppliedAt ? (phWizard.stage2Dose ?? undefined) : undefined,
+          phStage1At: phWizard.stage1AppliedAt ?? undefined,
+          phStage2At: phWizard.stage2AppliedAt ?? undefined,
           phUnit: plan.phUnit,
           chlorine: plan.chlorineCorrective,
-          chlorineUnit: plan.chlorineUnit
+          chlorineUnit: plan.chlorineUnit,
+          alkalinity: plan.alkalinityDirection !== "none" ? plan.alkalinityDose : undefined,
+          alkalinityUnit: plan.alkalinityDirection !== "none" ? plan.alkalinityUnit : undefined
+        },
+        products: {
+          chlorine: plan.chlorineProduct,
+          acid:
+            plan.phDirection === "down" || plan.alkalinityDirection === "down"
+              ? plan.acidProduct
+              : undefined,
+          phUp: plan.phDirection === "up" ? (plan.phProduct ?? undefined) : undefined
         },
+        calculationTrace: {
+          ph: plan.phTrace ?? undefined,
+          phStage2: phWizard.stage2AppliedAt ? (phStage2?.trace ?? undefined) : undefined,
+          chlorine: plan.chlorineTrace,
+          alkalinity: plan.alkalinityTrace ?? undefined,
+          lsi: plan.lsi?.trace
+        },
+        postApplicationChecklist: phWizard.checklist ?? undefined,
         notes: draft.notes.trim() || undefined
       };
 
-      await sessionRepo.save(session);
-      await refreshSessions();
+      await reportStockShortfalls(await sessionRepo.save(session));
+      await refreshSessions(config.id);
+      await rescheduleReminders(config.id, buildCheckMomentReminders(config.id, new Date()), [
+        "wait-end",
+        "max-wait",
+        "check-moment"
+      ]);
       setDraft(createDraft(config));
       setScreen(isIntensiveMeasurement ? "intensive-cycle" : "home");
-    } catch {
-      setError("No se pudo guardar la sesion con plan de accion.");
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo guardar la sesion con plan de accion."));
     } finally {
       setSaving(false);
     }
@@ -472,127 +1485,233 @@ export function App() {
       return;
     }
 
-    if (settingsDraft.pool.diameterM <= 0) {
-      setError("El diametro debe ser mayor que 0.");
+    const [issue] = validatePoolConfig(settingsDraft);
+    if (issue) {
+      setError(issue.message);
       return;
     }
 
-    if ((settingsDraft.pool.maxHeightCm ?? 0) <= 0) {
-      setError("La altura maxima debe ser mayor que 0.");
-      return;
+    try {
+      setError(null);
+      await configRepo.save(settingsDraft);
+      await productRepo.seedFromConfig(settingsDraft);
+      setPools(await configRepo.list());
+      setProducts(await productRepo.list());
+      setConfig(settingsDraft);
+      setDraft((prev) => ({
+        ...prev,
+        waitMinutes: settingsDraft.workflow.defaultWaitMinutes
+      }));
+      setScreen("home");
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudieron guardar los ajustes."));
     }
+  }
 
-    if (settingsDraft.chlorineProduct.concentration <= 0) {
-      setError("La concentracion de cloro debe ser mayor que 0.");
+  async function addProduct(): Promise<void> {
+    if (!productDraft.type.trim()) {
+      setError("Ingresa un nombre para el producto.");
       return;
     }
 
-    if (settingsDraft.acidProduct.concentration <= 0) {
-      setError("La concentracion de HCl debe ser mayor que 0.");
+    if (productDraft.concentration <= 0) {
+      setError("La concentracion del producto debe ser mayor que 0.");
       return;
     }
 
-    if (settingsDraft.phUpProduct.enabled && settingsDraft.phUpProduct.concentration <= 0) {
-      setError("La concentracion de pH+ debe ser mayor que 0.");
-      return;
+    try {
+      setError(null);
+      await productRepo.create({
+        ...productDraft,
+        type: productDraft.type.trim(),
+        presentation: productDraft.role === "acid" ? "liquid-ml" : productDraft.presentation,
+        cyaPerFcPpm: productDraft.role === "chlorine" ? productDraft.cyaPerFcPpm : undefined
+      });
+      setProducts(await productRepo.list());
+      setProductDraft(createProductDraft());
+    } catch (err) {
+      setError(getSaveErrorMessage(err, "No se pudo guardar el producto."));
     }
+  }
 
-    if (settingsDraft.targets.phMin >= settingsDraft.targets.phMax) {
-      setError("El objetivo de pH minimo debe ser menor al maximo.");
-      return;
+  async function archiveProduct(productId: string): Promise<void> {
+    try {
+      setError(null);
+      await productRepo.archive(productId);
+      setProducts(await productRepo.list());
+      setDraft((prev) => ({
+        ...prev,
+        chlorineProductId: prev.chlorineProductId === productId ? null : prev.chlorineProductId,
+        acidProductId: prev.acidProductId === productId ? null : prev.acidProductId
+      }));
+    } catch {
+      setError("No se pudo archivar el producto.");
     }
+  }
 
-    if (settingsDraft.targets.chlorineMinPpm >= settingsDraft.targets.chlorineMaxPpm) {
-      setError("El objetivo de cloro minimo debe ser menor al maximo.");
+  function exportHistory(format: "csv" | "json"): void {
+    if (!config || sessions.length === 0) {
       return;
     }
 
-    if (settingsDraft.workflow.maxWaitMinutes > 60) {
-      setError("La pausa maxima no puede superar 60 minutos.");
+    const exportedAt = new Date();
+    const fileName = buildExportFileName(config.name, format, exportedAt);
+    if (format === "csv") {
+      downloadTextFile(fileName, sessionsToCsv(sessions), "text/csv");
       return;
     }
 
-    if (settingsDraft.workflow.defaultWaitMinutes > settingsDraft.workflow.maxWaitMinutes) {
-      setError("La pausa por defecto no puede superar la pausa maxima.");
-      return;
+    const exportDocument = buildSessionExportDocument(sessions, config, exportedAt);
+    downloadTextFile(fileName, JSON.stringify(exportDocument, null, 2), "application/json");
+  }
+
+  async function downloadBackup(): Promise<void> {
+    try {
+      const backup = await backupRepo.exportAll();
+      downloadTextFile(buildBackupFileName(), JSON.stringify(backup, null, 2), "application/json");
+    } catch {
+      setError("No se pudo generar el respaldo.");
+    }
+  }
+
+  async function previewBackup(file: File, mode: BackupImportMode): Promise<void> {
+    try {
+      setError(null);
+      const parsed = parseBackupDocument(JSON.parse(await file.text()));
+      if (!parsed.ok) {
+        setPendingBackup(null);
+        setError(`Respaldo invalido: ${parsed.issues[0]?.message ?? "formato desconocido"}`);
+        return;
+      }
+
+      const plan = await backupRepo.preview(parsed.document, mode, parsed.issues);
+      setPendingBackup({ document: parsed.document, issues: parsed.issues, plan });
+    } catch {
+      setPendingBackup(null);
+      setError("No se pudo leer el archivo de respaldo.");
     }
+  }
 
-    if (settingsDraft.workflow.intensiveMinNights < 2) {
-      setError("El ciclo intensivo requiere al menos 2 noches.");
+  async function changeBackupMode(mode: BackupImportMode): Promise<void> {
+    if (!pendingBackup) {
       return;
     }
 
-    if (settingsDraft.workflow.intensiveMaxOvernightLossPpm <= 0) {
-      setError("El umbral de perdida nocturna del ciclo intensivo debe ser mayor a 0.");
+    const plan = await backupRepo.preview(pendingBackup.document, mode, pendingBackup.issues);
+    setPendingBackup({ ...pendingBackup, plan });
+  }
+
+  async function confirmBackupImport(): Promise<void> {
+    if (!pendingBackup) {
       return;
     }
 
     try {
-      setError(null);
-      await configRepo.save(settingsDraft);
-      setConfig(settingsDraft);
-      setDraft((prev) => ({
-        ...prev,
-        waitMinutes: settingsDraft.workflow.defaultWaitMinutes
-      }));
+      await backupRepo.apply(pendingBackup.plan);
+      setPendingBackup(null);
+      setProducts(await productRepo.list());
+      setInventory(await inventoryRepo.listContainers());
+      setInventoryMovements(await inventoryRepo.listMovements());
+      const nextActive = await configRepo.load();
+      if (nextActive) {
+        await activatePool(nextActive.id);
+      }
       setScreen("home");
     } catch {
-      setError("No se pudieron guardar los ajustes.");
+      setError("No se pudo importar el respaldo.");
+    }
+  }
+
+  async function saveIntensiveCycle(cycle: IntensiveCycle): Promise<boolean> {
+    try {
+      await intensiveCycleRepo.save(cycle);
+      setIntensiveCycles(await intensiveCycleRepo.list(cycle.poolId));
+      return true;
+    } catch (caught) {
+      setError(getSaveErrorMessage(caught, "No se pudo guardar el ciclo intensivo."));
+      return false;
     }
   }
 
-  function startIntensiveCycle(reason: string): void {
+  async function startIntensiveCycle(reason: string): Promise<void> {
+    if (!config) {
+      return;
+    }
     if (!reason.trim()) {
       setError("Ingresa un motivo para iniciar el ciclo intensivo.");
       return;
     }
 
     setError(null);
-    setIntensiveCycle({
-      active: true,
-      reason: reason.trim(),
-      startedAtIso: new Date().toISOString()
-    });
+    await saveIntensiveCycle(
+      createIntensiveCycle(crypto.randomUUID(), config, reason, new Date().toISOString())
+    );
   }
 
-  function closeIntensiveCycle(): void {
-    if (!intensiveStats.canClose) {
+  async function closeIntensiveCycle(): Promise<void> {
+    if (!activeIntensiveCycle || !intensiveStats.canClose) {
       setError("Aun no se cumplen los criterios para cerrar el ciclo intensivo.");
       return;
     }
 
     const summary = buildIntensiveSummary({
-      reason: intensiveCycle.reason || "ciclo intensivo",
-      minNights: config?.workflow.intensiveMinNights ?? 2,
-      maxOvernightLossPpm: config?.workflow.intensiveMaxOvernightLossPpm ?? 1,
-      overnightPairs: intensiveStats.overnightPairs
+      reason: activeIntensiveCycle.reason,
+      minNights: activeIntensiveCycle.minNights,
+      maxOvernightLossPpm: activeIntensiveCycle.maxOvernightLossPpm,
+      overnightPairs: intensiveStats.overnightPairs,
+      coverFactor: coverComparison.coverFactor
     });
 
     setError(null);
-    setIntensiveCycle(createDefaultIntensiveCycleState());
-    setIntensiveSummary({
-      closedAtIso: new Date().toISOString(),
-      reason: intensiveCycle.reason || "ciclo intensivo",
-      nightsEvaluated: summary.nightsEvaluated,
-      avgOvernightLossPpm: toFixedNumber(summary.avgOvernightLossPpm, 2),
-      lastOvernightLossPpm: toFixedNumber(summary.lastOvernightLossPpm, 2),
-      recommendation: summary.recommendation
+    const saved = await saveIntensiveCycle({
+      ...activeIntensiveCycle,
+      closedAt: new Date().toISOString(),
+      summary: {
+        nightsEvaluated: summary.nightsEvaluated,
+        avgOvernightLossPpm: toFixedNumber(summary.avgOvernightLossPpm, 2),
+        lastOvernightLossPpm: toFixedNumber(summary.lastOvernightLossPpm, 2),
+        recommendation: summary.recommendation
+      }
     });
-    setScreen("home");
+    if (saved) {
+      setScreen("home");
+    }
+  }
+
+  async function cancelIntensiveCycle(): Promise<void> {
+    if (!activeIntensiveCycle) {
+      return;
+    }
+
+    setError(null);
+    await saveIntensiveCycle({ ...activeIntensiveCycle, cancelledAt: new Date().toISOString() });
   }
 
   if (loading || !config || !settingsDraft) {
     return <main className="app-shell">Cargando configuracion...</main>;
   }
 
+  const unitSystem = config.preferences.unitSystem;
+  const settingsUnitSystem = settingsDraft.preferences.unitSystem;
+  const heightUnit = toDisplayHeight(0, unitSystem).unit;
+  const temperatureUnit = toDisplayTemperature(0, unitSystem).unit;
+  const settingsHeightUnit = toDisplayHeight(0, settingsUnitSystem).unit;
+  const settingsLengthUnit = toDisplayLength(0, settingsUnitSystem).unit;
   const waitOptions = WAIT_OPTIONS.filter((minutes) => minutes <= config.workflow.maxWaitMinutes);
   const planHasAdjustments =
     plan !== null &&
-    (plan.phDirection !== "none" || plan.chlorineCorrective > 0 || plan.chlorineMaintenance > 0);
+    (plan.phDirection !== "none" ||
+      plan.chlorineCorrective > 0 ||
+      plan.chlorineMaintenance > 0 ||
+      plan.alkalinityDirection !== "none");
   const primaryPlanActionLabel = !planHasAdjustments
     ? "Guardar medicion (sin ajustes)"
     : "Guardar plan y medicion";
-  const intensiveEntryVisible = config.workflow.enableIntensiveCycle || intensiveCycle.active;
+  const intensiveEntryVisible =
+    config.workflow.enableIntensiveCycle || activeIntensiveCycle !== null;
+  // Sin correccion de pH el checklist se abre desde la evaluacion; con correccion, tras la etapa 2.
+  const canOpenChecklist =
+    phWizard.step === "stage2" || (phWizard.step === "evaluation" && plan?.phDirection === "none");
 
   return (
     <main className="app-shell">
@@ -619,18 +1738,45 @@ export function App() {
       {screen === "home" ? (
         <section className="card">
           <h2 className="section-title">Inicio</h2>
+          {pools.length > 1 ? (
+            <label className="field-label">
+              Piscina activa
+              <select
+                className="field-input"
+                value={config.id}
+                onChange={(event) => void activatePool(event.target.value)}
+              >
+                {pools.map((pool) => (
+                  <option key={pool.id} value={pool.id}>
+                    {pool.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
           <div className="metrics-grid">
+            <article className="metric">
+              <p className="metric-label">Piscina</p>
+              <p className="metric-value">
+                {config.name} ({getPoolShapeLabel(config.pool.shape)})
+              </p>
+            </article>
             <article className="metric">
               <p className="metric-label">Producto cloro activo</p>
               <p className="metric-value">
-                {config.chlorineProduct.type} ({config.chlorineProduct.concentration}% -{" "}
-                {config.chlorineProduct.presentation === "granular-g" ? "granulado" : "liquido"})
+                {config.chlorineProduct.type} (
+                {formatConcentration(
+                  config.chlorineProduct.concentration,
+                  config.chlorineProduct.unit
+                )}{" "}
+                - {config.chlorineProduct.presentation === "granular-g" ? "granulado" : "liquido"})
               </p>
             </article>
             <article className="metric">
               <p className="metric-label">Control pH</p>
               <p className="metric-value">
-                Baja: {config.acidProduct.type} {config.acidProduct.concentration}%
+                Baja: {config.acidProduct.type}{" "}
+                {formatConcentration(config.acidProduct.concentration, config.acidProduct.unit)}
                 <br />
                 Sube: {config.phUpProduct.enabled ? config.phUpProduct.type : "Desactivado"}
               </p>
@@ -647,10 +1793,86 @@ export function App() {
                 {config.targets.chlorineMinPpm} - {config.targets.chlorineMaxPpm} ppm
               </p>
             </article>
+            <article className="metric">
+              <p className="metric-label">CYA (estabilizador)</p>
+              <p className="metric-value">
+                {cyaEstimate.source === "none"
+                  ? "Sin datos"
+                  : `${toFixedNumber(cyaEstimate.ppm, 0)} ppm (${getCyaSourceLabel(cyaEstimate.source)})`}
+              </p>
+            </article>
           </div>
 
-          {latest ? (
-            <div className="latest-session">
+          {shockReentry.shock && !shockReentry.safe ? (
+            <p className="status-pill status-warn">
+              Shock activo: no ingresar al agua hasta que el cloro baje de{" "}
+              {toFixedNumber(
+                applyCyaChlorineTargets(config, cyaEstimate.ppm).targets.chlorineMaxPpm,
+                1
+              )}{" "}
+              ppm.{" "}
+              {shockReentry.lastReadingPpm === null
+                ? "Registra una medicion para confirmar."
+                : `Ultima lectura: ${shockReentry.lastReadingPpm} ppm.`}
+            </p>
+          ) : null}
+
+          {chlorineForecast ? (
+            <div className="latest-session">
+              <p className="latest-title">Pronostico de cloro</p>
+              <p>
+                Perdida estimada: dia {toFixedNumber(chlorineForecast.model.dayRatePpmPerHour, 2)}{" "}
+                ppm/h | noche {toFixedNumber(chlorineForecast.model.nightRatePpmPerHour, 2)} ppm/h |
+                Cloro ahora: ~{toFixedNumber(chlorineForecast.currentPpm, 1)} ppm
+              </p>
+              <p>
+                {chlorineForecast.belowMinAt
+                  ? `Bajo el minimo: ${new Date(chlorineForecast.belowMinAt).toLocaleString()}`
+                  : "Sin caida bajo el minimo en los proximos 7 dias"}{" "}
+                | Proximo control: {new Date(chlorineForecast.nextCheckAt).toLocaleString()}
+              </p>
+              {chlorineForecast.preemptiveDose.amount > 0 ? (
+                <p className="inline-note">
+                  Dosis preventiva sugerida:{" "}
+                  {formatDose(
+                    toFixedNumber(chlorineForecast.preemptiveDose.amount, 0),
+                    chlorineForecast.preemptiveDose.unit,
+                    unitSystem
+                  )}{" "}
+                  para llegar a {toFixedNumber(chlorineForecast.preemptiveDose.targetPpm, 1)} ppm.
+                </p>
+              ) : null}
+              <CalculationTraceView trace={chlorineForecast.trace} />
+            </div>
+          ) : null}
+
+          {stockNotice ? <p className="status-pill status-warn">{stockNotice}</p> : null}
+          {stockWarnings
+            .filter((warning) => warning.kind === "forecast")
+            .map((warning) => (
+              <p className="status-pill status-warn" key={`stock-${warning.productId}`}>
+                {formatStockWarning(warning, getProductName(warning.productId), unitSystem)}
+              </p>
+            ))}
+
+          {reminders.length > 0 ? (
+            <div className="latest-session">
+              <p className="latest-title">Recordatorios programados</p>
+              {reminders.map((reminder) => (
+                <p key={reminder.id}>
+                  {new Date(reminder.fireAt).toLocaleString()} | {reminder.title}
+                </p>
+              ))}
+              {notificationPermission !== "granted" ? (
+                <p className="inline-note">
+                  Activa las notificaciones en Configuracion para recibir estos avisos.
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {latest ? (
+            <div className="latest-session">
               <p className="latest-title">Ultima medicion</p>
               <p>
                 {new Date(latest.timestamp).toLocaleString()} | pH {latest.measuredPh} | Cl{" "}
@@ -660,23 +1882,23 @@ export function App() {
           ) : (
             <p className="inline-note">Todavia no hay mediciones guardadas.</p>
           )}
-          {intensiveCycle.active ? (
+          {activeIntensiveCycle ? (
             <p className="status-pill status-warn">
-              Ciclo intensivo activo: {intensiveCycle.reason || "sin motivo"}.
+              Ciclo intensivo activo: {activeIntensiveCycle.reason}.
             </p>
           ) : null}
-          {intensiveSummary ? (
+          {lastClosedIntensiveCycle ? (
             <div className="latest-session">
               <p className="latest-title">Ultimo cierre de ciclo intensivo</p>
               <p>
-                {new Date(intensiveSummary.closedAtIso).toLocaleString()} | Noches evaluadas:{" "}
-                {intensiveSummary.nightsEvaluated}
+                {new Date(lastClosedIntensiveCycle.closedAt).toLocaleString()} | Noches evaluadas:{" "}
+                {lastClosedIntensiveCycle.summary.nightsEvaluated}
               </p>
               <p>
-                Perdida nocturna promedio: {intensiveSummary.avgOvernightLossPpm} ppm | Ultima:{" "}
-                {intensiveSummary.lastOvernightLossPpm} ppm
+                Perdida nocturna promedio: {lastClosedIntensiveCycle.summary.avgOvernightLossPpm}{" "}
+                ppm | Ultima: {lastClosedIntensiveCycle.summary.lastOvernightLossPpm} ppm
               </p>
-              <p className="inline-note">{intensiveSummary.recommendation}</p>
+              <p className="inline-note">{lastClosedIntensiveCycle.summary.recommendation}</p>
             </div>
           ) : null}
 
@@ -704,6 +1926,19 @@ export function App() {
             <button className="btn-secondary" type="button" onClick={() => setScreen("history")}>
               Historial
             </button>
+            <button className="btn-secondary" type="button" onClick={() => setScreen("trends")}>
+              Tendencias
+            </button>
+            <button
+              className="btn-secondary"
+              type="button"
+              onClick={() => {
+                setTopUpDraft(createWaterTopUpDraft(config));
+                setScreen("top-up");
+              }}
+            >
+              Registrar llenado
+            </button>
             <button className="btn-secondary" type="button" onClick={() => setScreen("settings")}>
               Configuracion
             </button>
@@ -734,12 +1969,16 @@ export function App() {
               onChange={(event) =>
                 setDraft((prev) => ({
                   ...prev,
-                  mode: event.target.value === "measure-only" ? "measure-only" : "plan"
+                  mode:
+                    event.target.value === "measure-only" || event.target.value === "shock"
+                      ? event.target.value
+                      : "plan"
                 }))
               }
             >
               <option value="plan">Generar plan de accion</option>
               <option value="measure-only">Medicion fuera de ciclo (solo registro)</option>
+              <option value="shock">Supercloracion (shock)</option>
             </select>
           </label>
 
@@ -763,19 +2002,37 @@ export function App() {
               <option value="night">Noche</option>
             </select>
           </label>
+          {draft.checkMoment === "night" ? (
+            <label className="check-item">
+              <input
+                type="checkbox"
+                checked={draft.coverOn}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, coverOn: event.target.checked }))
+                }
+              />
+              Cobertor puesto esta noche
+            </label>
+          ) : null}
 
           <label className="field-label">
-            Altura actual (cm)
+            Altura actual ({heightUnit})
             <input
               className="field-input"
               type="number"
               min={1}
-              max={config.pool.maxHeightCm ?? 200}
-              value={draft.waterHeightCm ?? ""}
+              step={unitSystem === "imperial" ? 0.1 : 1}
+              max={toHeightInput(config.pool.maxHeightCm ?? 200, unitSystem)}
+              value={
+                draft.waterHeightCm === null ? "" : toHeightInput(draft.waterHeightCm, unitSystem)
+              }
               onChange={(event) =>
                 setDraft((prev) => ({
                   ...prev,
-                  waterHeightCm: event.target.value === "" ? null : Number(event.target.value)
+                  waterHeightCm:
+                    event.target.value === ""
+                      ? null
+                      : fromDisplayHeight(Number(event.target.value), unitSystem)
                 }))
               }
             />
@@ -817,6 +2074,141 @@ export function App() {
               }
             />
           </label>
+
+          <label className="field-label">
+            Cloro total medido (ppm)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              value={draft.measuredTotalChlorinePpm ?? ""}
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  measuredTotalChlorinePpm:
+                    event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+          {draft.mode !== "shock" &&
+          draft.measuredChlorinePpm !== null &&
+          draft.measuredTotalChlorinePpm !== null &&
+          needsShock(draft.measuredChlorinePpm, draft.measuredTotalChlorinePpm) ? (
+            <p className="status-pill status-warn">
+              Cloro combinado{" "}
+              {toFixedNumber(
+                calculateCombinedChlorinePpm(
+                  draft.measuredChlorinePpm,
+                  draft.measuredTotalChlorinePpm
+                ),
+                1
+              )}{" "}
+              ppm: considera una supercloracion.
+            </p>
+          ) : null}
+
+          <label className="field-label">
+            CYA medido (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={300}
+              step={5}
+              value={draft.measuredCyaPpm ?? ""}
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  measuredCyaPpm: event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Dureza calcica (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={1000}
+              step={10}
+              value={draft.measuredCalciumHardnessPpm ?? ""}
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  measuredCalciumHardnessPpm:
+                    event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Temperatura del agua ({temperatureUnit}, opcional)
+            <input
+              className="field-input"
+              type="number"
+              step={1}
+              value={
+                draft.waterTemperatureC === null
+                  ? ""
+                  : toFixedNumber(
+                      toDisplayTemperature(draft.waterTemperatureC, unitSystem).value,
+                      1
+                    )
+              }
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  waterTemperatureC:
+                    event.target.value === ""
+                      ? null
+                      : fromDisplayTemperature(Number(event.target.value), unitSystem)
+                }))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            TDS (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={10000}
+              step={50}
+              value={draft.measuredTdsPpm ?? ""}
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  measuredTdsPpm: event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Alcalinidad total medida (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={400}
+              step={10}
+              value={draft.measuredAlkalinityPpm ?? ""}
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  measuredAlkalinityPpm:
+                    event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
           {plan ? (
             <div className="status-row">
               <span className={`status-pill ${statusTone(plan.phStatus)}`}>
@@ -825,8 +2217,16 @@ export function App() {
               <span className={`status-pill ${statusTone(plan.chlorineStatus)}`}>
                 Cloro: {getStatusLabel(plan.chlorineStatus)}
               </span>
+              {plan.alkalinityStatus ? (
+                <span className={`status-pill ${statusTone(plan.alkalinityStatus)}`}>
+                  TA: {getStatusLabel(plan.alkalinityStatus)}
+                </span>
+              ) : null}
             </div>
           ) : null}
+          {chlorineProductIssue ? (
+            <p className="status-pill status-warn">{chlorineProductIssue}</p>
+          ) : null}
 
           {draft.mode === "plan" ? (
             <label className="field-label">
@@ -850,6 +2250,57 @@ export function App() {
             </label>
           ) : null}
 
+          {draft.mode === "plan" ? (
+            <>
+              <label className="field-label">
+                Producto de cloro
+                <select
+                  className="field-input"
+                  value={draft.chlorineProductId ?? ""}
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      chlorineProductId: event.target.value || null
+                    }))
+                  }
+                >
+                  <option value="">
+                    Configurado: {formatProductLabel(config.chlorineProduct)}
+                  </option>
+                  {chlorineProducts.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {formatProductLabel(product)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="field-label">
+                Producto para bajar pH
+                <select
+                  className="field-input"
+                  value={draft.acidProductId ?? ""}
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      acidProductId: event.target.value || null
+                    }))
+                  }
+                >
+                  <option value="">
+                    Configurado:{" "}
+                    {formatProductLabel({ ...config.acidProduct, presentation: "liquid-ml" })}
+                  </option>
+                  {acidProducts.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {formatProductLabel(product)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : null}
+
           <label className="field-label">
             Notas
             <textarea
@@ -865,13 +2316,47 @@ export function App() {
             />
           </label>
 
+          {shockPlan ? (
+            <div className="latest-session">
+              <p className="latest-title">
+                Dosis de shock: {formatDose(shockPlan.amount, shockPlan.unit, unitSystem)} de{" "}
+                {plan?.chlorineProduct.type}
+              </p>
+              <p className="inline-note">
+                Llevar el cloro libre a {toFixedNumber(shockPlan.targetFreeChlorinePpm, 1)} ppm con
+                la bomba encendida y sin banistas hasta que baje del maximo objetivo.
+              </p>
+              <CalculationTraceView trace={shockPlan.trace} />
+              <DoseSafetyNotes decisions={[shockPlan.safety]} />
+              {stockWarnings
+                .filter((warning) => warning.kind === "plan")
+                .map((warning) => (
+                  <p className="status-pill status-warn" key={`stock-${warning.productId}`}>
+                    {formatStockWarning(warning, getProductName(warning.productId), unitSystem)}
+                  </p>
+                ))}
+            </div>
+          ) : null}
+          {draft.mode === "shock" && draft.measuredTotalChlorinePpm === null ? (
+            <p className="inline-note">Ingresa el cloro total para calcular el shock.</p>
+          ) : null}
+
           <div className="actions">
-            {draft.mode === "plan" ? (
+            {draft.mode === "shock" ? (
+              <button
+                className="btn-primary"
+                type="button"
+                disabled={!shockPlan || shockPlan.safety.status === "blocked" || saving}
+                onClick={() => void saveShockSession()}
+              >
+                {saving ? "Guardando..." : "Guardar shock"}
+              </button>
+            ) : draft.mode === "plan" ? (
               <button
                 className="btn-primary"
                 type="button"
                 disabled={!canComputePlan(draft, config)}
-                onClick={() => setScreen("plan")}
+                onClick={openPlan}
               >
                 Ver plan de accion
               </button>
@@ -895,7 +2380,15 @@ export function App() {
       {screen === "plan" && plan ? (
         <section className="card">
           <h2 className="section-title">Plan de accion</h2>
-          <p>Volumen estimado: {plan.volumeLiters} L</p>
+          <p>Volumen estimado: {formatVolume(plan.volumeLiters, unitSystem)}</p>
+          <DoseSafetyNotes decisions={plan.doseSafety} />
+          {stockWarnings
+            .filter((warning) => warning.kind === "plan")
+            .map((warning) => (
+              <p className="status-pill status-warn" key={`stock-${warning.productId}`}>
+                {formatStockWarning(warning, getProductName(warning.productId), unitSystem)}
+              </p>
+            ))}
           <div className="status-row">
             <span className={`status-pill ${statusTone(plan.phStatus)}`}>
               pH: {getStatusLabel(plan.phStatus)}
@@ -908,57 +2401,261 @@ export function App() {
           <div className="metrics-grid">
             <article className="metric">
               <p className="metric-label">Correccion de pH (etapa 1)</p>
-              <p className="metric-value">
-                {plan.phStage1} {plan.phUnit}
-              </p>
+              <p className="metric-value">{formatDose(plan.phStage1, plan.phUnit, unitSystem)}</p>
             </article>
             <article className="metric">
               <p className="metric-label">Correccion de pH (total)</p>
-              <p className="metric-value">
-                {plan.phTotal} {plan.phUnit}
-              </p>
+              <p className="metric-value">{formatDose(plan.phTotal, plan.phUnit, unitSystem)}</p>
             </article>
             <article className="metric">
               <p className="metric-label">Cloro hasta minimo</p>
               <p className="metric-value">
-                {plan.chlorineMaintenance} {plan.chlorineUnit}
+                {formatDose(plan.chlorineMaintenance, plan.chlorineUnit, unitSystem)}
               </p>
             </article>
             <article className="metric">
               <p className="metric-label">Cloro hasta valor central</p>
               <p className="metric-value">
-                {plan.chlorineCorrective} {plan.chlorineUnit}
+                {formatDose(plan.chlorineCorrective, plan.chlorineUnit, unitSystem)}
               </p>
             </article>
           </div>
 
-          {plan.phDirection === "down" ? (
+          {plan.phDirection === "down" && plan.phStage1 > 0 ? (
             <p className="inline-note">
-              pH alto: aplicar {plan.phStage1} {plan.phUnit} de {config.acidProduct.type}, recircular y
-              esperar {draft.waitMinutes} min (max {config.workflow.maxWaitMinutes} min) antes de
-              re-medir.
+              pH alto: aplicar {formatDose(plan.phStage1, plan.phUnit, unitSystem)} de{" "}
+              {plan.phProduct?.type ?? config.acidProduct.type}, recircular y esperar{" "}
+              {draft.waitMinutes} min (max {config.workflow.maxWaitMinutes} min) antes de re-medir.
             </p>
           ) : null}
 
-          {plan.phDirection === "up" ? (
+          {plan.phDirection === "up" && plan.phStage1 > 0 ? (
             <p className="inline-note">
-              pH bajo: aplicar {plan.phStage1} {plan.phUnit} de {config.phUpProduct.type} en primera
-              etapa, esperar {draft.waitMinutes} min y re-medir antes de completar.
+              pH bajo: aplicar {formatDose(plan.phStage1, plan.phUnit, unitSystem)} de{" "}
+              {config.phUpProduct.type} en primera etapa, esperar {draft.waitMinutes} min y re-medir
+              antes de completar.
             </p>
           ) : null}
 
           {plan.phDirection === "none" ? (
             <p className="inline-note">pH en rango objetivo: no se requiere ajuste de pH.</p>
-          ) : null}
+          ) : plan.phStage1 === 0 ? null : (
+            <div className="latest-session">
+              <p className="latest-title">Etapa 2 de pH</p>
+              {phWizard.step === "evaluation" ? (
+                <button
+                  className="btn-secondary"
+                  type="button"
+                  onClick={() => {
+                    const at = new Date().toISOString();
+                    if (
+                      config &&
+                      advancePhWizard({ type: "apply-stage1", at }, { type: "start-wait", at })
+                    ) {
+                      void rescheduleReminders(
+                        config.id,
+                        buildWaitReminders(config.id, at, phWizard.waitMinutes, config.workflow),
+                        ["wait-end", "max-wait"]
+                      );
+                    }
+                  }}
+                >
+                  Etapa 1 aplicada
+                </button>
+              ) : null}
+              {phWizard.stage1AppliedAt ? (
+                <p className="inline-note">
+                  Etapa 1 aplicada: {new Date(phWizard.stage1AppliedAt).toLocaleString()}. Re-medir
+                  tras {phWizard.waitMinutes} min.
+                </p>
+              ) : null}
+              {phWizard.step === "waiting" || phWizard.step === "intermediate-measurement" ? (
+                <>
+                  <label className="field-label">
+                    pH intermedio
+                    <input
+                      className="field-input"
+                      type="number"
+                      min={6.8}
+                      max={8.2}
+                      step={0.1}
+                      value={intermediatePhDraft ?? ""}
+                      onChange={(event) =>
+                        setIntermediatePhDraft(
+                          event.target.value === "" ? null : Number(event.target.value)
+                        )
+                      }
+                    />
+                  </label>
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    disabled={intermediatePhDraft === null}
+                    onClick={() =>
+                      advancePhWizard({
+                        type: "record-intermediate",
+                        measuredPh: intermediatePhDraft!,
+                        at: new Date().toISOString()
+                      })
+                    }
+                  >
+                    Registrar pH intermedio
+                  </button>
+                </>
+              ) : null}
+              {phStage2 && phWizard.step === "intermediate-measurement" ? (
+                <>
+                  <p>
+                    Etapa 2 recalculada con pH intermedio {phWizard.measuredPhIntermediate}:{" "}
+                    {formatDose(phStage2.value, plan.phUnit, unitSystem)}
+                  </p>
+                  {phStage2.safety ? <DoseSafetyNotes decisions={[phStage2.safety]} /> : null}
+                  {phStage2.trace ? <CalculationTraceView trace={phStage2.trace} /> : null}
+                  <div className="actions">
+                    <button
+                      className="btn-secondary"
+                      type="button"
+                      onClick={() =>
+                        advancePhWizard({
+                          type: "apply-stage2",
+                          dose: phStage2.value,
+                          at: new Date().toISOString()
+                        })
+                      }
+                    >
+                      Aplicar etapa 2
+                    </button>
+                    <button
+                      className="btn-secondary"
+                      type="button"
+                      onClick={() => advancePhWizard({ type: "skip-stage2" })}
+                    >
+                      Omitir etapa 2
+                    </button>
+                  </div>
+                </>
+              ) : null}
+              {phWizard.stage2AppliedAt ? (
+                <p className="inline-note">
+                  Etapa 2 aplicada: {formatDose(phWizard.stage2Dose ?? 0, plan.phUnit, unitSystem)}.
+                </p>
+              ) : null}
+              {phWizard.stage2Dose === 0 && !phWizard.stage2AppliedAt ? (
+                <p className="inline-note">Etapa 2 omitida.</p>
+              ) : null}
+            </div>
+          )}
 
           {plan.chlorineCorrective <= 0 ? (
             <p className="inline-note">Cloro en rango: no se requiere correccion de mantenimiento.</p>
           ) : (
             <p className="inline-note">
-              Producto configurado: {config.chlorineProduct.type} ({config.chlorineProduct.concentration}% -{" "}
-              {plan.chlorineUnit}).
+              Producto de cloro: {formatProductLabel(plan.chlorineProduct)}.
             </p>
           )}
+          {plan.chlorineMinPpm > config.targets.chlorineMinPpm ||
+          plan.chlorineMaxPpm > config.targets.chlorineMaxPpm ? (
+            <p className="inline-note">
+              Objetivo de cloro ajustado por CYA {toFixedNumber(plan.cyaPpm, 0)} ppm:{" "}
+              {toFixedNumber(plan.chlorineMinPpm, 1)} - {toFixedNumber(plan.chlorineMaxPpm, 1)} ppm
+              (relacion FC/CYA).
+            </p>
+          ) : null}
+          {plan.alkalinityDirection === "up" ? (
+            <p className="inline-note">
+              Alcalinidad baja: disolver{" "}
+              {formatDose(plan.alkalinityDose, plan.alkalinityUnit, unitSystem)} de bicarbonato de
+              sodio y repartir en el perimetro con la bomba encendida.
+            </p>
+          ) : null}
+          {plan.alkalinityDirection === "down" ? (
+            <p className="inline-note">
+              Alcalinidad alta: aplicar{" "}
+              {formatDose(plan.alkalinityDose, plan.alkalinityUnit, unitSystem)} de acido en un
+              punto con la bomba apagada y luego airear para recuperar el pH.
+            </p>
+          ) : null}
+          <p className="inline-note">
+            Alcalinidad usada en el calculo de acido: {plan.alkalinityPpm} ppm
+            {draft.measuredAlkalinityPpm === null ? " (ultima medida o estimada)" : " (medida)"}.
+          </p>
+          {plan.phTrace ? <CalculationTraceView trace={plan.phTrace} /> : null}
+          <CalculationTraceView trace={plan.chlorineTrace} />
+          {plan.alkalinityTrace ? <CalculationTraceView trace={plan.alkalinityTrace} /> : null}
+          {plan.lsi ? (
+            <div className="latest-session">
+              <p className="latest-title">
+                Indice de Langelier: {toFixedNumber(plan.lsi.index, 2)} (
+                {getLsiStatusLabel(plan.lsi.status)})
+              </p>
+              {plan.lsi.corrections.map((correction) => (
+                <p className="inline-note" key={correction}>
+                  {correction}
+                </p>
+              ))}
+              <CalculationTraceView trace={plan.lsi.trace} />
+            </div>
+          ) : null}
+          {planHasAdjustments ? (
+            <div className="latest-session">
+              <p className="latest-title">Checklist post-aplicacion</p>
+              {canOpenChecklist ? (
+                <button
+                  className="btn-secondary"
+                  type="button"
+                  onClick={() => advancePhWizard({ type: "open-checklist" })}
+                >
+                  Abrir checklist
+                </button>
+              ) : null}
+              {phWizard.step === "checklist" ? (
+                <>
+                  {CHECKLIST_ITEMS.map((item) => (
+                    <label className="check-item" key={item.key}>
+                      <input
+                        type="checkbox"
+                        checked={checklistDraft[item.key]}
+                        onChange={(event) =>
+                          setChecklistDraft((prev) => ({
+                            ...prev,
+                            [item.key]: event.target.checked
+                          }))
+                        }
+                      />
+                      {item.label}
+                    </label>
+                  ))}
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() =>
+                      advancePhWizard({
+                        type: "complete",
+                        checklist: checklistDraft,
+                        at: new Date().toISOString()
+                      })
+                    }
+                  >
+                    Confirmar checklist
+                  </button>
+                </>
+              ) : null}
+              {phWizard.step === "completed" && phWizard.checklist ? (
+                <p className="inline-note">
+                  Checklist confirmado:{" "}
+                  {CHECKLIST_ITEMS.filter((item) => phWizard.checklist![item.key]).length} de{" "}
+                  {CHECKLIST_ITEMS.length} puntos cumplidos.
+                </p>
+              ) : null}
+              {!canOpenChecklist &&
+              phWizard.step !== "checklist" &&
+              phWizard.step !== "completed" ? (
+                <p className="inline-note">
+                  Disponible al terminar la etapa 2 de pH (aplicada u omitida).
+                </p>
+              ) : null}
+            </div>
+          ) : null}
           <p className={planHasAdjustments ? "status-pill status-warn" : "status-pill status-ok"}>
             Recomendacion principal:{" "}
             {planHasAdjustments
@@ -995,20 +2692,21 @@ export function App() {
       {screen === "intensive-cycle" ? (
         <section className="card">
           <h2 className="section-title">Ciclo intensivo</h2>
-          {!intensiveCycle.active ? (
+          {!activeIntensiveCycle ? (
             <>
-              {intensiveSummary ? (
+              {lastClosedIntensiveCycle ? (
                 <div className="latest-session">
                   <p className="latest-title">Resumen ultimo cierre</p>
                   <p>
-                    Motivo: {intensiveSummary.reason} | {new Date(intensiveSummary.closedAtIso).toLocaleString()}
+                    Motivo: {lastClosedIntensiveCycle.reason} |{" "}
+                    {new Date(lastClosedIntensiveCycle.closedAt).toLocaleString()}
                   </p>
                   <p>
-                    Noches: {intensiveSummary.nightsEvaluated} | Promedio:{" "}
-                    {intensiveSummary.avgOvernightLossPpm} ppm | Ultima:{" "}
-                    {intensiveSummary.lastOvernightLossPpm} ppm
+                    Noches: {lastClosedIntensiveCycle.summary.nightsEvaluated} | Promedio:{" "}
+                    {lastClosedIntensiveCycle.summary.avgOvernightLossPpm} ppm | Ultima:{" "}
+                    {lastClosedIntensiveCycle.summary.lastOvernightLossPpm} ppm
                   </p>
-                  <p className="inline-note">{intensiveSummary.recommendation}</p>
+                  <p className="inline-note">{lastClosedIntensiveCycle.summary.recommendation}</p>
                 </div>
               ) : null}
               <p className="inline-note">
@@ -1031,19 +2729,10 @@ export function App() {
                 <button
                   className="btn-primary"
                   type="button"
-                  onClick={() => startIntensiveCycle(intensiveReasonDraft)}
+                  onClick={() => void startIntensiveCycle(intensiveReasonDraft)}
                 >
                   Iniciar ciclo intensivo
                 </button>
-                {intensiveSummary ? (
-                  <button
-                    className="btn-secondary"
-                    type="button"
-                    onClick={() => setIntensiveSummary(null)}
-                  >
-                    Limpiar resumen anterior
-                  </button>
-                ) : null}
                 <button className="btn-secondary" type="button" onClick={() => setScreen("settings")}>
                   Volver a configuracion
                 </button>
@@ -1052,10 +2741,13 @@ export function App() {
           ) : (
             <>
               <p className="status-pill status-warn">
-                Activo desde{" "}
-                {intensiveCycle.startedAtIso ? new Date(intensiveCycle.startedAtIso).toLocaleString() : "-"}.
+                Activo desde {new Date(activeIntensiveCycle.startedAt).toLocaleString()}.
+              </p>
+              <p className="inline-note">
+                Motivo: {activeIntensiveCycle.reason} | Criterios al iniciar:{" "}
+                {activeIntensiveCycle.minNights} noches, perdida nocturna maxima{" "}
+                {activeIntensiveCycle.maxOvernightLossPpm} ppm.
               </p>
-              <p className="inline-note">Motivo: {intensiveCycle.reason || "-"}</p>
               <div className="metrics-grid">
                 <article className="metric">
                   <p className="metric-label">Noches registradas</p>
@@ -1078,7 +2770,10 @@ export function App() {
                   <p className="metric-value">
                     {intensiveStats.canClose
                       ? "Cumplido"
-                      : `Pendiente (<= ${config.workflow.intensiveMaxOvernightLossPpm} ppm por noche)`}
+                      : `Pendiente (${formatOvernightLossCriterion(
+                          activeIntensiveCycle.maxOvernightLossPpm,
+                          coverComparison.coverFactor
+                        )})`}
                   </p>
                 </article>
               </div>
@@ -1100,7 +2795,7 @@ export function App() {
                 <button
                   className="btn-secondary"
                   type="button"
-                  onClick={closeIntensiveCycle}
+                  onClick={() => void closeIntensiveCycle()}
                   disabled={!intensiveStats.canClose}
                 >
                   Cerrar ciclo
@@ -1108,57 +2803,692 @@ export function App() {
                 <button
                   className="btn-secondary"
                   type="button"
-                  onClick={() => setIntensiveCycle(createDefaultIntensiveCycleState())}
+                  onClick={() => void cancelIntensiveCycle()}
                 >
                   Cancelar ciclo
                 </button>
               </div>
             </>
           )}
+          {intensiveCycles.some((cycle) => cycle !== activeIntensiveCycle) ? (
+            <>
+              <h3 className="section-title">Ciclos registrados</h3>
+              {intensiveCycles
+                .filter((cycle) => cycle !== activeIntensiveCycle)
+                .map((cycle) => (
+                  <article className="history-item" key={cycle.id}>
+                    <p>
+                      <strong>{cycle.reason}</strong> | Inicio{" "}
+                      {new Date(cycle.startedAt).toLocaleString()} |{" "}
+                      {formatIntensiveCycleOutcome(cycle)}
+                    </p>
+                    <p className="inline-note">
+                      Criterios: {cycle.minNights} noches, perdida nocturna maxima{" "}
+                      {cycle.maxOvernightLossPpm} ppm.
+                      {cycle.summary
+                        ? ` Promedio ${cycle.summary.avgOvernightLossPpm} ppm en ${cycle.summary.nightsEvaluated} noches.`
+                        : ""}
+                    </p>
+                  </article>
+                ))}
+            </>
+          ) : null}
         </section>
       ) : null}
 
       {screen === "history" ? (
         <section className="card">
           <h2 className="section-title">Historial</h2>
-          {sessions.length === 0 ? <p>No hay sesiones guardadas.</p> : null}
-          {sessions.map((session) => {
-            const phUnit = session.requiredPhCorrection.unit ?? "ml";
-            const chlorineUnit = session.requiredChlorineDose.unit ?? "ml";
-
-            return (
-              <article className="history-item" key={session.id}>
-                <p>{new Date(session.timestamp).toLocaleString()}</p>
-                <p>
-                  Tipo:{" "}
-                  {session.kind === "intensive-cycle"
-                    ? "Ciclo intensivo"
-                    : session.kind === "check"
-                      ? "Medicion"
-                      : "Plan de accion"}{" "}
-                  | Momento: {session.checkMoment ?? "-"}
-                </p>
-                <p>
-                  Altura {session.waterHeightCm} cm | pH {session.measuredPh} | Cl{" "}
-                  {session.measuredChlorinePpm} ppm
-                </p>
-                <p>
-                  pH etapa 1: {toFixedNumber(getLegacyPhStage1(session), 0)} {phUnit} | pH total:{" "}
-                  {toFixedNumber(getLegacyPhTotal(session), 0)} {phUnit}
+          <label className="field-label">
+            Tipo de sesion
+            <select
+              className="field-input"
+              value={historyFilters.kind}
+              onChange={(event) =>
+                setHistoryFilters((prev) => ({
+                  ...prev,
+                  kind: event.target.value as HistoryFilters["kind"]
+                }))
+              }
+            >
+              <option value="all">Todas</option>
+              <option value="adjustment">Plan de accion</option>
+              <option value="check">Medicion</option>
+              <option value="intensive-cycle">Ciclo intensivo</option>
+              <option value="shock">Supercloracion</option>
+            </select>
+          </label>
+          <label className="field-label">
+            Momento
+            <select
+              className="field-input"
+              value={historyFilters.checkMoment}
+              onChange={(event) =>
+                setHistoryFilters((prev) => ({
+                  ...prev,
+                  checkMoment: event.target.value as HistoryFilters["checkMoment"]
+                }))
+              }
+            >
+              <option value="all">Todos</option>
+              <option value="start-day">Inicio del dia</option>
+              <option value="sun-hours">Horas de sol</option>
+              <option value="night">Noche</option>
+            </select>
+          </label>
+          <label className="field-label">
+            Desde
+            <input
+              className="field-input"
+              type="date"
+              value={historyFilters.fromDate}
+              onChange={(event) =>
+                setHistoryFilters((prev) => ({ ...prev, fromDate: event.target.value }))
+              }
+            />
+          </label>
+          <label className="field-label">
+            Hasta
+            <input
+              className="field-input"
+              type="date"
+              value={historyFilters.toDate}
+              onChange={(event) =>
+                setHistoryFilters((prev) => ({ ...prev, toDate: event.target.value }))
+              }
+            />
+          </label>
+          <label className="check-item">
+            <input
+              type="checkbox"
+              checked={historyFilters.hadDose}
+              onChange={(event) =>
+                setHistoryFilters((prev) => ({ ...prev, hadDose: event.target.checked }))
+              }
+            />
+            Solo con dosis aplicada
+          </label>
+          <label className="check-item">
+            <input
+              type="checkbox"
+              checked={historyFilters.outOfRange}
+              onChange={(event) =>
+                setHistoryFilters((prev) => ({ ...prev, outOfRange: event.target.checked }))
+              }
+            />
+            Solo fuera de rango
+          </label>
+          {historySummary && historySummary.total > 0 ? (
+            <p className="inline-note">
+              {historySummary.total} sesiones: {historySummary.byKind.adjustment} planes,{" "}
+              {historySummary.byKind.check} mediciones, {historySummary.byKind["intensive-cycle"]}{" "}
+              de ciclo intensivo, {historySummary.byKind.shock} supercloraciones.{" "}
+              {historySummary.withDose} con dosis y {historySummary.outOfRange} fuera de rango.
+            </p>
+          ) : null}
+
+          {sessions.length === 0 ? <p>No hay sesiones guardadas.</p> : null}
+          {sessions.length > 0 && historyItems.length === 0 ? (
+            <p>No hay sesiones que coincidan con los filtros.</p>
+          ) : null}
+          {historyItems.map((session) => {
+            const phUnit = session.requiredPhCorrection.unit ?? "ml";
+            const chlorineUnit = session.requiredChlorineDose.unit ?? "ml";
+
+            return (
+              <article className="history-item" key={session.id}>
+                <p>{new Date(session.timestamp).toLocaleString()}</p>
+                <p>
+                  Tipo: {getSessionKindLabel(session.kind)} | Momento: {session.checkMoment ?? "-"}
+                </p>
+                <p>
+                  Altura {formatHeight(session.waterHeightCm, unitSystem)} | pH {session.measuredPh}{" "}
+                  | Cl {session.measuredChlorinePpm} ppm
                 </p>
                 <p>
-                  Cl mantencion: {toFixedNumber(getLegacyChlorineMaintenance(session), 0)} {chlorineUnit}
-                  {" "}| Cl correctiva: {toFixedNumber(getLegacyChlorineCorrective(session), 0)} {chlorineUnit}
+                  pH etapa 1: {formatDose(getLegacyPhStage1(session), phUnit, unitSystem)} | pH
+                  total: {formatDose(getLegacyPhTotal(session), phUnit, unitSystem)}
                 </p>
+                <p>
+                  Cl mantencion:{" "}
+                  {formatDose(getLegacyChlorineMaintenance(session), chlorineUnit, unitSystem)} | Cl
+                  correctiva:{" "}
+                  {formatDose(getLegacyChlorineCorrective(session), chlorineUnit, unitSystem)}
+                </p>
+                {session.calculationTrace?.ph ? (
+                  <CalculationTraceView trace={session.calculationTrace.ph} />
+                ) : null}
+                {session.calculationTrace?.chlorine ? (
+                  <CalculationTraceView trace={session.calculationTrace.chlorine} />
+                ) : null}
+                {session.calculationTrace?.shock ? (
+                  <CalculationTraceView trace={session.calculationTrace.shock} />
+                ) : null}
                 {session.notes ? <p>Notas: {session.notes}</p> : null}
+                {session.updatedAt ? (
+                  <p className="inline-note">
+                    Corregida el {new Date(session.updatedAt).toLocaleString()}
+                  </p>
+                ) : null}
+                <div className="actions">
+                  <button
+                    className="chip-btn"
+                    type="button"
+                    onClick={() => void openSessionEdit(session)}
+                  >
+                    Editar
+                  </button>
+                  {pendingDeleteSessionId === session.id ? (
+                    <>
+                      <button
+                        className="chip-btn"
+                        type="button"
+                        disabled={saving}
+                        onClick={() => void deleteSession(session.id)}
+                      >
+                        Confirmar eliminacion
+                      </button>
+                      <button
+                        className="chip-btn"
+                        type="button"
+                        onClick={() => setPendingDeleteSessionId(null)}
+                      >
+                        Cancelar
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      className="chip-btn"
+                      type="button"
+                      onClick={() => setPendingDeleteSessionId(session.id)}
+                    >
+                      Eliminar
+                    </button>
+                  )}
+                </div>
               </article>
             );
           })}
           <div className="actions">
-            <button className="btn-secondary" type="button" onClick={() => setScreen("home")}>
-              Volver
+            {historyCursor ? (
+              <button
+                className="btn-secondary"
+                type="button"
+                onClick={() => void loadMoreHistory()}
+              >
+                Cargar mas
+              </button>
+            ) : null}
+            {sessions.length > 0 ? (
+              <>
+                <button className="btn-secondary" type="button" onClick={() => exportHistory("csv")}>
+                  Exportar CSV
+                </button>
+                <button
+                  className="btn-secondary"
+                  type="button"
+                  onClick={() => exportHistory("json")}
+                >
+                  Exportar JSON
+                </button>
+              </>
+            ) : null}
+            <button className="btn-secondary" type="button" onClick={() => setScreen("home")}>
+              Volver
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {screen === "top-up" ? (
+        <section className="card">
+          <h2 className="section-title">Llenado de agua</h2>
+          <p className="inline-note">
+            El agua nueva diluye el cloro, el CYA y la alcalinidad. La estimacion se aplica a los
+            calculos de dosis hasta la proxima medicion.
+          </p>
+          <label className="field-label">
+            Altura antes del llenado ({heightUnit})
+            <input
+              className="field-input"
+              type="number"
+              min={1}
+              step={unitSystem === "imperial" ? 0.1 : 1}
+              value={
+                topUpDraft.heightBeforeCm === null
+                  ? ""
+                  : toHeightInput(topUpDraft.heightBeforeCm, unitSystem)
+              }
+              onChange={(event) =>
+                setTopUpDraft((prev) => ({
+                  ...prev,
+                  heightBeforeCm:
+                    event.target.value === ""
+                      ? null
+                      : fromDisplayHeight(Number(event.target.value), unitSystem)
+                }))
+              }
+            />
+          </label>
+          <label className="field-label">
+            Altura despues del llenado ({heightUnit})
+            <input
+              className="field-input"
+              type="number"
+              min={1}
+              step={unitSystem === "imperial" ? 0.1 : 1}
+              max={toHeightInput(config.pool.maxHeightCm ?? 200, unitSystem)}
+              value={
+                topUpDraft.heightAfterCm === null
+                  ? ""
+                  : toHeightInput(topUpDraft.heightAfterCm, unitSystem)
+              }
+              onChange={(event) =>
+                setTopUpDraft((prev) => ({
+                  ...prev,
+                  heightAfterCm:
+                    event.target.value === ""
+                      ? null
+                      : fromDisplayHeight(Number(event.target.value), unitSystem)
+                }))
+              }
+            />
+          </label>
+          <label className="field-label">
+            Notas del llenado
+            <input
+              className="field-input"
+              type="text"
+              value={topUpDraft.notes}
+              onChange={(event) =>
+                setTopUpDraft((prev) => ({ ...prev, notes: event.target.value }))
+              }
+            />
+          </label>
+
+          {topUpPreview ? (
+            <div className="latest-session">
+              <p className="latest-title">
+                Agua agregada: {formatVolume(topUpPreview.effect.addedLiters, unitSystem)} (
+                {toFixedNumber((1 - topUpPreview.effect.factor) * 100, 0)}% de dilucion)
+              </p>
+              {topUpPreview.effect.before.chlorinePpm !== null ? (
+                <p>
+                  Cloro libre estimado: {toFixedNumber(topUpPreview.effect.before.chlorinePpm, 1)}{" "}
+                  ppm {"->"} {toFixedNumber(topUpPreview.effect.after.chlorinePpm!, 1)} ppm
+                </p>
+              ) : null}
+              {topUpPreview.effect.before.cyaPpm !== null ? (
+                <p>
+                  CYA estimado: {toFixedNumber(topUpPreview.effect.before.cyaPpm, 0)} ppm {"->"}{" "}
+                  {toFixedNumber(topUpPreview.effect.after.cyaPpm!, 0)} ppm
+                </p>
+              ) : null}
+              {topUpPreview.effect.before.alkalinityPpm !== null ? (
+                <p>
+                  Alcalinidad estimada: {toFixedNumber(topUpPreview.effect.before.alkalinityPpm, 0)}{" "}
+                  ppm {"->"} {toFixedNumber(topUpPreview.effect.after.alkalinityPpm!, 0)} ppm
+                </p>
+              ) : null}
+              {topUpPreview.evaporation ? (
+                <p
+                  className={
+                    topUpPreview.evaporation.excessive ? "status-pill status-warn" : "inline-note"
+                  }
+                >
+                  {formatEvaporation(topUpPreview.evaporation, unitSystem)}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          <div className="actions">
+            <button
+              className="btn-primary"
+              type="button"
+              disabled={saving}
+              onClick={() => void saveTopUp()}
+            >
+              Guardar llenado
+            </button>
+            <button className="btn-secondary" type="button" onClick={() => setScreen("home")}>
+              Volver
+            </button>
+          </div>
+
+          <h3 className="section-title">Llenados registrados</h3>
+          {topUps.length === 0 ? <p className="inline-note">Sin llenados registrados.</p> : null}
+          {topUps.map((topUp) => {
+            const evaporation = evaluateEvaporation(topUp, sessions, topUps);
+            return (
+              <div className="history-item" key={topUp.id}>
+                <p>
+                  {new Date(topUp.timestamp).toLocaleString()} |{" "}
+                  {formatHeight(topUp.heightBeforeCm, unitSystem)} {"->"}{" "}
+                  {formatHeight(topUp.heightAfterCm, unitSystem)}
+                </p>
+                {evaporation?.excessive ? (
+                  <p className="status-pill status-warn">
+                    {formatEvaporation(evaporation, unitSystem)}
+                  </p>
+                ) : null}
+                {topUp.notes ? <p className="inline-note">{topUp.notes}</p> : null}
+              </div>
+            );
+          })}
+        </section>
+      ) : null}
+
+      {screen === "trends" && analytics && cyaTargetConfig ? (
+        <section className="card">
+          <h2 className="section-title">Tendencias</h2>
+          <p className="inline-note">Ultimos {analytics.windowDays} dias de mediciones.</p>
+          {analytics.series.length === 0 ? <p>No hay mediciones en este periodo.</p> : null}
+
+          <div className="metrics-grid">
+            <div className="metric">
+              <p className="metric-label">pH en rango</p>
+              <p className="metric-value">
+                {analytics.timeInRange.phPct === null
+                  ? "-"
+                  : `${toFixedNumber(analytics.timeInRange.phPct, 0)}% del tiempo`}
+              </p>
+            </div>
+            <div className="metric">
+              <p className="metric-label">Cloro en rango</p>
+              <p className="metric-value">
+                {analytics.timeInRange.chlorinePct === null
+                  ? "-"
+                  : `${toFixedNumber(analytics.timeInRange.chlorinePct, 0)}% del tiempo`}
+              </p>
+            </div>
+            {analytics.averages.map((rolling) => (
+              <div className="metric" key={rolling.days}>
+                <p className="metric-label">Promedio {rolling.days} dias</p>
+                <p className="metric-value">
+                  {rolling.count === 0
+                    ? "-"
+                    : `pH ${toFixedNumber(rolling.ph!, 2)} | Cl ${toFixedNumber(rolling.chlorine!, 1)} ppm`}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <TrendChart
+            title="pH"
+            points={analytics.series.map((point) => ({
+              timestamp: point.timestamp,
+              value: point.ph,
+              average: point.phAvg7d,
+              status: point.phStatus
+            }))}
+            targetMin={cyaTargetConfig.targets.phMin}
+            targetMax={cyaTargetConfig.targets.phMax}
+          />
+          <TrendChart
+            title="Cloro libre"
+            unit="ppm"
+            points={analytics.series.map((point) => ({
+              timestamp: point.timestamp,
+              value: point.chlorine,
+              average: point.chlorineAvg7d,
+              status: point.chlorineStatus
+            }))}
+            targetMin={toFixedNumber(cyaTargetConfig.targets.chlorineMinPpm, 1)}
+            targetMax={toFixedNumber(cyaTargetConfig.targets.chlorineMaxPpm, 1)}
+          />
+
+          <h3 className="section-title">Perdida nocturna de cloro</h3>
+          {[
+            { label: "Con cobertor", stats: coverComparison.covered },
+            { label: "Sin cobertor", stats: coverComparison.uncovered }
+          ].map(({ label, stats }) => (
+            <p key={label}>
+              {label}:{" "}
+              {stats.avgLossPpm === null
+                ? "sin noches registradas"
+                : `${toFixedNumber(stats.avgLossPpm, 2)} ppm promedio (${stats.nights} noches)`}
+            </p>
+          ))}
+          <p className="inline-note">
+            {coverComparison.benefitPpm === null
+              ? `Registra al menos ${MIN_COVER_COMPARISON_NIGHTS} noches con y sin cobertor para medir su efecto.`
+              : coverComparison.benefitPpm > 0
+                ? `El cobertor reduce la perdida nocturna en ${toFixedNumber(coverComparison.benefitPpm, 2)} ppm (${toFixedNumber((1 - coverComparison.coverFactor!) * 100, 0)}%). Se aplica al pronostico y al umbral del ciclo intensivo.`
+                : "Con las noches registradas el cobertor no reduce la perdida nocturna."}
+          </p>
+
+          <h3 className="section-title">Dosis por semana</h3>
+          {analytics.weeklyDoses.length === 0 ? <p>Sin dosis aplicadas en este periodo.</p> : null}
+          {analytics.weeklyDoses.map((total) => (
+            <p key={`${total.weekStart}:${total.chemical}:${total.unit}`}>
+              Semana del {total.weekStart}: {getDoseChemicalLabel(total.chemical)}{" "}
+              {formatDose(total.amount, total.unit, unitSystem)}
+            </p>
+          ))}
+
+          <div className="actions">
+            <button className="btn-secondary" type="button" onClick={() => setScreen("home")}>
+              Volver
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {screen === "edit-session" && sessionEditDraft ? (
+        <section className="card">
+          <h2 className="section-title">Corregir sesion</h2>
+          <p className="inline-note">
+            Al cambiar altura o mediciones se recalculan el volumen y las dosis requeridas. Las
+            dosis aplicadas se conservan.
+          </p>
+
+          <label className="field-label">
+            Altura ({heightUnit})
+            <input
+              className="field-input"
+              type="number"
+              min={1}
+              step={unitSystem === "imperial" ? 0.1 : 1}
+              value={
+                sessionEditDraft.waterHeightCm === null
+                  ? ""
+                  : toHeightInput(sessionEditDraft.waterHeightCm, unitSystem)
+              }
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        waterHeightCm:
+                          event.target.value === ""
+                            ? null
+                            : fromDisplayHeight(Number(event.target.value), unitSystem)
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            pH de la sesion
+            <input
+              className="field-input"
+              type="number"
+              min={6.8}
+              max={8.2}
+              step={0.1}
+              value={sessionEditDraft.measuredPh ?? ""}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        measuredPh: event.target.value === "" ? null : Number(event.target.value)
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Cloro libre (ppm)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              value={sessionEditDraft.measuredChlorinePpm ?? ""}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        measuredChlorinePpm:
+                          event.target.value === "" ? null : Number(event.target.value)
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Cloro total (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              value={sessionEditDraft.measuredTotalChlorinePpm ?? ""}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        measuredTotalChlorinePpm:
+                          event.target.value === "" ? null : Number(event.target.value)
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Alcalinidad (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              step={10}
+              value={sessionEditDraft.measuredAlkalinityPpm ?? ""}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        measuredAlkalinityPpm:
+                          event.target.value === "" ? null : Number(event.target.value)
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            CYA (ppm, opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={300}
+              step={5}
+              value={sessionEditDraft.measuredCyaPpm ?? ""}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        measuredCyaPpm:
+                          event.target.value === "" ? null : Number(event.target.value)
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Notas de la sesion
+            <textarea
+              className="field-input textarea-input"
+              rows={3}
+              value={sessionEditDraft.notes}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev ? { ...prev, notes: event.target.value } : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Quien corrige
+            <input
+              className="field-input"
+              type="text"
+              value={sessionEditDraft.author}
+              onChange={(event) =>
+                setSessionEditDraft((prev) =>
+                  prev ? { ...prev, author: event.target.value } : prev
+                )
+              }
+            />
+          </label>
+
+          <div className="actions">
+            <button
+              className="btn-primary"
+              type="button"
+              disabled={saving}
+              onClick={() => void saveSessionEdit()}
+            >
+              Guardar correccion
+            </button>
+            <button
+              className="btn-secondary"
+              type="button"
+              onClick={() => {
+                setSessionEditDraft(null);
+                setScreen("history");
+              }}
+            >
+              Cancelar
             </button>
           </div>
+
+          <h3 className="section-title">Historial de cambios</h3>
+          {sessionRevisions.length === 0 ? <p>Sin cambios registrados.</p> : null}
+          {sessionRevisions.map((revision) => (
+            <article className="history-item" key={revision.id}>
+              <p>
+                {new Date(revision.at).toLocaleString()} | {revision.author} |{" "}
+                {revision.action === "delete" ? "Eliminacion" : "Edicion"}
+              </p>
+              {revision.changes.map((change) => (
+                <p key={change.field}>
+                  {getSessionFieldLabel(change.field)}: {formatRevisionValue(change.before)} {"->"}{" "}
+                  {formatRevisionValue(change.after)}
+                </p>
+              ))}
+            </article>
+          ))}
         </section>
       ) : null}
 
@@ -1167,34 +3497,235 @@ export function App() {
           <h2 className="section-title">Configuracion</h2>
 
           <label className="field-label">
-            Diametro piscina (m)
+            Nombre de la piscina
             <input
               className="field-input"
-              type="number"
-              min={1}
-              step={0.01}
-              value={settingsDraft.pool.diameterM}
+              type="text"
+              value={settingsDraft.name}
+              onChange={(event) =>
+                setSettingsDraft((prev) => (prev ? { ...prev, name: event.target.value } : prev))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Sistema de unidades
+            <select
+              className="field-input"
+              value={settingsUnitSystem}
               onChange={(event) =>
                 setSettingsDraft((prev) =>
                   prev
-                    ? { ...prev, pool: { ...prev.pool, diameterM: Number(event.target.value) } }
+                    ? {
+                        ...prev,
+                        preferences: {
+                          ...prev.preferences,
+                          unitSystem: event.target.value === "imperial" ? "imperial" : "metric"
+                        }
+                      }
                     : prev
                 )
               }
-            />
+            >
+              <option value="metric">Metrico (cm, m, L, ml, g)</option>
+              <option value="imperial">Imperial (in, ft, gal, fl oz, oz)</option>
+            </select>
+          </label>
+
+          <label className="field-label">
+            Forma de la piscina
+            <select
+              className="field-input"
+              value={settingsDraft.pool.shape}
+              onChange={(event) =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        pool: changePoolShape(prev.pool, event.target.value as PoolShape)
+                      }
+                    : prev
+                )
+              }
+            >
+              {POOL_SHAPES.map((shape) => (
+                <option key={shape} value={shape}>
+                  {getPoolShapeLabel(shape)}
+                </option>
+              ))}
+            </select>
           </label>
 
+          {settingsDraft.pool.shape === "round" ? (
+            <label className="field-label">
+              Diametro piscina ({settingsLengthUnit})
+              <input
+                className="field-input"
+                type="number"
+                min={1}
+                step={0.01}
+                value={toLengthInput(settingsDraft.pool.diameterM, settingsUnitSystem)}
+                onChange={(event) =>
+                  setSettingsDraft((prev) =>
+                    prev && prev.pool.shape === "round"
+                      ? {
+                          ...prev,
+                          pool: {
+                            ...prev.pool,
+                            diameterM: fromDisplayLength(
+                              Number(event.target.value),
+                              settingsUnitSystem
+                            )
+                          }
+                        }
+                      : prev
+                  )
+                }
+              />
+            </label>
+          ) : (
+            <>
+              <label className="field-label">
+                Largo piscina ({settingsLengthUnit})
+                <input
+                  className="field-input"
+                  type="number"
+                  min={0.5}
+                  step={0.01}
+                  value={toLengthInput(settingsDraft.pool.lengthM, settingsUnitSystem)}
+                  onChange={(event) =>
+                    setSettingsDraft((prev) =>
+                      prev && prev.pool.shape !== "round"
+                        ? {
+                            ...prev,
+                            pool: {
+                              ...prev.pool,
+                              lengthM: fromDisplayLength(
+                                Number(event.target.value),
+                                settingsUnitSystem
+                              )
+                            }
+                          }
+                        : prev
+                    )
+                  }
+                />
+              </label>
+              <label className="field-label">
+                Ancho piscina ({settingsLengthUnit})
+                <input
+                  className="field-input"
+                  type="number"
+                  min={0.5}
+                  step={0.01}
+                  value={toLengthInput(settingsDraft.pool.widthM, settingsUnitSystem)}
+                  onChange={(event) =>
+                    setSettingsDraft((prev) =>
+                      prev && prev.pool.shape !== "round"
+                        ? {
+                            ...prev,
+                            pool: {
+                              ...prev.pool,
+                              widthM: fromDisplayLength(
+                                Number(event.target.value),
+                                settingsUnitSystem
+                              )
+                            }
+                          }
+                        : prev
+                    )
+                  }
+                />
+              </label>
+            </>
+          )}
+
+          {settingsDraft.pool.shape === "sloped-rectangular" ||
+          settingsDraft.pool.shape === "sloped-oval" ? (
+            <>
+              <label className="field-label">
+                Profundidad extremo bajo ({settingsHeightUnit})
+                <input
+                  className="field-input"
+                  type="number"
+                  min={1}
+                  value={toHeightInput(settingsDraft.pool.shallowDepthCm, settingsUnitSystem)}
+                  onChange={(event) =>
+                    setSettingsDraft((prev) =>
+                      prev &&
+                      (prev.pool.shape === "sloped-rectangular" || prev.pool.shape === "sloped-oval")
+                        ? {
+                            ...prev,
+                            pool: {
+                              ...prev.pool,
+                              shallowDepthCm: fromDisplayHeight(
+                                Number(event.target.value),
+                                settingsUnitSystem
+                              )
+                            }
+                          }
+                        : prev
+                    )
+                  }
+                />
+              </label>
+              <label className="field-label">
+                Profundidad extremo hondo ({settingsHeightUnit})
+                <input
+                  className="field-input"
+                  type="number"
+                  min={1}
+                  value={toHeightInput(settingsDraft.pool.deepDepthCm, settingsUnitSystem)}
+                  onChange={(event) =>
+                    setSettingsDraft((prev) =>
+                      prev &&
+                      (prev.pool.shape === "sloped-rectangular" || prev.pool.shape === "sloped-oval")
+                        ? {
+                            ...prev,
+                            pool: {
+                              ...prev.pool,
+                              deepDepthCm: fromDisplayHeight(
+                                Number(event.target.value),
+                                settingsUnitSystem
+                              )
+                            }
+                          }
+                        : prev
+                    )
+                  }
+                />
+              </label>
+              <p className="inline-note">
+                La altura de cada medicion se registra en el extremo bajo; el volumen suma la mitad del
+                desnivel del fondo.
+              </p>
+            </>
+          ) : null}
+
           <label className="field-label">
-            Altura maxima (cm)
+            Altura maxima ({settingsHeightUnit})
             <input
               className="field-input"
               type="number"
               min={1}
-              value={settingsDraft.pool.maxHeightCm ?? ""}
+              value={
+                settingsDraft.pool.maxHeightCm === undefined
+                  ? ""
+                  : toHeightInput(settingsDraft.pool.maxHeightCm, settingsUnitSystem)
+              }
               onChange={(event) =>
                 setSettingsDraft((prev) =>
                   prev
-                    ? { ...prev, pool: { ...prev.pool, maxHeightCm: Number(event.target.value) } }
+                    ? {
+                        ...prev,
+                        pool: {
+                          ...prev.pool,
+                          maxHeightCm: fromDisplayHeight(
+                            Number(event.target.value),
+                            settingsUnitSystem
+                          )
+                        }
+                      }
                     : prev
                 )
               }
@@ -1217,7 +3748,9 @@ export function App() {
                             ...prev.chlorineProduct,
                             type: "Hipoclorito de sodio",
                             concentration: 5,
-                            presentation: "liquid-ml"
+                            unit: "%",
+                            presentation: "liquid-ml",
+                            cyaPerFcPpm: 0
                           }
                         }
                       : prev
@@ -1234,7 +3767,9 @@ export function App() {
                             ...prev.chlorineProduct,
                             type: "Dicloroisocianurato de sodio",
                             concentration: 56,
-                            presentation: "granular-g"
+                            unit: "%",
+                            presentation: "granular-g",
+                            cyaPerFcPpm: DICHLOR_CYA_PER_FC_PPM
                           }
                         }
                       : prev
@@ -1269,7 +3804,7 @@ export function App() {
           </label>
 
           <label className="field-label">
-            Concentracion cloro (%)
+            Concentracion cloro ({settingsDraft.chlorineProduct.unit})
             <input
               className="field-input"
               type="number"
@@ -1292,6 +3827,30 @@ export function App() {
             />
           </label>
 
+          <label className="field-label">
+            Unidad de concentracion del cloro
+            <select
+              className="field-input"
+              value={settingsDraft.chlorineProduct.unit}
+              onChange={(event) =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        chlorineProduct: {
+                          ...prev.chlorineProduct,
+                          unit: event.target.value === "g/L" ? "g/L" : "%"
+                        }
+                      }
+                    : prev
+                )
+              }
+            >
+              <option value="%">% de cloro disponible</option>
+              <option value="g/L">g/L de cloro activo (etiqueta liquida)</option>
+            </select>
+          </label>
+
           <label className="field-label">
             Presentacion de cloro
             <select
@@ -1317,6 +3876,30 @@ export function App() {
             </select>
           </label>
 
+          <label className="field-label">
+            CYA aportado por ppm de cloro (0 si no es estabilizado)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              step={0.1}
+              value={settingsDraft.chlorineProduct.cyaPerFcPpm}
+              onChange={(event) =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        chlorineProduct: {
+                          ...prev.chlorineProduct,
+                          cyaPerFcPpm: Number(event.target.value)
+                        }
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
           <label className="field-label">
             Producto para bajar pH
             <input
@@ -1572,7 +4155,7 @@ export function App() {
               }
             />
           </label>
-          {settingsDraft.workflow.enableIntensiveCycle || intensiveCycle.active ? (
+          {settingsDraft.workflow.enableIntensiveCycle || activeIntensiveCycle ? (
             <button
               className="btn-secondary"
               type="button"
@@ -1582,6 +4165,56 @@ export function App() {
             </button>
           ) : null}
 
+          <div className="latest-session">
+            <p className="latest-title">Vaciado y llenado</p>
+            <p className="inline-note">
+              {settingsDraft.chemistry.lastRefillAt
+                ? `Ultimo registro: ${new Date(settingsDraft.chemistry.lastRefillAt).toLocaleString()}. El CYA estimado parte de 0 desde esa fecha.`
+                : "Sin registro: el CYA se estima con todo el historial."}
+            </p>
+            <button
+              className="btn-secondary"
+              type="button"
+              onClick={() =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        chemistry: {
+                          ...prev.chemistry,
+                          lastRefillAt: new Date().toISOString()
+                        }
+                      }
+                    : prev
+                )
+              }
+            >
+              Registrar vaciado y llenado
+            </button>
+          </div>
+
+          <div className="latest-session">
+            <p className="latest-title">Recordatorios</p>
+            <p className="inline-note">
+              {notificationPermission === "unsupported"
+                ? "Este navegador no admite notificaciones locales."
+                : notificationPermission === "granted"
+                  ? "Notificaciones activas: se avisa al terminar la espera de pH, al cumplir la pausa maxima y en cada momento de control."
+                  : notificationPermission === "denied"
+                    ? "Notificaciones bloqueadas: habilitalas desde los permisos del navegador."
+                    : "Las notificaciones avisan al terminar la espera de pH, al cumplir la pausa maxima y en cada momento de control."}
+            </p>
+            {notificationPermission === "default" ? (
+              <button
+                className="btn-secondary"
+                type="button"
+                onClick={() => void enableNotifications()}
+              >
+                Activar notificaciones
+              </button>
+            ) : null}
+          </div>
+
           <label className="field-label">
             TA estimada (ppm)
             <input
@@ -1595,15 +4228,33 @@ export function App() {
                   prev
                     ? {
                         ...prev,
-                        chemistry: {
-                          ...prev.chemistry,
-                          estimatedAlkalinityPpm: Number(event.target.value)
-                        }
+                        chemistry: {
+                          ...prev.chemistry,
+                          estimatedAlkalinityPpm: Number(event.target.value)
+                        }
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="check-item">
+            <input
+              type="checkbox"
+              checked={settingsDraft.chemistry.usesCover}
+              onChange={(event) =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        chemistry: { ...prev.chemistry, usesCover: event.target.checked }
                       }
                     : prev
                 )
               }
             />
+            Uso cobertor por la noche
           </label>
 
           <label className="field-label">
@@ -1706,10 +4357,88 @@ export function App() {
             />
           </label>
 
+          <label className="field-label">
+            Alcalinidad minima objetivo (ppm)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={400}
+              step={10}
+              value={settingsDraft.targets.alkalinityMinPpm}
+              onChange={(event) =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        targets: {
+                          ...prev.targets,
+                          alkalinityMinPpm: Number(event.target.value)
+                        }
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Alcalinidad maxima objetivo (ppm)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              max={400}
+              step={10}
+              value={settingsDraft.targets.alkalinityMaxPpm}
+              onChange={(event) =>
+                setSettingsDraft((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        targets: {
+                          ...prev.targets,
+                          alkalinityMaxPpm: Number(event.target.value)
+                        }
+                      }
+                    : prev
+                )
+              }
+            />
+          </label>
+
           <div className="actions">
             <button className="btn-primary" type="button" onClick={() => void saveSettings()}>
               Guardar configuracion
             </button>
+            <button className="btn-secondary" type="button" onClick={() => void createPool()}>
+              Agregar piscina
+            </button>
+            {pools.length > 1 ? (
+              <button
+                className="btn-secondary"
+                type="button"
+                onClick={() => void archiveActivePool()}
+              >
+                Archivar esta piscina
+              </button>
+            ) : null}
+            <button className="btn-secondary" type="button" onClick={() => setScreen("products")}>
+              Catalogo de productos
+            </button>
+            <button
+              className="btn-secondary"
+              type="button"
+              onClick={() => {
+                setRestockDraft(createRestockDraft(products[0]?.id ?? ""));
+                setScreen("inventory");
+              }}
+            >
+              Inventario
+            </button>
+            <button className="btn-secondary" type="button" onClick={() => setScreen("backup")}>
+              Respaldo y restauracion
+            </button>
             <button className="btn-secondary" type="button" onClick={() => setScreen("home")}>
               Cancelar
             </button>
@@ -1717,6 +4446,390 @@ export function App() {
         </section>
       ) : null}
 
+      {screen === "products" ? (
+        <section className="card">
+          <h2 className="section-title">Catalogo de productos</h2>
+          <p className="inline-note">
+            Los productos del catalogo se pueden elegir en cada medicion. El producto configurado en
+            cada piscina se agrega automaticamente.
+          </p>
+          {PRODUCT_ROLES.map((role) => (
+            <div className="latest-session" key={role}>
+              <p className="latest-title">{getProductRoleLabel(role)}</p>
+              {products.filter((product) => product.role === role).length === 0 ? (
+                <p className="inline-note">Sin productos.</p>
+              ) : null}
+              {products
+                .filter((product) => product.role === role)
+                .map((product) => (
+                  <div className="status-row" key={product.id}>
+                    <span>{formatProductLabel(product)}</span>
+                    <button
+                      className="chip-btn"
+                      type="button"
+                      onClick={() => void archiveProduct(product.id)}
+                    >
+                      Archivar
+                    </button>
+                  </div>
+                ))}
+            </div>
+          ))}
+
+          <h3 className="section-title">Agregar producto</h3>
+          <label className="field-label">
+            Uso
+            <select
+              className="field-input"
+              value={productDraft.role}
+              onChange={(event) =>
+                setProductDraft((prev) => ({
+                  ...prev,
+                  role: PRODUCT_ROLES.find((role) => role === event.target.value) ?? "chlorine"
+                }))
+              }
+            >
+              {PRODUCT_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {getProductRoleLabel(role)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="field-label">
+            Nombre
+            <input
+              className="field-input"
+              type="text"
+              value={productDraft.type}
+              onChange={(event) =>
+                setProductDraft((prev) => ({
+                  ...prev,
+                  type: event.target.value
+                }))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Concentracion
+            <input
+              className="field-input"
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={productDraft.concentration}
+              onChange={(event) =>
+                setProductDraft((prev) => ({
+                  ...prev,
+                  concentration: Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+
+          <label className="field-label">
+            Unidad de concentracion
+            <select
+              className="field-input"
+              value={productDraft.unit}
+              onChange={(event) =>
+                setProductDraft((prev) => ({
+                  ...prev,
+                  unit: event.target.value === "g/L" ? "g/L" : "%"
+                }))
+              }
+            >
+              <option value="%">%</option>
+              <option value="g/L">g/L</option>
+            </select>
+          </label>
+
+          {productDraft.role !== "acid" ? (
+            <label className="field-label">
+              Presentacion
+              <select
+                className="field-input"
+                value={productDraft.presentation}
+                onChange={(event) =>
+                  setProductDraft((prev) => ({
+                    ...prev,
+                    presentation: event.target.value === "granular-g" ? "granular-g" : "liquid-ml"
+                  }))
+                }
+              >
+                <option value="liquid-ml">Liquido (ml)</option>
+                <option value="granular-g">Granulado (g)</option>
+              </select>
+            </label>
+          ) : null}
+
+          {productDraft.role === "chlorine" ? (
+            <label className="field-label">
+              CYA aportado por ppm de cloro (0 si no es estabilizado)
+              <input
+                className="field-input"
+                type="number"
+                min={0}
+                step={0.1}
+                value={productDraft.cyaPerFcPpm}
+                onChange={(event) =>
+                  setProductDraft((prev) => ({
+                    ...prev,
+                    cyaPerFcPpm: Number(event.target.value)
+                  }))
+                }
+              />
+            </label>
+          ) : null}
+
+          <div className="actions">
+            <button className="btn-primary" type="button" onClick={() => void addProduct()}>
+              Agregar producto
+            </button>
+            <button className="btn-secondary" type="button" onClick={() => setScreen("settings")}>
+              Volver a configuracion
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {screen === "inventory" ? (
+        <section className="card">
+          <h2 className="section-title">Inventario de quimicos</h2>
+          <p className="inline-note">
+            Cada sesion guardada descuenta las dosis aplicadas de los envases abiertos, y luego de
+            los mas antiguos. Se avisa si el consumo de los ultimos dias agota el stock antes de{" "}
+            {STOCK_WARNING_DAYS} dias.
+          </p>
+          {products.map((product) => {
+            const stock = getProductStock(inventory, product.id);
+            const containers = inventory.filter(
+              (container) => container.productId === product.id && !container.emptiedAt
+            );
+            return (
+              <div className="latest-session" key={product.id}>
+                <p className="latest-title">
+                  {formatProductLabel(product)}:{" "}
+                  {stock.unit
+                    ? formatDose(toFixedNumber(stock.remaining, 0), stock.unit, unitSystem)
+                    : "sin stock"}
+                </p>
+                {containers.map((container) => (
+                  <div className="status-row" key={container.id}>
+                    <span>
+                      {formatDose(
+                        toFixedNumber(container.remaining, 0),
+                        container.unit,
+                        unitSystem
+                      )}{" "}
+                      de {formatDose(container.quantity, container.unit, unitSystem)} |{" "}
+                      {container.openedAt
+                        ? `Abierto: ${new Date(container.openedAt).toLocaleDateString()}`
+                        : "Cerrado"}
+                      {container.price !== undefined ? ` | Precio: ${container.price}` : ""}
+                    </span>
+                    {!container.openedAt ? (
+                      <button
+                        className="chip-btn"
+                        type="button"
+                        onClick={() => void updateContainer(container.id, "open")}
+                      >
+                        Marcar abierto
+                      </button>
+                    ) : null}
+                    <button
+                      className="chip-btn"
+                      type="button"
+                      onClick={() => void updateContainer(container.id, "discard")}
+                    >
+                      Descartar
+                    </button>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+
+          <h3 className="section-title">Registrar compra</h3>
+          <label className="field-label">
+            Producto comprado
+            <select
+              className="field-input"
+              value={restockDraft.productId}
+              onChange={(event) =>
+                setRestockDraft((prev) => ({ ...prev, productId: event.target.value }))
+              }
+            >
+              <option value="">Elegir producto</option>
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {formatProductLabel(product)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            Cantidad del envase (
+            {getPresentationDoseUnit(
+              products.find((product) => product.id === restockDraft.productId)?.presentation ??
+                "liquid-ml"
+            )}
+            )
+            <input
+              className="field-input"
+              type="number"
+              min={1}
+              step={1}
+              value={restockDraft.quantity ?? ""}
+              onChange={(event) =>
+                setRestockDraft((prev) => ({
+                  ...prev,
+                  quantity: event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+          <label className="field-label">
+            Precio (opcional)
+            <input
+              className="field-input"
+              type="number"
+              min={0}
+              step={0.01}
+              value={restockDraft.price ?? ""}
+              onChange={(event) =>
+                setRestockDraft((prev) => ({
+                  ...prev,
+                  price: event.target.value === "" ? null : Number(event.target.value)
+                }))
+              }
+            />
+          </label>
+          <label className="check-item">
+            <input
+              type="checkbox"
+              checked={restockDraft.opened}
+              onChange={(event) =>
+                setRestockDraft((prev) => ({ ...prev, opened: event.target.checked }))
+              }
+            />
+            Envase ya abierto
+          </label>
+          <div className="actions">
+            <button className="btn-primary" type="button" onClick={() => void registerRestock()}>
+              Registrar compra
+            </button>
+            <button className="btn-secondary" type="button" onClick={() => setScreen("settings")}>
+              Volver a configuracion
+            </button>
+          </div>
+
+          <h3 className="section-title">Historial de compras</h3>
+          {getRestockHistory(inventoryMovements).length === 0 ? (
+            <p className="inline-note">Sin compras registradas.</p>
+          ) : null}
+          {getRestockHistory(inventoryMovements).map((movement) => (
+            <p key={movement.id}>
+              {new Date(movement.at).toLocaleDateString()} | {getProductName(movement.productId)} |{" "}
+              {formatDose(movement.amount, movement.unit, unitSystem)}
+              {movement.price !== undefined ? ` | Precio: ${movement.price}` : ""}
+            </p>
+          ))}
+        </section>
+      ) : null}
+
+      {screen === "backup" ? (
+        <section className="card">
+          <h2 className="section-title">Respaldo y restauracion</h2>
+          <p className="inline-note">
+            El respaldo incluye todas las piscinas con su historial, llenados, ciclos intensivos,
+            productos e inventario. Guardalo fuera del telefono para recuperarlo si se borran los
+            datos del navegador.
+          </p>
+          <div className="actions">
+            <button className="btn-primary" type="button" onClick={() => void downloadBackup()}>
+              Descargar respaldo
+            </button>
+          </div>
+
+          <label className="field-label">
+            Archivo de respaldo (JSON)
+            <input
+              className="field-input"
+              type="file"
+              accept="application/json,.json"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  void previewBackup(file, pendingBackup?.plan.mode ?? "merge");
+                }
+              }}
+            />
+          </label>
+
+          {pendingBackup ? (
+            <>
+              <label className="field-label">
+                Modo de importacion
+                <select
+                  className="field-input"
+                  value={pendingBackup.plan.mode}
+                  onChange={(event) =>
+                    void changeBackupMode(event.target.value === "replace" ? "replace" : "merge")
+                  }
+                >
+                  <option value="merge">Combinar con los datos actuales</option>
+                  <option value="replace">Reemplazar los datos actuales</option>
+                </select>
+              </label>
+              <div className="latest-session">
+                <p className="latest-title">Vista previa (aun no se guarda nada)</p>
+                {BACKUP_TABLES.map((table) => (
+                  <p key={table}>
+                    {BACKUP_TABLE_LABELS[table]}:{" "}
+                    {formatBackupCounts(pendingBackup.plan.tables[table].counts)}
+                  </p>
+                ))}
+                {pendingBackup.plan.report.conflicts.map((conflict) => (
+                  <p className="inline-note" key={conflict}>
+                    {conflict}
+                  </p>
+                ))}
+                {pendingBackup.plan.report.issues.map((issue) => (
+                  <p className="error-text" key={`${issue.path}-${issue.message}`}>
+                    Omitido {issue.path}: {issue.message}
+                  </p>
+                ))}
+              </div>
+              <div className="actions">
+                <button
+                  className="btn-primary"
+                  type="button"
+                  onClick={() => void confirmBackupImport()}
+                >
+                  Confirmar importacion
+                </button>
+                <button
+                  className="btn-secondary"
+                  type="button"
+                  onClick={() => setPendingBackup(null)}
+                >
+                  Descartar
+                </button>
+              </div>
+            </>
+          ) : null}
+
+          <div className="actions">
+            <button className="btn-secondary" type="button" onClick={() => setScreen("settings")}>
+              Volver a configuracion
+            </button>
+          </div>
+        </section>
+      ) : null}
+
       {screen === "help" ? (
         <section className="card">
           <h2 className="section-title">Ayuda del nuevo flujo</h2>
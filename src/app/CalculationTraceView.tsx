@@ -0,0 +1,42 @@
+import { formatTraceStep, formatTraceValue } from "../domain/calculationTrace";
+import type { CalculationTrace } from "../domain/types";
+
+interface CalculationTraceViewProps {
+  trace: CalculationTrace;
+}
+
+export function CalculationTraceView({ trace }: CalculationTraceViewProps) {
+  return (
+    <details className="trace-details">
+      <summary>Como se calculo? {trace.title}</summary>
+      <p className="trace-heading">Datos</p>
+      <ul className="trace-list">
+        {trace.inputs.map((input) => (
+          <li key={input.symbol}>{formatTraceValue(input)}</li>
+        ))}
+      </ul>
+      {trace.constants.length > 0 ? (
+        <>
+          <p className="trace-heading">Constantes</p>
+          <ul className="trace-list">
+            {trace.constants.map((constant) => (
+              <li key={constant.symbol}>{formatTraceValue(constant)}</li>
+            ))}
+          </ul>
+        </>
+      ) : null}
+      {trace.note ? <p className="inline-note">{trace.note}</p> : null}
+      {trace.steps.length > 0 ? (
+        <>
+          <p className="trace-heading">Pasos</p>
+          <ol className="trace-list">
+            {trace.steps.map((step) => (
+              <li key={step.symbol}>{formatTraceStep(step)}</li>
+            ))}
+          </ol>
+        </>
+      ) : null}
+      <p className="trace-heading">Resultado: {formatTraceValue(trace.result)}</p>
+    </details>
+  );
+}
@@ -0,0 +1,114 @@
+import type { ReadingStatus } from "../domain/analytics";
+
+export interface TrendChartPoint {
+  timestamp: string;
+  value: number;
+  average: number;
+  status: ReadingStatus;
+}
+
+interface TrendChartProps {
+  title: string;
+  unit?: string;
+  points: TrendChartPoint[];
+  targetMin: number;
+  targetMax: number;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING_LEFT = 34;
+const PADDING_RIGHT = 8;
+const PADDING_Y = 12;
+
+export function TrendChart({ title, unit, points, targetMin, targetMax }: TrendChartProps) {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const times = points.map((point) => Date.parse(point.timestamp));
+  const firstAt = Math.min(...times);
+  const lastAt = Math.max(...times);
+  const values = points.flatMap((point) => [point.value, point.average]);
+  const minValue = Math.min(targetMin, ...values);
+  const maxValue = Math.max(targetMax, ...values);
+  const valueSpan = maxValue - minValue || 1;
+
+  const toX = (at: number) =>
+    lastAt === firstAt
+      ? (PADDING_LEFT + WIDTH - PADDING_RIGHT) / 2
+      : PADDING_LEFT +
+        ((at - firstAt) / (lastAt - firstAt)) * (WIDTH - PADDING_LEFT - PADDING_RIGHT);
+  const toY = (value: number) =>
+    HEIGHT - PADDING_Y - ((value - minValue) / valueSpan) * (HEIGHT - 2 * PADDING_Y);
+  const averagePath = points
+    .map((point, index) => `${toX(times[index]).toFixed(1)},${toY(point.average).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <figure className="ph-chart-wrap">
+      <p className="chart-title">{title}</p>
+      <svg
+        className="fc-trend-chart"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`${title}: ${points.length} lecturas`}
+      >
+        <line
+          className="axis-line"
+          x1={PADDING_LEFT}
+          x2={PADDING_LEFT}
+          y1={PADDING_Y}
+          y2={HEIGHT - PADDING_Y}
+        />
+        {[targetMin, targetMax].map((target) => (
+          <g key={target}>
+            <line
+              className="target-line"
+              x1={PADDING_LEFT}
+              x2={WIDTH - PADDING_RIGHT}
+              y1={toY(target)}
+              y2={toY(target)}
+            />
+            <text className="axis-text" x={2} y={toY(target) + 3}>
+              {target}
+            </text>
+          </g>
+        ))}
+        <polyline className="fc-trend-line trend-average" points={averagePath} />
+        {points.map((point, index) => (
+          <circle
+            key={point.timestamp}
+            className={`trend-point trend-point-${point.status}`}
+            cx={toX(times[index])}
+            cy={toY(point.value)}
+            r={3}
+          >
+            <title>
+              {new Date(point.timestamp).toLocaleString()}: {point.value}
+              {unit ? ` ${unit}` : ""}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="chart-legend">
+        <span className="legend-item">
+          <span className="legend-swatch trend-swatch-average" />
+          Promedio 7 dias
+        </span>
+        <span className="legend-item">
+          <span className="legend-swatch trend-swatch-ok" />
+          En rango
+        </span>
+        <span className="legend-item">
+          <span className="legend-swatch trend-swatch-leve" />
+          Ajuste leve
+        </span>
+        <span className="legend-item">
+          <span className="legend-swatch trend-swatch-ajuste" />
+          Ajuste requerido
+        </span>
+      </div>
+    </figure>
+  );
+}
@@ -1,3 +1,13 @@
+const REMINDERS_UPDATED_MESSAGE = "reminders-updated";
+const REMINDERS_SYNC_TAG = "reminders";
+const REMINDERS_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+  };
+}
+
 export function registerServiceWorker() {
   if (!("serviceWorker" in navigator)) {
     return;
@@ -19,6 +29,42 @@ export function registerServiceWorker() {
   window.addEventListener("load", () => {
     void navigator.serviceWorker
       .register(`${import.meta.env.BASE_URL}sw.js`)
-      .then((registration) => registration.update());
+      .then((registration) => registration.update())
+      .then(() => notifyRemindersUpdated());
   });
 }
+
+export function areNotificationsSupported(): boolean {
+  return "Notification" in window && "serviceWorker" in navigator;
+}
+
+export async function requestReminderPermission(): Promise<NotificationPermission> {
+  if (!areNotificationsSupported()) {
+    return "denied";
+  }
+  if (Notification.permission !== "default") {
+    return Notification.permission;
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission === "granted") {
+    await registerRemindersSync();
+  }
+  return permission;
+}
+
+async function registerRemindersSync(): Promise<void> {
+  const registration = (await navigator.serviceWorker.ready) as PeriodicSyncRegistration;
+  // Periodic Background Sync solo existe en algunos navegadores; sin el, el SW revisa al abrir la app.
+  await registration.periodicSync
+    ?.register(REMINDERS_SYNC_TAG, { minInterval: REMINDERS_SYNC_INTERVAL_MS })
+    .catch(() => undefined);
+}
+
+// Avisa al service worker que relea los recordatorios guardados en IndexedDB.
+export function notifyRemindersUpdated(): void {
+  if (!("serviceWorker" in navigator) || !navigator.serviceWorker.controller) {
+    return;
+  }
+  navigator.serviceWorker.controller.postMessage({ type: REMINDERS_UPDATED_MESSAGE });
+}
@@ -1,18 +1,42 @@
 import Dexie, { type Table } from "dexie";
-import type { PoolConfig, Session } from "../domain/types";
+import type {
+  ChemicalProduct,
+  IntensiveCycle,
+  InventoryContainer,
+  InventoryMovement,
+  PoolConfig,
+  Reminder,
+  Session,
+  SessionRevision,
+  WaterTopUp
+} from "../domain/types";
+import { applySchemaMigrations } from "./migrations";
 
-class PiscinaDatabase extends Dexie {
+export { ACTIVE_POOL_KEY } from "./migrations";
+
+export interface AppStateEntry {
+  key: string;
+  value: string;
+}
+
+export const DATABASE_NAME = "piscinaPwaDB";
+
+export class PiscinaDatabase extends Dexie {
   config!: Table<PoolConfig, string>;
   sessions!: Table<Session, string>;
+  appState!: Table<AppStateEntry, string>;
+  products!: Table<ChemicalProduct, string>;
+  reminders!: Table<Reminder, string>;
+  inventory!: Table<InventoryContainer, string>;
+  inventoryMovements!: Table<InventoryMovement, string>;
+  sessionRevisions!: Table<SessionRevision, string>;
+  topUps!: Table<WaterTopUp, string>;
+  intensiveCycles!: Table<IntensiveCycle, string>;
 
-  constructor() {
-    super("piscinaPwaDB");
-
-    this.version(1).stores({
-      config: "id, updatedAt",
-      sessions: "id, timestamp"
-    });
+  constructor(name: string = DATABASE_NAME) {
+    super(name);
+    applySchemaMigrations(this);
   }
 }
 
-export const db = new PiscinaDatabase();
+export const db = new PiscinaDatabase();
@@ -0,0 +1,273 @@
+import "fake-indexeddb/auto";
+import Dexie from "dexie";
+import { afterEach, describe, expect, it } from "vitest";
+import { PiscinaDatabase } from "./db";
+import { getLatestSchemaVersion, schemaMigrations } from "./migrations";
+import { defaultPoolConfig } from "../domain/defaults";
+
+const openDatabases: Dexie[] = [];
+
+async function seedV1Database(
+  name: string,
+  config: Record<string, unknown> | null,
+  sessions: Record<string, unknown>[]
+): Promise<void> {
+  const legacy = new Dexie(name);
+  legacy.version(1).stores(schemaMigrations[0].stores);
+  await legacy.open();
+  if (config) {
+    await legacy.table("config").put(config);
+  }
+  await legacy.table("sessions").bulkPut(sessions);
+  legacy.close();
+}
+
+async function seedV10Database(
+  name: string,
+  tables: Record<string, Record<string, unknown>[]>
+): Promise<void> {
+  const legacy = new Dexie(name);
+  for (const migration of schemaMigrations.filter((item) => item.version <= 10)) {
+    legacy.version(migration.version).stores(migration.stores);
+  }
+  await legacy.open();
+  for (const [table, rows] of Object.entries(tables)) {
+    await legacy.table(table).bulkPut(rows);
+  }
+  legacy.close();
+}
+
+async function openCurrent(name: string): Promise<PiscinaDatabase> {
+  const database = new PiscinaDatabase(name);
+  openDatabases.push(database);
+  await database.open();
+  return database;
+}
+
+afterEach(async () => {
+  for (const database of openDatabases.splice(0)) {
+    database.close();
+    await Dexie.delete(database.name);
+  }
+});
+
+describe("schemaMigrations", () => {
+  it("declara versiones consecutivas con funcion de upgrade", () => {
+    expect(schemaMigrations.map((migration) => migration.version)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11
+    ]);
+    expect(schemaMigrations.every((migration) => typeof migration.upgrade === "function")).toBe(
+      true
+    );
+    expect(getLatestSchemaVersion()).toBe(11);
+  });
+});
+
+describe("PiscinaDatabase upgrade desde v1", () => {
+  it("completa la configuracion v1 con valores por defecto", async () => {
+    const name = `piscina-test-${crypto.randomUUID()}`;
+    await seedV1Database(
+      name,
+      {
+        id: "default",
+        updatedAt: "2026-01-10T10:00:00.000Z",
+        pool: { diameterM: 3.66, maxHeightCm: 84 },
+        chlorineProduct: {
+          type: "Hipoclorito de sodio",
+          concentration: 5,
+          unit: "%",
+          presentation: "liquid-ml"
+        },
+        acidProduct: { type: "HCl", concentration: 10, unit: "%" },
+        chemistry: { estimatedAlkalinityPpm: 120 },
+        targets: { phMin: 7.2, phMax: 7.6, chlorineMinPpm: 1, chlorineMaxPpm: 3 }
+      },
+      []
+    );
+
+    const database = await openCurrent(name);
+    expect(database.verno).toBe(getLatestSchemaVersion());
+
+    const config = await database.config.get("default");
+    expect(config?.name).toBe(defaultPoolConfig.name);
+    expect(config?.pool).toEqual({ shape: "round", diameterM: 3.66, maxHeightCm: 84 });
+    expect(config?.chlorineProduct.concentration).toBe(5);
+    expect(config?.chlorineProduct.cyaPerFcPpm).toBe(0);
+    expect(config?.phUpProduct).toEqual(defaultPoolConfig.phUpProduct);
+    expect(config?.workflow).toEqual(defaultPoolConfig.workflow);
+    expect(config?.chemistry).toEqual({ estimatedAlkalinityPpm: 120, usesCover: false });
+
+    const activePool = await database.appState.get("activePoolId");
+    expect(activePool?.value).toBe("default");
+  });
+
+  it("agrega al catalogo los productos configurados en cada piscina", async () => {
+    const name = `piscina-test-${crypto.randomUUID()}`;
+    await seedV1Database(name, { ...defaultPoolConfig }, []);
+
+    const database = await openCurrent(name);
+    const products = await database.products.toArray();
+
+    expect(products.filter((product) => product.role === "chlorine")).toHaveLength(1);
+    expect(products.filter((product) => product.role === "acid")).toHaveLength(1);
+    expect(products.find((product) => product.role === "chlorine")?.type).toBe(
+      defaultPoolConfig.chlorineProduct.type
+    );
+  });
+
+  it("asigna sesiones v1 a la primera piscina y migra dosis en formato legado", async () => {
+    const name = `piscina-test-${crypto.randomUUID()}`;
+    await seedV1Database(name, { ...defaultPoolConfig, id: "mi-piscina" }, [
+      {
+        id: "s1",
+        timestamp: "2026-01-11T09:00:00.000Z",
+        waterHeightCm: 70,
+        measuredPh: 7.8,
+        measuredChlorinePpm: 0.5,
+        calculatedVolumeLiters: 5114,
+        requiredPhCorrection: { totalMl: 80, stage1Ml: 40 },
+        requiredChlorineDose: { maintenanceMl: 50, correctiveMl: 120 }
+      }
+    ]);
+
+    const database = await openCurrent(name);
+    const session = await database.sessions.get("s1");
+
+    expect(session?.poolId).toBe("mi-piscina");
+    expect(session?.kind).toBe("adjustment");
+    expect(session?.requiredPhCorrection).toEqual({
+      direction: "down",
+      total: 80,
+      stage1: 40,
+      unit: "ml"
+    });
+    expect(session?.requiredChlorineDose).toEqual({
+      maintenance: 50,
+      corrective: 120,
+      unit: "ml"
+    });
+    expect(session?.appliedDoses).toEqual({});
+
+    const poolSessions = await database.sessions.where("poolId").equals("mi-piscina").count();
+    expect(poolSessions).toBe(1);
+  });
+
+  it("indexa las sesiones migradas por tipo y momento de medicion", async () => {
+    const name = `piscina-test-${crypto.randomUUID()}`;
+    await seedV1Database(name, { ...defaultPoolConfig, id: "mi-piscina" }, [
+      {
+        id: "s1",
+        timestamp: "2026-01-11T09:00:00.000Z",
+        waterHeightCm: 70,
+        measuredPh: 7.4,
+        measuredChlorinePpm: 1.2,
+        calculatedVolumeLiters: 5114
+      },
+      {
+        id: "s2",
+        timestamp: "2026-01-12T21:00:00.000Z",
+        kind: "check",
+        checkMoment: "night",
+        waterHeightCm: 70,
+        measuredPh: 7.4,
+        measuredChlorinePpm: 1.2,
+        calculatedVolumeLiters: 5114
+      }
+    ]);
+
+    const database = await openCurrent(name);
+    const adjustments = await database.sessions
+      .where("[poolId+kind+timestamp]")
+      .between(
+        ["mi-piscina", "adjustment", Dexie.minKey],
+        ["mi-piscina", "adjustment", Dexie.maxKey]
+      )
+      .primaryKeys();
+    const nights = await database.sessions
+      .where("[poolId+checkMoment+timestamp]")
+      .between(["mi-piscina", "night", Dexie.minKey], ["mi-piscina", "night", Dexie.maxKey])
+      .primaryKeys();
+
+    expect(adjustments).toEqual(["s1"]);
+    expect(nights).toEqual(["s2"]);
+  });
+
+  it("crea una base vacia en la ultima version sin datos previos", async () => {
+    const database = await openCurrent(`piscina-test-${crypto.randomUUID()}`);
+    expect(database.verno).toBe(getLatestSchemaVersion());
+    expect(await database.config.count()).toBe(0);
+  });
+});
+
+describe("PiscinaDatabase upgrade desde v10", () => {
+  it("registra el CYA que aporta el cloro en productos, configuraciones y sesiones", async () => {
+    const name = `piscina-test-${crypto.randomUUID()}`;
+    const { cyaPerFcPpm: _omitted, ...legacyChlorine } = defaultPoolConfig.chlorineProduct;
+    await seedV10Database(name, {
+      config: [{ ...defaultPoolConfig, chlorineProduct: legacyChlorine }],
+      products: [
+        {
+          id: "dicloro",
+          role: "chlorine",
+          type: "Dicloroisocianurato de sodio",
+          concentration: 56,
+          unit: "%",
+          presentation: "granular-g",
+          createdAt: "2026-01-01T10:00:00.000Z"
+        },
+        {
+          id: "hipo",
+          role: "chlorine",
+          type: "Hipoclorito de sodio",
+          concentration: 5,
+          unit: "%",
+          presentation: "liquid-ml",
+          createdAt: "2026-01-01T10:00:00.000Z"
+        },
+        {
+          id: "acido",
+          role: "acid",
+          type: "Acido muriatico (HCl)",
+          concentration: 10,
+          unit: "%",
+          presentation: "liquid-ml",
+          createdAt: "2026-01-01T10:00:00.000Z"
+        }
+      ],
+      sessions: [
+        {
+          id: "s1",
+          poolId: defaultPoolConfig.id,
+          kind: "adjustment",
+          timestamp: "2026-01-11T09:00:00.000Z",
+          waterHeightCm: 70,
+          measuredPh: 7.4,
+          measuredChlorinePpm: 1.2,
+          calculatedVolumeLiters: 5114,
+          requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+          requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+          appliedDoses: { chlorine: 20, chlorineUnit: "g" },
+          products: {
+            chlorine: {
+              id: "tricloro",
+              type: "Tricloro en pastillas",
+              concentration: 90,
+              unit: "%",
+              presentation: "granular-g"
+            }
+          }
+        }
+      ]
+    });
+
+    const database = await openCurrent(name);
+
+    expect((await database.products.get("dicloro"))?.cyaPerFcPpm).toBe(0.9);
+    expect((await database.products.get("hipo"))?.cyaPerFcPpm).toBe(0);
+    expect((await database.products.get("acido"))?.cyaPerFcPpm).toBeUndefined();
+    expect((await database.config.get(defaultPoolConfig.id))?.chlorineProduct.cyaPerFcPpm).toBe(
+      0.9
+    );
+    expect((await database.sessions.get("s1"))?.products?.chlorine?.cyaPerFcPpm).toBe(0.6);
+  });
+});
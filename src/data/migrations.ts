@@ -0,0 +1,178 @@
+import type Dexie from "dexie";
+import type { Transaction } from "dexie";
+import {
+  DEFAULT_POOL_ID,
+  normalizePoolConfig,
+  normalizeSession
+} from "../domain/defaults";
+import { inferCyaPerFcPpm } from "../domain/cya";
+import { findMissingConfiguredProducts } from "../domain/products";
+import type { ChemicalProduct, PoolConfig, Session } from "../domain/types";
+
+export const ACTIVE_POOL_KEY = "activePoolId";
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  upgrade: (tx: Transaction) => Promise<void>;
+}
+
+async function getFirstPoolId(tx: Transaction): Promise<string> {
+  const firstConfig = (await tx.table("config").toCollection().first()) as PoolConfig | undefined;
+  return firstConfig?.id ?? DEFAULT_POOL_ID;
+}
+
+async function backfillConfigs(tx: Transaction): Promise<void> {
+  await tx
+    .table("config")
+    .toCollection()
+    .modify((config: PoolConfig, ref: { value: PoolConfig }) => {
+      ref.value = normalizePoolConfig(config);
+    });
+}
+
+async function backfillSessions(tx: Transaction, fallbackPoolId: string): Promise<void> {
+  await tx
+    .table("sessions")
+    .toCollection()
+    .modify((session: Session, ref: { value: Session }) => {
+      ref.value = normalizeSession(session, fallbackPoolId);
+    });
+}
+
+export const schemaMigrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Configuracion unica y sesiones por timestamp",
+    stores: {
+      config: "id, updatedAt",
+      sessions: "id, timestamp"
+    },
+    upgrade: async () => undefined
+  },
+  {
+    version: 2,
+    description: "Piscinas multiples: los datos existentes pasan a la primera piscina",
+    stores: {
+      config: "id, updatedAt",
+      sessions: "id, timestamp, poolId, [poolId+timestamp]",
+      appState: "key"
+    },
+    upgrade: async (tx) => {
+      const firstPoolId = await getFirstPoolId(tx);
+      await backfillConfigs(tx);
+      await backfillSessions(tx, firstPoolId);
+      await tx.table("appState").put({ key: ACTIVE_POOL_KEY, value: firstPoolId });
+    }
+  },
+  {
+    version: 3,
+    description: "Completa campos agregados despues de v1 (pH+, workflow, forma) con valores por defecto",
+    stores: {},
+    upgrade: async (tx) => {
+      await backfillConfigs(tx);
+      await backfillSessions(tx, await getFirstPoolId(tx));
+    }
+  },
+  {
+    version: 4,
+    description: "Catalogo de productos: se siembra con los productos configurados en cada piscina",
+    stores: {
+      products: "id, role"
+    },
+    upgrade: async (tx) => {
+      await backfillConfigs(tx);
+      const configs = (await tx.table("config").toArray()) as PoolConfig[];
+      const products: ChemicalProduct[] = [];
+      for (const config of configs) {
+        products.push(...findMissingConfiguredProducts(products, config));
+      }
+      await tx.table("products").bulkPut(products);
+    }
+  },
+  {
+    version: 5,
+    description: "Recordatorios locales programados (esperas y momentos de control)",
+    stores: {
+      reminders: "id, poolId, fireAt"
+    },
+    upgrade: async () => undefined
+  },
+  {
+    version: 6,
+    description: "Inventario de quimicos por envase y movimientos de reposicion y consumo",
+    stores: {
+      inventory: "id, productId",
+      inventoryMovements: "id, productId, at, sessionId"
+    },
+    upgrade: async () => undefined
+  },
+  {
+    version: 7,
+    description: "Bitacora de revisiones de sesiones (ediciones y eliminaciones)",
+    stores: {
+      sessionRevisions: "id, sessionId, at"
+    },
+    upgrade: async () => undefined
+  },
+  {
+    version: 8,
+    description:
+      "Indices compuestos de sesiones por tipo y momento de medicion para filtrar el historial",
+    stores: {
+      sessions:
+        "id, timestamp, poolId, [poolId+timestamp], [poolId+kind+timestamp], [poolId+checkMoment+timestamp]"
+    },
+    upgrade: async (tx) => {
+      // Las sesiones sin tipo no entrarian en el indice por tipo.
+      await backfillSessions(tx, await getFirstPoolId(tx));
+    }
+  },
+  {
+    version: 9,
+    description: "Llenados de agua con altura antes y despues para estimar la dilucion",
+    stores: {
+      topUps: "id, poolId, [poolId+timestamp]"
+    },
+    upgrade: async () => undefined
+  },
+  {
+    version: 10,
+    description: "Ciclos intensivos con motivo, criterios y resumen de cierre por piscina",
+    stores: {
+      intensiveCycles: "id, poolId, [poolId+startedAt]"
+    },
+    upgrade: async () => undefined
+  },
+  {
+    version: 11,
+    description: "Productos de cloro con el CYA que aportan por ppm de cloro libre",
+    stores: {},
+    upgrade: async (tx) => {
+      await backfillConfigs(tx);
+      await backfillSessions(tx, await getFirstPoolId(tx));
+      await tx
+        .table("products")
+        .toCollection()
+        .modify((product: ChemicalProduct) => {
+          if (product.role === "chlorine" && product.cyaPerFcPpm === undefined) {
+            product.cyaPerFcPpm = inferCyaPerFcPpm(product.type);
+          }
+        });
+    }
+  }
+];
+
+export function applySchemaMigrations(
+  database: Dexie,
+  migrations: SchemaMigration[] = schemaMigrations
+): void {
+  for (const migration of migrations) {
+    database.version(migration.version).stores(migration.stores).upgrade(migration.upgrade);
+  }
+}
+
+export function getLatestSchemaVersion(migrations: SchemaMigration[] = schemaMigrations): number {
+  return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
@@ -0,0 +1,108 @@
+import type { Table } from "dexie";
+import { ACTIVE_POOL_KEY, db } from "../db";
+import {
+  buildBackupDocument,
+  planBackupImport,
+  type BackupDocument,
+  type BackupImportMode,
+  type BackupImportPlan,
+  type BackupIssue,
+  type BackupSnapshot,
+  type BackupTablePlan
+} from "../../domain/backup";
+
+async function readSnapshot(): Promise<BackupSnapshot> {
+  const [
+    configs,
+    sessions,
+    sessionRevisions,
+    topUps,
+    intensiveCycles,
+    products,
+    inventory,
+    inventoryMovements
+  ] = await Promise.all([
+    db.config.toArray(),
+    db.sessions.orderBy("timestamp").toArray(),
+    db.sessionRevisions.orderBy("at").toArray(),
+    db.topUps.toArray(),
+    db.intensiveCycles.toArray(),
+    db.products.toArray(),
+    db.inventory.toArray(),
+    db.inventoryMovements.orderBy("at").toArray()
+  ]);
+  return {
+    configs,
+    sessions,
+    sessionRevisions,
+    topUps,
+    intensiveCycles,
+    products,
+    inventory,
+    inventoryMovements
+  };
+}
+
+async function writeTable<T>(
+  table: Table<T, string>,
+  tablePlan: BackupTablePlan<T>,
+  clear: boolean
+): Promise<void> {
+  if (clear) {
+    await table.clear();
+  } else {
+    await table.bulkDelete(tablePlan.idsToRemove);
+  }
+  await table.bulkPut(tablePlan.toPut);
+}
+
+export const backupRepo = {
+  exportAll: async (): Promise<BackupDocument> => {
+    return buildBackupDocument(await readSnapshot());
+  },
+
+  preview: async (
+    document: BackupDocument,
+    mode: BackupImportMode,
+    issues: BackupIssue[] = []
+  ): Promise<BackupImportPlan> => {
+    return planBackupImport(await readSnapshot(), document, mode, issues);
+  },
+
+  apply: async (plan: BackupImportPlan): Promise<void> => {
+    const { tables, replaceAll } = plan;
+    await db.transaction(
+      "rw",
+      [
+        db.config,
+        db.sessions,
+        db.sessionRevisions,
+        db.topUps,
+        db.intensiveCycles,
+        db.products,
+        db.inventory,
+        db.inventoryMovements,
+        db.appState
+      ],
+      async () => {
+        await writeTable(db.config, tables.configs, replaceAll);
+        await writeTable(db.sessions, tables.sessions, replaceAll);
+        await writeTable(db.sessionRevisions, tables.sessionRevisions, replaceAll);
+        await writeTable(db.topUps, tables.topUps, replaceAll);
+        await writeTable(db.intensiveCycles, tables.intensiveCycles, replaceAll);
+        await writeTable(db.products, tables.products, replaceAll);
+        await writeTable(db.inventory, tables.inventory, replaceAll);
+        await writeTable(db.inventoryMovements, tables.inventoryMovements, replaceAll);
+
+        const activePoolId = (await db.appState.get(ACTIVE_POOL_KEY))?.value;
+        const activePool = activePoolId ? await db.config.get(activePoolId) : undefined;
+        if (!activePool || activePool.archivedAt) {
+          const nextPool = (await db.config.toArray()).find((pool) => !pool.archivedAt);
+          if (nextPool) {
+            await db.appState.put({ key: ACTIVE_POOL_KEY, value: nextPool.id });
+          }
+        }
+      }
+    );
+  }
+};
@@ -1,18 +1,82 @@
-import { db } from "../db";
+import { ACTIVE_POOL_KEY, db } from "../db";
 import type { PoolConfig } from "../../domain/types";
+import { assertValidPoolConfig } from "../../domain/validation";
 
-const CONFIG_ID = "default";
+async function getActivePoolId(): Promise<string | undefined> {
+  const entry = await db.appState.get(ACTIVE_POOL_KEY);
+  return entry?.value;
+}
+
+async function listActivePools(): Promise<PoolConfig[]> {
+  const pools = await db.config.toArray();
+  return pools
+    .filter((pool) => !pool.archivedAt)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
 
 export const configRepo = {
-  load: async (): Promise<PoolConfig | undefined> => {
-    return db.config.get(CONFIG_ID);
+  list: async (): Promise<PoolConfig[]> => {
+    return listActivePools();
+  },
+
+  getActivePoolId,
+
+  load: async (poolId?: string): Promise<PoolConfig | undefined> => {
+    const targetId = poolId ?? (await getActivePoolId());
+    const target = targetId ? await db.config.get(targetId) : undefined;
+    if (target && !target.archivedAt) {
+      return target;
+    }
+
+    const [firstPool] = await listActivePools();
+    return firstPool;
+  },
+
+  select: async (poolId: string): Promise<void> => {
+    await db.appState.put({ key: ACTIVE_POOL_KEY, value: poolId });
+  },
+
+  create: async (config: PoolConfig): Promise<PoolConfig> => {
+    const created: PoolConfig = {
+      ...config,
+      id: crypto.randomUUID(),
+      updatedAt: new Date().toISOString(),
+      archivedAt: undefined
+    };
+    assertValidPoolConfig(created);
+    await db.config.put(created);
+    return created;
   },
 
   save: async (config: PoolConfig): Promise<void> => {
-    await db.config.put({
+    const saved: PoolConfig = {
       ...config,
-      id: CONFIG_ID,
       updatedAt: new Date().toISOString()
+    };
+    assertValidPoolConfig(saved);
+    await db.transaction("rw", db.config, db.appState, async () => {
+      await db.config.put(saved);
+      if (!(await getActivePoolId())) {
+        await db.appState.put({ key: ACTIVE_POOL_KEY, value: config.id });
+      }
+    });
+  },
+
+  archive: async (poolId: string): Promise<void> => {
+    await db.transaction("rw", db.config, db.appState, async () => {
+      await db.config.update(poolId, {
+        archivedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+
+      if ((await getActivePoolId()) === poolId) {
+        const [nextPool] = await listActivePools();
+        if (nextPool) {
+          await db.appState.put({ key: ACTIVE_POOL_KEY, value: nextPool.id });
+        } else {
+          await db.appState.delete(ACTIVE_POOL_KEY);
+        }
+      }
     });
   }
-};
+};
@@ -0,0 +1,25 @@
+import Dexie from "dexie";
+import { db } from "../db";
+import type { IntensiveCycle } from "../../domain/types";
+import { assertValidIntensiveCycle } from "../../domain/validation";
+
+export const intensiveCycleRepo = {
+  list: async (poolId: string): Promise<IntensiveCycle[]> => {
+    return db.intensiveCycles
+      .where("[poolId+startedAt]")
+      .between([poolId, Dexie.minKey], [poolId, Dexie.maxKey])
+      .reverse()
+      .toArray();
+  },
+
+  save: async (cycle: IntensiveCycle): Promise<void> => {
+    assertValidIntensiveCycle(cycle);
+    await db.intensiveCycles.put(cycle);
+  },
+
+  // Guarda todos o ninguno, para no duplicar ciclos al reintentar.
+  saveAll: async (cycles: IntensiveCycle[]): Promise<void> => {
+    cycles.forEach(assertValidIntensiveCycle);
+    await db.intensiveCycles.bulkPut(cycles);
+  }
+};
@@ -0,0 +1,113 @@
+import { db } from "../db";
+import {
+  deductInventory,
+  diffProductUsage,
+  getSessionProductUsage,
+  restoreInventory,
+  type ProductUsage
+} from "../../domain/inventory";
+import type { InventoryContainer, InventoryMovement, Session } from "../../domain/types";
+
+export type RestockInput = Omit<InventoryContainer, "id" | "remaining" | "emptiedAt">;
+
+// Descuenta las dosis aplicadas; retorna el consumo que no alcanzo a cubrir el stock.
+// Se llama dentro de la transaccion que guarda la sesion (inventory + inventoryMovements).
+export async function deductSessionUsage(session: Session): Promise<ProductUsage[]> {
+  const shortfalls: ProductUsage[] = [];
+  for (const usage of getSessionProductUsage(session)) {
+    const containers = await db.inventory.where("productId").equals(usage.productId).toArray();
+    // Productos sin inventario registrado no generan movimientos.
+    if (containers.length === 0) {
+      continue;
+    }
+
+    const deduction = deductInventory(containers, usage, session.timestamp, session.id);
+    await db.inventory.bulkPut(deduction.containers);
+    await db.inventoryMovements.bulkPut(deduction.movements);
+    if (deduction.shortfall > 0) {
+      shortfalls.push({ ...usage, amount: deduction.shortfall });
+    }
+  }
+  return shortfalls;
+}
+
+// Corrige el consumo de una sesion ya guardada: descuenta lo que aumento y devuelve lo que
+// disminuyo. `after` es null cuando la sesion se elimina. Se llama dentro de la transaccion
+// que actualiza la sesion.
+export async function adjustSessionUsage(
+  before: Session,
+  after: Session | null,
+  at: string
+): Promise<void> {
+  const changes = diffProductUsage(
+    getSessionProductUsage(before),
+    after ? getSessionProductUsage(after) : []
+  );
+  for (const change of changes) {
+    const containers = await db.inventory.where("productId").equals(change.productId).toArray();
+    if (containers.length === 0) {
+      continue;
+    }
+
+    if (change.amount > 0) {
+      const deduction = deductInventory(containers, change, at, before.id);
+      await db.inventory.bulkPut(deduction.containers);
+      await db.inventoryMovements.bulkPut(deduction.movements);
+      continue;
+    }
+
+    const sessionMovements = await db.inventoryMovements
+      .where("sessionId")
+      .equals(before.id)
+      .toArray();
+    const restored = restoreInventory(
+      containers,
+      sessionMovements,
+      { ...change, amount: -change.amount },
+      at,
+      before.id
+    );
+    await db.inventory.bulkPut(restored.containers);
+    await db.inventoryMovements.bulkPut(restored.movements);
+  }
+}
+
+export const inventoryRepo = {
+  listContainers: async (): Promise<InventoryContainer[]> => {
+    return db.inventory.toArray();
+  },
+
+  listMovements: async (): Promise<InventoryMovement[]> => {
+    return db.inventoryMovements.orderBy("at").reverse().toArray();
+  },
+
+  restock: async (input: RestockInput): Promise<InventoryContainer> => {
+    const container: InventoryContainer = {
+      ...input,
+      id: crypto.randomUUID(),
+      remaining: input.quantity
+    };
+    await db.transaction("rw", db.inventory, db.inventoryMovements, async () => {
+      await db.inventory.put(container);
+      await db.inventoryMovements.put({
+        id: crypto.randomUUID(),
+        productId: container.productId,
+        containerId: container.id,
+        kind: "restock",
+        amount: container.quantity,
+        unit: container.unit,
+        at: container.purchasedAt,
+        price: container.price
+      });
+    });
+    return container;
+  },
+
+  markOpened: async (id: string, openedAt: string = new Date().toISOString()): Promise<void> => {
+    await db.inventory.update(id, { openedAt });
+  },
+
+  discard: async (id: string, emptiedAt: string = new Date().toISOString()): Promise<void> => {
+    await db.inventory.update(id, { remaining: 0, emptiedAt });
+  }
+};
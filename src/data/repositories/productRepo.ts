@@ -0,0 +1,45 @@
+import { db } from "../db";
+import { findMissingConfiguredProducts } from "../../domain/products";
+import type { ChemicalProduct, PoolConfig, ProductRole } from "../../domain/types";
+import { assertValidChemicalProduct } from "../../domain/validation";
+
+export const productRepo = {
+  list: async (role?: ProductRole): Promise<ChemicalProduct[]> => {
+    const products = role
+      ? await db.products.where("role").equals(role).toArray()
+      : await db.products.toArray();
+    return products
+      .filter((product) => !product.archivedAt)
+      .sort((a, b) => a.type.localeCompare(b.type));
+  },
+
+  getById: async (id: string): Promise<ChemicalProduct | undefined> => {
+    return db.products.get(id);
+  },
+
+  create: async (product: Omit<ChemicalProduct, "id" | "createdAt">): Promise<ChemicalProduct> => {
+    assertValidChemicalProduct(product);
+    const created: ChemicalProduct = {
+      ...product,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+    await db.products.put(created);
+    return created;
+  },
+
+  archive: async (id: string): Promise<void> => {
+    await db.products.update(id, { archivedAt: new Date().toISOString() });
+  },
+
+  seedFromConfig: async (config: PoolConfig): Promise<void> => {
+    await db.transaction("rw", db.products, async () => {
+      const existing = await db.products.toArray();
+      const missing = findMissingConfiguredProducts(
+        existing.filter((product) => !product.archivedAt),
+        config
+      );
+      await db.products.bulkPut(missing);
+    });
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from "../db";
+import { getPendingReminders } from "../../domain/reminders";
+import type { Reminder, ReminderKind } from "../../domain/types";
+
+export const reminderRepo = {
+  listPending: async (poolId: string): Promise<Reminder[]> => {
+    return getPendingReminders(await db.reminders.where("poolId").equals(poolId).toArray());
+  },
+
+  schedule: async (reminders: Reminder[]): Promise<void> => {
+    await db.reminders.bulkPut(reminders);
+  },
+
+  cancel: async (poolId: string, kinds: ReminderKind[]): Promise<void> => {
+    await db.reminders
+      .where("poolId")
+      .equals(poolId)
+      .filter((reminder) => kinds.includes(reminder.kind))
+      .delete();
+  }
+};
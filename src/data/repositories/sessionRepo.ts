@@ -1,16 +1,162 @@
+import Dexie, { type Collection } from "dexie";
 import { db } from "../db";
-import type { Session } from "../../domain/types";
+import type { ProductUsage } from "../../domain/inventory";
+import { buildSessionRevision } from "../../domain/sessionEdit";
+import {
+  compareSessionsDesc,
+  decodeSessionCursor,
+  DEFAULT_PAGE_SIZE,
+  isBeforeCursor,
+  matchesSessionQuery,
+  paginateSessions,
+  summarizeSessions,
+  type SessionCountSummary,
+  type SessionPage,
+  type SessionQuery
+} from "../../domain/sessionQuery";
+import type { PoolConfig, Session, SessionRevision } from "../../domain/types";
+import { assertValidSession } from "../../domain/validation";
+import { adjustSessionUsage, deductSessionUsage } from "./inventoryRepo";
+
+async function getEditableSession(id: string): Promise<Session> {
+  const current = await db.sessions.get(id);
+  if (!current || current.deletedAt) {
+    throw new Error("La sesion no existe o ya fue eliminada.");
+  }
+  return current;
+}
+
+// Se recorre el indice mas selectivo disponible; el resto de filtros se aplica en memoria.
+function getCandidateCollections(
+  poolId: string,
+  query: SessionQuery
+): Collection<Session, string>[] {
+  const cursor = decodeSessionCursor(query.cursor);
+  const lower = query.from ?? Dexie.minKey;
+  const upper =
+    cursor && (!query.to || cursor.timestamp < query.to)
+      ? cursor.timestamp
+      : (query.to ?? Dexie.maxKey);
+
+  if (query.kinds?.length) {
+    return query.kinds.map((kind) =>
+      db.sessions
+        .where("[poolId+kind+timestamp]")
+        .between([poolId, kind, lower], [poolId, kind, upper], true, true)
+    );
+  }
+  if (query.checkMoments?.length) {
+    return query.checkMoments.map((moment) =>
+      db.sessions
+        .where("[poolId+checkMoment+timestamp]")
+        .between([poolId, moment, lower], [poolId, moment, upper], true, true)
+    );
+  }
+  return [
+    db.sessions.where("[poolId+timestamp]").between([poolId, lower], [poolId, upper], true, true)
+  ];
+}
 
 export const sessionRepo = {
-  save: async (session: Session): Promise<void> => {
-    await db.sessions.put(session);
+  // La sesion y su descuento de inventario se guardan juntos o no se guarda nada.
+  // Retorna el consumo que no alcanzo a cubrir el stock.
+  save: async (session: Session): Promise<ProductUsage[]> => {
+    assertValidSession(session);
+    return db.transaction("rw", db.sessions, db.inventory, db.inventoryMovements, async () => {
+      await db.sessions.put(session);
+      return deductSessionUsage(session);
+    });
+  },
+
+  // Las sesiones eliminadas se conservan en la base, pero no se listan.
+  list: async (poolId: string): Promise<Session[]> => {
+    return db.sessions
+      .where("[poolId+timestamp]")
+      .between([poolId, Dexie.minKey], [poolId, Dexie.maxKey])
+      .reverse()
+      .filter((session) => !session.deletedAt)
+      .toArray();
   },
 
-  list: async (): Promise<Session[]> => {
-    return db.sessions.orderBy("timestamp").reverse().toArray();
+  query: async (poolId: string, query: SessionQuery, config: PoolConfig): Promise<SessionPage> => {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = decodeSessionCursor(query.cursor);
+    const batches = await Promise.all(
+      getCandidateCollections(poolId, query).map((collection) =>
+        collection
+          .reverse()
+          .filter(
+            (session) =>
+              isBeforeCursor(session, cursor) && matchesSessionQuery(session, query, config)
+          )
+          .limit(limit + 1)
+          .toArray()
+      )
+    );
+    return paginateSessions(batches.flat().sort(compareSessionsDesc), query, config);
+  },
+
+  count: async (
+    poolId: string,
+    query: SessionQuery,
+    config: PoolConfig
+  ): Promise<SessionCountSummary> => {
+    const batches = await Promise.all(
+      getCandidateCollections(poolId, { ...query, cursor: null }).map((collection) =>
+        collection.filter((session) => matchesSessionQuery(session, query, config)).toArray()
+      )
+    );
+    return summarizeSessions(batches.flat(), config);
   },
 
   getById: async (id: string): Promise<Session | undefined> => {
     return db.sessions.get(id);
+  },
+
+  // La edicion y la correccion del inventario que descontaba la sesion van juntas.
+  update: async (session: Session, author: string): Promise<SessionRevision | null> => {
+    assertValidSession(session);
+    return db.transaction(
+      "rw",
+      [db.sessions, db.sessionRevisions, db.inventory, db.inventoryMovements],
+      async () => {
+        const current = await getEditableSession(session.id);
+        const at = session.updatedAt ?? new Date().toISOString();
+        const revision = buildSessionRevision(current, session, "edit", author, at);
+        if (!revision) {
+          return null;
+        }
+
+        await db.sessions.put(session);
+        await db.sessionRevisions.put(revision);
+        await adjustSessionUsage(current, session, at);
+        return revision;
+      }
+    );
+  },
+
+  remove: async (
+    id: string,
+    author: string,
+    deletedAt: string = new Date().toISOString()
+  ): Promise<SessionRevision> => {
+    return db.transaction(
+      "rw",
+      [db.sessions, db.sessionRevisions, db.inventory, db.inventoryMovements],
+      async () => {
+        const current = await getEditableSession(id);
+        const deleted: Session = { ...current, updatedAt: deletedAt, deletedAt };
+        const revision = buildSessionRevision(current, deleted, "delete", author, deletedAt)!;
+        await db.sessions.put(deleted);
+        await db.sessionRevisions.put(revision);
+        // La sesion eliminada ya no consumio nada: se devuelve lo descontado.
+        await adjustSessionUsage(current, null, deletedAt);
+        return revision;
+      }
+    );
+  },
+
+  listRevisions: async (sessionId: string): Promise<SessionRevision[]> => {
+    return db.sessionRevisions.where("sessionId").equals(sessionId).reverse().sortBy("at");
   }
-};
+};
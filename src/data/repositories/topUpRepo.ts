@@ -0,0 +1,19 @@
+import Dexie from "dexie";
+import { db } from "../db";
+import type { WaterTopUp } from "../../domain/types";
+import { assertValidWaterTopUp } from "../../domain/validation";
+
+export const topUpRepo = {
+  list: async (poolId: string): Promise<WaterTopUp[]> => {
+    return db.topUps
+      .where("[poolId+timestamp]")
+      .between([poolId, Dexie.minKey], [poolId, Dexie.maxKey])
+      .reverse()
+      .toArray();
+  },
+
+  save: async (topUp: WaterTopUp): Promise<void> => {
+    assertValidWaterTopUp(topUp);
+    await db.topUps.put(topUp);
+  }
+};
@@ -0,0 +1,356 @@
+import {
+  calculateAlkalinityReductionMlTraced,
+  calculateBicarbonateDoseGTraced,
+  classifyAlkalinity,
+  getEffectiveAlkalinityPpm,
+  type AlkalinityStatus
+} from "./alkalinity";
+import {
+  calculateChlorineDoseTraced,
+  calculatePhCorrectionMlTraced,
+  calculatePhRaiseDoseTraced,
+  calculatePoolCapacityLiters,
+  calculatePoolVolumeLiters,
+  classifyChlorine,
+  classifyPh,
+  getChlorineMgPerProductUnit,
+  toFixedNumber
+} from "./calculations";
+import { applyCyaChlorineTargets, estimateCyaPpm } from "./cya";
+import { calculateLsi, type LsiResult } from "./lsi";
+import {
+  evaluateDoseSafety,
+  MAX_SHOCK_CHLORINE_PPM_PER_APPLICATION,
+  type DoseDecision,
+  type DoseLimits,
+  type DoseRequest
+} from "./safety";
+import { calculateShockDoseTraced, type ShockDose } from "./shock";
+import type {
+  CalculationTrace,
+  DoseUnit,
+  PoolConfig,
+  ProductSnapshot,
+  Session,
+  WaterTopUp
+} from "./types";
+import { toConcentrationPct } from "./units";
+
+export type PlanMeasurements = Pick<
+  Session,
+  | "waterHeightCm"
+  | "measuredPh"
+  | "measuredChlorinePpm"
+  | "measuredAlkalinityPpm"
+  | "measuredCyaPpm"
+  | "measuredCalciumHardnessPpm"
+  | "measuredTdsPpm"
+  | "waterTemperatureC"
+>;
+
+export interface PlanProducts {
+  chlorine: ProductSnapshot;
+  acid: ProductSnapshot;
+  phUp: ProductSnapshot;
+}
+
+export interface PlanContext {
+  // Solo lo conocido al momento del plan: las estimaciones y los intervalos parten de aqui.
+  sessions: Session[];
+  topUps: WaterTopUp[];
+  now: Date;
+}
+
+export interface ActionPlan {
+  volumeLitersRaw: number;
+  volumeLiters: number;
+  capacityLiters?: number;
+  phStatus: "ok" | "leve" | "ajuste";
+  chlorineStatus: "ok" | "leve" | "ajuste";
+  phDirection: "down" | "up" | "none";
+  phTotal: number;
+  phStage1: number;
+  phUnit: DoseUnit;
+  chlorineMaintenance: number;
+  chlorineCorrective: number;
+  chlorineUnit: DoseUnit;
+  phTrace: CalculationTrace | null;
+  chlorineTrace: CalculationTrace;
+  chlorineProduct: ProductSnapshot;
+  phProduct: ProductSnapshot | null;
+  acidProduct: ProductSnapshot;
+  alkalinityPpm: number;
+  alkalinityStatus: AlkalinityStatus | null;
+  alkalinityDirection: "up" | "down" | "none";
+  alkalinityDose: number;
+  alkalinityUnit: DoseUnit;
+  alkalinityTrace: CalculationTrace | null;
+  cyaPpm: number;
+  chlorineMinPpm: number;
+  chlorineMaxPpm: number;
+  lsi: LsiResult | null;
+  doseLimits: DoseLimits;
+  doseSafety: DoseDecision[];
+}
+
+export interface ShockPlan extends ShockDose {
+  trace: CalculationTrace;
+  safety: DoseDecision;
+}
+
+export function getPhRecommendation(
+  measuredPh: number,
+  volumeLitersRaw: number,
+  config: PoolConfig,
+  acidProduct: ProductSnapshot,
+  phUpProduct: ProductSnapshot,
+  alkalinityPpm: number
+): {
+  direction: "down" | "up" | "none";
+  total: number;
+  stage1: number;
+  unit: DoseUnit;
+  trace: CalculationTrace | null;
+} {
+  if (measuredPh > config.targets.phMax) {
+    const { value: total, trace } = calculatePhCorrectionMlTraced(
+      measuredPh,
+      volumeLitersRaw,
+      toConcentrationPct(acidProduct.concentration, acidProduct.unit),
+      config.targets.phMax,
+      alkalinityPpm
+    );
+    return {
+      direction: "down",
+      total,
+      stage1: total * 0.5,
+      unit: "ml",
+      trace
+    };
+  }
+
+  if (measuredPh < config.targets.phMin && config.phUpProduct.enabled) {
+    const { value: total, trace } = calculatePhRaiseDoseTraced(
+      measuredPh,
+      volumeLitersRaw,
+      toConcentrationPct(phUpProduct.concentration, phUpProduct.unit),
+      config.targets.phMin,
+      config.phUpProduct.referenceDoseGPerPointPer10kL
+    );
+    return {
+      direction: "up",
+      total,
+      stage1: total * 0.5,
+      unit: "g",
+      trace
+    };
+  }
+
+  return {
+    direction: "none",
+    total: 0,
+    stage1: 0,
+    unit: "ml",
+    trace: null
+  };
+}
+
+function getDoseLimits(
+  config: PoolConfig,
+  chlorineProduct: ProductSnapshot,
+  acidProduct: ProductSnapshot,
+  phUpProduct: ProductSnapshot
+): DoseLimits {
+  return {
+    acidConcentrationPct: toConcentrationPct(acidProduct.concentration, acidProduct.unit),
+    chlorineMgPerUnit: getChlorineMgPerProductUnit(
+      chlorineProduct.concentration,
+      chlorineProduct.unit,
+      chlorineProduct.presentation
+    ),
+    phUpConcentrationPct: toConcentrationPct(phUpProduct.concentration, phUpProduct.unit),
+    phUpReferenceGPer10kL: config.phUpProduct.referenceDoseGPerPointPer10kL
+  };
+}
+
+export function buildActionPlan(
+  measurements: PlanMeasurements,
+  config: PoolConfig,
+  products: PlanProducts,
+  context: PlanContext
+): ActionPlan {
+  const { chlorine: chlorineProduct, acid: acidProduct, phUp: phUpProduct } = products;
+  const { measuredAlkalinityPpm } = measurements;
+  const volumeLitersRaw = calculatePoolVolumeLiters(config.pool, measurements.waterHeightCm);
+  const alkalinityPpm =
+    measuredAlkalinityPpm ?? getEffectiveAlkalinityPpm(context.sessions, config, context.topUps);
+  const phPlan = getPhRecommendation(
+    measurements.measuredPh,
+    volumeLitersRaw,
+    config,
+    acidProduct,
+    phUpProduct,
+    alkalinityPpm
+  );
+  const alkalinityStatus =
+    measuredAlkalinityPpm === undefined ? null : classifyAlkalinity(measuredAlkalinityPpm, config);
+  let alkalinityDirection: ActionPlan["alkalinityDirection"] = "none";
+  let alkalinityCorrection: { value: number; trace: CalculationTrace | null } = {
+    value: 0,
+    trace: null
+  };
+  if (measuredAlkalinityPpm !== undefined) {
+    if (measuredAlkalinityPpm < config.targets.alkalinityMinPpm) {
+      alkalinityDirection = "up";
+      alkalinityCorrection = calculateBicarbonateDoseGTraced(
+        measuredAlkalinityPpm,
+        volumeLitersRaw,
+        config.targets.alkalinityMinPpm,
+        config.targets.alkalinityMaxPpm
+      );
+    } else if (measuredAlkalinityPpm > config.targets.alkalinityMaxPpm) {
+      alkalinityDirection = "down";
+      alkalinityCorrection = calculateAlkalinityReductionMlTraced(
+        measuredAlkalinityPpm,
+        volumeLitersRaw,
+        toConcentrationPct(acidProduct.concentration, acidProduct.unit),
+        config.targets.alkalinityMinPpm,
+        config.targets.alkalinityMaxPpm
+      );
+    }
+  }
+  const cyaPpm =
+    measurements.measuredCyaPpm ?? estimateCyaPpm(context.sessions, config, context.topUps).ppm;
+  const chlorineConfig = applyCyaChlorineTargets(config, cyaPpm);
+  const { value: chlorineDose, trace: chlorineTrace } = calculateChlorineDoseTraced(
+    measurements.measuredChlorinePpm,
+    volumeLitersRaw,
+    chlorineProduct.concentration,
+    chlorineProduct.presentation,
+    chlorineConfig.targets.chlorineMinPpm,
+    chlorineConfig.targets.chlorineMaxPpm,
+    chlorineProduct.unit
+  );
+  const doseLimits = getDoseLimits(config, chlorineProduct, acidProduct, phUpProduct);
+  const phRequest: DoseRequest | null =
+    phPlan.direction === "none"
+      ? null
+      : {
+          chemical: phPlan.direction === "up" ? "ph-up" : "acid",
+          amount: phPlan.stage1,
+          unit: phPlan.unit
+        };
+  const alkalinityRequest: DoseRequest | null =
+    alkalinityDirection === "none"
+      ? null
+      : {
+          chemical: alkalinityDirection === "up" ? "bicarbonate" : "acid",
+          amount: alkalinityCorrection.value,
+          unit: alkalinityDirection === "up" ? "g" : "ml"
+        };
+  const chlorineRequest: DoseRequest = {
+    chemical: "chlorine",
+    amount: chlorineDose.corrective > 0 ? chlorineDose.corrective : chlorineDose.maintenance,
+    unit: chlorineDose.unit
+  };
+  const doseRequests = [phRequest, alkalinityRequest, chlorineRequest].filter(
+    (request): request is DoseRequest => request !== null
+  );
+  const capacityLiters = calculatePoolCapacityLiters(config.pool) ?? undefined;
+  const doseSafety = evaluateDoseSafety(doseRequests, {
+    volumeLiters: volumeLitersRaw,
+    capacityLiters,
+    now: context.now,
+    sessions: context.sessions,
+    limits: doseLimits
+  });
+  // Las dosis bloqueadas no se muestran; las limitadas se recortan al tope por aplicacion.
+  const getDoseCap = (request: DoseRequest | null) => {
+    const decision = request ? doseSafety[doseRequests.indexOf(request)] : undefined;
+    return !decision ? Infinity : decision.status === "blocked" ? 0 : decision.maxPerApplication;
+  };
+  const phCap = getDoseCap(phRequest);
+  const phStage1 = Math.min(phPlan.stage1, phCap);
+  // El acido para bajar TA comparte el tope por aplicacion con la etapa 1 de pH.
+  const alkalinityCap = Math.max(
+    0,
+    getDoseCap(alkalinityRequest) -
+      (phPlan.direction === "down" && alkalinityDirection === "down" ? phStage1 : 0)
+  );
+  const chlorineCap = getDoseCap(chlorineRequest);
+
+  return {
+    volumeLitersRaw,
+    volumeLiters: toFixedNumber(volumeLitersRaw, 0),
+    capacityLiters,
+    phStatus: classifyPh(measurements.measuredPh, config),
+    chlorineStatus: classifyChlorine(measurements.measuredChlorinePpm, chlorineConfig),
+    phDirection: phPlan.direction,
+    phTotal: phCap === 0 ? 0 : toFixedNumber(phPlan.total, 0),
+    phStage1: toFixedNumber(phStage1, 0),
+    phUnit: phPlan.unit,
+    chlorineMaintenance: toFixedNumber(Math.min(chlorineDose.maintenance, chlorineCap), 0),
+    chlorineCorrective: toFixedNumber(Math.min(chlorineDose.corrective, chlorineCap), 0),
+    chlorineUnit: chlorineDose.unit,
+    phTrace: phPlan.trace,
+    chlorineTrace,
+    chlorineProduct,
+    phProduct:
+      phPlan.direction === "down" ? acidProduct : phPlan.direction === "up" ? phUpProduct : null,
+    acidProduct,
+    alkalinityPpm,
+    alkalinityStatus,
+    alkalinityDirection,
+    alkalinityDose: toFixedNumber(Math.min(alkalinityCorrection.value, alkalinityCap), 0),
+    alkalinityUnit: alkalinityDirection === "up" ? "g" : "ml",
+    alkalinityTrace: alkalinityCorrection.trace,
+    cyaPpm,
+    chlorineMinPpm: chlorineConfig.targets.chlorineMinPpm,
+    chlorineMaxPpm: chlorineConfig.targets.chlorineMaxPpm,
+    lsi:
+      measurements.measuredCalciumHardnessPpm !== undefined &&
+      measurements.waterTemperatureC !== undefined
+        ? calculateLsi(
+            {
+              ph: measurements.measuredPh,
+              alkalinityPpm,
+              calciumHardnessPpm: measurements.measuredCalciumHardnessPpm,
+              temperatureC: measurements.waterTemperatureC,
+              tdsPpm: measurements.measuredTdsPpm,
+              cyaPpm
+            },
+            config.targets
+          )
+        : null,
+    doseLimits,
+    doseSafety
+  };
+}
+
+export function buildShockPlan(
+  plan: ActionPlan,
+  freePpm: number,
+  totalPpm: number,
+  context: Pick<PlanContext, "sessions" | "now">
+): ShockPlan {
+  const { value, trace } = calculateShockDoseTraced(
+    freePpm,
+    totalPpm,
+    plan.volumeLitersRaw,
+    plan.chlorineProduct.concentration,
+    plan.chlorineProduct.presentation,
+    plan.chlorineProduct.unit,
+    plan.cyaPpm
+  );
+  const [safety] = evaluateDoseSafety(
+    [{ chemical: "chlorine", amount: value.amount, unit: value.unit }],
+    {
+      volumeLiters: plan.volumeLitersRaw,
+      capacityLiters: plan.capacityLiters,
+      now: context.now,
+      sessions: context.sessions,
+      limits: { ...plan.doseLimits, maxChlorineRaisePpm: MAX_SHOCK_CHLORINE_PPM_PER_APPLICATION }
+    }
+  );
+  return { ...value, amount: toFixedNumber(safety.allowed, 0), trace, safety };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateAlkalinityReductionMl,
+  calculateAlkalinityReductionMlTraced,
+  calculateBicarbonateDoseG,
+  calculateBicarbonateDoseGTraced,
+  classifyAlkalinity,
+  getEffectiveAlkalinityPpm,
+  getLatestMeasuredAlkalinity
+} from "./alkalinity";
+import { defaultPoolConfig } from "./defaults";
+import type { Session } from "./types";
+
+function makeSession(timestamp: string, measuredAlkalinityPpm?: number): Session {
+  return {
+    id: timestamp,
+    poolId: "default",
+    timestamp,
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 1.5,
+    measuredAlkalinityPpm,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "ml" },
+    appliedDoses: {}
+  };
+}
+
+describe("classifyAlkalinity", () => {
+  it("clasifica contra los objetivos configurados", () => {
+    expect(classifyAlkalinity(100, defaultPoolConfig)).toBe("ok");
+    expect(classifyAlkalinity(65, defaultPoolConfig)).toBe("leve");
+    expect(classifyAlkalinity(140, defaultPoolConfig)).toBe("leve");
+    expect(classifyAlkalinity(40, defaultPoolConfig)).toBe("ajuste");
+  });
+});
+
+describe("alcalinidad efectiva", () => {
+  it("usa la medicion mas reciente con TA registrada", () => {
+    const sessions = [
+      makeSession("2026-01-03T10:00:00.000Z"),
+      makeSession("2026-01-01T10:00:00.000Z", 70),
+      makeSession("2026-01-02T10:00:00.000Z", 90)
+    ];
+    expect(getLatestMeasuredAlkalinity(sessions)).toBe(90);
+    expect(getEffectiveAlkalinityPpm(sessions, defaultPoolConfig)).toBe(90);
+  });
+
+  it("vuelve a la TA estimada si nunca se midio", () => {
+    const sessions = [makeSession("2026-01-01T10:00:00.000Z")];
+    expect(getLatestMeasuredAlkalinity(sessions)).toBeNull();
+    expect(getEffectiveAlkalinityPpm(sessions, defaultPoolConfig)).toBe(
+      defaultPoolConfig.chemistry.estimatedAlkalinityPpm
+    );
+  });
+
+  it("diluye la ultima medicion con los llenados posteriores", () => {
+    const sessions = [makeSession("2026-01-01T10:00:00.000Z", 100)];
+    const topUps = [
+      {
+        id: "t0",
+        poolId: "default",
+        timestamp: "2025-12-30T10:00:00.000Z",
+        heightBeforeCm: 50,
+        heightAfterCm: 70
+      },
+      {
+        id: "t1",
+        poolId: "default",
+        timestamp: "2026-01-02T10:00:00.000Z",
+        heightBeforeCm: 60,
+        heightAfterCm: 75
+      }
+    ];
+    expect(getEffectiveAlkalinityPpm(sessions, defaultPoolConfig, topUps)).toBeCloseTo(80, 9);
+  });
+});
+
+describe("calculateBicarbonateDoseG", () => {
+  it("usa 1.68 mg/L por ppm hasta el valor central del objetivo", () => {
+    // 60 -> 100 ppm en 10.000 L: 40 * 1.68 * 10 = 672 g.
+    expect(calculateBicarbonateDoseG(60, 10000, 80, 120)).toBeCloseTo(672, 9);
+  });
+
+  it("retorna 0 con la TA en o sobre el minimo", () => {
+    const { value, trace } = calculateBicarbonateDoseGTraced(80, 10000, 80, 120);
+    expect(value).toBe(0);
+    expect(trace.note).toContain("no se requiere bicarbonato");
+  });
+});
+
+describe("calculateAlkalinityReductionMl", () => {
+  it("usa 200 ml por 10 ppm en 10.000 L con acido al 31.45%", () => {
+    expect(calculateAlkalinityReductionMl(140, 10000, 31.45, 80, 120)).toBeCloseTo(800, 9);
+    expect(calculateAlkalinityReductionMl(140, 5000, 10, 80, 120)).toBeCloseTo(1258, 9);
+  });
+
+  it("incluye la guia de aireacion y retorna 0 bajo el maximo", () => {
+    expect(calculateAlkalinityReductionMlTraced(160, 10000, 31.45, 80, 120).trace.note).toContain(
+      "airear"
+    );
+    expect(calculateAlkalinityReductionMl(110, 10000, 31.45, 80, 120)).toBe(0);
+  });
+});
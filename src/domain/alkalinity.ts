@@ -0,0 +1,227 @@
+import { getDilutionFactor } from "./topUp";
+import type { CalculationTrace, PoolConfig, Session, TracedResult, WaterTopUp } from "./types";
+
+// 1.68 mg/L de bicarbonato de sodio suben 1 ppm de alcalinidad (como CaCO3).
+export const BICARBONATE_MG_PER_L_PER_PPM = 1.68;
+// Referencia para bajar alcalinidad: ~200 ml de acido al 31.45% por 10 ppm en 10.000 L.
+const ACID_ML_PER_10_PPM_10K_AT_31_PCT = 200;
+const REFERENCE_MURIATIC_ACID_PCT = 31.45;
+
+export type AlkalinityStatus = "ok" | "leve" | "ajuste";
+
+export function isAlkalinityInRange(value: number): boolean {
+  return value >= 0 && value <= 400;
+}
+
+export function classifyAlkalinity(measuredPpm: number, config: PoolConfig): AlkalinityStatus {
+  const { alkalinityMinPpm, alkalinityMaxPpm } = config.targets;
+  if (measuredPpm >= alkalinityMinPpm && measuredPpm <= alkalinityMaxPpm) {
+    return "ok";
+  }
+  if (measuredPpm >= alkalinityMinPpm - 20 && measuredPpm <= alkalinityMaxPpm + 20) {
+    return "leve";
+  }
+  return "ajuste";
+}
+
+function findLatestAlkalinitySession(sessions: Session[]): Session | null {
+  let latest: Session | null = null;
+  for (const session of sessions) {
+    if (session.measuredAlkalinityPpm === undefined) {
+      continue;
+    }
+    if (!latest || Date.parse(session.timestamp) > Date.parse(latest.timestamp)) {
+      latest = session;
+    }
+  }
+  return latest;
+}
+
+export function getLatestMeasuredAlkalinity(sessions: Session[]): number | null {
+  return findLatestAlkalinitySession(sessions)?.measuredAlkalinityPpm ?? null;
+}
+
+// La ultima medicion se diluye con los llenados posteriores; la estimacion de la
+// configuracion se toma tal cual.
+export function getEffectiveAlkalinityPpm(
+  sessions: Session[],
+  config: PoolConfig,
+  topUps: WaterTopUp[] = []
+): number {
+  const latest = findLatestAlkalinitySession(sessions);
+  if (latest?.measuredAlkalinityPpm === undefined) {
+    return config.chemistry.estimatedAlkalinityPpm;
+  }
+  return latest.measuredAlkalinityPpm * getDilutionFactor(topUps, config.pool, latest.timestamp);
+}
+
+export function calculateBicarbonateDoseGTraced(
+  measuredPpm: number,
+  volumeLiters: number,
+  targetMinPpm: number,
+  targetMaxPpm: number
+): TracedResult<number> {
+  const trace: CalculationTrace = {
+    title: "Subir alcalinidad (bicarbonato de sodio)",
+    inputs: [
+      { symbol: "TA_m", label: "Alcalinidad medida", value: measuredPpm, unit: "ppm" },
+      { symbol: "TA_min", label: "Alcalinidad minima objetivo", value: targetMinPpm, unit: "ppm" },
+      { symbol: "TA_max", label: "Alcalinidad maxima objetivo", value: targetMaxPpm, unit: "ppm" },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" }
+    ],
+    constants: [
+      {
+        symbol: "k_bic",
+        label: "mg/L de bicarbonato por ppm de alcalinidad",
+        value: BICARBONATE_MG_PER_L_PER_PPM,
+        unit: "mg/L"
+      }
+    ],
+    steps: [],
+    result: { symbol: "D_bic", label: "Dosis de bicarbonato", value: 0, unit: "g" }
+  };
+
+  if (measuredPpm >= targetMinPpm) {
+    trace.note = "Alcalinidad en o sobre el minimo objetivo: no se requiere bicarbonato.";
+    return { value: 0, trace };
+  }
+
+  const targetPpm = (targetMinPpm + targetMaxPpm) / 2;
+  const delta = targetPpm - measuredPpm;
+  const dose = (delta * BICARBONATE_MG_PER_L_PER_PPM * volumeLiters) / 1000;
+
+  trace.steps = [
+    {
+      symbol: "TA_obj",
+      label: "Alcalinidad objetivo (valor central)",
+      formula: "(TA_min + TA_max) / 2",
+      value: targetPpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "ΔTA",
+      label: "Alcalinidad faltante",
+      formula: "TA_obj - TA_m",
+      value: delta,
+      unit: "ppm"
+    },
+    {
+      symbol: "D_bic",
+      label: "Dosis de bicarbonato",
+      formula: "ΔTA * k_bic * V_L / 1000",
+      value: dose,
+      unit: "g"
+    }
+  ];
+  trace.result = { ...trace.result, value: dose };
+  return { value: dose, trace };
+}
+
+export function calculateBicarbonateDoseG(
+  measuredPpm: number,
+  volumeLiters: number,
+  targetMinPpm: number,
+  targetMaxPpm: number
+): number {
+  return calculateBicarbonateDoseGTraced(measuredPpm, volumeLiters, targetMinPpm, targetMaxPpm)
+    .value;
+}
+
+export function calculateAlkalinityReductionMlTraced(
+  measuredPpm: number,
+  volumeLiters: number,
+  acidConcentrationPct: number,
+  targetMinPpm: number,
+  targetMaxPpm: number
+): TracedResult<number> {
+  const trace: CalculationTrace = {
+    title: "Bajar alcalinidad (acido + aireacion)",
+    inputs: [
+      { symbol: "TA_m", label: "Alcalinidad medida", value: measuredPpm, unit: "ppm" },
+      { symbol: "TA_min", label: "Alcalinidad minima objetivo", value: targetMinPpm, unit: "ppm" },
+      { symbol: "TA_max", label: "Alcalinidad maxima objetivo", value: targetMaxPpm, unit: "ppm" },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" },
+      { symbol: "A", label: "Concentracion de acido", value: acidConcentrationPct, unit: "%" }
+    ],
+    constants: [
+      {
+        symbol: "ref_ml",
+        label: "ml por 10 ppm en 10.000 L con acido al 31.45%",
+        value: ACID_ML_PER_10_PPM_10K_AT_31_PCT,
+        unit: "ml"
+      },
+      {
+        symbol: "A_ref",
+        label: "Concentracion de referencia",
+        value: REFERENCE_MURIATIC_ACID_PCT,
+        unit: "%"
+      }
+    ],
+    steps: [],
+    result: { symbol: "D_TA", label: "Acido para bajar alcalinidad", value: 0, unit: "ml" },
+    note: "Aplicar el acido concentrado en un punto con la bomba apagada y luego airear para recuperar el pH sin volver a subir la alcalinidad."
+  };
+
+  if (measuredPpm <= targetMaxPpm || acidConcentrationPct <= 0) {
+    trace.note =
+      acidConcentrationPct <= 0
+        ? "Concentracion de acido invalida: la dosis es 0."
+        : "Alcalinidad en o bajo el maximo objetivo: no se requiere reducirla.";
+    return { value: 0, trace };
+  }
+
+  const targetPpm = (targetMinPpm + targetMaxPpm) / 2;
+  const delta = measuredPpm - targetPpm;
+  const volumeFactor = volumeLiters / 10000;
+  const concentrationFactor = REFERENCE_MURIATIC_ACID_PCT / acidConcentrationPct;
+  const dose = (delta / 10) * ACID_ML_PER_10_PPM_10K_AT_31_PCT * volumeFactor * concentrationFactor;
+
+  trace.steps = [
+    {
+      symbol: "TA_obj",
+      label: "Alcalinidad objetivo (valor central)",
+      formula: "(TA_min + TA_max) / 2",
+      value: targetPpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "ΔTA",
+      label: "Exceso de alcalinidad",
+      formula: "TA_m - TA_obj",
+      value: delta,
+      unit: "ppm"
+    },
+    { symbol: "F_V", label: "Factor de volumen", formula: "V_L / 10000", value: volumeFactor },
+    {
+      symbol: "F_A",
+      label: "Factor de concentracion",
+      formula: "A_ref / A",
+      value: concentrationFactor
+    },
+    {
+      symbol: "D_TA",
+      label: "Acido para bajar alcalinidad",
+      formula: "(ΔTA / 10) * ref_ml * F_V * F_A",
+      value: dose,
+      unit: "ml"
+    }
+  ];
+  trace.result = { ...trace.result, value: dose };
+  return { value: dose, trace };
+}
+
+export function calculateAlkalinityReductionMl(
+  measuredPpm: number,
+  volumeLiters: number,
+  acidConcentrationPct: number,
+  targetMinPpm: number,
+  targetMaxPpm: number
+): number {
+  return calculateAlkalinityReductionMlTraced(
+    measuredPpm,
+    volumeLiters,
+    acidConcentrationPct,
+    targetMinPpm,
+    targetMaxPpm
+  ).value;
+}
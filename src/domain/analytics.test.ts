@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeSessions,
+  buildTrendSeries,
+  calculateRollingAverage,
+  calculateTimeInRange,
+  calculateWeeklyDoseTotals,
+  getWeekStart
+} from "./analytics";
+import { defaultPoolConfig } from "./defaults";
+import type { Session } from "./types";
+
+function at(day: number, hour: number): string {
+  return new Date(2026, 0, day, hour).toISOString();
+}
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    kind: "check",
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 1.5,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+describe("calculateTimeInRange", () => {
+  it("pondera cada lectura hasta la siguiente con un maximo de 24 h", () => {
+    const sessions = [
+      makeSession("a", at(5, 8)),
+      makeSession("b", at(5, 20), { measuredPh: 7.9, measuredChlorinePpm: 0.2 }),
+      makeSession("c", at(8, 8))
+    ];
+
+    const result = calculateTimeInRange(sessions, defaultPoolConfig, new Date(2026, 0, 8, 14));
+
+    // a cubre 12 h en rango, b 24 h fuera de rango (tope), c 6 h en rango hasta ahora.
+    expect(result.coveredHours).toBe(42);
+    expect(result.phPct).toBeCloseTo((18 / 42) * 100);
+    expect(result.chlorinePct).toBeCloseTo((18 / 42) * 100);
+  });
+
+  it("devuelve null sin lecturas e ignora sesiones eliminadas", () => {
+    const deleted = makeSession("a", at(5, 8), { deletedAt: at(6, 8) });
+    expect(calculateTimeInRange([deleted], defaultPoolConfig, new Date(2026, 0, 7))).toEqual({
+      phPct: null,
+      chlorinePct: null,
+      coveredHours: 0
+    });
+  });
+});
+
+describe("calculateRollingAverage", () => {
+  it("promedia solo las lecturas dentro de la ventana", () => {
+    const sessions = [
+      makeSession("a", at(1, 8), { measuredPh: 7.0, measuredChlorinePpm: 0.5 }),
+      makeSession("b", at(20, 8), { measuredPh: 7.4, measuredChlorinePpm: 1 }),
+      makeSession("c", at(24, 8), { measuredPh: 7.6, measuredChlorinePpm: 2 })
+    ];
+    const now = new Date(2026, 0, 25, 8);
+
+    const week = calculateRollingAverage(sessions, now, 7);
+    expect(week.count).toBe(2);
+    expect(week.ph).toBeCloseTo(7.5);
+    expect(week.chlorine).toBeCloseTo(1.5);
+
+    const month = calculateRollingAverage(sessions, now, 30);
+    expect(month.count).toBe(3);
+    expect(month.ph).toBeCloseTo(7.333, 2);
+  });
+});
+
+describe("calculateWeeklyDoseTotals", () => {
+  it("suma dosis aplicadas por semana, producto y unidad", () => {
+    const sessions = [
+      makeSession("a", at(5, 8), {
+        kind: "adjustment",
+        requiredPhCorrection: { direction: "down", total: 60, stage1: 40, unit: "ml" },
+        appliedDoses: { phStage1: 40, phStage2: 20, phUnit: "ml", chlorine: 10, chlorineUnit: "g" }
+      }),
+      makeSession("b", at(11, 20), {
+        kind: "adjustment",
+        appliedDoses: { chlorine: 15, chlorineUnit: "g" }
+      }),
+      makeSession("c", at(12, 8), {
+        kind: "shock",
+        appliedDoses: { chlorine: 100, chlorineUnit: "g" }
+      })
+    ];
+
+    expect(getWeekStart(new Date(2026, 0, 11, 20))).toBe("2026-01-05");
+    expect(calculateWeeklyDoseTotals(sessions)).toEqual([
+      { weekStart: "2026-01-05", chemical: "acid", amount: 60, unit: "ml" },
+      { weekStart: "2026-01-05", chemical: "chlorine", amount: 25, unit: "g" },
+      { weekStart: "2026-01-12", chemical: "chlorine", amount: 100, unit: "g" }
+    ]);
+  });
+});
+
+describe("buildTrendSeries", () => {
+  it("marca el estado de cada lectura y su promedio de 7 dias", () => {
+    const series = buildTrendSeries(
+      [
+        makeSession("b", at(6, 8), { measuredPh: 7.7, measuredChlorinePpm: 0.2 }),
+        makeSession("a", at(5, 8), { measuredPh: 7.5, measuredChlorinePpm: 1 })
+      ],
+      defaultPoolConfig
+    );
+
+    expect(series.map((point) => point.phStatus)).toEqual(["ok", "leve"]);
+    expect(series.map((point) => point.chlorineStatus)).toEqual(["ok", "ajuste"]);
+    expect(series[1].phAvg7d).toBeCloseTo(7.6);
+    expect(series[1].chlorineAvg7d).toBeCloseTo(0.6);
+  });
+});
+
+describe("analyzeSessions", () => {
+  it("limita series y dosis a la ventana de analisis", () => {
+    const sessions = [
+      makeSession("old", at(1, 8), { appliedDoses: { chlorine: 50, chlorineUnit: "g" } }),
+      makeSession("new", at(20, 8))
+    ];
+
+    const result = analyzeSessions(sessions, defaultPoolConfig, new Date(2026, 0, 20, 20), 7);
+    expect(result.windowDays).toBe(7);
+    expect(result.series.map((point) => point.timestamp)).toEqual([at(20, 8)]);
+    expect(result.weeklyDoses).toEqual([]);
+    expect(result.averages.map((average) => average.count)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,212 @@
+import { classifyChlorine, classifyPh } from "./calculations";
+import type { DoseChemical } from "./safety";
+import type { DoseUnit, PoolConfig, Session } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Una lectura representa el agua hasta la siguiente, pero no mas de 24 h.
+export const MAX_READING_HOLD_HOURS = 24;
+export const ANALYTICS_WINDOW_DAYS = 30;
+export const ROLLING_WINDOWS_DAYS = [7, 30];
+
+export type ReadingStatus = "ok" | "leve" | "ajuste";
+
+export interface TimeInRange {
+  phPct: number | null;
+  chlorinePct: number | null;
+  coveredHours: number;
+}
+
+export interface RollingAverage {
+  days: number;
+  ph: number | null;
+  chlorine: number | null;
+  count: number;
+}
+
+export interface SessionDose {
+  chemical: DoseChemical;
+  amount: number;
+  unit: DoseUnit;
+}
+
+export interface WeeklyDoseTotal extends SessionDose {
+  weekStart: string;
+}
+
+export interface TrendPoint {
+  timestamp: string;
+  ph: number;
+  phStatus: ReadingStatus;
+  chlorine: number;
+  chlorineStatus: ReadingStatus;
+  phAvg7d: number;
+  chlorineAvg7d: number;
+}
+
+export interface SessionAnalytics {
+  windowDays: number;
+  timeInRange: TimeInRange;
+  averages: RollingAverage[];
+  weeklyDoses: WeeklyDoseTotal[];
+  series: TrendPoint[];
+}
+
+function sortReadings(sessions: Session[]): Session[] {
+  return sessions
+    .filter((session) => !session.deletedAt)
+    .slice()
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function calculateTimeInRange(
+  sessions: Session[],
+  config: PoolConfig,
+  now: Date = new Date()
+): TimeInRange {
+  const readings = sortReadings(sessions);
+  let coveredMs = 0;
+  let phOkMs = 0;
+  let chlorineOkMs = 0;
+
+  readings.forEach((session, index) => {
+    const start = Date.parse(session.timestamp);
+    const next = readings[index + 1] ? Date.parse(readings[index + 1].timestamp) : now.getTime();
+    const duration = Math.max(0, Math.min(next, start + MAX_READING_HOLD_HOURS * HOUR_MS) - start);
+    coveredMs += duration;
+    if (classifyPh(session.measuredPh, config) === "ok") {
+      phOkMs += duration;
+    }
+    if (classifyChlorine(session.measuredChlorinePpm, config) === "ok") {
+      chlorineOkMs += duration;
+    }
+  });
+
+  return {
+    phPct: coveredMs > 0 ? (phOkMs / coveredMs) * 100 : null,
+    chlorinePct: coveredMs > 0 ? (chlorineOkMs / coveredMs) * 100 : null,
+    coveredHours: coveredMs / HOUR_MS
+  };
+}
+
+export function calculateRollingAverage(
+  sessions: Session[],
+  now: Date,
+  days: number
+): RollingAverage {
+  const since = now.getTime() - days * DAY_MS;
+  const readings = sortReadings(sessions).filter((session) => {
+    const at = Date.parse(session.timestamp);
+    return at >= since && at <= now.getTime();
+  });
+
+  return {
+    days,
+    ph: average(readings.map((session) => session.measuredPh)),
+    chlorine: average(readings.map((session) => session.measuredChlorinePpm)),
+    count: readings.length
+  };
+}
+
+export function getSessionDoses(session: Session): SessionDose[] {
+  const doses: SessionDose[] = [];
+  const ph = (session.appliedDoses.phStage1 ?? 0) + (session.appliedDoses.phStage2 ?? 0);
+  const direction = session.requiredPhCorrection.direction;
+  if (ph > 0 && direction !== "none") {
+    doses.push({
+      chemical: direction === "up" ? "ph-up" : "acid",
+      amount: ph,
+      unit: session.appliedDoses.phUnit ?? session.requiredPhCorrection.unit
+    });
+  }
+  const alkalinity = session.appliedDoses.alkalinity ?? 0;
+  const alkalinityCorrection = session.requiredAlkalinityCorrection;
+  if (alkalinity > 0 && alkalinityCorrection) {
+    doses.push({
+      chemical: alkalinityCorrection.direction === "up" ? "bicarbonate" : "acid",
+      amount: alkalinity,
+      unit: session.appliedDoses.alkalinityUnit ?? alkalinityCorrection.unit
+    });
+  }
+  const chlorine = session.appliedDoses.chlorine ?? 0;
+  if (chlorine > 0) {
+    doses.push({
+      chemical: "chlorine",
+      amount: chlorine,
+      unit: session.appliedDoses.chlorineUnit ?? session.requiredChlorineDose.unit
+    });
+  }
+  return doses;
+}
+
+// Semanas de lunes a domingo en hora local, identificadas por la fecha del lunes.
+export function getWeekStart(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  const month = String(monday.getMonth() + 1).padStart(2, "0");
+  const day = String(monday.getDate()).padStart(2, "0");
+  return `${monday.getFullYear()}-${month}-${day}`;
+}
+
+export function calculateWeeklyDoseTotals(sessions: Session[]): WeeklyDoseTotal[] {
+  const totals = new Map<string, WeeklyDoseTotal>();
+  for (const session of sortReadings(sessions)) {
+    const weekStart = getWeekStart(new Date(session.timestamp));
+    for (const dose of getSessionDoses(session)) {
+      const key = `${weekStart}:${dose.chemical}:${dose.unit}`;
+      const current = totals.get(key);
+      totals.set(key, {
+        weekStart,
+        chemical: dose.chemical,
+        unit: dose.unit,
+        amount: (current?.amount ?? 0) + dose.amount
+      });
+    }
+  }
+  return [...totals.values()];
+}
+
+export function buildTrendSeries(sessions: Session[], config: PoolConfig): TrendPoint[] {
+  const readings = sortReadings(sessions);
+  return readings.map((session) => {
+    const at = new Date(session.timestamp);
+    const rolling = calculateRollingAverage(readings, at, 7);
+    return {
+      timestamp: session.timestamp,
+      ph: session.measuredPh,
+      phStatus: classifyPh(session.measuredPh, config),
+      chlorine: session.measuredChlorinePpm,
+      chlorineStatus: classifyChlorine(session.measuredChlorinePpm, config),
+      phAvg7d: rolling.ph ?? session.measuredPh,
+      chlorineAvg7d: rolling.chlorine ?? session.measuredChlorinePpm
+    };
+  });
+}
+
+export function analyzeSessions(
+  sessions: Session[],
+  config: PoolConfig,
+  now: Date = new Date(),
+  windowDays: number = ANALYTICS_WINDOW_DAYS
+): SessionAnalytics {
+  const since = now.getTime() - windowDays * DAY_MS;
+  const recent = sessions.filter((session) => {
+    const at = Date.parse(session.timestamp);
+    return at >= since && at <= now.getTime();
+  });
+
+  return {
+    windowDays,
+    timeInRange: calculateTimeInRange(recent, config, now),
+    averages: ROLLING_WINDOWS_DAYS.map((days) => calculateRollingAverage(sessions, now, days)),
+    weeklyDoses: calculateWeeklyDoseTotals(recent),
+    series: buildTrendSeries(recent, config)
+  };
+}
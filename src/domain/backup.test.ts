@@ -0,0 +1,498 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_FORMAT,
+  buildBackupDocument,
+  parseBackupDocument,
+  planBackupImport,
+  type BackupDocument,
+  type BackupTables
+} from "./backup";
+import { defaultPoolConfig } from "./defaults";
+import { SESSION_EXPORT_FORMAT } from "./sessionExport";
+import type {
+  ChemicalProduct,
+  IntensiveCycle,
+  InventoryContainer,
+  InventoryMovement,
+  PoolConfig,
+  Session,
+  SessionRevision,
+  WaterTopUp
+} from "./types";
+
+function makeSession(id: string, timestamp: string, measuredChlorinePpm = 1.2): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    kind: "check",
+    checkMoment: "start-day",
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {}
+  };
+}
+
+function makeConfig(updatedAt: string, overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return { ...structuredClone(defaultPoolConfig), updatedAt, ...overrides };
+}
+
+function makeTables(
+  configs: PoolConfig[],
+  sessions: Session[],
+  others: Partial<BackupTables> = {}
+): BackupTables {
+  return {
+    configs,
+    sessions,
+    sessionRevisions: [],
+    topUps: [],
+    intensiveCycles: [],
+    products: [],
+    inventory: [],
+    inventoryMovements: [],
+    ...others
+  };
+}
+
+function makeDocument(
+  configs: PoolConfig[],
+  sessions: Session[],
+  others: Partial<BackupTables> = {}
+): BackupDocument {
+  return buildBackupDocument(
+    makeTables(configs, sessions, others),
+    new Date("2026-03-01T10:00:00.000Z")
+  );
+}
+
+const product: ChemicalProduct = {
+  id: "dicloro",
+  role: "chlorine",
+  type: "Dicloroisocianurato de sodio",
+  concentration: 56,
+  unit: "%",
+  presentation: "granular-g",
+  cyaPerFcPpm: 0.9,
+  createdAt: "2026-01-01T10:00:00.000Z"
+};
+
+const container: InventoryContainer = {
+  id: "envase",
+  productId: "dicloro",
+  quantity: 1000,
+  remaining: 980,
+  unit: "g",
+  purchasedAt: "2026-01-02T10:00:00.000Z"
+};
+
+function makeMovement(id: string, sessionId?: string): InventoryMovement {
+  return {
+    id,
+    productId: "dicloro",
+    containerId: "envase",
+    kind: "usage",
+    amount: 20,
+    unit: "g",
+    at: "2026-02-20T08:00:00.000Z",
+    sessionId
+  };
+}
+
+function makeRevision(id: string, sessionId: string, poolId = "default"): SessionRevision {
+  return {
+    id,
+    sessionId,
+    poolId,
+    action: "edit",
+    author: "Ana",
+    at: "2026-02-20T09:00:00.000Z",
+    changes: [{ field: "measuredPh", before: 7.4, after: 7.5 }]
+  };
+}
+
+const topUp: WaterTopUp = {
+  id: "llenado",
+  poolId: "default",
+  timestamp: "2026-02-18T10:00:00.000Z",
+  heightBeforeCm: 60,
+  heightAfterCm: 70
+};
+
+const cycle: IntensiveCycle = {
+  id: "ciclo",
+  poolId: "default",
+  reason: "cloro inestable",
+  startedAt: "2026-02-10T10:00:00.000Z",
+  closedAt: "2026-02-14T10:00:00.000Z",
+  minNights: 2,
+  maxOvernightLossPpm: 1,
+  summary: {
+    nightsEvaluated: 2,
+    avgOvernightLossPpm: 0.5,
+    lastOvernightLossPpm: 0.4,
+    recommendation: "Cloro estable"
+  }
+};
+
+describe("parseBackupDocument", () => {
+  it("acepta un respaldo valido y completa campos faltantes", () => {
+    const legacyConfig = makeConfig("2026-02-01T10:00:00.000Z") as Partial<PoolConfig>;
+    delete legacyConfig.workflow;
+    const result = parseBackupDocument(
+      JSON.parse(
+        JSON.stringify({
+          format: BACKUP_FORMAT,
+          version: 1,
+          exportedAt: "2026-03-01T10:00:00.000Z",
+          configs: [legacyConfig],
+          sessions: [makeSession("s1", "2026-02-20T08:00:00.000Z")]
+        })
+      )
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.issues).toEqual([]);
+    expect(result.document.configs[0].workflow).toEqual(defaultPoolConfig.workflow);
+    expect(result.document.sessions).toHaveLength(1);
+  });
+
+  it("rechaza formatos y versiones desconocidas", () => {
+    expect(parseBackupDocument("texto").ok).toBe(false);
+    expect(parseBackupDocument({ format: "otro", version: 1 }).ok).toBe(false);
+
+    const result = parseBackupDocument({ format: BACKUP_FORMAT, version: 9, configs: [], sessions: [] });
+    expect(result.ok).toBe(false);
+    expect(result.issues[0].path).toBe("version");
+
+    const history = parseBackupDocument({
+      format: SESSION_EXPORT_FORMAT,
+      version: 2,
+      sessions: []
+    });
+    expect(history.ok).toBe(false);
+  });
+
+  it("omite registros invalidos y reporta su ruta", () => {
+    const result = parseBackupDocument({
+      format: BACKUP_FORMAT,
+      version: 1,
+      configs: [{ id: "x" }],
+      sessions: [
+        makeSession("ok", "2026-02-20T08:00:00.000Z"),
+        { ...makeSession("bad", "no-es-fecha"), measuredPh: "7.4" }
+      ]
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.document.configs).toHaveLength(0);
+    expect(result.document.sessions.map((session) => session.id)).toEqual(["ok"]);
+    const paths = result.issues.map((issue) => issue.path);
+    expect(paths).toContain("configs[0].pool");
+    expect(paths).toContain("sessions[1].timestamp");
+    expect(paths).toContain("sessions[1].measuredPh");
+  });
+
+  it("aplica las reglas de dominio a los registros normalizados", () => {
+    const result = parseBackupDocument({
+      format: BACKUP_FORMAT,
+      version: 1,
+      configs: [
+        makeConfig("2026-02-01T10:00:00.000Z", {
+          targets: { ...defaultPoolConfig.targets, chlorineMinPpm: 4, chlorineMaxPpm: 3 }
+        })
+      ],
+      sessions: [{ ...makeSession("fuera", "2026-02-20T08:00:00.000Z"), measuredPh: 9.5 }]
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.document.configs).toHaveLength(0);
+    expect(result.document.sessions).toHaveLength(0);
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      "configs[0].targets.chlorineMinPpm",
+      "sessions[0].measuredPh"
+    ]);
+  });
+
+  it("acepta un historial exportado y asigna la piscina del documento", () => {
+    const { poolId: _poolId, ...withoutPool } = makeSession("s1", "2026-02-20T08:00:00.000Z");
+    const result = parseBackupDocument({
+      format: SESSION_EXPORT_FORMAT,
+      version: 1,
+      pool: { id: "ninos", name: "Piscina ninos" },
+      sessions: [withoutPool]
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.document.configs).toEqual([]);
+    expect(result.document.sessions[0].poolId).toBe("ninos");
+  });
+
+  it("conserva todas las tablas al exportar y volver a leer el respaldo", () => {
+    const tables = makeTables(
+      [makeConfig("2026-02-01T10:00:00.000Z")],
+      [makeSession("s1", "2026-02-20T08:00:00.000Z")],
+      {
+        sessionRevisions: [makeRevision("r1", "s1")],
+        topUps: [topUp],
+        intensiveCycles: [cycle],
+        products: [product],
+        inventory: [container],
+        inventoryMovements: [makeMovement("m1", "s1")]
+      }
+    );
+    const exported = JSON.stringify(makeDocument(tables.configs, tables.sessions, tables));
+    const result = parseBackupDocument(JSON.parse(exported));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.issues).toEqual([]);
+    expect(result.document).toEqual(JSON.parse(exported));
+
+    const restored = planBackupImport(makeTables([], []), result.document, "replace");
+    expect(restored.replaceAll).toBe(true);
+    expect(restored.report.issues).toEqual([]);
+    for (const [table, records] of Object.entries(tables)) {
+      expect(restored.tables[table as keyof BackupTables].toPut).toEqual(
+        JSON.parse(JSON.stringify(records))
+      );
+    }
+  });
+
+  it("lee respaldos de version 1 sin las tablas agregadas despues", () => {
+    const result = parseBackupDocument({
+      format: BACKUP_FORMAT,
+      version: 1,
+      configs: [makeConfig("2026-02-01T10:00:00.000Z")],
+      sessions: []
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.document.version).toBe(2);
+    expect(result.document.products).toEqual([]);
+    expect(result.document.inventoryMovements).toEqual([]);
+  });
+
+  it("omite envases, movimientos y revisiones invalidos", () => {
+    const result = parseBackupDocument({
+      ...makeDocument([makeConfig("2026-02-01T10:00:00.000Z")], []),
+      products: [{ ...product, concentration: 0 }],
+      inventory: [{ ...container, unit: "kg" }],
+      inventoryMovements: [{ ...makeMovement("m1"), kind: "regalo" }],
+      sessionRevisions: [{ ...makeRevision("r1", "s1"), at: "ayer" }],
+      topUps: [{ ...topUp, heightAfterCm: 50 }],
+      intensiveCycles: ["ciclo"]
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      "sessionRevisions[0].at",
+      "topUps[0].heightAfterCm",
+      "intensiveCycles[0]",
+      "products[0].concentration",
+      "inventory[0].unit",
+      "inventoryMovements[0].kind"
+    ]);
+    expect(result.document.inventory).toEqual([]);
+  });
+});
+
+describe("planBackupImport", () => {
+  it("en modo merge agrega nuevas, deduplica por id y resuelve por timestamp", () => {
+    const current = makeTables(
+      [makeConfig("2026-02-10T10:00:00.000Z")],
+      [
+        makeSession("same", "2026-02-20T08:00:00.000Z"),
+        makeSession("older-local", "2026-02-20T09:00:00.000Z", 1.0),
+        makeSession("newer-local", "2026-02-21T09:00:00.000Z", 2.0)
+      ]
+    );
+    const backup = makeDocument(
+      [makeConfig("2026-02-15T10:00:00.000Z", { name: "Renombrada" })],
+      [
+        makeSession("same", "2026-02-20T08:00:00.000Z"),
+        makeSession("older-local", "2026-02-20T10:00:00.000Z", 1.5),
+        makeSession("newer-local", "2026-02-21T08:00:00.000Z", 0.5),
+        makeSession("new", "2026-02-22T08:00:00.000Z"),
+        makeSession("new", "2026-02-22T07:00:00.000Z")
+      ]
+    );
+
+    const plan = planBackupImport(current, backup, "merge");
+
+    expect(plan.tables.sessions.idsToRemove).toEqual([]);
+    expect(plan.tables.configs.counts).toEqual({ added: 0, updated: 1, kept: 0, removed: 0 });
+    expect(plan.tables.sessions.counts).toEqual({ added: 1, updated: 1, kept: 2, removed: 0 });
+    expect(plan.tables.sessions.toPut.map((session) => session.id).sort()).toEqual([
+      "new",
+      "older-local"
+    ]);
+    expect(plan.tables.sessions.toPut.find((session) => session.id === "new")?.timestamp).toBe(
+      "2026-02-22T08:00:00.000Z"
+    );
+    expect(plan.tables.configs.toPut[0].name).toBe("Renombrada");
+    expect(plan.report.conflicts).toHaveLength(3);
+  });
+
+  it("en modo replace reporta lo que se elimina y reemplaza todo", () => {
+    const current = makeTables(
+      [makeConfig("2026-02-10T10:00:00.000Z")],
+      [makeSession("a", "2026-02-20T08:00:00.000Z"), makeSession("b", "2026-02-21T08:00:00.000Z")]
+    );
+    const backup = makeDocument(
+      [makeConfig("2026-02-01T10:00:00.000Z")],
+      [makeSession("c", "2026-02-19T08:00:00.000Z")]
+    );
+
+    const plan = planBackupImport(current, backup, "replace");
+    expect(plan.replaceAll).toBe(true);
+    expect(plan.tables.sessions.idsToRemove).toEqual(["a", "b"]);
+    expect(plan.tables.configs.counts).toEqual({ added: 1, updated: 0, kept: 0, removed: 1 });
+    expect(plan.tables.sessions.counts).toEqual({ added: 1, updated: 0, kept: 0, removed: 2 });
+  });
+
+  it("conserva las piscinas locales al reemplazar con un respaldo sin configuracion", () => {
+    const current = makeTables(
+      [makeConfig("2026-02-10T10:00:00.000Z")],
+      [makeSession("a", "2026-02-20T08:00:00.000Z")]
+    );
+    const plan = planBackupImport(current, makeDocument([], []), "replace");
+    expect(plan.replaceAll).toBe(false);
+    expect(plan.tables.configs.counts.removed).toBe(0);
+  });
+
+  it("al reemplazar con un historial solo elimina las sesiones de esa piscina", () => {
+    const current = makeTables(
+      [
+        makeConfig("2026-02-10T10:00:00.000Z"),
+        makeConfig("2026-02-10T10:00:00.000Z", { id: "ninos" })
+      ],
+      [
+        makeSession("a", "2026-02-20T08:00:00.000Z"),
+        { ...makeSession("b", "2026-02-20T08:00:00.000Z"), poolId: "ninos" }
+      ]
+    );
+    const plan = planBackupImport(
+      current,
+      makeDocument([], [{ ...makeSession("c", "2026-02-21T08:00:00.000Z"), poolId: "ninos" }]),
+      "replace"
+    );
+
+    expect(plan.tables.sessions.idsToRemove).toEqual(["b"]);
+    expect(plan.tables.sessions.counts).toEqual({ added: 1, updated: 0, kept: 0, removed: 1 });
+  });
+
+  it("rechaza sesiones de piscinas que no existen", () => {
+    const current = makeTables([makeConfig("2026-02-10T10:00:00.000Z")], []);
+    const document = makeDocument(
+      [],
+      [
+        makeSession("a", "2026-02-20T08:00:00.000Z"),
+        { ...makeSession("b", "2026-02-20T08:00:00.000Z"), poolId: "otra" }
+      ]
+    );
+
+    for (const mode of ["merge", "replace"] as const) {
+      const plan = planBackupImport(current, document, mode);
+      expect(plan.tables.sessions.toPut.map((session) => session.id)).toEqual(["a"]);
+      expect(plan.report.issues.map((issue) => issue.path)).toEqual(["sessions.b.poolId"]);
+    }
+  });
+
+  it("al reemplazar todo no deja revisiones ni movimientos de las sesiones anteriores", () => {
+    const current = makeTables(
+      [makeConfig("2026-02-10T10:00:00.000Z")],
+      [makeSession("a", "2026-02-20T08:00:00.000Z")],
+      {
+        sessionRevisions: [makeRevision("r-a", "a")],
+        products: [product],
+        inventory: [container],
+        inventoryMovements: [makeMovement("m-a", "a")]
+      }
+    );
+    const backup = makeDocument(
+      [makeConfig("2026-02-01T10:00:00.000Z")],
+      [makeSession("c", "2026-02-19T08:00:00.000Z")],
+      { products: [product], inventoryMovements: [makeMovement("m-c", "c")] }
+    );
+
+    const plan = planBackupImport(current, backup, "replace");
+
+    expect(plan.tables.sessionRevisions.idsToRemove).toEqual(["r-a"]);
+    expect(plan.tables.inventoryMovements.idsToRemove).toEqual(["m-a"]);
+    expect(plan.tables.inventory.idsToRemove).toEqual(["envase"]);
+    expect(plan.tables.inventoryMovements.toPut.map((movement) => movement.id)).toEqual(["m-c"]);
+  });
+
+  it("al reemplazar un historial quita sus revisiones y desenlaza el consumo de inventario", () => {
+    const current = makeTables(
+      [makeConfig("2026-02-10T10:00:00.000Z")],
+      [makeSession("a", "2026-02-20T08:00:00.000Z"), makeSession("b", "2026-02-21T08:00:00.000Z")],
+      {
+        sessionRevisions: [makeRevision("r-a", "a")],
+        products: [product],
+        inventoryMovements: [makeMovement("m-a", "a"), makeMovement("m-b", "b")]
+      }
+    );
+
+    const plan = planBackupImport(
+      current,
+      makeDocument([], [makeSession("b", "2026-02-21T08:00:00.000Z")]),
+      "replace"
+    );
+
+    expect(plan.tables.sessions.idsToRemove).toEqual(["a", "b"]);
+    expect(plan.tables.sessionRevisions.idsToRemove).toEqual(["r-a"]);
+    expect(plan.tables.inventoryMovements.toPut).toEqual([
+      { ...makeMovement("m-a"), sessionId: undefined }
+    ]);
+    expect(plan.tables.inventoryMovements.toPut[0]).not.toHaveProperty("sessionId");
+    expect(plan.tables.inventoryMovements.counts.updated).toBe(1);
+  });
+
+  it("rechaza inventario de productos que no existen y combina las demas tablas", () => {
+    const current = makeTables([makeConfig("2026-02-10T10:00:00.000Z")], [], {
+      topUps: [topUp],
+      products: [product]
+    });
+    const backup = makeDocument([], [], {
+      topUps: [
+        { ...topUp, notes: "Manguera" },
+        { ...topUp, id: "nuevo" }
+      ],
+      intensiveCycles: [cycle],
+      inventory: [container, { ...container, id: "otro", productId: "borrado" }]
+    });
+
+    const plan = planBackupImport(current, backup, "merge");
+
+    expect(plan.tables.inventory.toPut.map((record) => record.id)).toEqual(["envase"]);
+    expect(plan.report.issues.map((issue) => issue.path)).toEqual(["inventory.otro.productId"]);
+    expect(plan.tables.topUps.counts).toEqual({ added: 1, updated: 0, kept: 1, removed: 0 });
+    expect(plan.tables.intensiveCycles.counts.added).toBe(1);
+  });
+});
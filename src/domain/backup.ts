@@ -0,0 +1,713 @@
+import { normalizePoolConfig, normalizeSession } from "./defaults";
+import { SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION } from "./sessionExport";
+import type {
+  ChemicalProduct,
+  IntensiveCycle,
+  InventoryContainer,
+  InventoryMovement,
+  PoolConfig,
+  Session,
+  SessionRevision,
+  WaterTopUp
+} from "./types";
+import {
+  validateChemicalProduct,
+  validateIntensiveCycle,
+  validatePoolConfig,
+  validateSession,
+  validateWaterTopUp,
+  type ValidationIssue
+} from "./validation";
+
+export const BACKUP_FORMAT = "piscina-pwa/backup";
+// La version 1 solo traia piscinas y sesiones; se sigue aceptando al importar.
+export const BACKUP_VERSION = 2;
+const SUPPORTED_BACKUP_VERSIONS = [1, BACKUP_VERSION];
+
+export type BackupImportMode = "replace" | "merge";
+
+export interface BackupTables {
+  configs: PoolConfig[];
+  sessions: Session[];
+  sessionRevisions: SessionRevision[];
+  topUps: WaterTopUp[];
+  intensiveCycles: IntensiveCycle[];
+  products: ChemicalProduct[];
+  inventory: InventoryContainer[];
+  inventoryMovements: InventoryMovement[];
+}
+
+export type BackupTable = keyof BackupTables;
+
+export const BACKUP_TABLES: BackupTable[] = [
+  "configs",
+  "sessions",
+  "sessionRevisions",
+  "topUps",
+  "intensiveCycles",
+  "products",
+  "inventory",
+  "inventoryMovements"
+];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  configs: "Piscinas",
+  sessions: "Sesiones",
+  sessionRevisions: "Revisiones de sesiones",
+  topUps: "Llenados",
+  intensiveCycles: "Ciclos intensivos",
+  products: "Productos",
+  inventory: "Envases de inventario",
+  inventoryMovements: "Movimientos de inventario"
+};
+
+export interface BackupDocument extends BackupTables {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+}
+
+export interface BackupIssue {
+  path: string;
+  message: string;
+}
+
+export type BackupParseResult =
+  | { ok: true; document: BackupDocument; issues: BackupIssue[] }
+  | { ok: false; issues: BackupIssue[] };
+
+export interface BackupRecordCounts {
+  added: number;
+  updated: number;
+  kept: number;
+  removed: number;
+}
+
+export interface BackupTablePlan<T> {
+  idsToRemove: string[];
+  toPut: T[];
+  counts: BackupRecordCounts;
+}
+
+export type BackupTablePlans = { [K in BackupTable]: BackupTablePlan<BackupTables[K][number]> };
+
+export interface BackupImportReport {
+  mode: BackupImportMode;
+  conflicts: string[];
+  issues: BackupIssue[];
+}
+
+export interface BackupImportPlan {
+  mode: BackupImportMode;
+  // Un respaldo completo en modo replace vacia todas las tablas antes de escribir.
+  replaceAll: boolean;
+  tables: BackupTablePlans;
+  report: BackupImportReport;
+}
+
+export type BackupSnapshot = BackupTables;
+
+const SESSION_KINDS = ["adjustment", "check", "intensive-cycle", "shock"];
+const CHECK_MOMENTS = ["start-day", "sun-hours", "night"];
+const DOSE_UNITS = ["ml", "g"];
+const MOVEMENT_KINDS = ["restock", "usage", "reversal"];
+const REVISION_ACTIONS = ["edit", "delete"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+function checkNumbers(
+  record: Record<string, unknown>,
+  keys: string[],
+  path: string,
+  issues: BackupIssue[]
+): void {
+  for (const key of keys) {
+    if (!isFiniteNumber(record[key])) {
+      issues.push({ path: `${path}.${key}`, message: "Debe ser un numero." });
+    }
+  }
+}
+
+export function validateBackupConfig(value: unknown, path: string): BackupIssue[] {
+  const issues: BackupIssue[] = [];
+  if (!isRecord(value)) {
+    return [{ path, message: "La configuracion debe ser un objeto." }];
+  }
+
+  if (typeof value.id !== "string" || !value.id) {
+    issues.push({ path: `${path}.id`, message: "Falta el identificador de la piscina." });
+  }
+  if (!isIsoDate(value.updatedAt)) {
+    issues.push({ path: `${path}.updatedAt`, message: "Debe ser una fecha ISO." });
+  }
+  if (!isRecord(value.pool)) {
+    issues.push({ path: `${path}.pool`, message: "Faltan las dimensiones de la piscina." });
+  }
+  for (const product of ["chlorineProduct", "acidProduct"]) {
+    const record = value[product];
+    if (!isRecord(record)) {
+      issues.push({ path: `${path}.${product}`, message: "Falta el producto." });
+      continue;
+    }
+    checkNumbers(record, ["concentration"], `${path}.${product}`, issues);
+  }
+  if (!isRecord(value.targets)) {
+    issues.push({ path: `${path}.targets`, message: "Faltan los objetivos quimicos." });
+  } else {
+    checkNumbers(
+      value.targets,
+      ["phMin", "phMax", "chlorineMinPpm", "chlorineMaxPpm"],
+      `${path}.targets`,
+      issues
+    );
+  }
+
+  return issues;
+}
+
+export function validateBackupSession(value: unknown, path: string): BackupIssue[] {
+  const issues: BackupIssue[] = [];
+  if (!isRecord(value)) {
+    return [{ path, message: "La sesion debe ser un objeto." }];
+  }
+
+  if (typeof value.id !== "string" || !value.id) {
+    issues.push({ path: `${path}.id`, message: "Falta el identificador de la sesion." });
+  }
+  if (!isIsoDate(value.timestamp)) {
+    issues.push({ path: `${path}.timestamp`, message: "Debe ser una fecha ISO." });
+  }
+  checkNumbers(
+    value,
+    ["waterHeightCm", "measuredPh", "measuredChlorinePpm", "calculatedVolumeLiters"],
+    path,
+    issues
+  );
+  if (value.kind !== undefined && !SESSION_KINDS.includes(String(value.kind))) {
+    issues.push({ path: `${path}.kind`, message: "Tipo de sesion desconocido." });
+  }
+  if (value.checkMoment !== undefined && !CHECK_MOMENTS.includes(String(value.checkMoment))) {
+    issues.push({ path: `${path}.checkMoment`, message: "Momento de medicion desconocido." });
+  }
+  if (value.poolId !== undefined && typeof value.poolId !== "string") {
+    issues.push({ path: `${path}.poolId`, message: "Debe ser texto." });
+  }
+
+  return issues;
+}
+
+function checkIds(
+  record: Record<string, unknown>,
+  keys: string[],
+  path: string,
+  issues: BackupIssue[]
+): void {
+  for (const key of keys) {
+    if (typeof record[key] !== "string" || !record[key]) {
+      issues.push({ path: `${path}.${key}`, message: "Falta el identificador." });
+    }
+  }
+}
+
+function checkDates(
+  record: Record<string, unknown>,
+  keys: string[],
+  path: string,
+  issues: BackupIssue[]
+): void {
+  for (const key of keys) {
+    if (!isIsoDate(record[key])) {
+      issues.push({ path: `${path}.${key}`, message: "Debe ser una fecha ISO." });
+    }
+  }
+}
+
+export function validateBackupInventoryContainer(value: unknown, path: string): BackupIssue[] {
+  if (!isRecord(value)) {
+    return [{ path, message: "El envase debe ser un objeto." }];
+  }
+
+  const issues: BackupIssue[] = [];
+  checkIds(value, ["id", "productId"], path, issues);
+  checkNumbers(value, ["quantity", "remaining"], path, issues);
+  checkDates(value, ["purchasedAt"], path, issues);
+  if (!DOSE_UNITS.includes(String(value.unit))) {
+    issues.push({ path: `${path}.unit`, message: "Unidad de dosis desconocida." });
+  }
+  return issues;
+}
+
+export function validateBackupInventoryMovement(value: unknown, path: string): BackupIssue[] {
+  if (!isRecord(value)) {
+    return [{ path, message: "El movimiento debe ser un objeto." }];
+  }
+
+  const issues: BackupIssue[] = [];
+  checkIds(value, ["id", "productId"], path, issues);
+  checkNumbers(value, ["amount"], path, issues);
+  checkDates(value, ["at"], path, issues);
+  if (!MOVEMENT_KINDS.includes(String(value.kind))) {
+    issues.push({ path: `${path}.kind`, message: "Tipo de movimiento desconocido." });
+  }
+  if (!DOSE_UNITS.includes(String(value.unit))) {
+    issues.push({ path: `${path}.unit`, message: "Unidad de dosis desconocida." });
+  }
+  if (value.sessionId !== undefined && typeof value.sessionId !== "string") {
+    issues.push({ path: `${path}.sessionId`, message: "Debe ser texto." });
+  }
+  return issues;
+}
+
+export function validateBackupSessionRevision(value: unknown, path: string): BackupIssue[] {
+  if (!isRecord(value)) {
+    return [{ path, message: "La revision debe ser un objeto." }];
+  }
+
+  const issues: BackupIssue[] = [];
+  checkIds(value, ["id", "sessionId", "poolId"], path, issues);
+  checkDates(value, ["at"], path, issues);
+  if (!REVISION_ACTIONS.includes(String(value.action))) {
+    issues.push({ path: `${path}.action`, message: "Accion de revision desconocida." });
+  }
+  if (!Array.isArray(value.changes)) {
+    issues.push({ path: `${path}.changes`, message: "Faltan los cambios de la revision." });
+  }
+  return issues;
+}
+
+// Las reglas de dominio se aplican despues de normalizar los registros heredados.
+function toBackupIssues(issues: ValidationIssue[], path: string): BackupIssue[] {
+  return issues.map((issue) => ({ path: `${path}.${issue.path}`, message: issue.message }));
+}
+
+function withDomainRules<T>(
+  label: string,
+  rules: (record: T) => ValidationIssue[]
+): (value: unknown, path: string) => BackupIssue[] {
+  return (value, path) =>
+    isRecord(value)
+      ? toBackupIssues(rules(value as T), path)
+      : [{ path, message: `${label} debe ser un objeto.` }];
+}
+
+function validateBackupProduct(value: unknown, path: string): BackupIssue[] {
+  const issues = withDomainRules("El producto", validateChemicalProduct)(value, path);
+  if (isRecord(value)) {
+    checkIds(value, ["id"], path, issues);
+    checkDates(value, ["createdAt"], path, issues);
+  }
+  return issues;
+}
+
+// Los respaldos de version 1 no traen estas listas: se importan vacias.
+function parseRecords<T>(
+  values: unknown,
+  table: BackupTable,
+  validate: (value: unknown, path: string) => BackupIssue[],
+  issues: BackupIssue[]
+): T[] {
+  const records: T[] = [];
+  (Array.isArray(values) ? values : []).forEach((value, index) => {
+    const recordIssues = validate(value, `${table}[${index}]`);
+    if (recordIssues.length > 0) {
+      issues.push(...recordIssues);
+      return;
+    }
+    records.push(value as T);
+  });
+  return records;
+}
+
+export function parseBackupDocument(raw: unknown): BackupParseResult {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ path: "", message: "El respaldo no es un objeto JSON." }] };
+  }
+
+  const isSessionExport = raw.format === SESSION_EXPORT_FORMAT;
+  if (raw.format !== BACKUP_FORMAT && !isSessionExport) {
+    return { ok: false, issues: [{ path: "format", message: "Formato de respaldo desconocido." }] };
+  }
+  if (
+    isSessionExport
+      ? raw.version !== SESSION_EXPORT_VERSION
+      : !SUPPORTED_BACKUP_VERSIONS.includes(Number(raw.version))
+  ) {
+    return {
+      ok: false,
+      issues: [{ path: "version", message: `Version de respaldo no soportada: ${String(raw.version)}.` }]
+    };
+  }
+  if (!Array.isArray(raw.sessions) || (!isSessionExport && !Array.isArray(raw.configs))) {
+    return { ok: false, issues: [{ path: "", message: "Faltan las listas de registros." }] };
+  }
+
+  const issues: BackupIssue[] = [];
+  const fallbackPoolId =
+    isSessionExport && isRecord(raw.pool) && typeof raw.pool.id === "string" ? raw.pool.id : undefined;
+  const configs: PoolConfig[] = [];
+  const sessions: Session[] = [];
+
+  (isSessionExport ? [] : (raw.configs as unknown[])).forEach((value, index) => {
+    const recordIssues = validateBackupConfig(value, `configs[${index}]`);
+    if (recordIssues.length > 0) {
+      issues.push(...recordIssues);
+      return;
+    }
+    const config = normalizePoolConfig(value as PoolConfig);
+    const configIssues = validatePoolConfig(config);
+    if (configIssues.length > 0) {
+      issues.push(...toBackupIssues(configIssues, `configs[${index}]`));
+      return;
+    }
+    configs.push(config);
+  });
+
+  (raw.sessions as unknown[]).forEach((value, index) => {
+    const recordIssues = validateBackupSession(value, `sessions[${index}]`);
+    if (recordIssues.length > 0) {
+      issues.push(...recordIssues);
+      return;
+    }
+    const session = normalizeSession(value as Session, fallbackPoolId ?? configs[0]?.id);
+    const sessionIssues = validateSession(session);
+    if (sessionIssues.length > 0) {
+      issues.push(...toBackupIssues(sessionIssues, `sessions[${index}]`));
+      return;
+    }
+    sessions.push(session);
+  });
+
+  return {
+    ok: true,
+    issues,
+    document: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: isIsoDate(raw.exportedAt) ? raw.exportedAt : new Date().toISOString(),
+      configs,
+      sessions,
+      sessionRevisions: parseRecords(
+        raw.sessionRevisions,
+        "sessionRevisions",
+        validateBackupSessionRevision,
+        issues
+      ),
+      topUps: parseRecords(
+        raw.topUps,
+        "topUps",
+        withDomainRules("El llenado", validateWaterTopUp),
+        issues
+      ),
+      intensiveCycles: parseRecords(
+        raw.intensiveCycles,
+        "intensiveCycles",
+        withDomainRules("El ciclo intensivo", validateIntensiveCycle),
+        issues
+      ),
+      products: parseRecords(raw.products, "products", validateBackupProduct, issues),
+      inventory: parseRecords(raw.inventory, "inventory", validateBackupInventoryContainer, issues),
+      inventoryMovements: parseRecords(
+        raw.inventoryMovements,
+        "inventoryMovements",
+        validateBackupInventoryMovement,
+        issues
+      )
+    }
+  };
+}
+
+export function buildBackupDocument(
+  snapshot: BackupSnapshot,
+  exportedAt: Date = new Date()
+): BackupDocument {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    ...snapshot
+  };
+}
+
+export function buildBackupFileName(exportedAt: Date = new Date()): string {
+  return `respaldo-piscina-${exportedAt.toISOString().slice(0, 10)}.json`;
+}
+
+function emptyCounts(): BackupRecordCounts {
+  return { added: 0, updated: 0, kept: 0, removed: 0 };
+}
+
+function mergeRecords<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  getVersion: (record: T) => string,
+  label: string,
+  conflicts: string[]
+): BackupTablePlan<T> {
+  const counts = emptyCounts();
+  const currentById = new Map(current.map((record) => [record.id, record]));
+  const incomingById = new Map<string, T>();
+
+  // Dentro del mismo respaldo tambien se deduplica por id, conservando la version mas reciente.
+  for (const record of incoming) {
+    const previous = incomingById.get(record.id);
+    if (!previous || Date.parse(getVersion(record)) > Date.parse(getVersion(previous))) {
+      incomingById.set(record.id, record);
+    }
+  }
+
+  const toPut: T[] = [];
+  for (const record of incomingById.values()) {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      counts.added += 1;
+      toPut.push(record);
+      continue;
+    }
+
+    if (JSON.stringify(existing) === JSON.stringify(record)) {
+      counts.kept += 1;
+      continue;
+    }
+
+    if (Date.parse(getVersion(record)) > Date.parse(getVersion(existing))) {
+      counts.updated += 1;
+      conflicts.push(`${label} ${record.id}: se usa la version del respaldo (mas reciente).`);
+      toPut.push(record);
+    } else {
+      counts.kept += 1;
+      conflicts.push(`${label} ${record.id}: se conserva la version local (mas reciente o igual).`);
+    }
+  }
+
+  return { idsToRemove: [], toPut, counts };
+}
+
+// Sin configuracion solo se reemplazan los registros de las piscinas incluidas.
+function replaceRecords<T extends { id: string; poolId?: string }>(
+  current: T[],
+  incoming: T[],
+  replacedPoolIds: Set<string> | null
+): BackupTablePlan<T> {
+  const idsToRemove = current
+    .filter((record) => replacedPoolIds === null || replacedPoolIds.has(record.poolId ?? ""))
+    .map((record) => record.id);
+  return {
+    idsToRemove,
+    toPut: incoming,
+    counts: { ...emptyCounts(), added: incoming.length, removed: idsToRemove.length }
+  };
+}
+
+function filterKnown<
+  K extends "poolId" | "productId",
+  T extends { id: string } & Record<K, string>
+>(records: T[], table: BackupTable, key: K, knownIds: Set<string>, issues: BackupIssue[]): T[] {
+  return records.filter((record) => {
+    if (knownIds.has(record[key])) {
+      return true;
+    }
+    issues.push({
+      path: `${table}.${record.id}.${key}`,
+      message:
+        key === "poolId"
+          ? `La piscina ${record[key]} no existe en este dispositivo.`
+          : `El producto ${record[key]} no existe en este dispositivo.`
+    });
+    return false;
+  });
+}
+
+export function planBackupImport(
+  current: BackupSnapshot,
+  document: BackupDocument,
+  mode: BackupImportMode,
+  issues: BackupIssue[] = []
+): BackupImportPlan {
+  // Un historial exportado no trae configuracion: se conservan las piscinas locales.
+  const replaceAll = mode === "replace" && document.configs.length > 0;
+  const knownPoolIds = new Set(
+    [...(replaceAll ? [] : current.configs), ...document.configs].map((config) => config.id)
+  );
+  const knownProductIds = new Set(
+    [...(replaceAll ? [] : current.products), ...document.products].map((product) => product.id)
+  );
+  const importIssues = [...issues];
+  const incoming: BackupTables = {
+    ...document,
+    sessions: filterKnown(document.sessions, "sessions", "poolId", knownPoolIds, importIssues),
+    sessionRevisions: filterKnown(
+      document.sessionRevisions,
+      "sessionRevisions",
+      "poolId",
+      knownPoolIds,
+      importIssues
+    ),
+    topUps: filterKnown(document.topUps, "topUps", "poolId", knownPoolIds, importIssues),
+    intensiveCycles: filterKnown(
+      document.intensiveCycles,
+      "intensiveCycles",
+      "poolId",
+      knownPoolIds,
+      importIssues
+    ),
+    inventory: filterKnown(
+      document.inventory,
+      "inventory",
+      "productId",
+      knownProductIds,
+      importIssues
+    ),
+    inventoryMovements: filterKnown(
+      document.inventoryMovements,
+      "inventoryMovements",
+      "productId",
+      knownProductIds,
+      importIssues
+    )
+  };
+
+  const conflicts: string[] = [];
+  const merge = <T extends { id: string }>(
+    records: T[],
+    incomingRecords: T[],
+    getVersion: (record: T) => string,
+    label: string
+  ) => mergeRecords(records, incomingRecords, getVersion, label, conflicts);
+  const mergeGlobalTables = () => ({
+    products: merge(
+      current.products,
+      incoming.products,
+      (product) => product.archivedAt ?? product.createdAt,
+      "Producto"
+    ),
+    inventory: merge(
+      current.inventory,
+      incoming.inventory,
+      (container) => container.emptiedAt ?? container.openedAt ?? container.purchasedAt,
+      "Envase"
+    ),
+    inventoryMovements: merge(
+      current.inventoryMovements,
+      incoming.inventoryMovements,
+      (movement) => movement.at,
+      "Movimiento"
+    )
+  });
+
+  if (replaceAll) {
+    return {
+      mode,
+      replaceAll,
+      tables: {
+        configs: replaceRecords(current.configs, incoming.configs, null),
+        sessions: replaceRecords(current.sessions, incoming.sessions, null),
+        sessionRevisions: replaceRecords(current.sessionRevisions, incoming.sessionRevisions, null),
+        topUps: replaceRecords(current.topUps, incoming.topUps, null),
+        intensiveCycles: replaceRecords(current.intensiveCycles, incoming.intensiveCycles, null),
+        products: replaceRecords(current.products, incoming.products, null),
+        inventory: replaceRecords(current.inventory, incoming.inventory, null),
+        inventoryMovements: replaceRecords(
+          current.inventoryMovements,
+          incoming.inventoryMovements,
+          null
+        )
+      },
+      report: { mode, conflicts, issues: importIssues }
+    };
+  }
+
+  if (mode === "replace") {
+    const replacedPoolIds = new Set(
+      [
+        ...incoming.sessions,
+        ...incoming.sessionRevisions,
+        ...incoming.topUps,
+        ...incoming.intensiveCycles
+      ].map((record) => record.poolId)
+    );
+    const sessions = replaceRecords(current.sessions, incoming.sessions, replacedPoolIds);
+    const globalTables = mergeGlobalTables();
+
+    // El consumo ya ocurrio: los movimientos de sesiones reemplazadas se conservan sin enlace
+    // en lugar de apuntar a sesiones que ya no existen.
+    const removedSessionIds = new Set(sessions.idsToRemove);
+    const incomingSessionIds = new Set(incoming.sessions.map((session) => session.id));
+    const queuedMovementIds = new Set(
+      globalTables.inventoryMovements.toPut.map((movement) => movement.id)
+    );
+    for (const movement of current.inventoryMovements) {
+      const { sessionId, ...unlinked } = movement;
+      if (
+        sessionId === undefined ||
+        !removedSessionIds.has(sessionId) ||
+        incomingSessionIds.has(sessionId) ||
+        queuedMovementIds.has(movement.id)
+      ) {
+        continue;
+      }
+      globalTables.inventoryMovements.toPut.push(unlinked);
+      globalTables.inventoryMovements.counts.updated += 1;
+    }
+
+    return {
+      mode,
+      replaceAll,
+      tables: {
+        configs: { idsToRemove: [], toPut: [], counts: emptyCounts() },
+        sessions,
+        sessionRevisions: replaceRecords(
+          current.sessionRevisions,
+          incoming.sessionRevisions,
+          replacedPoolIds
+        ),
+        topUps: replaceRecords(current.topUps, incoming.topUps, replacedPoolIds),
+        intensiveCycles: replaceRecords(
+          current.intensiveCycles,
+          incoming.intensiveCycles,
+          replacedPoolIds
+        ),
+        ...globalTables
+      },
+      report: { mode, conflicts, issues: importIssues }
+    };
+  }
+
+  return {
+    mode,
+    replaceAll,
+    tables: {
+      configs: merge(current.configs, incoming.configs, (config) => config.updatedAt, "Piscina"),
+      sessions: merge(
+        current.sessions,
+        incoming.sessions,
+        (session) => session.updatedAt ?? session.timestamp,
+        "Sesion"
+      ),
+      sessionRevisions: merge(
+        current.sessionRevisions,
+        incoming.sessionRevisions,
+        (revision) => revision.at,
+        "Revision"
+      ),
+      topUps: merge(current.topUps, incoming.topUps, (topUp) => topUp.timestamp, "Llenado"),
+      intensiveCycles: merge(
+        current.intensiveCycles,
+        incoming.intensiveCycles,
+        (cycle) => cycle.closedAt ?? cycle.cancelledAt ?? cycle.startedAt,
+        "Ciclo intensivo"
+      ),
+      ...mergeGlobalTables()
+    },
+    report: { mode, conflicts, issues: importIssues }
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { calculatePhCorrectionMlTraced } from "./calculations";
+import {
+  formatTraceNumber,
+  formatTraceStep,
+  formatTraceValue,
+  renderTraceLines
+} from "./calculationTrace";
+
+describe("formato de trazas", () => {
+  it("redondea a 4 decimales y agrega unidades", () => {
+    expect(formatTraceNumber(0.5552686475403619)).toBe("0.5553");
+    expect(formatTraceValue({ symbol: "V_L", label: "Volumen", value: 5552.6864, unit: "L" })).toBe(
+      "Volumen (V_L) = 5552.6864 L"
+    );
+    expect(
+      formatTraceStep({ symbol: "S", label: "Tramos", formula: "ΔpH / 0.1", value: 2.0000000001 })
+    ).toBe("S = ΔpH / 0.1 = 2");
+  });
+
+  it("renderiza datos, constantes, pasos y resultado en orden", () => {
+    const { trace } = calculatePhCorrectionMlTraced(7.8, 5552.686475403619, 10, 7.6, 100);
+    const lines = renderTraceLines(trace);
+
+    expect(lines[0]).toBe("Correccion de pH (acido muriatico)");
+    expect(lines.indexOf("Datos:")).toBeLessThan(lines.indexOf("Constantes:"));
+    expect(lines.indexOf("Constantes:")).toBeLessThan(lines.indexOf("Pasos:"));
+    expect(lines).toContain("  D_pH = max(0, S * ref_ml * F_A * F_V * F_TA) = 87.316 ml");
+    expect(lines[lines.length - 1]).toBe("Resultado: Dosis total (D_pH) = 87.316 ml");
+  });
+
+  it("incluye la nota cuando no hay pasos", () => {
+    const { trace } = calculatePhCorrectionMlTraced(7.4, 5000, 10, 7.6, 100);
+    const lines = renderTraceLines(trace);
+    expect(lines).not.toContain("Pasos:");
+    expect(lines).toContain(trace.note);
+  });
+});
@@ -0,0 +1,37 @@
+import { toFixedNumber } from "./calculations";
+import type { CalculationTrace, TraceStep, TraceValue } from "./types";
+
+export function formatTraceNumber(value: number): string {
+  return String(toFixedNumber(value, 4));
+}
+
+function withUnit(value: number, unit?: string): string {
+  return unit ? `${formatTraceNumber(value)} ${unit}` : formatTraceNumber(value);
+}
+
+export function formatTraceValue(item: TraceValue): string {
+  return `${item.label} (${item.symbol}) = ${withUnit(item.value, item.unit)}`;
+}
+
+export function formatTraceStep(step: TraceStep): string {
+  return `${step.symbol} = ${step.formula} = ${withUnit(step.value, step.unit)}`;
+}
+
+export function renderTraceLines(trace: CalculationTrace): string[] {
+  const lines = [trace.title];
+  lines.push("Datos:", ...trace.inputs.map((input) => `  ${formatTraceValue(input)}`));
+  if (trace.constants.length > 0) {
+    lines.push(
+      "Constantes:",
+      ...trace.constants.map((constant) => `  ${formatTraceValue(constant)}`)
+    );
+  }
+  if (trace.note) {
+    lines.push(trace.note);
+  }
+  if (trace.steps.length > 0) {
+    lines.push("Pasos:", ...trace.steps.map((step) => `  ${formatTraceStep(step)}`));
+  }
+  lines.push(`Resultado: ${formatTraceValue(trace.result)}`);
+  return lines;
+}
@@ -2,13 +2,22 @@ import { describe, expect, it } from "vitest";
 import {
   calculateChlorineDose,
   calculateChlorineDoseMl,
+  calculateChlorineDoseTraced,
   calculatePhMlPerStep,
   calculatePhCorrectionMl,
+  calculatePhCorrectionMlTraced,
   calculatePhRaiseDose,
+  calculatePhRaiseDoseTraced,
+  calculatePhStage2Ml,
+  calculatePhStage2MlTraced,
+  calculatePoolCapacityLiters,
+  calculatePoolSurfaceM2,
+  calculatePoolVolumeLiters,
   calculateVolumeLiters,
   classifyChlorine,
   classifyPh,
   estimatePhAfterAcidDose,
+  getChlorineMgPerProductUnit,
   getStatusLabel,
   isChlorineInRange,
   isHeightInRange,
@@ -26,6 +35,68 @@ describe("calculateVolumeLiters", () => {
   });
 });
 
+describe("calculatePoolCapacityLiters", () => {
+  it("usa la altura maxima configurada y no hay capacidad sin ella", () => {
+    expect(
+      calculatePoolCapacityLiters({ shape: "rectangular", lengthM: 5, widthM: 3, maxHeightCm: 100 })
+    ).toBeCloseTo(15000, 9);
+    expect(calculatePoolCapacityLiters({ shape: "rectangular", lengthM: 5, widthM: 3 })).toBeNull();
+  });
+});
+
+describe("calculatePoolVolumeLiters", () => {
+  it("coincide con calculateVolumeLiters para piscina redonda", () => {
+    const volumeLiters = calculatePoolVolumeLiters({ shape: "round", diameterM: 3.05 }, 76);
+    expect(volumeLiters).toBeCloseTo(calculateVolumeLiters(3.05, 76), 9);
+  });
+
+  it("calcula volumen de piscina rectangular de 5 x 3 m con 1 m de agua", () => {
+    const volumeLiters = calculatePoolVolumeLiters(
+      { shape: "rectangular", lengthM: 5, widthM: 3 },
+      100
+    );
+    expect(volumeLiters).toBeCloseTo(15000, 9);
+  });
+
+  it("calcula volumen de piscina ovalada como elipse (18 x 12 pies, 4 pies ~ 19.300 L)", () => {
+    const pool = { shape: "oval" as const, lengthM: 5.4864, widthM: 3.6576 };
+    expect(calculatePoolSurfaceM2(pool)).toBeCloseTo(15.76, 2);
+
+    const volumeLiters = calculatePoolVolumeLiters(pool, 121.92);
+    expect(toFixedNumber(volumeLiters, 0)).toBe(19215);
+    expect(volumeLiters / 3.785411784).toBeGreaterThan(5000);
+    expect(volumeLiters / 3.785411784).toBeLessThan(5150);
+  });
+
+  it("usa la profundidad promedio cuando el fondo es inclinado", () => {
+    const volumeLiters = calculatePoolVolumeLiters(
+      {
+        shape: "sloped-rectangular",
+        lengthM: 8,
+        widthM: 4,
+        shallowDepthCm: 100,
+        deepDepthCm: 200
+      },
+      100
+    );
+    expect(volumeLiters).toBeCloseTo(48000, 9);
+  });
+
+  it("calcula fondo inclinado en piscina ovalada con altura bajo la referencia", () => {
+    const volumeLiters = calculatePoolVolumeLiters(
+      {
+        shape: "sloped-oval",
+        lengthM: 6,
+        widthM: 4,
+        shallowDepthCm: 90,
+        deepDepthCm: 130
+      },
+      80
+    );
+    expect(volumeLiters).toBeCloseTo(Math.PI * 3 * 2 * 1.0 * 1000, 9);
+  });
+});
+
 describe("calculatePhCorrectionMl", () => {
   it("retorna 0 si el pH ya esta en objetivo maximo o menor", () => {
     const volumeLiters = calculateVolumeLiters(3.05, 76);
@@ -104,6 +175,58 @@ describe("calculateChlorineDose", () => {
     expect(result.maintenance).toBeCloseTo(7.9324092505766, 9);
     expect(result.corrective).toBeCloseTo(17.847920813797344, 9);
   });
+
+  it("acepta concentracion en g/L para productos liquidos", () => {
+    const inPercent = calculateChlorineDose(0.2, 5000, 10, "liquid-ml", 1, 3);
+    const inGramsPerLiter = calculateChlorineDose(0.2, 5000, 100, "liquid-ml", 1, 3, "g/L");
+
+    expect(inGramsPerLiter.unit).toBe("ml");
+    expect(inGramsPerLiter.maintenance).toBeCloseTo(inPercent.maintenance, 9);
+    expect(inGramsPerLiter.corrective).toBeCloseTo(inPercent.corrective, 9);
+  });
+});
+
+describe("getChlorineMgPerProductUnit", () => {
+  it("convierte % y g/L a mg de cloro por ml o g de producto", () => {
+    expect(getChlorineMgPerProductUnit(5, "%", "liquid-ml")).toBe(50);
+    expect(getChlorineMgPerProductUnit(56, "%", "granular-g")).toBe(560);
+    expect(getChlorineMgPerProductUnit(100, "g/L", "liquid-ml")).toBe(100);
+  });
+
+  it("no admite g/L para productos granulados", () => {
+    expect(getChlorineMgPerProductUnit(100, "g/L", "granular-g")).toBe(0);
+  });
+});
+
+describe("calculatePhStage2Ml", () => {
+  // 10.000 L, acido al 31.45% y TA 100: 25 ml por cada 0.1 de pH.
+  const stage2 = (intermediatePh: number) =>
+    calculatePhStage2Ml(8.0, intermediatePh, 50, 10000, 31.45, 7.2, 7.6, 100);
+
+  it("mantiene el modelo cuando la respuesta coincide con lo esperado", () => {
+    expect(stage2(7.8)).toBeCloseTo(50, 9);
+  });
+
+  it("reduce la etapa 2 cuando el agua responde mas de lo esperado", () => {
+    expect(stage2(7.7)).toBeCloseTo(50 / 3, 9);
+  });
+
+  it("usa el modelo si el pH no bajo tras la etapa 1", () => {
+    const { value, trace } = calculatePhStage2MlTraced(8.0, 8.0, 50, 10000, 31.45, 7.2, 7.6, 100);
+    expect(value).toBeCloseTo(100, 9);
+    expect(trace.note).toContain("alcalinidad estimada");
+  });
+
+  it("limita la dosis para no bajar del pH minimo", () => {
+    const { value, trace } = calculatePhStage2MlTraced(8.0, 7.98, 50, 10000, 31.45, 7.2, 7.6, 100);
+    expect(value).toBeCloseTo(195, 9);
+    expect(trace.note).toContain("pH minimo");
+  });
+
+  it("retorna 0 si el pH intermedio ya esta en el maximo objetivo", () => {
+    expect(stage2(7.6)).toBe(0);
+    expect(stage2(7.4)).toBe(0);
+  });
 });
 
 describe("calculatePhRaiseDose", () => {
@@ -120,6 +243,57 @@ describe("calculatePhRaiseDose", () => {
   });
 });
 
+describe("variantes con traza de calculo", () => {
+  function stepValue(steps: { symbol: string; value: number }[], symbol: string): number {
+    const step = steps.find((item) => item.symbol === symbol);
+    if (!step) {
+      throw new Error(`Paso ${symbol} no encontrado`);
+    }
+    return step.value;
+  }
+
+  it("traza la correccion de pH con factores S, F_V, F_A y F_TA", () => {
+    const volumeLiters = calculateVolumeLiters(3.05, 76);
+    const { value, trace } = calculatePhCorrectionMlTraced(7.8, volumeLiters, 10, 7.6, 100);
+
+    expect(value).toBeCloseTo(calculatePhCorrectionMl(7.8, volumeLiters, 10, 7.6, 100), 9);
+    expect(stepValue(trace.steps, "S")).toBeCloseTo(2, 9);
+    expect(stepValue(trace.steps, "F_V")).toBeCloseTo(0.5552686475403619, 9);
+    expect(stepValue(trace.steps, "F_A")).toBeCloseTo(3.145, 9);
+    expect(stepValue(trace.steps, "F_TA")).toBeCloseTo(1, 9);
+    expect(stepValue(trace.steps, "E_1")).toBeCloseTo(value / 2, 9);
+    expect(trace.result.value).toBe(value);
+    expect(trace.constants.map((constant) => constant.value)).toEqual([25, 31.45, 0.4]);
+  });
+
+  it("explica por que la dosis de pH es 0", () => {
+    const { value, trace } = calculatePhCorrectionMlTraced(7.4, 5000, 10, 7.6, 100);
+    expect(value).toBe(0);
+    expect(trace.steps).toEqual([]);
+    expect(trace.note).toContain("no se requiere acido");
+  });
+
+  it("traza la dosis de cloro con deficits y mg por unidad de producto", () => {
+    const volumeLiters = calculateVolumeLiters(3.05, 76);
+    const { value, trace } = calculateChlorineDoseTraced(0.2, volumeLiters, 56, "granular-g", 1, 3);
+
+    expect(value).toEqual(calculateChlorineDose(0.2, volumeLiters, 56, "granular-g", 1, 3));
+    expect(stepValue(trace.steps, "ΔCl_min")).toBeCloseTo(0.8, 9);
+    expect(stepValue(trace.steps, "ΔCl_mid")).toBeCloseTo(1.8, 9);
+    expect(stepValue(trace.steps, "mg_g")).toBe(560);
+    expect(stepValue(trace.steps, "D_corr")).toBeCloseTo(17.847920813797344, 9);
+  });
+
+  it("traza la dosis de pH+ y coincide con calculatePhRaiseDose", () => {
+    const volumeLiters = calculateVolumeLiters(3.05, 76);
+    const { value, trace } = calculatePhRaiseDoseTraced(7.0, volumeLiters, 100, 7.2, 18);
+
+    expect(value).toBeCloseTo(calculatePhRaiseDose(7.0, volumeLiters, 100, 7.2, 18), 9);
+    expect(stepValue(trace.steps, "S")).toBeCloseTo(2, 9);
+    expect(trace.result.unit).toBe("g");
+  });
+});
+
 describe("validaciones y clasificaciones", () => {
   it("valida rangos esperados de pH y cloro", () => {
     expect(isPhInRange(6.8)).toBe(true);
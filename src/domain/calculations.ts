@@ -1,4 +1,12 @@
-import type { DoseUnit, PoolConfig, ProductPresentation } from "./types";
+import type {
+  CalculationTrace,
+  ChemicalUnit,
+  DoseUnit,
+  PoolConfig,
+  PoolDimensions,
+  ProductPresentation,
+  TracedResult
+} from "./types";
 
 const PH_NEUTRAL_MIN = 7.2;
 const PH_NEUTRAL_MAX = 7.6;
@@ -6,6 +14,7 @@ const REFERENCE_MURIATIC_ACID_PCT = 31.45;
 const PH_DOSE_ML_PER_01_10K_AT_31_PCT = 25;
 const CHLORINE_MG_PER_PPM_L = 1;
 const PH_UP_REFERENCE_G_PER_01_10K = 18;
+const MIN_ALKALINITY_FACTOR = 0.4;
 
 export function calculateVolumeLiters(diameterM: number, waterHeightCm: number): number {
   const radius = diameterM / 2;
@@ -14,6 +23,43 @@ export function calculateVolumeLiters(diameterM: number, waterHeightCm: number):
   return volumeM3 * 1000;
 }
 
+export function calculatePoolSurfaceM2(pool: PoolDimensions): number {
+  switch (pool.shape) {
+    case "round":
+      return Math.PI * (pool.diameterM / 2) * (pool.diameterM / 2);
+    case "rectangular":
+    case "sloped-rectangular":
+      return pool.lengthM * pool.widthM;
+    case "oval":
+    case "sloped-oval":
+      return Math.PI * (pool.lengthM / 2) * (pool.widthM / 2);
+  }
+}
+
+export function calculateAverageDepthCm(pool: PoolDimensions, waterHeightCm: number): number {
+  if (pool.shape === "sloped-rectangular" || pool.shape === "sloped-oval") {
+    const floorDropCm = Math.max(0, pool.deepDepthCm - pool.shallowDepthCm);
+    return waterHeightCm + floorDropCm / 2;
+  }
+
+  return waterHeightCm;
+}
+
+export function calculatePoolVolumeLiters(pool: PoolDimensions, waterHeightCm: number): number {
+  if (pool.shape === "round") {
+    return calculateVolumeLiters(pool.diameterM, waterHeightCm);
+  }
+
+  const surfaceM2 = calculatePoolSurfaceM2(pool);
+  const depthM = calculateAverageDepthCm(pool, waterHeightCm) / 100;
+  return surfaceM2 * depthM * 1000;
+}
+
+// Volumen con el agua a la altura maxima configurada; null si la piscina no la define.
+export function calculatePoolCapacityLiters(pool: PoolDimensions): number | null {
+  return pool.maxHeightCm === undefined ? null : calculatePoolVolumeLiters(pool, pool.maxHeightCm);
+}
+
 export function calculatePhCorrectionMl(
   measuredPh: number,
   volumeLiters: number,
@@ -46,7 +92,7 @@ export function calculatePhMlPerStep(
 
   const volumeFactor = volumeLiters / 10000;
   const concentrationFactor = REFERENCE_MURIATIC_ACID_PCT / acidConcentrationPct;
-  const alkalinityFactor = Math.max(0.4, estimatedAlkalinityPpm / 100);
+  const alkalinityFactor = Math.max(MIN_ALKALINITY_FACTOR, estimatedAlkalinityPpm / 100);
   const mlPerStepForConcentration = PH_DOSE_ML_PER_01_10K_AT_31_PCT * concentrationFactor;
   return Math.max(0, mlPerStepForConcentration * volumeFactor * alkalinityFactor);
 }
@@ -71,22 +117,278 @@ export function estimatePhAfterAcidDose(
   return measuredPh - phDrop;
 }
 
+export function calculatePhCorrectionMlTraced(
+  measuredPh: number,
+  volumeLiters: number,
+  acidConcentrationPct: number,
+  targetPhMax: number,
+  estimatedAlkalinityPpm: number
+): TracedResult<number> {
+  const trace: CalculationTrace = {
+    title: "Correccion de pH (acido muriatico)",
+    inputs: [
+      { symbol: "pH_m", label: "pH medido", value: measuredPh },
+      { symbol: "pH_max", label: "pH objetivo maximo", value: targetPhMax },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" },
+      { symbol: "A", label: "Concentracion de acido", value: acidConcentrationPct, unit: "%" },
+      { symbol: "TA", label: "Alcalinidad total", value: estimatedAlkalinityPpm, unit: "ppm" }
+    ],
+    constants: [
+      {
+        symbol: "ref_ml",
+        label: "ml por 0.1 pH en 10.000 L con acido al 31.45%",
+        value: PH_DOSE_ML_PER_01_10K_AT_31_PCT,
+        unit: "ml"
+      },
+      {
+        symbol: "A_ref",
+        label: "Concentracion de referencia",
+        value: REFERENCE_MURIATIC_ACID_PCT,
+        unit: "%"
+      },
+      { symbol: "F_TA_min", label: "Factor minimo de alcalinidad", value: MIN_ALKALINITY_FACTOR }
+    ],
+    steps: [],
+    result: { symbol: "D_pH", label: "Dosis total", value: 0, unit: "ml" }
+  };
+
+  if (measuredPh <= targetPhMax || acidConcentrationPct <= 0) {
+    trace.note =
+      acidConcentrationPct <= 0
+        ? "Concentracion de acido invalida: la dosis es 0."
+        : "pH medido en o bajo el maximo objetivo: no se requiere acido.";
+    return { value: 0, trace };
+  }
+
+  const delta = measuredPh - targetPhMax;
+  const steps = delta / 0.1;
+  const volumeFactor = volumeLiters / 10000;
+  const concentrationFactor = REFERENCE_MURIATIC_ACID_PCT / acidConcentrationPct;
+  const alkalinityFactor = Math.max(MIN_ALKALINITY_FACTOR, estimatedAlkalinityPpm / 100);
+  const total = calculatePhCorrectionMl(
+    measuredPh,
+    volumeLiters,
+    acidConcentrationPct,
+    targetPhMax,
+    estimatedAlkalinityPpm
+  );
+
+  trace.steps = [
+    { symbol: "ΔpH", label: "Exceso de pH", formula: "pH_m - pH_max", value: delta },
+    { symbol: "S", label: "Tramos de 0.1 pH", formula: "ΔpH / 0.1", value: steps },
+    { symbol: "F_V", label: "Factor de volumen", formula: "V_L / 10000", value: volumeFactor },
+    {
+      symbol: "F_A",
+      label: "Factor de concentracion",
+      formula: "A_ref / A",
+      value: concentrationFactor
+    },
+    {
+      symbol: "F_TA",
+      label: "Factor de alcalinidad",
+      formula: "max(F_TA_min, TA / 100)",
+      value: alkalinityFactor
+    },
+    {
+      symbol: "D_pH",
+      label: "Dosis total",
+      formula: "max(0, S * ref_ml * F_A * F_V * F_TA)",
+      value: total,
+      unit: "ml"
+    },
+    { symbol: "E_1", label: "Etapa 1 (50%)", formula: "0.5 * D_pH", value: total * 0.5, unit: "ml" }
+  ];
+  trace.result = { ...trace.result, value: total };
+  return { value: total, trace };
+}
+
+export function calculatePhStage2MlTraced(
+  measuredPh: number,
+  measuredPhIntermediate: number,
+  stage1Ml: number,
+  volumeLiters: number,
+  acidConcentrationPct: number,
+  targetPhMin: number,
+  targetPhMax: number,
+  estimatedAlkalinityPpm: number
+): TracedResult<number> {
+  const trace: CalculationTrace = {
+    title: "Etapa 2 de pH (segun respuesta observada)",
+    inputs: [
+      { symbol: "pH_m", label: "pH medido", value: measuredPh },
+      { symbol: "pH_i", label: "pH intermedio", value: measuredPhIntermediate },
+      { symbol: "E_1", label: "Etapa 1 aplicada", value: stage1Ml, unit: "ml" },
+      { symbol: "pH_min", label: "pH objetivo minimo", value: targetPhMin },
+      { symbol: "pH_max", label: "pH objetivo maximo", value: targetPhMax },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" },
+      { symbol: "A", label: "Concentracion de acido", value: acidConcentrationPct, unit: "%" },
+      { symbol: "TA", label: "Alcalinidad total", value: estimatedAlkalinityPpm, unit: "ppm" }
+    ],
+    constants: [],
+    steps: [],
+    result: { symbol: "E_2", label: "Dosis etapa 2", value: 0, unit: "ml" }
+  };
+
+  if (measuredPhIntermediate <= targetPhMax || acidConcentrationPct <= 0) {
+    trace.note =
+      acidConcentrationPct <= 0
+        ? "Concentracion de acido invalida: la dosis es 0."
+        : "pH intermedio en o bajo el maximo objetivo: no se requiere etapa 2.";
+    return { value: 0, trace };
+  }
+
+  const modelMlPerStep = calculatePhMlPerStep(
+    volumeLiters,
+    acidConcentrationPct,
+    estimatedAlkalinityPpm
+  );
+  const expectedPh = estimatePhAfterAcidDose(
+    measuredPh,
+    stage1Ml,
+    volumeLiters,
+    acidConcentrationPct,
+    estimatedAlkalinityPpm
+  );
+  const expectedDrop = measuredPh - expectedPh;
+  const observedDrop = measuredPh - measuredPhIntermediate;
+  // Sin caida observada no hay respuesta que medir: se mantiene el modelo de alcalinidad.
+  const hasResponse = expectedDrop > 0 && observedDrop > 0;
+  const responseRatio = hasResponse ? observedDrop / expectedDrop : 1;
+  const observedMlPerStep = modelMlPerStep / responseRatio;
+  const uncappedDose = ((measuredPhIntermediate - targetPhMax) / 0.1) * observedMlPerStep;
+  // El tope usa la respuesta mas agresiva (modelo u observada) para no bajar de pH_min.
+  const capDose =
+    ((measuredPhIntermediate - targetPhMin) / 0.1) * Math.min(modelMlPerStep, observedMlPerStep);
+  const dose = Math.max(0, Math.min(uncappedDose, capDose));
+
+  trace.steps = [
+    {
+      symbol: "pH_e",
+      label: "pH esperado tras etapa 1",
+      formula: "pH_m - (E_1 / ml_0.1) * 0.1",
+      value: expectedPh
+    },
+    { symbol: "ΔpH_e", label: "Caida esperada", formula: "pH_m - pH_e", value: expectedDrop },
+    { symbol: "ΔpH_o", label: "Caida observada", formula: "pH_m - pH_i", value: observedDrop },
+    {
+      symbol: "R",
+      label: "Respuesta relativa",
+      formula: "ΔpH_o / ΔpH_e (1 si no hay caida)",
+      value: responseRatio
+    },
+    {
+      symbol: "F_TA_i",
+      label: "Factor de alcalinidad implicito",
+      formula: "F_TA / R",
+      value: Math.max(MIN_ALKALINITY_FACTOR, estimatedAlkalinityPpm / 100) / responseRatio
+    },
+    {
+      symbol: "ml_0.1",
+      label: "ml por 0.1 pH segun modelo",
+      formula: "ref_ml * F_A * F_V * F_TA",
+      value: modelMlPerStep,
+      unit: "ml"
+    },
+    {
+      symbol: "ml_0.1_o",
+      label: "ml por 0.1 pH observados",
+      formula: "ml_0.1 / R",
+      value: observedMlPerStep,
+      unit: "ml"
+    },
+    {
+      symbol: "D_2",
+      label: "Dosis hasta pH_max",
+      formula: "((pH_i - pH_max) / 0.1) * ml_0.1_o",
+      value: uncappedDose,
+      unit: "ml"
+    },
+    {
+      symbol: "D_tope",
+      label: "Tope para no bajar de pH_min",
+      formula: "((pH_i - pH_min) / 0.1) * min(ml_0.1, ml_0.1_o)",
+      value: capDose,
+      unit: "ml"
+    },
+    {
+      symbol: "E_2",
+      label: "Dosis etapa 2",
+      formula: "max(0, min(D_2, D_tope))",
+      value: dose,
+      unit: "ml"
+    }
+  ];
+  if (!hasResponse) {
+    trace.note = "El pH no bajo tras la etapa 1: se usa la alcalinidad estimada.";
+  } else if (uncappedDose > capDose) {
+    trace.note = "Dosis limitada para no bajar del pH minimo objetivo.";
+  }
+  trace.result = { ...trace.result, value: dose };
+  return { value: dose, trace };
+}
+
+export function calculatePhStage2Ml(
+  measuredPh: number,
+  measuredPhIntermediate: number,
+  stage1Ml: number,
+  volumeLiters: number,
+  acidConcentrationPct: number,
+  targetPhMin: number,
+  targetPhMax: number,
+  estimatedAlkalinityPpm: number
+): number {
+  return calculatePhStage2MlTraced(
+    measuredPh,
+    measuredPhIntermediate,
+    stage1Ml,
+    volumeLiters,
+    acidConcentrationPct,
+    targetPhMin,
+    targetPhMax,
+    estimatedAlkalinityPpm
+  ).value;
+}
+
 interface ChlorineDoseResult {
   maintenance: number;
   corrective: number;
   unit: DoseUnit;
 }
 
+export function getChlorineMgPerProductUnit(
+  concentration: number,
+  concentrationUnit: ChemicalUnit,
+  presentation: ProductPresentation
+): number {
+  if (concentration <= 0) {
+    return 0;
+  }
+
+  // g/L solo describe liquidos: 1 g/L equivale a 1 mg de cloro activo por ml.
+  if (concentrationUnit === "g/L") {
+    return presentation === "liquid-ml" ? concentration : 0;
+  }
+
+  // % disponible: mg por ml (liquido, p/v) o mg por g (granulado).
+  return concentration * 10;
+}
+
 export function calculateChlorineDose(
   measuredChlorinePpm: number,
   volumeLiters: number,
-  chlorineConcentrationPct: number,
+  chlorineConcentration: number,
   presentation: ProductPresentation,
   targetMinPpm: number,
-  targetMaxPpm: number
+  targetMaxPpm: number,
+  concentrationUnit: ChemicalUnit = "%"
 ): ChlorineDoseResult {
   const unit: DoseUnit = presentation === "granular-g" ? "g" : "ml";
-  if (chlorineConcentrationPct <= 0) {
+  const mgPerUnit = getChlorineMgPerProductUnit(
+    chlorineConcentration,
+    concentrationUnit,
+    presentation
+  );
+  if (mgPerUnit <= 0) {
     return { maintenance: 0, corrective: 0, unit };
   }
 
@@ -95,11 +397,133 @@ export function calculateChlorineDose(
   const deficitToMidPpm = Math.max(0, targetMidPpm - measuredChlorinePpm);
   const mgNeededToMin = deficitToMinPpm * CHLORINE_MG_PER_PPM_L * volumeLiters;
   const mgNeededToMid = deficitToMidPpm * CHLORINE_MG_PER_PPM_L * volumeLiters;
-  const mgPerMl = chlorineConcentrationPct * 10;
-  const maintenanceMl = mgNeededToMin / mgPerMl;
-  const correctiveMl = mgNeededToMid / mgPerMl;
+  const maintenance = mgNeededToMin / mgPerUnit;
+  const corrective = mgNeededToMid / mgPerUnit;
+
+  return { maintenance, corrective, unit };
+}
+
+export function calculateChlorineDoseTraced(
+  measuredChlorinePpm: number,
+  volumeLiters: number,
+  chlorineConcentration: number,
+  presentation: ProductPresentation,
+  targetMinPpm: number,
+  targetMaxPpm: number,
+  concentrationUnit: ChemicalUnit = "%"
+): TracedResult<ChlorineDoseResult> {
+  const result = calculateChlorineDose(
+    measuredChlorinePpm,
+    volumeLiters,
+    chlorineConcentration,
+    presentation,
+    targetMinPpm,
+    targetMaxPpm,
+    concentrationUnit
+  );
+  const mgPerUnit = getChlorineMgPerProductUnit(
+    chlorineConcentration,
+    concentrationUnit,
+    presentation
+  );
+  const concentrationSymbol = concentrationUnit === "g/L" ? "Cl_gL" : "Cl_pct";
+  const trace: CalculationTrace = {
+    title: "Dosis de cloro",
+    inputs: [
+      { symbol: "Cl_m", label: "Cloro medido", value: measuredChlorinePpm, unit: "ppm" },
+      { symbol: "Cl_min", label: "Cloro objetivo minimo", value: targetMinPpm, unit: "ppm" },
+      { symbol: "Cl_max", label: "Cloro objetivo maximo", value: targetMaxPpm, unit: "ppm" },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" },
+      {
+        symbol: concentrationSymbol,
+        label: "Concentracion de cloro",
+        value: chlorineConcentration,
+        unit: concentrationUnit
+      }
+    ],
+    constants: [
+      { symbol: "k", label: "mg por ppm por litro", value: CHLORINE_MG_PER_PPM_L, unit: "mg" }
+    ],
+    steps: [],
+    result: {
+      symbol: "D_corr",
+      label: "Dosis correctiva",
+      value: result.corrective,
+      unit: result.unit
+    }
+  };
+
+  if (mgPerUnit <= 0) {
+    trace.note = "Concentracion de cloro invalida: ambas dosis son 0.";
+    return { value: result, trace };
+  }
+
+  const targetMidPpm = (targetMinPpm + targetMaxPpm) / 2;
+  const deficitToMinPpm = Math.max(0, targetMinPpm - measuredChlorinePpm);
+  const deficitToMidPpm = Math.max(0, targetMidPpm - measuredChlorinePpm);
+  const mgNeededToMin = deficitToMinPpm * CHLORINE_MG_PER_PPM_L * volumeLiters;
+  const mgNeededToMid = deficitToMidPpm * CHLORINE_MG_PER_PPM_L * volumeLiters;
+  const unitLabel = result.unit;
 
-  return { maintenance: maintenanceMl, corrective: correctiveMl, unit };
+  trace.steps = [
+    {
+      symbol: "Cl_mid",
+      label: "Valor central",
+      formula: "(Cl_min + Cl_max) / 2",
+      value: targetMidPpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "ΔCl_min",
+      label: "Deficit al minimo",
+      formula: "max(0, Cl_min - Cl_m)",
+      value: deficitToMinPpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "ΔCl_mid",
+      label: "Deficit al central",
+      formula: "max(0, Cl_mid - Cl_m)",
+      value: deficitToMidPpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "mg_min",
+      label: "Cloro activo al minimo",
+      formula: "ΔCl_min * k * V_L",
+      value: mgNeededToMin,
+      unit: "mg"
+    },
+    {
+      symbol: "mg_mid",
+      label: "Cloro activo al central",
+      formula: "ΔCl_mid * k * V_L",
+      value: mgNeededToMid,
+      unit: "mg"
+    },
+    {
+      symbol: `mg_${unitLabel}`,
+      label: `Cloro activo por ${unitLabel} de producto`,
+      formula: concentrationUnit === "g/L" ? "Cl_gL (1 g/L = 1 mg/ml)" : "Cl_pct * 10",
+      value: mgPerUnit,
+      unit: "mg"
+    },
+    {
+      symbol: "D_mant",
+      label: "Dosis de mantencion",
+      formula: `mg_min / mg_${unitLabel}`,
+      value: result.maintenance,
+      unit: unitLabel
+    },
+    {
+      symbol: "D_corr",
+      label: "Dosis correctiva",
+      formula: `mg_mid / mg_${unitLabel}`,
+      value: result.corrective,
+      unit: unitLabel
+    }
+  ];
+  return { value: result, trace };
 }
 
 export function calculateChlorineDoseMl(
@@ -138,6 +562,80 @@ export function calculatePhRaiseDose(
   return Math.max(0, steps * referenceDoseGPerPointPer10k * volumeFactor * concentrationFactor);
 }
 
+export function calculatePhRaiseDoseTraced(
+  measuredPh: number,
+  volumeLiters: number,
+  productConcentrationPct: number,
+  targetPhMin: number,
+  referenceDoseGPerPointPer10k: number = PH_UP_REFERENCE_G_PER_01_10K
+): TracedResult<number> {
+  const total = calculatePhRaiseDose(
+    measuredPh,
+    volumeLiters,
+    productConcentrationPct,
+    targetPhMin,
+    referenceDoseGPerPointPer10k
+  );
+  const trace: CalculationTrace = {
+    title: "Correccion de pH (subir pH)",
+    inputs: [
+      { symbol: "pH_m", label: "pH medido", value: measuredPh },
+      { symbol: "pH_min", label: "pH objetivo minimo", value: targetPhMin },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" },
+      { symbol: "P", label: "Concentracion pH+", value: productConcentrationPct, unit: "%" }
+    ],
+    constants: [
+      {
+        symbol: "ref_g",
+        label: "g por 0.1 pH en 10.000 L",
+        value: referenceDoseGPerPointPer10k,
+        unit: "g"
+      }
+    ],
+    steps: [],
+    result: { symbol: "D_pH+", label: "Dosis total", value: total, unit: "g" }
+  };
+
+  if (
+    measuredPh >= targetPhMin ||
+    productConcentrationPct <= 0 ||
+    referenceDoseGPerPointPer10k <= 0
+  ) {
+    trace.note =
+      measuredPh >= targetPhMin
+        ? "pH medido en o sobre el minimo objetivo: no se requiere pH+."
+        : "Concentracion o dosis referencial invalida: la dosis es 0.";
+    return { value: total, trace };
+  }
+
+  const delta = targetPhMin - measuredPh;
+  trace.steps = [
+    { symbol: "ΔpH", label: "Deficit de pH", formula: "pH_min - pH_m", value: delta },
+    { symbol: "S", label: "Tramos de 0.1 pH", formula: "ΔpH / 0.1", value: delta / 0.1 },
+    {
+      symbol: "F_V",
+      label: "Factor de volumen",
+      formula: "V_L / 10000",
+      value: volumeLiters / 10000
+    },
+    {
+      symbol: "F_P",
+      label: "Factor de concentracion",
+      formula: "100 / P",
+      value: 100 / productConcentrationPct
+    },
+    {
+      symbol: "D_pH+",
+      label: "Dosis total",
+      formula: "max(0, S * ref_g * F_V * F_P)",
+      value: total,
+      unit: "g"
+    },
+    { symbol: "E_1", label: "Etapa 1 (50%)", formula: "0.5 * D_pH+", value: total * 0.5, unit: "g" }
+  ];
+  return { value: total, trace };
+}
+
 export function classifyPh(measuredPh: number, config: PoolConfig): "ok" | "leve" | "ajuste" {
   if (measuredPh >= config.targets.phMin && measuredPh <= config.targets.phMax) {
     return "ok";
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDecayIntervals,
+  estimateChlorineDecay,
+  findBelowThresholdAt,
+  forecastChlorine,
+  splitDayNightHours
+} from "./chlorineForecast";
+import { getChlorineMgPerProductUnit } from "./calculations";
+import { defaultPoolConfig } from "./defaults";
+import type { Session } from "./types";
+
+// Fechas en hora local para que el horario dia/noche no dependa de la zona horaria.
+function localIso(day: number, hour: number): string {
+  return new Date(2026, 0, day, hour).toISOString();
+}
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 1,
+    calculatedVolumeLiters: 5600,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+// 20 g de dicloro al 56% en 5600 L suben 2 ppm.
+const history = [
+  makeSession("s3", localIso(2, 8), { measuredChlorinePpm: 2.2 }),
+  makeSession("s1", localIso(1, 8), { measuredChlorinePpm: 5 }),
+  makeSession("s2", localIso(1, 20), {
+    measuredChlorinePpm: 1.4,
+    appliedDoses: { chlorine: 20, chlorineUnit: "g" }
+  })
+];
+
+describe("splitDayNightHours", () => {
+  it("separa las horas entre 8:00 y 20:00 de las nocturnas", () => {
+    expect(splitDayNightHours(localIso(1, 18), localIso(2, 10))).toEqual({
+      dayHours: 4,
+      nightHours: 12
+    });
+  });
+});
+
+describe("modelo de perdida de cloro", () => {
+  it("suma la dosis aplicada al cloro inicial de cada intervalo", () => {
+    const intervals = buildDecayIntervals(history, defaultPoolConfig);
+
+    expect(intervals).toHaveLength(2);
+    expect(intervals[0].loss).toBeCloseTo(3.6, 9);
+    expect(intervals[1].startPpm).toBeCloseTo(3.4, 9);
+    expect(intervals[1].loss).toBeCloseTo(1.2, 9);
+  });
+
+  it("descuenta la dilucion de un llenado para no tomarla como consumo", () => {
+    const topUps = [
+      {
+        id: "t1",
+        poolId: "default",
+        timestamp: localIso(1, 12),
+        heightBeforeCm: 60,
+        heightAfterCm: 75
+      }
+    ];
+    const [interval] = buildDecayIntervals(history, defaultPoolConfig, topUps);
+
+    expect(interval.startPpm).toBeCloseTo(4, 9);
+    expect(interval.loss).toBeCloseTo(2.6, 9);
+  });
+
+  it("estima tasas de dia y de noche por separado", () => {
+    const model = estimateChlorineDecay(buildDecayIntervals(history, defaultPoolConfig));
+
+    expect(model.separated).toBe(true);
+    expect(model.dayRatePpmPerHour).toBeCloseTo(0.3, 9);
+    expect(model.nightRatePpmPerHour).toBeCloseTo(0.1, 9);
+  });
+
+  it("usa la perdida promedio si solo hay intervalos nocturnos", () => {
+    const model = estimateChlorineDecay(
+      buildDecayIntervals(
+        [
+          makeSession("s1", localIso(1, 20), { measuredChlorinePpm: 3 }),
+          makeSession("s2", localIso(2, 6), { measuredChlorinePpm: 2 })
+        ],
+        defaultPoolConfig
+      )
+    );
+
+    expect(model.separated).toBe(false);
+    expect(model.dayRatePpmPerHour).toBeCloseTo(0.1, 9);
+    expect(model.nightRatePpmPerHour).toBeCloseTo(0.1, 9);
+  });
+
+  it("ignora subidas sin dosis y huecos demasiado largos", () => {
+    const intervals = buildDecayIntervals(
+      [
+        makeSession("s1", localIso(1, 8), { measuredChlorinePpm: 1 }),
+        makeSession("s2", localIso(1, 20), { measuredChlorinePpm: 2 }),
+        makeSession("s3", localIso(6, 8), { measuredChlorinePpm: 1 })
+      ],
+      defaultPoolConfig
+    );
+
+    expect(intervals).toEqual([]);
+  });
+});
+
+describe("forecastChlorine", () => {
+  it("ajusta la perdida nocturna esperada segun el uso del cobertor", () => {
+    // Perdida diurna 0.6 ppm; nocturna 1.2 ppm sin cobertor y 0.4 ppm con cobertor.
+    const nights: [number, number, boolean][] = [
+      [8, 7.4, false],
+      [6.2, 5.6, false],
+      [4.4, 3.8, true],
+      [3.4, 2.8, true]
+    ];
+    const sessions = nights.flatMap(([morning, night, coverOn], index) => [
+      makeSession(`m${index}`, localIso(index + 1, 8), {
+        checkMoment: "start-day",
+        measuredChlorinePpm: morning
+      }),
+      makeSession(`n${index}`, localIso(index + 1, 20), {
+        checkMoment: "night",
+        measuredChlorinePpm: night,
+        coverOn
+      })
+    ]);
+    sessions.push(
+      makeSession("m4", localIso(5, 8), { checkMoment: "start-day", measuredChlorinePpm: 2.4 })
+    );
+    const getNightRate = (usesCover: boolean) =>
+      forecastChlorine(
+        sessions,
+        { ...defaultPoolConfig, chemistry: { ...defaultPoolConfig.chemistry, usesCover } },
+        new Date(2026, 0, 5, 9)
+      )!.trace.steps.find((step) => step.symbol === "k_noche'")?.value;
+
+    expect(getNightRate(true)).toBeCloseTo(0.4 / 12, 9);
+    expect(getNightRate(false)).toBeCloseTo(1.2 / 12, 9);
+  });
+
+  it("predice cuando el cloro cae bajo el minimo y sugiere control y dosis", () => {
+    const forecast = forecastChlorine(history, defaultPoolConfig, new Date(2026, 0, 2, 9));
+
+    expect(forecast).not.toBeNull();
+    expect(forecast!.currentPpm).toBeCloseTo(1.9, 9);
+    expect(forecast!.belowMinAt).toBe(localIso(2, 12));
+    expect(forecast!.nextCheckAt).toBe(localIso(2, 10));
+    expect(forecast!.preemptiveDose.targetPpm).toBe(3);
+    expect(forecast!.preemptiveDose.amount).toBeCloseTo(11, 9);
+    expect(forecast!.preemptiveDose.unit).toBe("g");
+  });
+
+  it("calcula la dosis preventiva con el producto de cloro elegido", () => {
+    const liquid = {
+      id: "liquido",
+      type: "Hipoclorito de sodio",
+      concentration: 10,
+      unit: "%" as const,
+      presentation: "liquid-ml" as const
+    };
+    const forecast = forecastChlorine(
+      history,
+      defaultPoolConfig,
+      new Date(2026, 0, 2, 9),
+      [],
+      liquid
+    );
+
+    const granularMgPerUnit = getChlorineMgPerProductUnit(56, "%", "granular-g");
+    const liquidMgPerUnit = getChlorineMgPerProductUnit(10, "%", "liquid-ml");
+    expect(forecast!.preemptiveDose.unit).toBe("ml");
+    expect(forecast!.preemptiveDose.amount).toBeCloseTo(
+      (11 * granularMgPerUnit) / liquidMgPerUnit,
+      9
+    );
+  });
+
+  it("sin intervalos no hay pronostico", () => {
+    expect(forecastChlorine([makeSession("s1", localIso(1, 8))], defaultPoolConfig)).toBeNull();
+  });
+
+  it("no encuentra cruce si no hay perdida", () => {
+    const model = estimateChlorineDecay([]);
+    expect(findBelowThresholdAt(model, 2, localIso(1, 8), 1)).toBeNull();
+  });
+});
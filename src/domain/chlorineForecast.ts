@@ -0,0 +1,401 @@
+import { getChlorineMgPerProductUnit } from "./calculations";
+import {
+  buildOvernightPairs,
+  compareOvernightLossByCover,
+  getNightLossCoverAdjustment
+} from "./intensiveCycle";
+import { getConfiguredProductSnapshot, getPresentationDoseUnit } from "./products";
+import { getDilutionFactor } from "./topUp";
+import type {
+  CalculationTrace,
+  DoseUnit,
+  PoolConfig,
+  ProductSnapshot,
+  Session,
+  WaterTopUp
+} from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Horario diurno local (sol directo sobre el agua).
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 20;
+// Intervalos mas largos mezclan demasiados factores para estimar la perdida.
+const MAX_INTERVAL_HOURS = 72;
+const MAX_INTERVALS = 20;
+const FORECAST_HORIZON_HOURS = 7 * 24;
+const PREEMPTIVE_WINDOW_HOURS = 24;
+// Se adelanta el control para medir antes de quedar bajo el minimo.
+const CHECK_MARGIN_HOURS = 2;
+
+export interface DecayInterval {
+  fromAt: string;
+  toAt: string;
+  startPpm: number;
+  endPpm: number;
+  dayHours: number;
+  nightHours: number;
+  loss: number;
+}
+
+export interface ChlorineDecayModel {
+  dayRatePpmPerHour: number;
+  nightRatePpmPerHour: number;
+  intervals: DecayInterval[];
+  separated: boolean;
+}
+
+export interface ChlorineForecast {
+  model: ChlorineDecayModel;
+  startAt: string;
+  startPpm: number;
+  currentPpm: number;
+  belowMinAt: string | null;
+  nextCheckAt: string;
+  preemptiveDose: {
+    amount: number;
+    unit: DoseUnit;
+    targetPpm: number;
+  };
+  trace: CalculationTrace;
+}
+
+function isDaytime(ms: number): boolean {
+  const hour = new Date(ms).getHours();
+  return hour >= DAY_START_HOUR && hour < DAY_END_HOUR;
+}
+
+function getNextBoundaryMs(ms: number): number {
+  const date = new Date(ms);
+  const hour = date.getHours();
+  const next = new Date(ms);
+  if (hour < DAY_START_HOUR) {
+    next.setHours(DAY_START_HOUR, 0, 0, 0);
+  } else if (hour < DAY_END_HOUR) {
+    next.setHours(DAY_END_HOUR, 0, 0, 0);
+  } else {
+    next.setDate(next.getDate() + 1);
+    next.setHours(DAY_START_HOUR, 0, 0, 0);
+  }
+  return next.getTime();
+}
+
+export function splitDayNightHours(
+  fromIso: string,
+  toIso: string
+): { dayHours: number; nightHours: number } {
+  const end = Date.parse(toIso);
+  let cursor = Date.parse(fromIso);
+  let dayHours = 0;
+  let nightHours = 0;
+
+  while (cursor < end) {
+    const segmentEnd = Math.min(end, getNextBoundaryMs(cursor));
+    const hours = (segmentEnd - cursor) / HOUR_MS;
+    if (isDaytime(cursor)) {
+      dayHours += hours;
+    } else {
+      nightHours += hours;
+    }
+    cursor = segmentEnd;
+  }
+
+  return { dayHours, nightHours };
+}
+
+export function getAppliedChlorinePpm(session: Session, config: PoolConfig): number {
+  const applied = session.appliedDoses.chlorine ?? 0;
+  if (applied <= 0 || session.calculatedVolumeLiters <= 0) {
+    return 0;
+  }
+
+  const product = session.products?.chlorine ?? config.chlorineProduct;
+  const mgPerUnit = getChlorineMgPerProductUnit(
+    product.concentration,
+    product.unit,
+    product.presentation
+  );
+  return (applied * mgPerUnit) / session.calculatedVolumeLiters;
+}
+
+export function buildDecayIntervals(
+  sessions: Session[],
+  config: PoolConfig,
+  topUps: WaterTopUp[] = []
+): DecayInterval[] {
+  const sorted = sessions.slice().sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const intervals: DecayInterval[] = [];
+
+  for (let index = 1; index < sorted.length; index += 1) {
+    const previous = sorted[index - 1];
+    const current = sorted[index];
+    const hours = (Date.parse(current.timestamp) - Date.parse(previous.timestamp)) / HOUR_MS;
+    if (hours <= 0 || hours > MAX_INTERVAL_HOURS) {
+      continue;
+    }
+
+    // El cloro inicial incluye la dosis aplicada despues de medir y la dilucion por llenados,
+    // que no es consumo.
+    const startPpm =
+      (previous.measuredChlorinePpm + getAppliedChlorinePpm(previous, config)) *
+      getDilutionFactor(topUps, config.pool, previous.timestamp, current.timestamp);
+    const loss = startPpm - current.measuredChlorinePpm;
+    // Una subida sin dosis registrada indica un dato incompleto.
+    if (loss < 0) {
+      continue;
+    }
+
+    intervals.push({
+      fromAt: previous.timestamp,
+      toAt: current.timestamp,
+      startPpm,
+      endPpm: current.measuredChlorinePpm,
+      ...splitDayNightHours(previous.timestamp, current.timestamp),
+      loss
+    });
+  }
+
+  return intervals.slice(-MAX_INTERVALS);
+}
+
+export function estimateChlorineDecay(intervals: DecayInterval[]): ChlorineDecayModel {
+  let dd = 0;
+  let nn = 0;
+  let dn = 0;
+  let dl = 0;
+  let nl = 0;
+  let totalLoss = 0;
+  let totalHours = 0;
+  for (const interval of intervals) {
+    dd += interval.dayHours * interval.dayHours;
+    nn += interval.nightHours * interval.nightHours;
+    dn += interval.dayHours * interval.nightHours;
+    dl += interval.dayHours * interval.loss;
+    nl += interval.nightHours * interval.loss;
+    totalLoss += interval.loss;
+    totalHours += interval.dayHours + interval.nightHours;
+  }
+
+  // Minimos cuadrados: perdida = tasaDia * horasDia + tasaNoche * horasNoche.
+  const determinant = dd * nn - dn * dn;
+  if (dd > 0 && nn > 0 && determinant > 1e-6 * dd * nn) {
+    const dayRate = (dl * nn - nl * dn) / determinant;
+    const nightRate = (nl * dd - dl * dn) / determinant;
+    if (dayRate >= 0 && nightRate >= 0) {
+      return {
+        dayRatePpmPerHour: dayRate,
+        nightRatePpmPerHour: nightRate,
+        intervals,
+        separated: true
+      };
+    }
+  }
+
+  // Sin datos suficientes para separar, se usa la tasa promedio en ambos periodos.
+  const pooledRate = totalHours > 0 ? totalLoss / totalHours : 0;
+  return {
+    dayRatePpmPerHour: pooledRate,
+    nightRatePpmPerHour: pooledRate,
+    intervals,
+    separated: false
+  };
+}
+
+export function projectChlorinePpm(
+  model: ChlorineDecayModel,
+  startPpm: number,
+  fromIso: string,
+  toIso: string
+): number {
+  const { dayHours, nightHours } = splitDayNightHours(fromIso, toIso);
+  return Math.max(
+    0,
+    startPpm - dayHours * model.dayRatePpmPerHour - nightHours * model.nightRatePpmPerHour
+  );
+}
+
+export function findBelowThresholdAt(
+  model: ChlorineDecayModel,
+  startPpm: number,
+  fromIso: string,
+  thresholdPpm: number,
+  horizonHours = FORECAST_HORIZON_HOURS
+): string | null {
+  const start = Date.parse(fromIso);
+  if (startPpm < thresholdPpm) {
+    return fromIso;
+  }
+
+  const end = start + horizonHours * HOUR_MS;
+  let cursor = start;
+  let ppm = startPpm;
+  while (cursor < end) {
+    const segmentEnd = Math.min(end, getNextBoundaryMs(cursor));
+    const rate = isDaytime(cursor) ? model.dayRatePpmPerHour : model.nightRatePpmPerHour;
+    const hours = (segmentEnd - cursor) / HOUR_MS;
+    if (rate > 0 && ppm - rate * hours < thresholdPpm) {
+      return new Date(cursor + ((ppm - thresholdPpm) / rate) * HOUR_MS).toISOString();
+    }
+    ppm -= rate * hours;
+    cursor = segmentEnd;
+  }
+
+  return null;
+}
+
+export function forecastChlorine(
+  sessions: Session[],
+  config: PoolConfig,
+  now: Date = new Date(),
+  topUps: WaterTopUp[] = [],
+  // Producto con el que se aplicaria la dosis preventiva (el elegido para la proxima sesion).
+  chlorineProduct: ProductSnapshot = getConfiguredProductSnapshot(config, "chlorine")
+): ChlorineForecast | null {
+  const intervals = buildDecayIntervals(sessions, config, topUps);
+  const latest = sessions
+    .slice()
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))[0];
+  if (!latest || intervals.length === 0) {
+    return null;
+  }
+
+  const model = estimateChlorineDecay(intervals);
+  // La perdida nocturna esperada depende del cobertor segun lo medido en noches anteriores.
+  const usesCover = config.chemistry.usesCover;
+  const coverAdjustment = getNightLossCoverAdjustment(
+    compareOvernightLossByCover(
+      buildOvernightPairs(
+        sessions.slice().sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+        usesCover
+      )
+    ),
+    usesCover
+  );
+  const expected: ChlorineDecayModel = {
+    ...model,
+    nightRatePpmPerHour: model.nightRatePpmPerHour * coverAdjustment
+  };
+  const nowIso = now.toISOString();
+  const startAt = latest.timestamp;
+  const dilutionFactor = getDilutionFactor(topUps, config.pool, startAt, now.toISOString());
+  const startPpm =
+    (latest.measuredChlorinePpm + getAppliedChlorinePpm(latest, config)) * dilutionFactor;
+  const fromIso = Date.parse(startAt) < now.getTime() ? nowIso : startAt;
+  const currentPpm = projectChlorinePpm(expected, startPpm, startAt, fromIso);
+  const chlorineMinPpm = config.targets.chlorineMinPpm;
+  const belowMinAt = findBelowThresholdAt(expected, startPpm, startAt, chlorineMinPpm);
+
+  const horizonEnd = Date.parse(fromIso) + PREEMPTIVE_WINDOW_HOURS * HOUR_MS;
+  const nextCheckMs =
+    belowMinAt === null
+      ? horizonEnd
+      : Math.max(Date.parse(fromIso), Date.parse(belowMinAt) - CHECK_MARGIN_HOURS * HOUR_MS);
+  const nextCheckAt = new Date(Math.min(nextCheckMs, horizonEnd)).toISOString();
+
+  // Dosis preventiva: cubrir la perdida esperada hasta el proximo dia sin superar el maximo.
+  const window = splitDayNightHours(fromIso, new Date(horizonEnd).toISOString());
+  const windowLoss =
+    window.dayHours * expected.dayRatePpmPerHour + window.nightHours * expected.nightRatePpmPerHour;
+  const targetPpm = Math.min(config.targets.chlorineMaxPpm, chlorineMinPpm + windowLoss);
+  const deficitPpm = Math.max(0, targetPpm - currentPpm);
+  const unit: DoseUnit = getPresentationDoseUnit(chlorineProduct.presentation);
+  const mgPerUnit = getChlorineMgPerProductUnit(
+    chlorineProduct.concentration,
+    chlorineProduct.unit,
+    chlorineProduct.presentation
+  );
+  const amount = mgPerUnit > 0 ? (deficitPpm * latest.calculatedVolumeLiters) / mgPerUnit : 0;
+
+  const trace: CalculationTrace = {
+    title: "Pronostico de consumo de cloro",
+    inputs: [
+      { symbol: "n", label: "Intervalos analizados", value: intervals.length },
+      { symbol: "FC_0", label: "Cloro tras la ultima sesion", value: startPpm, unit: "ppm" },
+      ...(dilutionFactor < 1
+        ? [{ symbol: "f_dil", label: "Factor de dilucion por llenados", value: dilutionFactor }]
+        : []),
+      { symbol: "FC_min", label: "Cloro minimo objetivo", value: chlorineMinPpm, unit: "ppm" },
+      {
+        symbol: "FC_max",
+        label: "Cloro maximo objetivo",
+        value: config.targets.chlorineMaxPpm,
+        unit: "ppm"
+      },
+      { symbol: "V_L", label: "Volumen", value: latest.calculatedVolumeLiters, unit: "L" }
+    ],
+    constants: [
+      { symbol: "h_dia", label: "Inicio del horario diurno", value: DAY_START_HOUR, unit: "h" },
+      { symbol: "h_noche", label: "Inicio del horario nocturno", value: DAY_END_HOUR, unit: "h" },
+      { symbol: "t_prev", label: "Ventana preventiva", value: PREEMPTIVE_WINDOW_HOURS, unit: "h" }
+    ],
+    steps: [
+      {
+        symbol: "k_dia",
+        label: "Perdida diurna",
+        formula: model.separated ? "minimos cuadrados por horas de dia/noche" : "perdida / horas",
+        value: model.dayRatePpmPerHour,
+        unit: "ppm/h"
+      },
+      {
+        symbol: "k_noche",
+        label: "Perdida nocturna",
+        formula: model.separated ? "minimos cuadrados por horas de dia/noche" : "perdida / horas",
+        value: model.nightRatePpmPerHour,
+        unit: "ppm/h"
+      },
+      ...(coverAdjustment !== 1
+        ? [
+            {
+              symbol: "k_noche'",
+              label: usesCover ? "Perdida nocturna con cobertor" : "Perdida nocturna sin cobertor",
+              formula: "k_noche * f_cob (noches medidas con y sin cobertor)",
+              value: expected.nightRatePpmPerHour,
+              unit: "ppm/h"
+            }
+          ]
+        : []),
+      {
+        symbol: "FC_ahora",
+        label: "Cloro estimado ahora",
+        formula: "FC_0 - k_dia * h_d - k_noche * h_n",
+        value: currentPpm,
+        unit: "ppm"
+      },
+      {
+        symbol: "ΔFC_24h",
+        label: "Perdida esperada en la ventana",
+        formula: "k_dia * h_d + k_noche * h_n",
+        value: windowLoss,
+        unit: "ppm"
+      },
+      {
+        symbol: "FC_obj",
+        label: "Cloro objetivo preventivo",
+        formula: "min(FC_max, FC_min + ΔFC_24h)",
+        value: targetPpm,
+        unit: "ppm"
+      },
+      {
+        symbol: "D_prev",
+        label: "Dosis preventiva",
+        formula: "max(0, FC_obj - FC_ahora) * V_L / mg_u",
+        value: amount,
+        unit
+      }
+    ],
+    result: { symbol: "D_prev", label: "Dosis preventiva", value: amount, unit },
+    note: model.separated
+      ? undefined
+      : "Faltan intervalos de dia y de noche para separarlos: se usa la perdida promedio."
+  };
+
+  return {
+    model,
+    startAt,
+    startPpm,
+    currentPpm,
+    belowMinAt,
+    nextCheckAt,
+    preemptiveDose: { amount, unit, targetPpm },
+    trace
+  };
+}
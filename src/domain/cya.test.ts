@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCyaChlorineTargets,
+  estimateCyaPpm,
+  estimateSessionCyaAddedPpm,
+  getCyaChlorineTargets,
+  getCyaPerFcPpm,
+  inferCyaPerFcPpm
+} from "./cya";
+import { defaultPoolConfig } from "./defaults";
+import type { PoolConfig, Session } from "./types";
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 1,
+    calculatedVolumeLiters: 5600,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+describe("getCyaPerFcPpm", () => {
+  it("lee el aporte de CYA registrado en el producto", () => {
+    expect(getCyaPerFcPpm({ cyaPerFcPpm: 0.6 })).toBe(0.6);
+    expect(getCyaPerFcPpm({})).toBe(0);
+  });
+});
+
+describe("inferCyaPerFcPpm", () => {
+  it("reconoce dicloro y tricloro sin importar acentos ni mayusculas", () => {
+    expect(inferCyaPerFcPpm("Dicloroisocianurato de sodio")).toBe(0.9);
+    expect(inferCyaPerFcPpm("TRICLORO en pastillas")).toBe(0.6);
+    expect(inferCyaPerFcPpm("Hipoclorito de sodio")).toBe(0);
+  });
+});
+
+describe("estimateSessionCyaAddedPpm", () => {
+  it("convierte la dosis aplicada de dicloro en ppm de CYA", () => {
+    // 20 g al 56% en 5600 L = 2 ppm de cloro libre -> 1.8 ppm de CYA.
+    const session = makeSession("s1", "2026-01-01T10:00:00.000Z", {
+      appliedDoses: { chlorine: 20, chlorineUnit: "g" }
+    });
+    expect(estimateSessionCyaAddedPpm(session, defaultPoolConfig.chlorineProduct)).toBeCloseTo(
+      1.8,
+      9
+    );
+  });
+
+  it("usa el producto guardado en la sesion antes que el configurado", () => {
+    const session = makeSession("s1", "2026-01-01T10:00:00.000Z", {
+      appliedDoses: { chlorine: 100, chlorineUnit: "ml" },
+      products: {
+        chlorine: {
+          id: "hipo",
+          type: "Hipoclorito de sodio",
+          concentration: 10,
+          unit: "%",
+          presentation: "liquid-ml"
+        }
+      }
+    });
+    expect(estimateSessionCyaAddedPpm(session, defaultPoolConfig.chlorineProduct)).toBe(0);
+  });
+
+  it("usa el aporte registrado del producto y no su nombre", () => {
+    const dose = { appliedDoses: { chlorine: 20, chlorineUnit: "g" as const } };
+    const stabilized = makeSession("s1", "2026-01-01T10:00:00.000Z", {
+      ...dose,
+      products: {
+        chlorine: {
+          id: "granulado",
+          type: "Cloro granulado",
+          concentration: 56,
+          unit: "%",
+          presentation: "granular-g",
+          cyaPerFcPpm: 0.9
+        }
+      }
+    });
+    const unstabilized = makeSession("s2", "2026-01-01T10:00:00.000Z", {
+      ...dose,
+      products: {
+        chlorine: {
+          id: "dicloro-sin-cya",
+          type: "Dicloroisocianurato de sodio",
+          concentration: 56,
+          unit: "%",
+          presentation: "granular-g",
+          cyaPerFcPpm: 0
+        }
+      }
+    });
+
+    expect(estimateSessionCyaAddedPpm(stabilized, defaultPoolConfig.chlorineProduct)).toBeCloseTo(
+      1.8,
+      9
+    );
+    expect(estimateSessionCyaAddedPpm(unstabilized, defaultPoolConfig.chlorineProduct)).toBe(0);
+  });
+});
+
+describe("estimateCyaPpm", () => {
+  const dose = { appliedDoses: { chlorine: 20, chlorineUnit: "g" as const } };
+
+  it("sin datos retorna fuente none", () => {
+    expect(estimateCyaPpm([], defaultPoolConfig)).toEqual({
+      ppm: 0,
+      source: "none",
+      measuredAt: null,
+      addedSinceMeasurementPpm: 0
+    });
+  });
+
+  it("parte de la ultima medicion y suma las dosis posteriores", () => {
+    const sessions = [
+      makeSession("s3", "2026-01-03T10:00:00.000Z", dose),
+      makeSession("s1", "2026-01-01T10:00:00.000Z", dose),
+      makeSession("s2", "2026-01-02T10:00:00.000Z", { measuredCyaPpm: 30 })
+    ];
+    const estimate = estimateCyaPpm(sessions, defaultPoolConfig);
+
+    expect(estimate.ppm).toBeCloseTo(31.8, 9);
+    expect(estimate.source).toBe("estimated");
+    expect(estimate.measuredAt).toBe("2026-01-02T10:00:00.000Z");
+  });
+
+  it("reporta fuente medida si no hubo dosis despues de medir", () => {
+    const sessions = [makeSession("s1", "2026-01-01T10:00:00.000Z", { measuredCyaPpm: 40 })];
+    expect(estimateCyaPpm(sessions, defaultPoolConfig)).toMatchObject({
+      ppm: 40,
+      source: "measured"
+    });
+  });
+
+  it("ignora el historial anterior al ultimo vaciado y llenado", () => {
+    const config: PoolConfig = {
+      ...defaultPoolConfig,
+      chemistry: { ...defaultPoolConfig.chemistry, lastRefillAt: "2026-01-02T00:00:00.000Z" }
+    };
+    const sessions = [
+      makeSession("s1", "2026-01-01T10:00:00.000Z", { measuredCyaPpm: 80 }),
+      makeSession("s2", "2026-01-03T10:00:00.000Z", dose)
+    ];
+    expect(estimateCyaPpm(sessions, config).ppm).toBeCloseTo(1.8, 9);
+  });
+
+  it("diluye el CYA con los llenados posteriores a la medicion", () => {
+    const sessions = [
+      makeSession("s1", "2026-01-01T10:00:00.000Z", { measuredCyaPpm: 40 }),
+      makeSession("s2", "2026-01-03T10:00:00.000Z", dose)
+    ];
+    const topUps = [
+      {
+        id: "t1",
+        poolId: "default",
+        timestamp: "2026-01-02T10:00:00.000Z",
+        heightBeforeCm: 60,
+        heightAfterCm: 75
+      }
+    ];
+
+    const diluted = estimateCyaPpm([sessions[0]], defaultPoolConfig, topUps);
+    expect(diluted.ppm).toBeCloseTo(32, 9);
+    expect(diluted.source).toBe("estimated");
+    expect(estimateCyaPpm(sessions, defaultPoolConfig, topUps).ppm).toBeCloseTo(33.8, 9);
+  });
+});
+
+describe("objetivos de cloro segun CYA", () => {
+  it("mantiene los objetivos configurados con CYA bajo", () => {
+    expect(getCyaChlorineTargets(defaultPoolConfig, 10)).toEqual({
+      chlorineMinPpm: 1,
+      chlorineMaxPpm: 3
+    });
+  });
+
+  it("sube el rango con la relacion FC/CYA", () => {
+    const adjusted = applyCyaChlorineTargets(defaultPoolConfig, 60);
+    expect(adjusted.targets.chlorineMinPpm).toBeCloseTo(4.5, 9);
+    expect(adjusted.targets.chlorineMaxPpm).toBeCloseTo(9, 9);
+    expect(adjusted.targets.phMin).toBe(defaultPoolConfig.targets.phMin);
+  });
+});
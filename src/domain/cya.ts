@@ -0,0 +1,156 @@
+import { getChlorineMgPerProductUnit } from "./calculations";
+import { getDilutionFactor } from "./topUp";
+import type { PoolConfig, ProductSnapshot, Session, WaterTopUp } from "./types";
+
+// ppm de CYA aportados por cada ppm de cloro libre segun el producto.
+export const DICHLOR_CYA_PER_FC_PPM = 0.9;
+export const TRICHLOR_CYA_PER_FC_PPM = 0.6;
+// Relacion FC/CYA: minimo para desinfectar y techo razonable de operacion.
+const FC_MIN_CYA_RATIO = 0.075;
+const FC_MAX_CYA_RATIO = 0.15;
+
+export type CyaSource = "measured" | "estimated" | "none";
+
+export interface CyaEstimate {
+  ppm: number;
+  source: CyaSource;
+  measuredAt: string | null;
+  addedSinceMeasurementPpm: number;
+}
+
+type ChlorineProductInfo = Pick<
+  ProductSnapshot,
+  "concentration" | "unit" | "presentation" | "cyaPerFcPpm"
+>;
+
+function normalizeProductType(type: string): string {
+  return type
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function isCyaInRange(value: number): boolean {
+  return value >= 0 && value <= 300;
+}
+
+// Solo para completar productos guardados antes de registrar el aporte de CYA.
+export function inferCyaPerFcPpm(productType: string): number {
+  const normalized = normalizeProductType(productType);
+  if (/dicloro|dichlor/.test(normalized)) {
+    return DICHLOR_CYA_PER_FC_PPM;
+  }
+  if (/tricloro|trichlor/.test(normalized)) {
+    return TRICHLOR_CYA_PER_FC_PPM;
+  }
+  return 0;
+}
+
+export function getCyaPerFcPpm(product: Pick<ProductSnapshot, "cyaPerFcPpm">): number {
+  return product.cyaPerFcPpm ?? 0;
+}
+
+export function estimateSessionCyaAddedPpm(
+  session: Session,
+  fallbackProduct: ChlorineProductInfo
+): number {
+  const applied = session.appliedDoses.chlorine ?? 0;
+  if (applied <= 0 || session.calculatedVolumeLiters <= 0) {
+    return 0;
+  }
+
+  const product = session.products?.chlorine ?? fallbackProduct;
+  const cyaPerFc = getCyaPerFcPpm(product);
+  if (cyaPerFc <= 0) {
+    return 0;
+  }
+
+  const mgPerUnit = getChlorineMgPerProductUnit(
+    product.concentration,
+    product.unit,
+    product.presentation
+  );
+  const fcAddedPpm = (applied * mgPerUnit) / session.calculatedVolumeLiters;
+  return fcAddedPpm * cyaPerFc;
+}
+
+export function estimateCyaPpm(
+  sessions: Session[],
+  config: PoolConfig,
+  topUps: WaterTopUp[] = []
+): CyaEstimate {
+  const refillAt = config.chemistry.lastRefillAt ? Date.parse(config.chemistry.lastRefillAt) : null;
+  const relevant = sessions
+    .filter((session) => refillAt === null || Date.parse(session.timestamp) >= refillAt)
+    .slice()
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  let ppm = 0;
+  let measuredAt: string | null = null;
+  let addedSinceMeasurementPpm = 0;
+  let hasData = refillAt !== null;
+  let diluted = false;
+  let lastAt = config.chemistry.lastRefillAt ?? null;
+  // Los llenados diluyen el CYA acumulado hasta el momento en que ocurren.
+  const applyDilution = (toIso?: string) => {
+    const factor = lastAt === null ? 1 : getDilutionFactor(topUps, config.pool, lastAt, toIso);
+    if (factor < 1 && ppm > 0) {
+      ppm *= factor;
+      addedSinceMeasurementPpm *= factor;
+      diluted = true;
+    }
+  };
+
+  for (const session of relevant) {
+    applyDilution(session.timestamp);
+    lastAt = session.timestamp;
+    if (session.measuredCyaPpm !== undefined) {
+      ppm = session.measuredCyaPpm;
+      measuredAt = session.timestamp;
+      addedSinceMeasurementPpm = 0;
+      diluted = false;
+      hasData = true;
+    }
+    // La medicion de CYA se toma antes de aplicar la dosis de la misma sesion.
+    const added = estimateSessionCyaAddedPpm(session, config.chlorineProduct);
+    if (added > 0) {
+      ppm += added;
+      addedSinceMeasurementPpm += added;
+      hasData = true;
+    }
+  }
+
+  applyDilution();
+
+  if (!hasData) {
+    return { ppm: 0, source: "none", measuredAt: null, addedSinceMeasurementPpm: 0 };
+  }
+
+  return {
+    ppm,
+    source:
+      measuredAt !== null && addedSinceMeasurementPpm === 0 && !diluted ? "measured" : "estimated",
+    measuredAt,
+    addedSinceMeasurementPpm
+  };
+}
+
+export function getCyaChlorineTargets(
+  config: PoolConfig,
+  cyaPpm: number
+): { chlorineMinPpm: number; chlorineMaxPpm: number } {
+  return {
+    chlorineMinPpm: Math.max(config.targets.chlorineMinPpm, cyaPpm * FC_MIN_CYA_RATIO),
+    chlorineMaxPpm: Math.max(config.targets.chlorineMaxPpm, cyaPpm * FC_MAX_CYA_RATIO)
+  };
+}
+
+export function applyCyaChlorineTargets(config: PoolConfig, cyaPpm: number): PoolConfig {
+  return {
+    ...config,
+    targets: {
+      ...config.targets,
+      ...getCyaChlorineTargets(config, cyaPpm)
+    }
+  };
+}
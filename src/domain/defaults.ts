@@ -1,9 +1,14 @@
-import type { PoolConfig } from "./types";
+import { DICHLOR_CYA_PER_FC_PPM, inferCyaPerFcPpm } from "./cya";
+import type { PoolConfig, PoolDimensions, ProductSnapshot, Session } from "./types";
+
+export const DEFAULT_POOL_ID = "default";
 
 export const defaultPoolConfig: PoolConfig = {
-  id: "default",
+  id: DEFAULT_POOL_ID,
+  name: "Piscina principal",
   updatedAt: new Date().toISOString(),
   pool: {
+    shape: "round",
     diameterM: 3.05,
     maxHeightCm: 76
   },
@@ -11,7 +16,8 @@ export const defaultPoolConfig: PoolConfig = {
     type: "Dicloroisocianurato de sodio",
     concentration: 56,
     unit: "%",
-    presentation: "granular-g"
+    presentation: "granular-g",
+    cyaPerFcPpm: DICHLOR_CYA_PER_FC_PPM
   },
   acidProduct: {
     type: "Acido muriatico (HCl)",
@@ -41,6 +47,125 @@ export const defaultPoolConfig: PoolConfig = {
     phMin: 7.2,
     phMax: 7.6,
     chlorineMinPpm: 1,
-    chlorineMaxPpm: 3
+    chlorineMaxPpm: 3,
+    alkalinityMinPpm: 80,
+    alkalinityMaxPpm: 120
+  },
+  preferences: {
+    unitSystem: "metric"
+  }
+};
+
+export function normalizePool(loaded: PoolDimensions | undefined): PoolDimensions {
+  if (!loaded) {
+    return defaultPoolConfig.pool;
+  }
+
+  // Configuraciones previas a las formas solo guardaban diametro (piscina redonda).
+  const legacy = loaded as Partial<PoolDimensions> & { diameterM?: number };
+  if (!legacy.shape) {
+    return {
+      ...defaultPoolConfig.pool,
+      ...legacy,
+      shape: "round"
+    } as PoolDimensions;
+  }
+
+  // Configuraciones guardadas sin altura maxima toman la de referencia.
+  return { ...loaded, maxHeightCm: loaded.maxHeightCm ?? defaultPoolConfig.pool.maxHeightCm };
+}
+
+// Productos guardados antes de registrar el aporte de CYA lo deducen del nombre.
+function normalizeChlorineProduct(
+  loaded: PoolConfig["chlorineProduct"] | undefined
+): PoolConfig["chlorineProduct"] {
+  const product = { ...defaultPoolConfig.chlorineProduct, ...loaded };
+  return { ...product, cyaPerFcPpm: loaded?.cyaPerFcPpm ?? inferCyaPerFcPpm(product.type) };
+}
+
+function normalizeProductSnapshot(snapshot: ProductSnapshot): ProductSnapshot {
+  return snapshot.cyaPerFcPpm === undefined
+    ? { ...snapshot, cyaPerFcPpm: inferCyaPerFcPpm(snapshot.type) }
+    : snapshot;
+}
+
+export function normalizePoolConfig(loaded: PoolConfig | undefined): PoolConfig {
+  if (!loaded) {
+    return defaultPoolConfig;
   }
-};
+
+  return {
+    ...defaultPoolConfig,
+    ...loaded,
+    pool: normalizePool(loaded.pool),
+    chlorineProduct: normalizeChlorineProduct(loaded.chlorineProduct),
+    acidProduct: {
+      ...defaultPoolConfig.acidProduct,
+      ...loaded.acidProduct
+    },
+    phUpProduct: {
+      ...defaultPoolConfig.phUpProduct,
+      ...loaded.phUpProduct
+    },
+    chemistry: {
+      ...defaultPoolConfig.chemistry,
+      ...loaded.chemistry
+    },
+    workflow: {
+      ...defaultPoolConfig.workflow,
+      ...loaded.workflow
+    },
+    targets: {
+      ...defaultPoolConfig.targets,
+      ...loaded.targets
+    },
+    preferences: {
+      ...defaultPoolConfig.preferences,
+      ...loaded.preferences
+    }
+  };
+}
+
+interface LegacySessionDoses {
+  requiredPhCorrection?: Partial<Session["requiredPhCorrection"]> & {
+    totalMl?: number;
+    stage1Ml?: number;
+  };
+  requiredChlorineDose?: Partial<Session["requiredChlorineDose"]> & {
+    maintenanceMl?: number;
+    correctiveMl?: number;
+  };
+}
+
+export function normalizeSession(loaded: Session, fallbackPoolId: string = DEFAULT_POOL_ID): Session {
+  const legacy = loaded as Session & LegacySessionDoses;
+  const ph = legacy.requiredPhCorrection ?? {};
+  const chlorine = legacy.requiredChlorineDose ?? {};
+  const phTotal = ph.total ?? ph.totalMl ?? 0;
+
+  return {
+    ...loaded,
+    poolId: loaded.poolId ?? fallbackPoolId,
+    kind: loaded.kind ?? "adjustment",
+    requiredPhCorrection: {
+      direction: ph.direction ?? (phTotal > 0 ? "down" : "none"),
+      total: phTotal,
+      stage1: ph.stage1 ?? ph.stage1Ml ?? 0,
+      unit: ph.unit ?? "ml"
+    },
+    requiredChlorineDose: {
+      maintenance: chlorine.maintenance ?? chlorine.maintenanceMl ?? 0,
+      corrective: chlorine.corrective ?? chlorine.correctiveMl ?? 0,
+      unit: chlorine.unit ?? "ml"
+    },
+    appliedDoses: loaded.appliedDoses ?? {},
+    ...(loaded.products?.chlorine
+      ? {
+          products: {
+            ...loaded.products,
+            chlorine: normalizeProductSnapshot(loaded.products.chlorine)
+          }
+        }
+      : {})
+  };
+}
@@ -2,10 +2,18 @@ import { describe, expect, it } from "vitest";
 import {
   buildIntensiveSummary,
   buildOvernightPairs,
+  compareOvernightLossByCover,
+  createIntensiveCycle,
   evaluateIntensiveCycle,
-  getIntensiveSessions
+  getActiveIntensiveCycle,
+  getIntensiveCycleStatus,
+  getIntensiveSessions,
+  getLastClosedIntensiveCycle,
+  getNightLossCoverAdjustment,
+  type OvernightPair
 } from "./intensiveCycle";
-import type { Session } from "./types";
+import { defaultPoolConfig } from "./defaults";
+import type { IntensiveCycle, Session } from "./types";
 
 function makeSession(
   id: string,
@@ -15,6 +23,7 @@ function makeSession(
 ): Session {
   return {
     id,
+    poolId: "default",
     timestamp,
     kind: "intensive-cycle",
     checkMoment,
@@ -28,16 +37,93 @@ function makeSession(
   };
 }
 
+const cycle: IntensiveCycle = {
+  id: "c2",
+  poolId: "default",
+  reason: "cambio a dicloro",
+  startedAt: "2026-02-20T10:00:00.000Z",
+  minNights: 2,
+  maxOvernightLossPpm: 1
+};
+
+describe("ciclos intensivos", () => {
+  it("copia motivo y criterios de la configuracion al iniciar", () => {
+    const started = createIntensiveCycle(
+      "c3",
+      {
+        ...defaultPoolConfig,
+        workflow: {
+          ...defaultPoolConfig.workflow,
+          intensiveMinNights: 3,
+          intensiveMaxOvernightLossPpm: 0.8
+        }
+      },
+      "  inicio de temporada ",
+      "2026-03-01T10:00:00.000Z"
+    );
+
+    expect(started).toEqual({
+      id: "c3",
+      poolId: defaultPoolConfig.id,
+      reason: "inicio de temporada",
+      startedAt: "2026-03-01T10:00:00.000Z",
+      minNights: 3,
+      maxOvernightLossPpm: 0.8
+    });
+    expect(getIntensiveCycleStatus(started)).toBe("active");
+  });
+
+  it("distingue el ciclo activo del ultimo cierre", () => {
+    const closed: IntensiveCycle = {
+      ...cycle,
+      id: "c1",
+      startedAt: "2026-01-10T10:00:00.000Z",
+      closedAt: "2026-01-13T08:00:00.000Z",
+      summary: {
+        nightsEvaluated: 2,
+        avgOvernightLossPpm: 0.5,
+        lastOvernightLossPpm: 0.4,
+        recommendation: "ok"
+      }
+    };
+    const cancelled: IntensiveCycle = {
+      ...cycle,
+      id: "c0",
+      startedAt: "2026-01-01T10:00:00.000Z",
+      cancelledAt: "2026-01-02T10:00:00.000Z"
+    };
+
+    expect(getIntensiveCycleStatus(cancelled)).toBe("cancelled");
+    expect(getActiveIntensiveCycle([cycle, closed, cancelled])?.id).toBe("c2");
+    expect(getActiveIntensiveCycle([closed, cancelled])).toBeNull();
+    expect(getLastClosedIntensiveCycle([cycle, cancelled, closed])?.id).toBe("c1");
+  });
+});
+
 describe("getIntensiveSessions", () => {
-  it("filtra por kind intensive-cycle y ordena por timestamp asc", () => {
+  it("toma solo las sesiones enlazadas al ciclo y ordena por timestamp asc", () => {
     const sessions: Session[] = [
-      makeSession("2", "2026-02-20T12:00:00.000Z", "night", 2.0),
+      { ...makeSession("2", "2026-02-20T12:00:00.000Z", "night", 2.0), intensiveCycleId: "c2" },
       { ...makeSession("3", "2026-02-20T13:00:00.000Z", "start-day", 1.6), kind: "check" },
-      makeSession("1", "2026-02-20T11:00:00.000Z", "start-day", 1.8)
+      { ...makeSession("1", "2026-02-20T11:00:00.000Z", "start-day", 1.8), intensiveCycleId: "c2" },
+      { ...makeSession("4", "2026-02-20T14:00:00.000Z", "night", 2.1), intensiveCycleId: "c1" }
     ];
 
-    const intensive = getIntensiveSessions(sessions);
+    const intensive = getIntensiveSessions(sessions, cycle);
     expect(intensive.map((s) => s.id)).toEqual(["1", "2"]);
+    expect(getIntensiveSessions(sessions, null)).toEqual([]);
+  });
+
+  it("asigna sesiones sin enlace segun el periodo del ciclo", () => {
+    const sessions: Session[] = [
+      makeSession("antes", "2026-01-15T22:00:00.000Z", "night", 2.0),
+      makeSession("durante", "2026-02-20T22:00:00.000Z", "night", 2.0),
+      makeSession("despues", "2026-02-25T22:00:00.000Z", "night", 2.0)
+    ];
+
+    const closedCycle = { ...cycle, closedAt: "2026-02-23T08:00:00.000Z" };
+    expect(getIntensiveSessions(sessions, closedCycle).map((s) => s.id)).toEqual(["durante"]);
+    expect(getIntensiveSessions(sessions, cycle).map((s) => s.id)).toEqual(["durante", "despues"]);
   });
 });
 
@@ -58,6 +144,56 @@ describe("buildOvernightPairs", () => {
     expect(pairs[1].loss).toBeCloseTo(0.7, 9);
     expect(pairs[1].morningChlorine).toBeCloseTo(1.3, 9);
   });
+
+  it("toma el cobertor de la sesion nocturna y descarta mananas demasiado lejanas", () => {
+    const sessions: Session[] = [
+      { ...makeSession("a", "2026-02-20T22:00:00.000Z", "night", 2.2), coverOn: false },
+      makeSession("b", "2026-02-21T08:00:00.000Z", "start-day", 1.4),
+      makeSession("c", "2026-02-21T22:00:00.000Z", "night", 2.0),
+      makeSession("d", "2026-02-22T08:00:00.000Z", "start-day", 1.6),
+      makeSession("e", "2026-02-22T22:00:00.000Z", "night", 2.0),
+      makeSession("f", "2026-02-24T08:00:00.000Z", "start-day", 1.0)
+    ];
+
+    expect(buildOvernightPairs(sessions, true).map((pair) => pair.coverOn)).toEqual([false, true]);
+  });
+});
+
+describe("compareOvernightLossByCover", () => {
+  const pair = (loss: number, coverOn: boolean): OvernightPair => ({
+    loss,
+    morningChlorine: 1.5,
+    coverOn
+  });
+
+  it("mide el beneficio del cobertor y ajusta la tasa nocturna", () => {
+    const comparison = compareOvernightLossByCover([
+      pair(1.2, false),
+      pair(1.0, false),
+      pair(0.4, true),
+      pair(0.3, true),
+      pair(-0.5, true)
+    ]);
+
+    expect(comparison.covered).toEqual({ nights: 2, avgLossPpm: 0.35 });
+    expect(comparison.uncovered.avgLossPpm).toBeCloseTo(1.1, 9);
+    expect(comparison.benefitPpm).toBeCloseTo(0.75, 9);
+    expect(comparison.coverFactor).toBeCloseTo(0.35 / 1.1, 9);
+    // Mitad de noches con cobertor: la tasa mixta se lleva a cada condicion.
+    const mixed = 0.5 + 0.5 * comparison.coverFactor!;
+    expect(getNightLossCoverAdjustment(comparison, true)).toBeCloseTo(
+      comparison.coverFactor! / mixed,
+      9
+    );
+    expect(getNightLossCoverAdjustment(comparison, false)).toBeCloseTo(1 / mixed, 9);
+  });
+
+  it("no compara con pocas noches por grupo", () => {
+    const comparison = compareOvernightLossByCover([pair(1.2, false), pair(0.4, true)]);
+    expect(comparison.benefitPpm).toBeNull();
+    expect(comparison.coverFactor).toBeNull();
+    expect(getNightLossCoverAdjustment(comparison, true)).toBe(1);
+  });
 });
 
 describe("evaluateIntensiveCycle", () => {
@@ -85,6 +221,19 @@ describe("evaluateIntensiveCycle", () => {
     const result = evaluateIntensiveCycle(sessions, 2, 1, 1, 3);
     expect(result.canClose).toBe(false);
   });
+
+  it("exige menor perdida en noches con cobertor segun el efecto medido", () => {
+    const sessions: Session[] = [
+      makeSession("a", "2026-02-20T22:00:00.000Z", "night", 2.1),
+      makeSession("b", "2026-02-21T08:00:00.000Z", "start-day", 1.4),
+      makeSession("c", "2026-02-21T22:00:00.000Z", "night", 2.0),
+      makeSession("d", "2026-02-22T08:00:00.000Z", "start-day", 1.3)
+    ];
+
+    expect(evaluateIntensiveCycle(sessions, 2, 1, 1, 3, true, null).canClose).toBe(true);
+    expect(evaluateIntensiveCycle(sessions, 2, 1, 1, 3, true, 0.5).canClose).toBe(false);
+    expect(evaluateIntensiveCycle(sessions, 2, 1, 1, 3, false, 0.5).canClose).toBe(true);
+  });
 });
 
 describe("buildIntensiveSummary", () => {
@@ -94,8 +243,8 @@ describe("buildIntensiveSummary", () => {
       minNights: 2,
       maxOvernightLossPpm: 1,
       overnightPairs: [
-        { loss: 0.9, morningChlorine: 1.4 },
-        { loss: 0.8, morningChlorine: 1.5 }
+        { loss: 0.9, morningChlorine: 1.4, coverOn: false },
+        { loss: 0.8, morningChlorine: 1.5, coverOn: false }
       ]
     });
 
@@ -111,8 +260,8 @@ describe("buildIntensiveSummary", () => {
       minNights: 2,
       maxOvernightLossPpm: 1,
       overnightPairs: [
-        { loss: 1.3, morningChlorine: 1.1 },
-        { loss: 1.4, morningChlorine: 1.0 }
+        { loss: 1.3, morningChlorine: 1.1, coverOn: false },
+        { loss: 1.4, morningChlorine: 1.0, coverOn: false }
       ]
     });
 
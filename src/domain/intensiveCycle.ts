@@ -1,8 +1,27 @@
-import type { Session } from "./types";
+import type { IntensiveCycle, IntensiveCycleSummary, PoolConfig, Session } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Un par noche -> inicio del dia solo cuenta si la manana llega antes de este limite.
+const MAX_OVERNIGHT_HOURS = 16;
+// Con menos noches por grupo la diferencia se confunde con la variacion entre noches.
+export const MIN_COVER_COMPARISON_NIGHTS = 2;
 
 export interface OvernightPair {
   loss: number;
   morningChlorine: number;
+  coverOn: boolean;
+}
+
+export interface OvernightLossStats {
+  nights: number;
+  avgLossPpm: number | null;
+}
+
+export interface CoverComparison {
+  covered: OvernightLossStats;
+  uncovered: OvernightLossStats;
+  benefitPpm: number | null;
+  coverFactor: number | null;
 }
 
 export interface IntensiveCycleEvaluation {
@@ -17,32 +36,96 @@ export interface IntensiveSummaryInput {
   minNights: number;
   maxOvernightLossPpm: number;
   overnightPairs: OvernightPair[];
+  coverFactor?: number | null;
+}
+
+export type IntensiveCycleStatus = "active" | "closed" | "cancelled";
+
+export function createIntensiveCycle(
+  id: string,
+  config: PoolConfig,
+  reason: string,
+  startedAt: string
+): IntensiveCycle {
+  return {
+    id,
+    poolId: config.id,
+    reason: reason.trim(),
+    startedAt,
+    minNights: config.workflow.intensiveMinNights,
+    maxOvernightLossPpm: config.workflow.intensiveMaxOvernightLossPpm
+  };
+}
+
+export function getIntensiveCycleStatus(cycle: IntensiveCycle): IntensiveCycleStatus {
+  if (cycle.closedAt) {
+    return "closed";
+  }
+  return cycle.cancelledAt ? "cancelled" : "active";
+}
+
+export function getActiveIntensiveCycle(cycles: IntensiveCycle[]): IntensiveCycle | null {
+  return cycles.find((cycle) => getIntensiveCycleStatus(cycle) === "active") ?? null;
+}
+
+export type ClosedIntensiveCycle = IntensiveCycle & {
+  closedAt: string;
+  summary: IntensiveCycleSummary;
+};
+
+function isClosedWithSummary(cycle: IntensiveCycle): cycle is ClosedIntensiveCycle {
+  return cycle.closedAt !== undefined && cycle.summary !== undefined;
+}
+
+export function getLastClosedIntensiveCycle(cycles: IntensiveCycle[]): ClosedIntensiveCycle | null {
+  return cycles
+    .filter(isClosedWithSummary)
+    .reduce<ClosedIntensiveCycle | null>(
+      (last, cycle) => (!last || cycle.closedAt > last.closedAt ? cycle : last),
+      null
+    );
 }
 
-export interface IntensiveSummaryResult {
-  nightsEvaluated: number;
-  avgOvernightLossPpm: number;
-  lastOvernightLossPpm: number;
-  recommendation: string;
+// Las sesiones previas a guardar el ciclo no tienen enlace: cuentan si caen dentro de su periodo.
+export function isSessionInIntensiveCycle(session: Session, cycle: IntensiveCycle): boolean {
+  if (session.intensiveCycleId !== undefined) {
+    return session.intensiveCycleId === cycle.id;
+  }
+  const endedAt = cycle.closedAt ?? cycle.cancelledAt;
+  return (
+    session.kind === "intensive-cycle" &&
+    session.timestamp >= cycle.startedAt &&
+    (!endedAt || session.timestamp <= endedAt)
+  );
 }
 
-export function getIntensiveSessions(sessions: Session[]): Session[] {
+export function getIntensiveSessions(sessions: Session[], cycle: IntensiveCycle | null): Session[] {
+  if (!cycle) {
+    return [];
+  }
   return sessions
-    .filter((session) => session.kind === "intensive-cycle")
+    .filter((session) => isSessionInIntensiveCycle(session, cycle))
     .slice()
     .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
 }
 
-export function buildOvernightPairs(sessions: Session[]): OvernightPair[] {
+// Las sesiones sin registro del cobertor toman el uso habitual de la configuracion.
+export function buildOvernightPairs(sessions: Session[], defaultCoverOn = false): OvernightPair[] {
   const pairs: OvernightPair[] = [];
 
   for (let index = 1; index < sessions.length; index += 1) {
     const previous = sessions[index - 1];
     const current = sessions[index];
-    if (previous.checkMoment === "night" && current.checkMoment === "start-day") {
+    const hours = (Date.parse(current.timestamp) - Date.parse(previous.timestamp)) / HOUR_MS;
+    if (
+      previous.checkMoment === "night" &&
+      current.checkMoment === "start-day" &&
+      hours <= MAX_OVERNIGHT_HOURS
+    ) {
       pairs.push({
         loss: previous.measuredChlorinePpm - current.measuredChlorinePpm,
-        morningChlorine: current.measuredChlorinePpm
+        morningChlorine: current.measuredChlorinePpm,
+        coverOn: previous.coverOn ?? defaultCoverOn
       });
     }
   }
@@ -50,20 +133,81 @@ export function buildOvernightPairs(sessions: Session[]): OvernightPair[] {
   return pairs;
 }
 
+function getOvernightLossStats(pairs: OvernightPair[]): OvernightLossStats {
+  return {
+    nights: pairs.length,
+    avgLossPpm:
+      pairs.length > 0 ? pairs.reduce((sum, pair) => sum + pair.loss, 0) / pairs.length : null
+  };
+}
+
+export function compareOvernightLossByCover(pairs: OvernightPair[]): CoverComparison {
+  // Una subida nocturna indica una dosis o un dato incompleto, no una perdida.
+  const valid = pairs.filter((pair) => pair.loss >= 0);
+  const covered = getOvernightLossStats(valid.filter((pair) => pair.coverOn));
+  const uncovered = getOvernightLossStats(valid.filter((pair) => !pair.coverOn));
+  const comparable =
+    covered.nights >= MIN_COVER_COMPARISON_NIGHTS &&
+    uncovered.nights >= MIN_COVER_COMPARISON_NIGHTS &&
+    covered.avgLossPpm !== null &&
+    uncovered.avgLossPpm !== null;
+
+  return {
+    covered,
+    uncovered,
+    benefitPpm: comparable ? uncovered.avgLossPpm! - covered.avgLossPpm! : null,
+    // El cobertor no puede aumentar la perdida: un factor mayor a 1 se atribuye al ruido.
+    coverFactor:
+      comparable && uncovered.avgLossPpm! > 0
+        ? Math.min(1, covered.avgLossPpm! / uncovered.avgLossPpm!)
+        : null
+  };
+}
+
+// El umbral configurado vale para noches sin cobertor; con cobertor se exige la perdida medida.
+export function getOvernightLossThreshold(
+  maxOvernightLossPpm: number,
+  coverOn: boolean,
+  coverFactor: number | null
+): number {
+  return coverOn && coverFactor !== null ? maxOvernightLossPpm * coverFactor : maxOvernightLossPpm;
+}
+
+// Lleva una tasa nocturna ajustada sobre noches mixtas a la condicion de cobertor indicada.
+export function getNightLossCoverAdjustment(comparison: CoverComparison, coverOn: boolean): number {
+  const { covered, uncovered, coverFactor } = comparison;
+  if (coverFactor === null) {
+    return 1;
+  }
+  const coveredShare = covered.nights / (covered.nights + uncovered.nights);
+  const mixedFactor = 1 - coveredShare + coveredShare * coverFactor;
+  if (mixedFactor <= 0) {
+    return 1;
+  }
+  return (coverOn ? coverFactor : 1) / mixedFactor;
+}
+
 export function evaluateIntensiveCycle(
   sessions: Session[],
   minNights: number,
   maxOvernightLossPpm: number,
   chlorineMinPpm: number,
-  chlorineMaxPpm: number
+  chlorineMaxPpm: number,
+  defaultCoverOn = false,
+  coverFactor: number | null = null
 ): IntensiveCycleEvaluation {
-  const overnightPairs = buildOvernightPairs(sessions);
+  const overnightPairs = buildOvernightPairs(sessions, defaultCoverOn);
   const nightCount = sessions.filter((session) => session.checkMoment === "night").length;
   const lastPair = overnightPairs.length > 0 ? overnightPairs[overnightPairs.length - 1] : null;
   const recentPairs = overnightPairs.slice(-minNights);
   const hasEnoughPairs = recentPairs.length >= minNights;
   const stableLoss =
-    hasEnoughPairs && recentPairs.every((pair) => pair.loss >= 0 && pair.loss <= maxOvernightLossPpm);
+    hasEnoughPairs &&
+    recentPairs.every(
+      (pair) =>
+        pair.loss >= 0 &&
+        pair.loss <= getOvernightLossThreshold(maxOvernightLossPpm, pair.coverOn, coverFactor)
+    );
   const morningsInRange =
     hasEnoughPairs &&
     recentPairs.every(
@@ -78,15 +222,26 @@ export function evaluateIntensiveCycle(
   };
 }
 
-export function buildIntensiveSummary(input: IntensiveSummaryInput): IntensiveSummaryResult {
+export function buildIntensiveSummary(input: IntensiveSummaryInput): IntensiveCycleSummary {
   const nightsEvaluated = Math.min(input.minNights, input.overnightPairs.length);
   const evaluatedPairs = input.overnightPairs.slice(-nightsEvaluated);
   const avgOvernightLossPpm =
     evaluatedPairs.reduce((sum, pair) => sum + pair.loss, 0) / evaluatedPairs.length;
   const lastOvernightLossPpm =
     evaluatedPairs[evaluatedPairs.length - 1]?.loss ?? avgOvernightLossPpm;
+  const avgThresholdPpm =
+    evaluatedPairs.reduce(
+      (sum, pair) =>
+        sum +
+        getOvernightLossThreshold(
+          input.maxOvernightLossPpm,
+          pair.coverOn,
+          input.coverFactor ?? null
+        ),
+      0
+    ) / evaluatedPairs.length;
   const recommendation =
-    avgOvernightLossPpm <= input.maxOvernightLossPpm
+    avgOvernightLossPpm <= avgThresholdPpm
       ? "Patron estabilizado. Volver al flujo diario con dosis correctiva solo cuando el cloro caiga bajo objetivo."
       : "Patron aun exigente. Mantener monitoreo diario y considerar extender ciclo 1 noche adicional.";
 
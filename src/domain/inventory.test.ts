@@ -0,0 +1,317 @@
+import { describe, expect, it } from "vitest";
+import {
+  deductInventory,
+  diffProductUsage,
+  estimateDailyUsage,
+  getProductStock,
+  getRestockHistory,
+  getSessionProductUsage,
+  getStockWarnings,
+  restoreInventory
+} from "./inventory";
+import type { InventoryContainer, InventoryMovement, Session } from "./types";
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    waterHeightCm: 70,
+    measuredPh: 7.8,
+    measuredChlorinePpm: 0.5,
+    calculatedVolumeLiters: 5600,
+    requiredPhCorrection: { direction: "down", total: 80, stage1: 40, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 20, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+function makeContainer(
+  id: string,
+  overrides: Partial<InventoryContainer> = {}
+): InventoryContainer {
+  return {
+    id,
+    productId: "acid",
+    quantity: 1000,
+    remaining: 1000,
+    unit: "ml",
+    purchasedAt: "2026-01-01T10:00:00.000Z",
+    ...overrides
+  };
+}
+
+const products = {
+  chlorine: {
+    id: "dichlor",
+    type: "Dicloro",
+    concentration: 56,
+    unit: "%" as const,
+    presentation: "granular-g" as const
+  },
+  acid: {
+    id: "acid",
+    type: "HCl",
+    concentration: 10,
+    unit: "%" as const,
+    presentation: "liquid-ml" as const
+  }
+};
+
+describe("getSessionProductUsage", () => {
+  it("suma ambas etapas de pH y el cloro aplicado por producto", () => {
+    const session = makeSession("s1", "2026-01-02T10:00:00.000Z", {
+      appliedDoses: { phStage1: 40, phStage2: 25, phUnit: "ml", chlorine: 20, chlorineUnit: "g" },
+      products
+    });
+
+    expect(getSessionProductUsage(session)).toEqual([
+      { productId: "dichlor", amount: 20, unit: "g" },
+      { productId: "acid", amount: 65, unit: "ml" }
+    ]);
+  });
+
+  it("suma al mismo acido la dosis para bajar la alcalinidad", () => {
+    const session = makeSession("s1", "2026-01-02T10:00:00.000Z", {
+      requiredAlkalinityCorrection: { direction: "down", amount: 120, unit: "ml" },
+      appliedDoses: { phStage1: 40, phUnit: "ml", alkalinity: 120, alkalinityUnit: "ml" },
+      products
+    });
+
+    expect(getSessionProductUsage(session)).toEqual([
+      { productId: "acid", amount: 160, unit: "ml" }
+    ]);
+  });
+
+  it("sin producto guardado no hay consumo para descontar", () => {
+    const session = makeSession("s1", "2026-01-02T10:00:00.000Z", {
+      appliedDoses: { chlorine: 20, chlorineUnit: "g" }
+    });
+    expect(getSessionProductUsage(session)).toEqual([]);
+  });
+});
+
+describe("deductInventory", () => {
+  it("vacia primero el envase abierto y abre el siguiente", () => {
+    const containers = [
+      makeContainer("new", { purchasedAt: "2026-01-01T09:00:00.000Z" }),
+      makeContainer("open", { remaining: 50, openedAt: "2026-01-01T12:00:00.000Z" })
+    ];
+    const deduction = deductInventory(
+      containers,
+      { productId: "acid", amount: 80, unit: "ml" },
+      "2026-01-03T10:00:00.000Z",
+      "s1"
+    );
+
+    expect(deduction.shortfall).toBe(0);
+    expect(deduction.containers).toEqual([
+      {
+        ...containers[1],
+        remaining: 0,
+        emptiedAt: "2026-01-03T10:00:00.000Z"
+      },
+      {
+        ...containers[0],
+        remaining: 970,
+        openedAt: "2026-01-03T10:00:00.000Z",
+        emptiedAt: undefined
+      }
+    ]);
+    expect(deduction.movements.map((movement) => [movement.containerId, movement.amount])).toEqual([
+      ["open", 50],
+      ["new", 30]
+    ]);
+    expect(deduction.movements.every((movement) => movement.sessionId === "s1")).toBe(true);
+  });
+
+  it("registra el faltante cuando el stock no alcanza", () => {
+    const deduction = deductInventory(
+      [makeContainer("c1", { remaining: 30 })],
+      { productId: "acid", amount: 80, unit: "ml" },
+      "2026-01-03T10:00:00.000Z"
+    );
+
+    expect(deduction.shortfall).toBe(50);
+    expect(deduction.movements[1].containerId).toBeUndefined();
+    expect(deduction.movements[1].amount).toBe(50);
+  });
+});
+
+describe("correccion de consumo", () => {
+  it("calcula lo que hay que descontar o devolver al editar una sesion", () => {
+    expect(
+      diffProductUsage(
+        [
+          { productId: "acid", amount: 65, unit: "ml" },
+          { productId: "dichlor", amount: 20, unit: "g" }
+        ],
+        [
+          { productId: "acid", amount: 40, unit: "ml" },
+          { productId: "dichlor", amount: 20, unit: "g" },
+          { productId: "ph-up", amount: 10, unit: "g" }
+        ]
+      )
+    ).toEqual([
+      { productId: "acid", amount: -25, unit: "ml" },
+      { productId: "ph-up", amount: 10, unit: "g" }
+    ]);
+  });
+
+  it("devuelve el consumo de una sesion a sus envases, del ultimo abierto hacia atras", () => {
+    const containers = [
+      makeContainer("new", { purchasedAt: "2026-01-01T09:00:00.000Z" }),
+      makeContainer("open", { remaining: 50, openedAt: "2026-01-01T12:00:00.000Z" })
+    ];
+    const deduction = deductInventory(
+      containers,
+      { productId: "acid", amount: 80, unit: "ml" },
+      "2026-01-03T10:00:00.000Z",
+      "s1"
+    );
+
+    const restored = restoreInventory(
+      deduction.containers,
+      deduction.movements,
+      { productId: "acid", amount: 40, unit: "ml" },
+      "2026-01-04T10:00:00.000Z",
+      "s1"
+    );
+    expect(restored.containers.map((container) => [container.id, container.remaining])).toEqual([
+      ["new", 1000],
+      ["open", 10]
+    ]);
+    expect(restored.containers[1].emptiedAt).toBeUndefined();
+    expect(
+      restored.movements.map((movement) => [movement.kind, movement.containerId, movement.amount])
+    ).toEqual([
+      ["reversal", "new", 30],
+      ["reversal", "open", 10]
+    ]);
+  });
+
+  it("anula primero el faltante y no devuelve mas de lo descontado", () => {
+    const deduction = deductInventory(
+      [makeContainer("c1", { remaining: 30 })],
+      { productId: "acid", amount: 80, unit: "ml" },
+      "2026-01-03T10:00:00.000Z",
+      "s1"
+    );
+
+    const restored = restoreInventory(
+      deduction.containers,
+      deduction.movements,
+      { productId: "acid", amount: 100, unit: "ml" },
+      "2026-01-04T10:00:00.000Z",
+      "s1"
+    );
+    expect(restored.containers).toEqual([
+      { ...deduction.containers[0], remaining: 30, emptiedAt: undefined }
+    ]);
+    expect(restored.movements.map((movement) => [movement.containerId, movement.amount])).toEqual([
+      [undefined, 50],
+      ["c1", 30]
+    ]);
+  });
+});
+
+describe("avisos de stock", () => {
+  const now = new Date("2026-01-15T10:00:00.000Z");
+  const sessions = [
+    makeSession("s1", "2026-01-10T10:00:00.000Z", {
+      appliedDoses: { phStage1: 140, phUnit: "ml" },
+      products
+    }),
+    makeSession("s0", "2025-12-01T10:00:00.000Z", {
+      appliedDoses: { phStage1: 500, phUnit: "ml" },
+      products
+    })
+  ];
+
+  it("promedia el consumo de los ultimos 14 dias", () => {
+    expect(estimateDailyUsage(sessions, "acid", now)).toBeCloseTo(10, 9);
+  });
+
+  it("avisa si el plan o el consumo previsto superan el stock", () => {
+    const containers = [
+      makeContainer("c1", { remaining: 60 }),
+      makeContainer("c2", { remaining: 0, emptiedAt: "2026-01-09T10:00:00.000Z" })
+    ];
+    const warnings = getStockWarnings(
+      containers,
+      sessions,
+      [
+        { productId: "acid", amount: 80, unit: "ml" },
+        { productId: "dichlor", amount: 20, unit: "g" }
+      ],
+      now
+    );
+
+    expect(warnings).toEqual([
+      { kind: "plan", productId: "acid", remaining: 60, required: 80, unit: "ml" },
+      {
+        kind: "forecast",
+        productId: "acid",
+        remaining: 60,
+        required: 70,
+        unit: "ml",
+        daysLeft: 6
+      }
+    ]);
+    expect(getProductStock(containers, "acid")).toEqual({
+      remaining: 60,
+      unit: "ml",
+      containerCount: 1
+    });
+  });
+
+  it("suma el acido del pH y de la alcalinidad antes de compararlo con el stock", () => {
+    const warnings = getStockWarnings(
+      [makeContainer("c1", { remaining: 300 })],
+      [],
+      [
+        { productId: "acid", amount: 200, unit: "ml" },
+        { productId: "acid", amount: 150, unit: "ml" }
+      ],
+      now
+    );
+
+    expect(warnings).toEqual([
+      { kind: "plan", productId: "acid", remaining: 300, required: 350, unit: "ml" }
+    ]);
+  });
+});
+
+describe("getRestockHistory", () => {
+  it("lista solo reposiciones de la mas reciente a la mas antigua", () => {
+    const movements: InventoryMovement[] = [
+      {
+        id: "m1",
+        productId: "acid",
+        kind: "restock",
+        amount: 1000,
+        unit: "ml",
+        at: "2026-01-01T10:00:00.000Z"
+      },
+      {
+        id: "m2",
+        productId: "acid",
+        kind: "usage",
+        amount: 40,
+        unit: "ml",
+        at: "2026-01-02T10:00:00.000Z"
+      },
+      {
+        id: "m3",
+        productId: "acid",
+        kind: "restock",
+        amount: 1000,
+        unit: "ml",
+        at: "2026-01-05T10:00:00.000Z",
+        price: 3.5
+      }
+    ];
+    expect(getRestockHistory(movements).map((movement) => movement.id)).toEqual(["m3", "m1"]);
+  });
+});
@@ -0,0 +1,317 @@
+import type { DoseUnit, InventoryContainer, InventoryMovement, Session } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USAGE_WINDOW_DAYS = 14;
+// Se avisa cuando el consumo promedio agota el stock antes de esta cantidad de dias.
+export const STOCK_WARNING_DAYS = 7;
+
+export interface ProductUsage {
+  productId: string;
+  amount: number;
+  unit: DoseUnit;
+}
+
+export interface ProductStock {
+  remaining: number;
+  unit: DoseUnit | null;
+  containerCount: number;
+}
+
+export interface InventoryDeduction {
+  containers: InventoryContainer[];
+  movements: InventoryMovement[];
+  shortfall: number;
+}
+
+export type StockWarningKind = "plan" | "forecast";
+
+export interface StockWarning {
+  kind: StockWarningKind;
+  productId: string;
+  remaining: number;
+  required: number;
+  unit: DoseUnit;
+  daysLeft?: number;
+}
+
+export function getSessionProductUsage(session: Session): ProductUsage[] {
+  const usage: ProductUsage[] = [];
+  const chlorine = session.appliedDoses.chlorine ?? 0;
+  const chlorineProduct = session.products?.chlorine;
+  if (chlorine > 0 && chlorineProduct) {
+    addUsage(usage, {
+      productId: chlorineProduct.id,
+      amount: chlorine,
+      unit: session.appliedDoses.chlorineUnit ?? session.requiredChlorineDose.unit
+    });
+  }
+
+  const ph = (session.appliedDoses.phStage1 ?? 0) + (session.appliedDoses.phStage2 ?? 0);
+  const phProduct =
+    session.requiredPhCorrection.direction === "up"
+      ? session.products?.phUp
+      : (session.products?.acid ?? session.products?.phUp);
+  if (ph > 0 && phProduct) {
+    addUsage(usage, {
+      productId: phProduct.id,
+      amount: ph,
+      unit: session.appliedDoses.phUnit ?? session.requiredPhCorrection.unit
+    });
+  }
+
+  // El bicarbonato no esta en el catalogo: solo el acido para bajar TA descuenta stock.
+  const alkalinity = session.appliedDoses.alkalinity ?? 0;
+  const alkalinityCorrection = session.requiredAlkalinityCorrection;
+  if (alkalinity > 0 && alkalinityCorrection?.direction === "down" && session.products?.acid) {
+    addUsage(usage, {
+      productId: session.products.acid.id,
+      amount: alkalinity,
+      unit: session.appliedDoses.alkalinityUnit ?? alkalinityCorrection.unit
+    });
+  }
+
+  return usage;
+}
+
+function addUsage(usage: ProductUsage[], next: ProductUsage): void {
+  const existing = usage.find(
+    (item) => item.productId === next.productId && item.unit === next.unit
+  );
+  if (existing) {
+    existing.amount += next.amount;
+  } else {
+    usage.push(next);
+  }
+}
+
+function isAvailable(container: InventoryContainer, usage: ProductUsage): boolean {
+  return (
+    container.productId === usage.productId &&
+    container.unit === usage.unit &&
+    !container.emptiedAt &&
+    container.remaining > 0
+  );
+}
+
+// Primero se vacian los envases abiertos y luego los mas antiguos.
+function compareConsumptionOrder(a: InventoryContainer, b: InventoryContainer): number {
+  if (Boolean(a.openedAt) !== Boolean(b.openedAt)) {
+    return a.openedAt ? -1 : 1;
+  }
+  const aDate = a.openedAt ?? a.purchasedAt;
+  const bDate = b.openedAt ?? b.purchasedAt;
+  return Date.parse(aDate) - Date.parse(bDate);
+}
+
+export function deductInventory(
+  containers: InventoryContainer[],
+  usage: ProductUsage,
+  at: string,
+  sessionId?: string
+): InventoryDeduction {
+  const updated: InventoryContainer[] = [];
+  const movements: InventoryMovement[] = [];
+  let pending = usage.amount;
+
+  const available = containers
+    .filter((container) => isAvailable(container, usage))
+    .sort(compareConsumptionOrder);
+  for (const container of available) {
+    if (pending <= 0) {
+      break;
+    }
+
+    const taken = Math.min(container.remaining, pending);
+    const remaining = container.remaining - taken;
+    pending -= taken;
+    updated.push({
+      ...container,
+      remaining,
+      openedAt: container.openedAt ?? at,
+      emptiedAt: remaining <= 0 ? at : undefined
+    });
+    movements.push({
+      id: crypto.randomUUID(),
+      productId: usage.productId,
+      containerId: container.id,
+      kind: "usage",
+      amount: taken,
+      unit: usage.unit,
+      at,
+      sessionId
+    });
+  }
+
+  // El faltante se registra sin envase para que el consumo quede completo.
+  if (pending > 0) {
+    movements.push({
+      id: crypto.randomUUID(),
+      productId: usage.productId,
+      kind: "usage",
+      amount: pending,
+      unit: usage.unit,
+      at,
+      sessionId
+    });
+  }
+
+  return { containers: updated, movements, shortfall: pending };
+}
+
+// Diferencia de consumo entre dos versiones de una sesion: positiva se descuenta, negativa
+// se devuelve al stock.
+export function diffProductUsage(before: ProductUsage[], after: ProductUsage[]): ProductUsage[] {
+  const diff = after.map((usage) => ({ ...usage }));
+  for (const usage of before) {
+    addUsage(diff, { ...usage, amount: -usage.amount });
+  }
+  return diff.filter((usage) => Math.abs(usage.amount) > 1e-9);
+}
+
+// Devuelve a los envases lo que la sesion habia descontado de ellos: primero el faltante
+// registrado sin envase y luego desde el ultimo envase abierto hacia atras.
+export function restoreInventory(
+  containers: InventoryContainer[],
+  sessionMovements: InventoryMovement[],
+  usage: ProductUsage,
+  at: string,
+  sessionId: string
+): Omit<InventoryDeduction, "shortfall"> {
+  const taken = new Map<string, number>();
+  for (const movement of sessionMovements) {
+    if (
+      movement.sessionId !== sessionId ||
+      movement.productId !== usage.productId ||
+      movement.unit !== usage.unit ||
+      movement.kind === "restock"
+    ) {
+      continue;
+    }
+    const key = movement.containerId ?? "";
+    const sign = movement.kind === "usage" ? 1 : -1;
+    taken.set(key, (taken.get(key) ?? 0) + sign * movement.amount);
+  }
+
+  const getOrderDate = (key: string) => {
+    const container = containers.find((item) => item.id === key);
+    return container ? Date.parse(container.openedAt ?? container.purchasedAt) : Infinity;
+  };
+  const keys = [...taken.keys()].sort((a, b) => getOrderDate(b) - getOrderDate(a));
+
+  const updated: InventoryContainer[] = [];
+  const movements: InventoryMovement[] = [];
+  let pending = usage.amount;
+  for (const key of keys) {
+    const returned = Math.min(pending, taken.get(key)!);
+    if (returned <= 0) {
+      continue;
+    }
+
+    const container = containers.find((item) => item.id === key);
+    if (container) {
+      updated.push({
+        ...container,
+        remaining: container.remaining + returned,
+        emptiedAt: undefined
+      });
+    }
+    movements.push({
+      id: crypto.randomUUID(),
+      productId: usage.productId,
+      containerId: container?.id,
+      kind: "reversal",
+      amount: returned,
+      unit: usage.unit,
+      at,
+      sessionId
+    });
+    pending -= returned;
+  }
+
+  return { containers: updated, movements };
+}
+
+export function getProductStock(containers: InventoryContainer[], productId: string): ProductStock {
+  const active = containers.filter(
+    (container) => container.productId === productId && !container.emptiedAt
+  );
+  return {
+    remaining: active.reduce((sum, container) => sum + container.remaining, 0),
+    unit: active[0]?.unit ?? null,
+    containerCount: active.length
+  };
+}
+
+export function estimateDailyUsage(
+  sessions: Session[],
+  productId: string,
+  now: Date,
+  windowDays: number = USAGE_WINDOW_DAYS
+): number {
+  const since = now.getTime() - windowDays * DAY_MS;
+  const total = sessions
+    .filter((session) => Date.parse(session.timestamp) >= since)
+    .flatMap(getSessionProductUsage)
+    .filter((usage) => usage.productId === productId)
+    .reduce((sum, usage) => sum + usage.amount, 0);
+  return total / windowDays;
+}
+
+export function getStockWarnings(
+  containers: InventoryContainer[],
+  sessions: Session[],
+  plannedUsage: ProductUsage[],
+  now: Date
+): StockWarning[] {
+  const warnings: StockWarning[] = [];
+  const stockedProductIds = new Set(containers.map((container) => container.productId));
+
+  // El mismo producto puede aparecer dos veces en un plan (acido para pH y para TA).
+  const plannedTotals: ProductUsage[] = [];
+  for (const usage of plannedUsage) {
+    addUsage(plannedTotals, { ...usage });
+  }
+
+  // Solo se avisa por productos con inventario registrado.
+  for (const usage of plannedTotals) {
+    if (!stockedProductIds.has(usage.productId) || usage.amount <= 0) {
+      continue;
+    }
+    const stock = getProductStock(containers, usage.productId);
+    if (usage.amount > stock.remaining) {
+      warnings.push({
+        kind: "plan",
+        productId: usage.productId,
+        remaining: stock.remaining,
+        required: usage.amount,
+        unit: usage.unit
+      });
+    }
+  }
+
+  for (const productId of stockedProductIds) {
+    const stock = getProductStock(containers, productId);
+    const dailyUsage = estimateDailyUsage(sessions, productId, now);
+    const required = dailyUsage * STOCK_WARNING_DAYS;
+    if (dailyUsage <= 0 || required <= stock.remaining) {
+      continue;
+    }
+    warnings.push({
+      kind: "forecast",
+      productId,
+      remaining: stock.remaining,
+      required,
+      unit: stock.unit ?? containers.find((container) => container.productId === productId)!.unit,
+      daysLeft: stock.remaining / dailyUsage
+    });
+  }
+
+  return warnings;
+}
+
+export function getRestockHistory(movements: InventoryMovement[]): InventoryMovement[] {
+  return movements
+    .filter((movement) => movement.kind === "restock")
+    .slice()
+    .sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { calculateLsi, classifyLsi, getCyaAlkalinityFactor, type LsiTargets } from "./lsi";
+
+const targets: LsiTargets = {
+  phMin: 7.2,
+  phMax: 7.6,
+  alkalinityMinPpm: 80,
+  alkalinityMaxPpm: 120
+};
+
+describe("calculateLsi", () => {
+  it("calcula el indice con la formula pH - pHs", () => {
+    const result = calculateLsi(
+      {
+        ph: 7.5,
+        alkalinityPpm: 100,
+        calciumHardnessPpm: 250,
+        temperatureC: 25,
+        tdsPpm: 1000
+      },
+      targets
+    );
+
+    expect(result.saturationPh).toBeCloseTo(7.5903426, 6);
+    expect(result.index).toBeCloseTo(-0.0903426, 6);
+    expect(result.status).toBe("balanced");
+    expect(result.corrections).toEqual([]);
+    expect(result.trace.note).toBeUndefined();
+  });
+
+  it("detecta agua corrosiva y sugiere correcciones dentro del objetivo", () => {
+    const result = calculateLsi(
+      {
+        ph: 7.2,
+        alkalinityPpm: 60,
+        calciumHardnessPpm: 100,
+        temperatureC: 15
+      },
+      targets
+    );
+
+    expect(result.index).toBeCloseTo(-1.2046193, 6);
+    expect(result.status).toBe("corrosive");
+    expect(result.corrections).toEqual([
+      "Subir la alcalinidad total a ~120 ppm con bicarbonato de sodio acerca el indice a -0.9 sin salir del objetivo.",
+      "O subir la dureza calcica a ~400 ppm con cloruro de calcio acerca el indice a -0.6 sin salir del objetivo.",
+      "O subir el pH a 7.6 acerca el indice a -0.8 sin salir del objetivo."
+    ]);
+    expect(result.trace.note).toContain("TDS no medido");
+  });
+
+  it("sin parametros fuera de rango sugiere primero el pH", () => {
+    const result = calculateLsi(
+      {
+        ph: 7.2,
+        alkalinityPpm: 100,
+        calciumHardnessPpm: 250,
+        temperatureC: 20,
+        tdsPpm: 1000
+      },
+      targets
+    );
+
+    expect(result.status).toBe("corrosive");
+    expect(result.corrections[0]).toBe("Subir el pH a 7.6 equilibraria el agua por si solo.");
+  });
+
+  it("descuenta el CYA de la alcalinidad y detecta agua incrustante", () => {
+    const result = calculateLsi(
+      {
+        ph: 7.8,
+        alkalinityPpm: 150,
+        calciumHardnessPpm: 500,
+        temperatureC: 30,
+        tdsPpm: 1500,
+        cyaPpm: 60
+      },
+      targets
+    );
+
+    expect(result.carbonateAlkalinityPpm).toBeCloseTo(150 - 60 * 0.35, 9);
+    expect(result.index).toBeCloseTo(0.6984779, 6);
+    expect(result.status).toBe("scale-forming");
+    expect(result.corrections[0]).toContain("Bajar el pH");
+  });
+});
+
+describe("apoyos del LSI", () => {
+  it("interpola la fraccion de CYA segun el pH", () => {
+    expect(getCyaAlkalinityFactor(6.8)).toBe(0.23);
+    expect(getCyaAlkalinityFactor(7.5)).toBeCloseTo(0.32, 9);
+    expect(getCyaAlkalinityFactor(8.2)).toBe(0.36);
+  });
+
+  it("clasifica con un margen de +/- 0.3", () => {
+    expect(classifyLsi(-0.31)).toBe("corrosive");
+    expect(classifyLsi(0.3)).toBe("balanced");
+    expect(classifyLsi(0.31)).toBe("scale-forming");
+  });
+});
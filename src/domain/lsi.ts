@@ -0,0 +1,267 @@
+import { toFixedNumber } from "./calculations";
+import type { CalculationTrace, PoolConfig, TraceValue } from "./types";
+
+const DEFAULT_TDS_PPM = 1000;
+const BALANCED_LSI_LIMIT = 0.3;
+// Rango habitual de dureza calcica en piscinas (la configuracion no lo define).
+const CALCIUM_HARDNESS_MIN_PPM = 200;
+const CALCIUM_HARDNESS_MAX_PPM = 400;
+// Fraccion del CYA que se mide como alcalinidad segun el pH (interpolacion lineal).
+const CYA_ALKALINITY_FACTORS: Array<[number, number]> = [
+  [7.0, 0.23],
+  [7.2, 0.27],
+  [7.4, 0.31],
+  [7.6, 0.33],
+  [7.8, 0.35],
+  [8.0, 0.36]
+];
+
+export type LsiStatus = "corrosive" | "balanced" | "scale-forming";
+
+export interface LsiInput {
+  ph: number;
+  alkalinityPpm: number;
+  calciumHardnessPpm: number;
+  temperatureC: number;
+  tdsPpm?: number;
+  cyaPpm?: number;
+}
+
+export type LsiTargets = Pick<
+  PoolConfig["targets"],
+  "phMin" | "phMax" | "alkalinityMinPpm" | "alkalinityMaxPpm"
+>;
+
+export interface LsiResult {
+  index: number;
+  saturationPh: number;
+  carbonateAlkalinityPpm: number;
+  status: LsiStatus;
+  corrections: string[];
+  trace: CalculationTrace;
+}
+
+export function getCyaAlkalinityFactor(ph: number): number {
+  const first = CYA_ALKALINITY_FACTORS[0];
+  const last = CYA_ALKALINITY_FACTORS[CYA_ALKALINITY_FACTORS.length - 1];
+  if (ph <= first[0]) {
+    return first[1];
+  }
+  if (ph >= last[0]) {
+    return last[1];
+  }
+
+  for (let index = 1; index < CYA_ALKALINITY_FACTORS.length; index += 1) {
+    const [upperPh, upperFactor] = CYA_ALKALINITY_FACTORS[index];
+    if (ph <= upperPh) {
+      const [lowerPh, lowerFactor] = CYA_ALKALINITY_FACTORS[index - 1];
+      const ratio = (ph - lowerPh) / (upperPh - lowerPh);
+      return lowerFactor + ratio * (upperFactor - lowerFactor);
+    }
+  }
+  return last[1];
+}
+
+export function classifyLsi(index: number): LsiStatus {
+  if (index < -BALANCED_LSI_LIMIT) {
+    return "corrosive";
+  }
+  if (index > BALANCED_LSI_LIMIT) {
+    return "scale-forming";
+  }
+  return "balanced";
+}
+
+export function getLsiStatusLabel(status: LsiStatus): string {
+  if (status === "corrosive") {
+    return "Corrosiva";
+  }
+  if (status === "scale-forming") {
+    return "Incrustante";
+  }
+  return "Equilibrada";
+}
+
+interface CorrectionOption {
+  outOfRange: boolean;
+  action: string;
+  resultingIndex: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function describeCorrection(option: CorrectionOption, position: number): string {
+  const action =
+    position === 0
+      ? option.action
+      : `O ${option.action.charAt(0).toLowerCase()}${option.action.slice(1)}`;
+  const outcome =
+    classifyLsi(option.resultingIndex) === "balanced"
+      ? "equilibraria el agua por si solo"
+      : `acerca el indice a ${toFixedNumber(option.resultingIndex, 2)} sin salir del objetivo`;
+  return `${action} ${outcome}.`;
+}
+
+function buildCorrections(
+  status: LsiStatus,
+  index: number,
+  saturationPh: number,
+  input: LsiInput,
+  targets: LsiTargets,
+  carbonateAlkalinityPpm: number,
+  cyaAlkalinityPpm: number
+): string[] {
+  if (status === "balanced") {
+    return [];
+  }
+
+  // Cada termino logaritmico mueve el indice 1:1, asi que basta compensar -LSI;
+  // cada sugerencia se recorta al rango objetivo para no cambiar un problema por otro.
+  const raise = status === "corrosive";
+  const factor = Math.pow(10, -index);
+  const options: CorrectionOption[] = [];
+
+  const phTarget = toFixedNumber(clamp(saturationPh, targets.phMin, targets.phMax), 1);
+  if (raise ? phTarget > input.ph : phTarget < input.ph) {
+    options.push({
+      outOfRange: raise ? input.ph < targets.phMin : input.ph > targets.phMax,
+      action: `${raise ? "Subir" : "Bajar"} el pH a ${phTarget}`,
+      resultingIndex: index + phTarget - input.ph
+    });
+  }
+
+  const alkalinityTarget = toFixedNumber(
+    clamp(
+      carbonateAlkalinityPpm * factor + cyaAlkalinityPpm,
+      targets.alkalinityMinPpm,
+      targets.alkalinityMaxPpm
+    ),
+    0
+  );
+  if (raise ? alkalinityTarget > input.alkalinityPpm : alkalinityTarget < input.alkalinityPpm) {
+    options.push({
+      outOfRange: raise
+        ? input.alkalinityPpm < targets.alkalinityMinPpm
+        : input.alkalinityPpm > targets.alkalinityMaxPpm,
+      action: raise
+        ? `Subir la alcalinidad total a ~${alkalinityTarget} ppm con bicarbonato de sodio`
+        : `Bajar la alcalinidad total a ~${alkalinityTarget} ppm con acido y aireacion`,
+      resultingIndex:
+        index +
+        Math.log10(Math.max(1, alkalinityTarget - cyaAlkalinityPpm) / carbonateAlkalinityPpm)
+    });
+  }
+
+  const calciumTarget = toFixedNumber(
+    clamp(input.calciumHardnessPpm * factor, CALCIUM_HARDNESS_MIN_PPM, CALCIUM_HARDNESS_MAX_PPM),
+    0
+  );
+  if (raise ? calciumTarget > input.calciumHardnessPpm : calciumTarget < input.calciumHardnessPpm) {
+    options.push({
+      outOfRange: raise
+        ? input.calciumHardnessPpm < CALCIUM_HARDNESS_MIN_PPM
+        : input.calciumHardnessPpm > CALCIUM_HARDNESS_MAX_PPM,
+      action: raise
+        ? `Subir la dureza calcica a ~${calciumTarget} ppm con cloruro de calcio`
+        : `Reemplazar agua para bajar la dureza calcica a ~${calciumTarget} ppm`,
+      resultingIndex: index + Math.log10(calciumTarget / Math.max(1, input.calciumHardnessPpm))
+    });
+  }
+
+  if (options.length === 0) {
+    return [
+      "pH, alcalinidad y dureza ya estan en el limite del objetivo: repetir la medicion o renovar parte del agua."
+    ];
+  }
+
+  // Primero lo que esta fuera de rango: corregirlo ya es necesario por si mismo.
+  return options
+    .sort((a, b) => Number(b.outOfRange) - Number(a.outOfRange))
+    .map(describeCorrection);
+}
+
+export function calculateLsi(input: LsiInput, targets: LsiTargets): LsiResult {
+  const tdsPpm = input.tdsPpm ?? DEFAULT_TDS_PPM;
+  const cyaPpm = input.cyaPpm ?? 0;
+  const cyaFactor = getCyaAlkalinityFactor(input.ph);
+  const cyaAlkalinityPpm = cyaPpm * cyaFactor;
+  // Con valores no positivos el logaritmo no existe; se acota a 1 ppm.
+  const carbonateAlkalinityPpm = Math.max(1, input.alkalinityPpm - cyaAlkalinityPpm);
+  const calciumPpm = Math.max(1, input.calciumHardnessPpm);
+
+  const tdsTerm = (Math.log10(Math.max(1, tdsPpm)) - 1) / 10;
+  const temperatureTerm = -13.12 * Math.log10(input.temperatureC + 273) + 34.55;
+  const calciumTerm = Math.log10(calciumPpm) - 0.4;
+  const alkalinityTerm = Math.log10(carbonateAlkalinityPpm);
+  const saturationPh = 9.3 + tdsTerm + temperatureTerm - (calciumTerm + alkalinityTerm);
+  const index = input.ph - saturationPh;
+  const status = classifyLsi(index);
+
+  const inputs: TraceValue[] = [
+    { symbol: "pH", label: "pH medido", value: input.ph },
+    { symbol: "TA", label: "Alcalinidad total", value: input.alkalinityPpm, unit: "ppm" },
+    { symbol: "CH", label: "Dureza calcica", value: input.calciumHardnessPpm, unit: "ppm" },
+    { symbol: "T", label: "Temperatura del agua", value: input.temperatureC, unit: "°C" },
+    { symbol: "TDS", label: "Solidos disueltos", value: tdsPpm, unit: "ppm" },
+    { symbol: "CYA", label: "Acido cianurico", value: cyaPpm, unit: "ppm" }
+  ];
+  const trace: CalculationTrace = {
+    title: "Indice de saturacion de Langelier (LSI)",
+    inputs,
+    constants: [
+      { symbol: "L", label: "Limite de agua equilibrada (+/-)", value: BALANCED_LSI_LIMIT }
+    ],
+    steps: [
+      {
+        symbol: "f_CYA",
+        label: "Fraccion de CYA medida como alcalinidad",
+        formula: "interpolacion segun pH",
+        value: cyaFactor
+      },
+      {
+        symbol: "CA",
+        label: "Alcalinidad de carbonatos",
+        formula: "TA - CYA * f_CYA",
+        value: carbonateAlkalinityPpm,
+        unit: "ppm"
+      },
+      { symbol: "A", label: "Termino de TDS", formula: "(log10(TDS) - 1) / 10", value: tdsTerm },
+      {
+        symbol: "B",
+        label: "Termino de temperatura",
+        formula: "-13.12 * log10(T + 273) + 34.55",
+        value: temperatureTerm
+      },
+      { symbol: "C", label: "Termino de calcio", formula: "log10(CH) - 0.4", value: calciumTerm },
+      { symbol: "D", label: "Termino de alcalinidad", formula: "log10(CA)", value: alkalinityTerm },
+      {
+        symbol: "pHs",
+        label: "pH de saturacion",
+        formula: "9.3 + A + B - (C + D)",
+        value: saturationPh
+      },
+      { symbol: "LSI", label: "Indice de Langelier", formula: "pH - pHs", value: index }
+    ],
+    result: { symbol: "LSI", label: "Indice de Langelier", value: index },
+    note: input.tdsPpm === undefined ? `TDS no medido: se asume ${DEFAULT_TDS_PPM} ppm.` : undefined
+  };
+
+  return {
+    index,
+    saturationPh,
+    carbonateAlkalinityPpm,
+    status,
+    corrections: buildCorrections(
+      status,
+      index,
+      saturationPh,
+      input,
+      targets,
+      carbonateAlkalinityPpm,
+      cyaAlkalinityPpm
+    ),
+    trace
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPhWizard,
+  getRemainingPhDose,
+  getRemainingWaitMinutes,
+  transitionPhWizard,
+  type PhWizardEvent,
+  type PhWizardState
+} from "./phWizard";
+
+const correction = { direction: "down" as const, total: 120, stage1: 60, unit: "ml" as const };
+const checklist = {
+  pumpOn: true,
+  dilutedCorrectly: true,
+  perimeterApplication: true,
+  waitRespected: true
+};
+
+function run(state: PhWizardState, events: PhWizardEvent[]): PhWizardState {
+  return events.reduce((current, event) => {
+    const result = transitionPhWizard(current, event);
+    if (!result.ok) {
+      throw new Error(result.reason);
+    }
+    return result.state;
+  }, state);
+}
+
+function untilIntermediate(): PhWizardState {
+  return run(createPhWizard(45), [
+    { type: "evaluate", measuredPh: 7.9, correction },
+    { type: "apply-stage1", at: "2026-01-10T10:00:00.000Z" },
+    { type: "start-wait", at: "2026-01-10T10:01:00.000Z" },
+    { type: "record-intermediate", measuredPh: 7.7, at: "2026-01-10T10:30:00.000Z" }
+  ]);
+}
+
+describe("transitionPhWizard", () => {
+  it("recorre el flujo completo de dos etapas", () => {
+    const state = run(untilIntermediate(), [
+      { type: "apply-stage2", dose: 60, at: "2026-01-10T10:45:00.000Z" },
+      { type: "open-checklist" },
+      { type: "complete", checklist, at: "2026-01-10T10:50:00.000Z" }
+    ]);
+
+    expect(state.step).toBe("completed");
+    expect(state.measuredPhIntermediate).toBe(7.7);
+    expect(state.stage2Dose).toBe(60);
+    expect(state.checklist).toEqual(checklist);
+  });
+
+  it("rechaza la etapa 2 antes de cumplir la espera", () => {
+    const state = untilIntermediate();
+    const result = transitionPhWizard(state, {
+      type: "apply-stage2",
+      dose: 60,
+      at: "2026-01-10T10:30:00.000Z"
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.state).toBe(state);
+    if (!result.ok) {
+      expect(result.reason).toContain("Faltan 15 min");
+    }
+  });
+
+  it("rechaza la etapa 2 sin lectura intermedia", () => {
+    const waiting = run(createPhWizard(45), [
+      { type: "evaluate", measuredPh: 7.9, correction },
+      { type: "apply-stage1", at: "2026-01-10T10:00:00.000Z" },
+      { type: "start-wait", at: "2026-01-10T10:00:00.000Z" }
+    ]);
+
+    const result = transitionPhWizard(waiting, {
+      type: "apply-stage2",
+      dose: 60,
+      at: "2026-01-10T11:00:00.000Z"
+    });
+    expect(result.ok).toBe(false);
+    expect(waiting.step).toBe("waiting");
+  });
+
+  it("permite omitir la etapa 2 tras la lectura intermedia", () => {
+    const state = run(untilIntermediate(), [{ type: "skip-stage2" }]);
+    expect(state.step).toBe("checklist");
+    expect(state.stage2Dose).toBe(0);
+  });
+
+  it("pasa directo al checklist cuando el pH esta en rango", () => {
+    const evaluated = run(createPhWizard(45), [
+      {
+        type: "evaluate",
+        measuredPh: 7.4,
+        correction: { direction: "none", total: 0, stage1: 0, unit: "ml" }
+      }
+    ]);
+
+    expect(
+      transitionPhWizard(evaluated, { type: "apply-stage1", at: "2026-01-10T10:00:00.000Z" }).ok
+    ).toBe(false);
+    expect(run(evaluated, [{ type: "open-checklist" }]).step).toBe("checklist");
+  });
+
+  it("rechaza eventos fuera de orden y lecturas fuera de rango", () => {
+    const initial = createPhWizard(45);
+    expect(
+      transitionPhWizard(initial, { type: "start-wait", at: "2026-01-10T10:00:00.000Z" }).ok
+    ).toBe(false);
+    expect(transitionPhWizard(initial, { type: "evaluate", measuredPh: 9, correction }).ok).toBe(
+      false
+    );
+  });
+
+  it("reinicia conservando la espera configurada", () => {
+    const state = run(untilIntermediate(), [{ type: "reset" }]);
+    expect(state).toEqual(createPhWizard(45));
+  });
+});
+
+describe("tiempos y dosis del asistente", () => {
+  it("calcula minutos restantes desde la etapa 1", () => {
+    const state = untilIntermediate();
+    expect(getRemainingWaitMinutes(state, "2026-01-10T10:40:00.000Z")).toBe(5);
+    expect(getRemainingWaitMinutes(state, "2026-01-10T11:00:00.000Z")).toBe(0);
+    expect(getRemainingWaitMinutes(createPhWizard(30), "2026-01-10T11:00:00.000Z")).toBe(30);
+  });
+
+  it("devuelve la dosis restante del plan original", () => {
+    expect(getRemainingPhDose(untilIntermediate())).toBe(60);
+    expect(getRemainingPhDose(createPhWizard(45))).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { isPhInRange } from "./calculations";
+import type { Session } from "./types";
+
+export type PhWizardStep =
+  | "measurement"
+  | "evaluation"
+  | "stage1-applied"
+  | "waiting"
+  | "intermediate-measurement"
+  | "stage2"
+  | "checklist"
+  | "completed";
+
+export type PhCorrection = Session["requiredPhCorrection"];
+export type PostApplicationChecklist = NonNullable<Session["postApplicationChecklist"]>;
+
+export interface PhWizardState {
+  step: PhWizardStep;
+  waitMinutes: number;
+  measuredPh: number | null;
+  correction: PhCorrection | null;
+  stage1AppliedAt: string | null;
+  waitStartedAt: string | null;
+  measuredPhIntermediate: number | null;
+  intermediateMeasuredAt: string | null;
+  stage2Dose: number | null;
+  stage2AppliedAt: string | null;
+  checklist: PostApplicationChecklist | null;
+  completedAt: string | null;
+}
+
+export type PhWizardEvent =
+  | { type: "evaluate"; measuredPh: number; correction: PhCorrection }
+  | { type: "apply-stage1"; at: string }
+  | { type: "start-wait"; at: string }
+  | { type: "record-intermediate"; measuredPh: number; at: string }
+  | { type: "apply-stage2"; dose: number; at: string }
+  | { type: "skip-stage2" }
+  | { type: "open-checklist" }
+  | { type: "complete"; checklist: PostApplicationChecklist; at: string }
+  | { type: "reset" };
+
+export type PhWizardTransition =
+  { ok: true; state: PhWizardState } | { ok: false; state: PhWizardState; reason: string };
+
+const ALLOWED_STEPS: Record<PhWizardEvent["type"], PhWizardStep[]> = {
+  evaluate: ["measurement", "evaluation"],
+  "apply-stage1": ["evaluation"],
+  "start-wait": ["stage1-applied"],
+  "record-intermediate": ["waiting", "intermediate-measurement"],
+  "apply-stage2": ["intermediate-measurement"],
+  "skip-stage2": ["intermediate-measurement"],
+  "open-checklist": ["evaluation", "stage2"],
+  complete: ["checklist"],
+  reset: [
+    "measurement",
+    "evaluation",
+    "stage1-applied",
+    "waiting",
+    "intermediate-measurement",
+    "stage2",
+    "checklist",
+    "completed"
+  ]
+};
+
+export function createPhWizard(waitMinutes: number): PhWizardState {
+  return {
+    step: "measurement",
+    waitMinutes,
+    measuredPh: null,
+    correction: null,
+    stage1AppliedAt: null,
+    waitStartedAt: null,
+    measuredPhIntermediate: null,
+    intermediateMeasuredAt: null,
+    stage2Dose: null,
+    stage2AppliedAt: null,
+    checklist: null,
+    completedAt: null
+  };
+}
+
+export function getMinutesSinceStage1(state: PhWizardState, at: string): number | null {
+  if (!state.stage1AppliedAt) {
+    return null;
+  }
+  return (Date.parse(at) - Date.parse(state.stage1AppliedAt)) / 60000;
+}
+
+export function getRemainingWaitMinutes(state: PhWizardState, at: string): number {
+  const elapsed = getMinutesSinceStage1(state, at);
+  if (elapsed === null) {
+    return state.waitMinutes;
+  }
+  return Math.max(0, state.waitMinutes - elapsed);
+}
+
+export function getRemainingPhDose(state: PhWizardState): number {
+  if (!state.correction) {
+    return 0;
+  }
+  return Math.max(0, state.correction.total - state.correction.stage1);
+}
+
+function reject(state: PhWizardState, reason: string): PhWizardTransition {
+  return { ok: false, state, reason };
+}
+
+function accept(state: PhWizardState): PhWizardTransition {
+  return { ok: true, state };
+}
+
+export function transitionPhWizard(state: PhWizardState, event: PhWizardEvent): PhWizardTransition {
+  if (!ALLOWED_STEPS[event.type].includes(state.step)) {
+    return reject(state, `No se puede ejecutar "${event.type}" en el paso "${state.step}".`);
+  }
+
+  switch (event.type) {
+    case "evaluate":
+      if (!isPhInRange(event.measuredPh)) {
+        return reject(state, "El pH medido esta fuera del rango valido (6.8 a 8.2).");
+      }
+      return accept({
+        ...createPhWizard(state.waitMinutes),
+        step: "evaluation",
+        measuredPh: event.measuredPh,
+        correction: event.correction
+      });
+
+    case "apply-stage1":
+      if (!state.correction || state.correction.direction === "none") {
+        return reject(state, "El pH esta en rango: no hay etapa 1 que aplicar.");
+      }
+      if (state.correction.stage1 <= 0) {
+        return reject(state, "La dosis de etapa 1 debe ser mayor que 0.");
+      }
+      return accept({ ...state, step: "stage1-applied", stage1AppliedAt: event.at });
+
+    case "start-wait":
+      return accept({ ...state, step: "waiting", waitStartedAt: event.at });
+
+    case "record-intermediate":
+      if (!isPhInRange(event.measuredPh)) {
+        return reject(state, "El pH intermedio esta fuera del rango valido (6.8 a 8.2).");
+      }
+      return accept({
+        ...state,
+        step: "intermediate-measurement",
+        measuredPhIntermediate: event.measuredPh,
+        intermediateMeasuredAt: event.at
+      });
+
+    case "apply-stage2": {
+      if (state.measuredPhIntermediate === null) {
+        return reject(state, "Registra el pH intermedio antes de aplicar la etapa 2.");
+      }
+      const remaining = getRemainingWaitMinutes(state, event.at);
+      if (remaining > 0) {
+        return reject(
+          state,
+          `Faltan ${Math.ceil(remaining)} min de espera antes de aplicar la etapa 2.`
+        );
+      }
+      if (event.dose < 0) {
+        return reject(state, "La dosis de etapa 2 no puede ser negativa.");
+      }
+      return accept({
+        ...state,
+        step: "stage2",
+        stage2Dose: event.dose,
+        stage2AppliedAt: event.at
+      });
+    }
+
+    case "skip-stage2":
+      return accept({ ...state, step: "checklist", stage2Dose: 0 });
+
+    case "open-checklist":
+      if (state.step === "evaluation" && state.correction?.direction !== "none") {
+        return reject(state, "Aplica la etapa 1 antes de pasar al checklist.");
+      }
+      return accept({ ...state, step: "checklist" });
+
+    case "complete":
+      return accept({
+        ...state,
+        step: "completed",
+        checklist: event.checklist,
+        completedAt: event.at
+      });
+
+    case "reset":
+      return accept(createPhWizard(state.waitMinutes));
+  }
+}
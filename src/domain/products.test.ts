@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { defaultPoolConfig } from "./defaults";
+import {
+  findMissingConfiguredProducts,
+  getChlorineProductIssue,
+  getConfiguredProductSnapshot,
+  getProductKey,
+  resolveSessionProduct
+} from "./products";
+import type { ChemicalProduct, PoolConfig } from "./types";
+
+const createdAt = "2026-01-01T00:00:00.000Z";
+
+function makeProduct(overrides: Partial<ChemicalProduct>): ChemicalProduct {
+  return {
+    id: "p1",
+    role: "chlorine",
+    type: "Hipoclorito de sodio",
+    concentration: 10,
+    unit: "%",
+    presentation: "liquid-ml",
+    createdAt,
+    ...overrides
+  };
+}
+
+describe("findMissingConfiguredProducts", () => {
+  it("crea productos para cloro y acido, y pH+ solo si esta habilitado", () => {
+    const missing = findMissingConfiguredProducts([], defaultPoolConfig, createdAt);
+    const roles = missing.map((product) => product.role);
+
+    expect(roles).toContain("chlorine");
+    expect(roles).toContain("acid");
+    expect(roles.includes("ph-up")).toBe(defaultPoolConfig.phUpProduct.enabled);
+    expect(missing.every((product) => product.createdAt === createdAt)).toBe(true);
+  });
+
+  it("no duplica productos ya existentes en el catalogo", () => {
+    const first = findMissingConfiguredProducts([], defaultPoolConfig, createdAt);
+    expect(findMissingConfiguredProducts(first, defaultPoolConfig, createdAt)).toEqual([]);
+  });
+
+  it("compara nombres sin distinguir mayusculas ni espacios", () => {
+    const a = makeProduct({ type: " Dicloro " });
+    const b = makeProduct({ type: "dicloro" });
+    expect(getProductKey(a)).toBe(getProductKey(b));
+  });
+});
+
+describe("resolveSessionProduct", () => {
+  const config: PoolConfig = {
+    ...defaultPoolConfig,
+    chlorineProduct: {
+      type: "Hipoclorito de sodio",
+      concentration: 10,
+      unit: "%",
+      presentation: "liquid-ml",
+      cyaPerFcPpm: 0
+    }
+  };
+
+  it("usa el producto elegido cuando existe en el catalogo", () => {
+    const chosen = makeProduct({ id: "gl", concentration: 100, unit: "g/L" });
+    expect(resolveSessionProduct([chosen], "gl", "chlorine", config)).toEqual({
+      id: "gl",
+      type: "Hipoclorito de sodio",
+      concentration: 100,
+      unit: "g/L",
+      presentation: "liquid-ml"
+    });
+  });
+
+  it("vuelve al producto configurado si no hay eleccion o el rol no coincide", () => {
+    const catalogMatch = makeProduct({ id: "configurado" });
+    const acid = makeProduct({ id: "acido", role: "acid" });
+
+    expect(resolveSessionProduct([catalogMatch, acid], null, "chlorine", config).id).toBe(
+      "configurado"
+    );
+    expect(resolveSessionProduct([catalogMatch, acid], "acido", "chlorine", config).id).toBe(
+      "configurado"
+    );
+  });
+
+  it("genera un identificador estable cuando el producto configurado no esta en el catalogo", () => {
+    const snapshot = getConfiguredProductSnapshot(config, "chlorine", []);
+    expect(snapshot.id).toBe(`${config.id}:chlorine`);
+    expect(snapshot.concentration).toBe(10);
+    expect(snapshot.cyaPerFcPpm).toBe(0);
+  });
+});
+
+describe("getChlorineProductIssue", () => {
+  it("avisa cuando el producto no aporta cloro por unidad en vez de dosificar 0", () => {
+    expect(getChlorineProductIssue(makeProduct({}))).toBeNull();
+    expect(
+      getChlorineProductIssue(makeProduct({ presentation: "granular-g", unit: "g/L" }))
+    ).toContain("revisa su concentracion");
+  });
+});
@@ -0,0 +1,148 @@
+import { getChlorineMgPerProductUnit } from "./calculations";
+import type {
+  ChemicalProduct,
+  DoseUnit,
+  PoolConfig,
+  ProductPresentation,
+  ProductRole,
+  ProductSnapshot
+} from "./types";
+
+type ProductIdentity = Pick<
+  ChemicalProduct,
+  "role" | "type" | "concentration" | "unit" | "presentation" | "cyaPerFcPpm"
+>;
+
+export const PRODUCT_ROLES: ProductRole[] = ["chlorine", "acid", "ph-up"];
+
+export function getProductRoleLabel(role: ProductRole): string {
+  if (role === "acid") {
+    return "Bajar pH";
+  }
+  if (role === "ph-up") {
+    return "Subir pH";
+  }
+  return "Cloro";
+}
+
+export function getProductKey(product: ProductIdentity): string {
+  return [
+    product.role,
+    product.type.trim().toLowerCase(),
+    product.concentration,
+    product.unit,
+    product.presentation
+  ].join("|");
+}
+
+export function getConfiguredProducts(config: PoolConfig): ProductIdentity[] {
+  const products: ProductIdentity[] = [
+    { role: "chlorine", ...config.chlorineProduct },
+    { role: "acid", ...config.acidProduct, presentation: "liquid-ml" }
+  ];
+  if (config.phUpProduct.enabled) {
+    products.push({
+      role: "ph-up",
+      type: config.phUpProduct.type,
+      concentration: config.phUpProduct.concentration,
+      unit: config.phUpProduct.unit,
+      presentation: config.phUpProduct.presentation
+    });
+  }
+  return products;
+}
+
+export function findMissingConfiguredProducts(
+  existing: ChemicalProduct[],
+  config: PoolConfig,
+  createdAt: string = new Date().toISOString()
+): ChemicalProduct[] {
+  const knownKeys = new Set(existing.map(getProductKey));
+  const missing: ChemicalProduct[] = [];
+
+  for (const product of getConfiguredProducts(config)) {
+    const key = getProductKey(product);
+    if (knownKeys.has(key)) {
+      continue;
+    }
+    knownKeys.add(key);
+    missing.push({
+      id: crypto.randomUUID(),
+      role: product.role,
+      type: product.type,
+      concentration: product.concentration,
+      unit: product.unit,
+      presentation: product.presentation,
+      cyaPerFcPpm: product.cyaPerFcPpm,
+      createdAt
+    });
+  }
+
+  return missing;
+}
+
+export function toProductSnapshot(product: ChemicalProduct): ProductSnapshot {
+  return {
+    id: product.id,
+    type: product.type,
+    concentration: product.concentration,
+    unit: product.unit,
+    presentation: product.presentation,
+    cyaPerFcPpm: product.cyaPerFcPpm
+  };
+}
+
+export function getConfiguredProductSnapshot(
+  config: PoolConfig,
+  role: ProductRole,
+  products: ChemicalProduct[] = []
+): ProductSnapshot {
+  const configured = getConfiguredProducts({
+    ...config,
+    phUpProduct: { ...config.phUpProduct, enabled: true }
+  }).find((product) => product.role === role)!;
+  const key = getProductKey(configured);
+  const match = products.find((product) => !product.archivedAt && getProductKey(product) === key);
+  if (match) {
+    return toProductSnapshot(match);
+  }
+
+  return {
+    id: `${config.id}:${role}`,
+    type: configured.type,
+    concentration: configured.concentration,
+    unit: configured.unit,
+    presentation: configured.presentation,
+    cyaPerFcPpm: configured.cyaPerFcPpm
+  };
+}
+
+export function resolveSessionProduct(
+  products: ChemicalProduct[],
+  productId: string | null,
+  role: ProductRole,
+  config: PoolConfig
+): ProductSnapshot {
+  const selected = productId
+    ? products.find((product) => product.id === productId && product.role === role)
+    : undefined;
+  return selected
+    ? toProductSnapshot(selected)
+    : getConfiguredProductSnapshot(config, role, products);
+}
+
+// Un producto guardado antes de validar unidad y presentacion puede no aportar cloro por unidad.
+export function getChlorineProductIssue(product: ProductSnapshot): string | null {
+  if (getChlorineMgPerProductUnit(product.concentration, product.unit, product.presentation) > 0) {
+    return null;
+  }
+  return `No se puede calcular la dosis con ${product.type}: revisa su concentracion (${product.concentration} ${product.unit}, ${getPresentationLabel(product.presentation)}).`;
+}
+
+export function getPresentationDoseUnit(presentation: ProductPresentation): DoseUnit {
+  return presentation === "granular-g" ? "g" : "ml";
+}
+
+export function getPresentationLabel(presentation: ProductPresentation): string {
+  return presentation === "granular-g" ? "granulado" : "liquido";
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { defaultPoolConfig } from "./defaults";
+import {
+  buildCheckMomentReminders,
+  buildWaitReminders,
+  getDueReminders,
+  getNextCheckMomentAt
+} from "./reminders";
+
+describe("buildWaitReminders", () => {
+  it("programa el fin de la espera y la pausa maxima", () => {
+    const reminders = buildWaitReminders(
+      "default",
+      "2026-01-01T10:00:00.000Z",
+      30,
+      defaultPoolConfig.workflow
+    );
+
+    expect(reminders.map((reminder) => [reminder.kind, reminder.fireAt])).toEqual([
+      ["wait-end", "2026-01-01T10:30:00.000Z"],
+      ["max-wait", "2026-01-01T11:00:00.000Z"]
+    ]);
+    expect(reminders[0].id).toBe("default:wait-end");
+  });
+
+  it("omite la pausa maxima si coincide con la espera", () => {
+    const reminders = buildWaitReminders("default", "2026-01-01T10:00:00.000Z", 60, {
+      ...defaultPoolConfig.workflow,
+      maxWaitMinutes: 60
+    });
+    expect(reminders.map((reminder) => reminder.kind)).toEqual(["wait-end"]);
+  });
+});
+
+describe("momentos de control", () => {
+  it("usa la proxima ocurrencia local de cada momento", () => {
+    const from = new Date(2026, 0, 1, 15, 30);
+
+    expect(getNextCheckMomentAt("start-day", from)).toEqual(new Date(2026, 0, 2, 8));
+    expect(getNextCheckMomentAt("sun-hours", from)).toEqual(new Date(2026, 0, 2, 14));
+    expect(getNextCheckMomentAt("night", from)).toEqual(new Date(2026, 0, 1, 21));
+  });
+
+  it("crea un recordatorio por momento con id estable por piscina", () => {
+    const reminders = buildCheckMomentReminders("p1", new Date(2026, 0, 1, 7));
+
+    expect(reminders.map((reminder) => reminder.id)).toEqual([
+      "p1:check-moment:start-day",
+      "p1:check-moment:sun-hours",
+      "p1:check-moment:night"
+    ]);
+    expect(reminders[0].fireAt).toBe(new Date(2026, 0, 1, 8).toISOString());
+  });
+});
+
+describe("getDueReminders", () => {
+  it("retorna solo los pendientes vencidos en orden", () => {
+    const [waitEnd, maxWait] = buildWaitReminders(
+      "default",
+      "2026-01-01T10:00:00.000Z",
+      30,
+      defaultPoolConfig.workflow
+    );
+    const fired = { ...waitEnd, id: "fired", firedAt: "2026-01-01T10:30:00.000Z" };
+
+    expect(
+      getDueReminders([maxWait, fired, waitEnd], new Date("2026-01-01T10:45:00.000Z"))
+    ).toEqual([waitEnd]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { CheckMoment, PoolConfig, Reminder } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+// Hora local sugerida para cada momento de control.
+export const CHECK_MOMENT_HOURS: Record<CheckMoment, number> = {
+  "start-day": 8,
+  "sun-hours": 14,
+  night: 21
+};
+
+const CHECK_MOMENTS: CheckMoment[] = ["start-day", "sun-hours", "night"];
+
+export function getCheckMomentLabel(moment: CheckMoment): string {
+  if (moment === "sun-hours") {
+    return "Horas de sol";
+  }
+  if (moment === "night") {
+    return "Noche";
+  }
+  return "Inicio del dia";
+}
+
+export function getNextCheckMomentAt(moment: CheckMoment, from: Date): Date {
+  const next = new Date(from);
+  next.setHours(CHECK_MOMENT_HOURS[moment], 0, 0, 0);
+  if (next.getTime() <= from.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+export function buildWaitReminders(
+  poolId: string,
+  startedAtIso: string,
+  waitMinutes: number,
+  workflow: PoolConfig["workflow"],
+  createdAtIso: string = new Date().toISOString()
+): Reminder[] {
+  const startedAt = Date.parse(startedAtIso);
+  const maxWaitMinutes = Math.max(waitMinutes, workflow.maxWaitMinutes);
+
+  const reminders: Reminder[] = [
+    {
+      id: `${poolId}:wait-end`,
+      poolId,
+      kind: "wait-end",
+      title: "Fin de la espera",
+      body: `Pasaron ${waitMinutes} min desde la etapa 1: re-medir el pH.`,
+      fireAt: new Date(startedAt + waitMinutes * MINUTE_MS).toISOString(),
+      createdAt: createdAtIso
+    }
+  ];
+  if (maxWaitMinutes > waitMinutes) {
+    reminders.push({
+      id: `${poolId}:max-wait`,
+      poolId,
+      kind: "max-wait",
+      title: "Espera maxima cumplida",
+      body: `Se cumplio la pausa maxima de ${maxWaitMinutes} min: medir ahora para completar la correccion.`,
+      fireAt: new Date(startedAt + maxWaitMinutes * MINUTE_MS).toISOString(),
+      createdAt: createdAtIso
+    });
+  }
+  return reminders;
+}
+
+export function buildCheckMomentReminders(
+  poolId: string,
+  from: Date,
+  moments: CheckMoment[] = CHECK_MOMENTS
+): Reminder[] {
+  const createdAt = from.toISOString();
+  return moments.map((moment) => ({
+    id: `${poolId}:check-moment:${moment}`,
+    poolId,
+    kind: "check-moment",
+    checkMoment: moment,
+    title: "Control de la piscina",
+    body: `Momento de control: ${getCheckMomentLabel(moment)}. Medir pH y cloro.`,
+    fireAt: getNextCheckMomentAt(moment, from).toISOString(),
+    createdAt
+  }));
+}
+
+export function getPendingReminders(reminders: Reminder[]): Reminder[] {
+  return reminders
+    .filter((reminder) => !reminder.firedAt)
+    .slice()
+    .sort((a, b) => Date.parse(a.fireAt) - Date.parse(b.fireAt));
+}
+
+export function getDueReminders(reminders: Reminder[], now: Date): Reminder[] {
+  return getPendingReminders(reminders).filter(
+    (reminder) => Date.parse(reminder.fireAt) <= now.getTime()
+  );
+}
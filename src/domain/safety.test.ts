@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateDoseSafety,
+  getLastDoseAt,
+  getMaxDosePerApplication,
+  getSessionDoseAt,
+  type DoseLimits,
+  type SafetyContext
+} from "./safety";
+import type { Session } from "./types";
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    waterHeightCm: 70,
+    measuredPh: 7.8,
+    measuredChlorinePpm: 0.5,
+    calculatedVolumeLiters: 10000,
+    requiredPhCorrection: { direction: "down", total: 80, stage1: 40, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 20, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+const limits: DoseLimits = {
+  acidConcentrationPct: 31.45,
+  chlorineMgPerUnit: 560,
+  phUpConcentrationPct: 100,
+  phUpReferenceGPer10kL: 18
+};
+
+function makeContext(sessions: Session[] = []): SafetyContext {
+  return {
+    volumeLiters: 10000,
+    now: new Date("2026-01-01T12:00:00.000Z"),
+    sessions,
+    limits
+  };
+}
+
+describe("getMaxDosePerApplication", () => {
+  it("escala el tope con el volumen y la concentracion", () => {
+    expect(getMaxDosePerApplication("acid", 10000, limits)).toBeCloseTo(250, 9);
+    expect(
+      getMaxDosePerApplication("acid", 5000, { ...limits, acidConcentrationPct: 10 })
+    ).toBeCloseTo(393.125, 9);
+    expect(getMaxDosePerApplication("ph-up", 10000, limits)).toBeCloseTo(54, 9);
+    expect(getMaxDosePerApplication("chlorine", 5600, limits)).toBeCloseTo(100, 9);
+    expect(
+      getMaxDosePerApplication("chlorine", 5600, { ...limits, maxChlorineRaisePpm: 30 })
+    ).toBeCloseTo(300, 9);
+  });
+});
+
+describe("evaluateDoseSafety", () => {
+  it("permite dosis dentro de los limites sin historial", () => {
+    const [acid] = evaluateDoseSafety(
+      [{ chemical: "acid", amount: 100, unit: "ml" }],
+      makeContext()
+    );
+    expect(acid).toMatchObject({ status: "allowed", allowed: 100, violations: [] });
+  });
+
+  it("bloquea el cloro si el plan incluye acido", () => {
+    const [acid, chlorine] = evaluateDoseSafety(
+      [
+        { chemical: "acid", amount: 100, unit: "ml" },
+        { chemical: "chlorine", amount: 50, unit: "g" }
+      ],
+      makeContext()
+    );
+
+    expect(acid.status).toBe("allowed");
+    expect(chlorine.status).toBe("blocked");
+    expect(chlorine.allowed).toBe(0);
+    expect(chlorine.violations[0].rule).toBe("acid-chlorine-separation");
+    expect(chlorine.violations[0].message).toContain("30 min despues del acido");
+  });
+
+  it("bloquea una segunda dosis de acido antes del intervalo minimo", () => {
+    const sessions = [
+      makeSession("s1", "2026-01-01T11:50:00.000Z", {
+        appliedDoses: { phStage1: 40, phUnit: "ml" }
+      })
+    ];
+    const [acid] = evaluateDoseSafety(
+      [{ chemical: "acid", amount: 40, unit: "ml" }],
+      makeContext(sessions)
+    );
+
+    expect(acid.status).toBe("blocked");
+    expect(acid.violations).toEqual([
+      {
+        rule: "min-interval",
+        message: "Acido bloqueado: la ultima dosis fue hace menos de 30 min. Faltan 20 min.",
+        availableAt: "2026-01-01T12:20:00.000Z"
+      }
+    ]);
+  });
+
+  it("separa el cloro de un acido aplicado en otra sesion reciente", () => {
+    const sessions = [
+      makeSession("s1", "2026-01-01T11:45:00.000Z", {
+        appliedDoses: { phStage1: 40, phUnit: "ml" }
+      })
+    ];
+    const [chlorine] = evaluateDoseSafety(
+      [{ chemical: "chlorine", amount: 20, unit: "g" }],
+      makeContext(sessions)
+    );
+
+    expect(chlorine.status).toBe("blocked");
+    expect(chlorine.violations[0]).toMatchObject({
+      rule: "acid-chlorine-separation",
+      availableAt: "2026-01-01T12:15:00.000Z"
+    });
+  });
+
+  it("limita dosis enormes al maximo por aplicacion", () => {
+    const [acid] = evaluateDoseSafety(
+      [{ chemical: "acid", amount: 900, unit: "ml" }],
+      makeContext()
+    );
+
+    expect(acid.status).toBe("limited");
+    expect(acid.allowed).toBeCloseTo(250, 9);
+    expect(acid.violations[0].message).toContain("Revisar la altura del agua");
+  });
+
+  it("calcula el tope con la capacidad configurada y no con la altura tipeada", () => {
+    const [acid] = evaluateDoseSafety([{ chemical: "acid", amount: 900, unit: "ml" }], {
+      ...makeContext(),
+      volumeLiters: 40000,
+      capacityLiters: 10000
+    });
+
+    expect(acid.status).toBe("limited");
+    expect(acid.allowed).toBeCloseTo(250, 9);
+    expect(acid.violations[0].message).toContain("para 10000 L");
+  });
+
+  it("limita el bicarbonato y respeta su intervalo", () => {
+    const [bicarbonate] = evaluateDoseSafety(
+      [{ chemical: "bicarbonate", amount: 900, unit: "g" }],
+      makeContext()
+    );
+    expect(bicarbonate.status).toBe("limited");
+    expect(bicarbonate.allowed).toBeCloseTo(504, 9);
+
+    const [blocked] = evaluateDoseSafety(
+      [{ chemical: "bicarbonate", amount: 100, unit: "g" }],
+      makeContext([
+        makeSession("s1", "2026-01-01T10:00:00.000Z", {
+          requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+          requiredAlkalinityCorrection: { direction: "up", amount: 300, unit: "g" },
+          appliedDoses: { alkalinity: 300, alkalinityUnit: "g" }
+        })
+      ])
+    );
+    expect(blocked.status).toBe("blocked");
+    expect(blocked.violations[0].rule).toBe("min-interval");
+  });
+});
+
+describe("getLastDoseAt", () => {
+  it("ignora sesiones sin dosis del quimico y sesiones futuras", () => {
+    const sessions = [
+      makeSession("s1", "2026-01-01T08:00:00.000Z", { appliedDoses: { chlorine: 20 } }),
+      makeSession("s2", "2026-01-01T10:00:00.000Z"),
+      makeSession("s3", "2026-01-01T13:00:00.000Z", { appliedDoses: { chlorine: 20 } })
+    ];
+    expect(getLastDoseAt(sessions, "chlorine", new Date("2026-01-01T12:00:00.000Z"))).toBe(
+      "2026-01-01T08:00:00.000Z"
+    );
+    expect(getLastDoseAt(sessions, "acid", new Date("2026-01-01T12:00:00.000Z"))).toBeNull();
+  });
+
+  it("cuenta como acido la dosis para bajar la alcalinidad", () => {
+    const sessions = [
+      makeSession("s1", "2026-01-01T11:50:00.000Z", {
+        requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+        requiredAlkalinityCorrection: { direction: "down", amount: 120, unit: "ml" },
+        appliedDoses: { alkalinity: 120, alkalinityUnit: "ml" }
+      })
+    ];
+    expect(getLastDoseAt(sessions, "acid", new Date("2026-01-01T12:00:00.000Z"))).toBe(
+      "2026-01-01T11:50:00.000Z"
+    );
+  });
+
+  it("toma la hora de aplicacion de la ultima etapa de pH", () => {
+    const sessions = [
+      makeSession("s1", "2026-01-01T09:00:00.000Z", {
+        requiredPhCorrection: { direction: "down", total: 80, stage1: 40, unit: "ml" },
+        appliedDoses: {
+          phStage1: 40,
+          phStage2: 30,
+          phStage1At: "2026-01-01T09:10:00.000Z",
+          phStage2At: "2026-01-01T10:05:00.000Z",
+          chlorine: 20
+        }
+      })
+    ];
+    const now = new Date("2026-01-01T12:00:00.000Z");
+
+    expect(getLastDoseAt(sessions, "acid", now)).toBe("2026-01-01T10:05:00.000Z");
+    expect(getLastDoseAt(sessions, "chlorine", now)).toBe("2026-01-01T09:00:00.000Z");
+    expect(
+      getSessionDoseAt(
+        { ...sessions[0], appliedDoses: { ...sessions[0].appliedDoses, phStage2At: undefined } },
+        "acid"
+      )
+    ).toBe("2026-01-01T09:10:00.000Z");
+  });
+});
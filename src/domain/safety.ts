@@ -0,0 +1,332 @@
+import { BICARBONATE_MG_PER_L_PER_PPM } from "./alkalinity";
+import { toFixedNumber } from "./calculations";
+import type { DoseUnit, Session } from "./types";
+
+export type DoseChemical = "acid" | "ph-up" | "chlorine" | "bicarbonate";
+export type SafetyRule = "acid-chlorine-separation" | "min-interval" | "max-per-application";
+export type DoseSafetyStatus = "allowed" | "limited" | "blocked";
+
+const MINUTE_MS = 60 * 1000;
+// Intervalo minimo entre dos dosis del mismo quimico (minutos).
+export const MIN_DOSE_INTERVAL_MINUTES: Record<DoseChemical, number> = {
+  acid: 30,
+  "ph-up": 30,
+  chlorine: 60,
+  // La alcalinidad se re-mide tras unas horas de circulacion, no antes.
+  bicarbonate: 360
+};
+// Acido y cloro juntos liberan gas cloro: se separan en ventanas distintas.
+export const ACID_CHLORINE_SEPARATION_MINUTES = 30;
+// Tope por aplicacion: ~1 L de muriatico 31.45% por 38.000 L.
+const MAX_ACID_ML_PER_10K_AT_31_PCT = 250;
+const REFERENCE_MURIATIC_ACID_PCT = 31.45;
+const MAX_PH_UP_STEPS_PER_APPLICATION = 3;
+export const MAX_CHLORINE_PPM_PER_APPLICATION = 10;
+export const MAX_SHOCK_CHLORINE_PPM_PER_APPLICATION = 30;
+const MAX_ALKALINITY_RAISE_PPM_PER_APPLICATION = 30;
+
+export interface DoseRequest {
+  chemical: DoseChemical;
+  amount: number;
+  unit: DoseUnit;
+}
+
+export interface DoseLimits {
+  acidConcentrationPct: number;
+  chlorineMgPerUnit: number;
+  phUpConcentrationPct: number;
+  phUpReferenceGPer10kL: number;
+  maxChlorineRaisePpm?: number;
+}
+
+export interface SafetyContext {
+  volumeLiters: number;
+  // Capacidad configurada (altura maxima): el tope no crece si se tipea mal la altura.
+  capacityLiters?: number;
+  now: Date;
+  sessions: Session[];
+  limits: DoseLimits;
+}
+
+export interface SafetyViolation {
+  rule: SafetyRule;
+  message: string;
+  availableAt?: string;
+}
+
+export interface DoseDecision {
+  chemical: DoseChemical;
+  unit: DoseUnit;
+  requested: number;
+  allowed: number;
+  maxPerApplication: number;
+  status: DoseSafetyStatus;
+  violations: SafetyViolation[];
+}
+
+export function getDoseChemicalLabel(chemical: DoseChemical): string {
+  if (chemical === "acid") {
+    return "Acido";
+  }
+  if (chemical === "ph-up") {
+    return "pH+";
+  }
+  if (chemical === "bicarbonate") {
+    return "Bicarbonato";
+  }
+  return "Cloro";
+}
+
+export function getMaxDosePerApplication(
+  chemical: DoseChemical,
+  volumeLiters: number,
+  limits: DoseLimits
+): number {
+  const volumeFactor = volumeLiters / 10000;
+  if (chemical === "acid") {
+    if (limits.acidConcentrationPct <= 0) {
+      return 0;
+    }
+    return (
+      MAX_ACID_ML_PER_10K_AT_31_PCT *
+      (REFERENCE_MURIATIC_ACID_PCT / limits.acidConcentrationPct) *
+      volumeFactor
+    );
+  }
+  if (chemical === "ph-up") {
+    if (limits.phUpConcentrationPct <= 0) {
+      return 0;
+    }
+    return (
+      MAX_PH_UP_STEPS_PER_APPLICATION *
+      limits.phUpReferenceGPer10kL *
+      (100 / limits.phUpConcentrationPct) *
+      volumeFactor
+    );
+  }
+  if (chemical === "bicarbonate") {
+    return (
+      (MAX_ALKALINITY_RAISE_PPM_PER_APPLICATION * BICARBONATE_MG_PER_L_PER_PPM * volumeLiters) /
+      1000
+    );
+  }
+  if (limits.chlorineMgPerUnit <= 0) {
+    return 0;
+  }
+  const maxPpm = limits.maxChlorineRaisePpm ?? MAX_CHLORINE_PPM_PER_APPLICATION;
+  return (maxPpm * volumeLiters) / limits.chlorineMgPerUnit;
+}
+
+export function getSessionDoseChemicals(session: Session): DoseChemical[] {
+  const chemicals: DoseChemical[] = [];
+  const phDose = (session.appliedDoses.phStage1 ?? 0) + (session.appliedDoses.phStage2 ?? 0);
+  const alkalinityAcid =
+    (session.appliedDoses.alkalinity ?? 0) > 0 &&
+    session.requiredAlkalinityCorrection?.direction === "down";
+  if ((phDose > 0 && session.requiredPhCorrection.direction === "down") || alkalinityAcid) {
+    chemicals.push("acid");
+  }
+  if (phDose > 0 && session.requiredPhCorrection.direction === "up") {
+    chemicals.push("ph-up");
+  }
+  if (
+    (session.appliedDoses.alkalinity ?? 0) > 0 &&
+    session.requiredAlkalinityCorrection?.direction === "up"
+  ) {
+    chemicals.push("bicarbonate");
+  }
+  if ((session.appliedDoses.chlorine ?? 0) > 0) {
+    chemicals.push("chlorine");
+  }
+  return chemicals;
+}
+
+// Las etapas de pH registran su hora de aplicacion; el resto de las dosis se toma al guardar.
+export function getSessionDoseAt(session: Session, chemical: DoseChemical): string {
+  const { phStage1At, phStage2At, alkalinity } = session.appliedDoses;
+  const direction = session.requiredPhCorrection.direction;
+  const isPhChemical =
+    (chemical === "acid" && direction === "down") || (chemical === "ph-up" && direction === "up");
+  const stageTimes = isPhChemical
+    ? [phStage1At, phStage2At].filter((at): at is string => at !== undefined)
+    : [];
+  // El acido para bajar la alcalinidad se aplica con la sesion, no con las etapas de pH.
+  const alkalinityAcid =
+    chemical === "acid" &&
+    (alkalinity ?? 0) > 0 &&
+    session.requiredAlkalinityCorrection?.direction === "down";
+  const times =
+    stageTimes.length > 0 && !alkalinityAcid ? stageTimes : [session.timestamp, ...stageTimes];
+  return times.reduce((latest, at) => (Date.parse(at) > Date.parse(latest) ? at : latest));
+}
+
+export function getLastDoseAt(
+  sessions: Session[],
+  chemical: DoseChemical,
+  now: Date
+): string | null {
+  let last: string | null = null;
+  for (const session of sessions) {
+    if (!getSessionDoseChemicals(session).includes(chemical)) {
+      continue;
+    }
+    const doseAt = getSessionDoseAt(session, chemical);
+    const at = Date.parse(doseAt);
+    if (at > now.getTime()) {
+      continue;
+    }
+    if (last === null || at > Date.parse(last)) {
+      last = doseAt;
+    }
+  }
+  return last;
+}
+
+function checkWindow(
+  lastAt: string | null,
+  windowMinutes: number,
+  now: Date
+): { availableAt: string; minutesLeft: number } | null {
+  if (lastAt === null) {
+    return null;
+  }
+  const availableMs = Date.parse(lastAt) + windowMinutes * MINUTE_MS;
+  if (availableMs <= now.getTime()) {
+    return null;
+  }
+  return {
+    availableAt: new Date(availableMs).toISOString(),
+    minutesLeft: Math.ceil((availableMs - now.getTime()) / MINUTE_MS)
+  };
+}
+
+// Sin altura maxima configurada no hay capacidad de referencia: se usa el volumen medido.
+function getLimitVolumeLiters(context: SafetyContext): number {
+  return context.capacityLiters ?? context.volumeLiters;
+}
+
+function evaluateRequest(
+  request: DoseRequest,
+  context: SafetyContext,
+  acidRequested: boolean
+): DoseDecision {
+  const label = getDoseChemicalLabel(request.chemical);
+  const limitVolumeLiters = getLimitVolumeLiters(context);
+  const maxPerApplication = getMaxDosePerApplication(
+    request.chemical,
+    limitVolumeLiters,
+    context.limits
+  );
+  const violations: SafetyViolation[] = [];
+
+  const interval = checkWindow(
+    getLastDoseAt(context.sessions, request.chemical, context.now),
+    MIN_DOSE_INTERVAL_MINUTES[request.chemical],
+    context.now
+  );
+  if (interval) {
+    violations.push({
+      rule: "min-interval",
+      message: `${label} bloqueado: la ultima dosis fue hace menos de ${MIN_DOSE_INTERVAL_MINUTES[request.chemical]} min. Faltan ${interval.minutesLeft} min.`,
+      availableAt: interval.availableAt
+    });
+  }
+
+  const opposite: DoseChemical | null =
+    request.chemical === "acid" ? "chlorine" : request.chemical === "chlorine" ? "acid" : null;
+  if (opposite) {
+    const separation = checkWindow(
+      getLastDoseAt(context.sessions, opposite, context.now),
+      ACID_CHLORINE_SEPARATION_MINUTES,
+      context.now
+    );
+    if (separation) {
+      violations.push({
+        rule: "acid-chlorine-separation",
+        message: `${label} bloqueado: hubo ${getDoseChemicalLabel(opposite).toLowerCase()} hace menos de ${ACID_CHLORINE_SEPARATION_MINUTES} min. Faltan ${separation.minutesLeft} min para no mezclarlos.`,
+        availableAt: separation.availableAt
+      });
+    }
+  }
+  // Con acido y cloro en el mismo plan, se aplica primero el acido.
+  if (request.chemical === "chlorine" && acidRequested) {
+    violations.push({
+      rule: "acid-chlorine-separation",
+      message: `Cloro bloqueado: se aplica acido en esta sesion. Agregar el cloro al menos ${ACID_CHLORINE_SEPARATION_MINUTES} min despues del acido, con la bomba encendida.`
+    });
+  }
+
+  if (violations.length > 0) {
+    return {
+      chemical: request.chemical,
+      unit: request.unit,
+      requested: request.amount,
+      allowed: 0,
+      maxPerApplication,
+      status: "blocked",
+      violations
+    };
+  }
+
+  if (request.amount > maxPerApplication) {
+    return {
+      chemical: request.chemical,
+      unit: request.unit,
+      requested: request.amount,
+      allowed: maxPerApplication,
+      maxPerApplication,
+      status: "limited",
+      violations: [
+        {
+          rule: "max-per-application",
+          message: `${label} limitado a ${toFixedNumber(maxPerApplication, 0)} ${request.unit} por aplicacion para ${toFixedNumber(limitVolumeLiters, 0)} L (se pedian ${toFixedNumber(request.amount, 0)} ${request.unit}). Revisar la altura del agua y completar el resto en otra aplicacion.`
+        }
+      ]
+    };
+  }
+
+  return {
+    chemical: request.chemical,
+    unit: request.unit,
+    requested: request.amount,
+    allowed: request.amount,
+    maxPerApplication,
+    status: "allowed",
+    violations: []
+  };
+}
+
+export function evaluateDoseSafety(
+  requests: DoseRequest[],
+  context: SafetyContext
+): DoseDecision[] {
+  const decisions = new Map<DoseRequest, DoseDecision>();
+  const pending = requests.filter((request) => request.amount > 0);
+
+  for (const request of pending.filter((item) => item.chemical !== "chlorine")) {
+    decisions.set(request, evaluateRequest(request, context, false));
+  }
+  const acidRequested = [...decisions.values()].some(
+    (decision) => decision.chemical === "acid" && decision.allowed > 0
+  );
+  for (const request of pending.filter((item) => item.chemical === "chlorine")) {
+    decisions.set(request, evaluateRequest(request, context, acidRequested));
+  }
+
+  return requests.map(
+    (request) =>
+      decisions.get(request) ?? {
+        chemical: request.chemical,
+        unit: request.unit,
+        requested: request.amount,
+        allowed: request.amount,
+        maxPerApplication: getMaxDosePerApplication(
+          request.chemical,
+          getLimitVolumeLiters(context),
+          context.limits
+        ),
+        status: "allowed",
+        violations: []
+      }
+  );
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { defaultPoolConfig } from "./defaults";
+import {
+  applySessionEdit,
+  buildSessionRevision,
+  DEFAULT_REVISION_AUTHOR,
+  diffSessions
+} from "./sessionEdit";
+import type { Session } from "./types";
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: "s1",
+    poolId: "default",
+    timestamp: "2026-01-10T09:00:00.000Z",
+    kind: "adjustment",
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 5,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: { chlorine: 0, chlorineUnit: "g" },
+    ...overrides
+  };
+}
+
+const editedAt = new Date("2026-01-11T10:00:00.000Z");
+
+describe("applySessionEdit", () => {
+  it("recalcula volumen y dosis requeridas cuando cambian las mediciones", () => {
+    const session = makeSession();
+    const edited = applySessionEdit(
+      session,
+      { measuredChlorinePpm: 0.5, measuredPh: 7.9, waterHeightCm: 60 },
+      defaultPoolConfig,
+      [session],
+      [],
+      editedAt
+    );
+
+    expect(edited.calculatedVolumeLiters).toBeLessThan(session.calculatedVolumeLiters);
+    expect(edited.requiredPhCorrection.direction).toBe("down");
+    expect(edited.requiredPhCorrection.stage1).toBeGreaterThan(0);
+    // Igual que al guardar: el acido de la sesion bloquea el cloro hasta la proxima aplicacion.
+    expect(edited.requiredChlorineDose.corrective).toBe(0);
+    expect(edited.calculationTrace?.chlorine).toBeDefined();
+    expect(edited.appliedDoses).toEqual(session.appliedDoses);
+    expect(edited.updatedAt).toBe("2026-01-11T10:00:00.000Z");
+  });
+
+  it("recalcula los planes del ciclo intensivo que llevaron dosis", () => {
+    const session = makeSession({
+      kind: "intensive-cycle",
+      intensiveCycleId: "c1",
+      measuredChlorinePpm: 0.5,
+      requiredChlorineDose: { maintenance: 0, corrective: 40, unit: "g" },
+      appliedDoses: { chlorine: 40, chlorineUnit: "g" }
+    });
+    const edited = applySessionEdit(
+      session,
+      { measuredChlorinePpm: 5 },
+      defaultPoolConfig,
+      [session],
+      [],
+      editedAt
+    );
+    expect(edited.requiredChlorineDose.corrective).toBe(0);
+
+    const measured = makeSession({ kind: "intensive-cycle", intensiveCycleId: "c1" });
+    expect(
+      applySessionEdit(measured, { measuredChlorinePpm: 0.2 }, defaultPoolConfig, [], [], editedAt)
+        .requiredChlorineDose
+    ).toEqual(measured.requiredChlorineDose);
+  });
+
+  it("estima TA y CYA solo con sesiones anteriores a la editada", () => {
+    const session = makeSession({ measuredPh: 7.4 });
+    const later = makeSession({
+      id: "s2",
+      timestamp: "2026-01-12T09:00:00.000Z",
+      measuredAlkalinityPpm: 300,
+      measuredCyaPpm: 100
+    });
+    const withLater = applySessionEdit(
+      session,
+      { measuredChlorinePpm: 0.5, measuredPh: 7.9 },
+      defaultPoolConfig,
+      [session, later],
+      [],
+      editedAt
+    );
+    const alone = applySessionEdit(
+      session,
+      { measuredChlorinePpm: 0.5, measuredPh: 7.9 },
+      defaultPoolConfig,
+      [session],
+      [],
+      editedAt
+    );
+    expect(withLater.requiredPhCorrection).toEqual(alone.requiredPhCorrection);
+    expect(withLater.requiredChlorineDose).toEqual(alone.requiredChlorineDose);
+  });
+
+  it("recalcula la correccion de alcalinidad al editar la TA", () => {
+    const session = makeSession({ measuredAlkalinityPpm: 100 });
+    const low = applySessionEdit(
+      session,
+      { measuredAlkalinityPpm: 50 },
+      defaultPoolConfig,
+      [session],
+      [],
+      editedAt
+    );
+    expect(low.requiredAlkalinityCorrection).toMatchObject({ direction: "up", unit: "g" });
+    expect(low.requiredAlkalinityCorrection!.amount).toBeGreaterThan(0);
+    expect(low.calculationTrace?.alkalinity).toBeDefined();
+    expect(diffSessions(session, low).map((change) => change.field)).toContain(
+      "requiredAlkalinityCorrection.amount"
+    );
+
+    const high = applySessionEdit(low, { measuredAlkalinityPpm: 200 }, defaultPoolConfig, []);
+    expect(high.requiredAlkalinityCorrection).toMatchObject({ direction: "down", unit: "ml" });
+
+    const inRange = applySessionEdit(high, { measuredAlkalinityPpm: 100 }, defaultPoolConfig, []);
+    expect(inRange.requiredAlkalinityCorrection).toBeUndefined();
+    expect(inRange.calculationTrace?.alkalinity).toBeUndefined();
+  });
+
+  it("recalcula la dosis de shock con el tope por aplicacion al editar el cloro libre", () => {
+    const shock = makeSession({
+      kind: "shock",
+      measuredChlorinePpm: 4,
+      measuredTotalChlorinePpm: 5,
+      requiredChlorineDose: { maintenance: 0, corrective: 60, unit: "g" },
+      appliedDoses: { chlorine: 60, chlorineUnit: "g" }
+    });
+    const edited = applySessionEdit(
+      shock,
+      { measuredChlorinePpm: 0.5 },
+      defaultPoolConfig,
+      [shock],
+      [],
+      editedAt
+    );
+    const trace = edited.calculationTrace?.shock;
+
+    expect(trace?.inputs.find((input) => input.symbol === "FC")?.value).toBe(0.5);
+    expect(edited.requiredChlorineDose.corrective).toBeGreaterThan(60);
+    expect(edited.requiredChlorineDose.corrective).toBeLessThan(trace!.result.value);
+    expect(edited.requiredPhCorrection).toEqual(shock.requiredPhCorrection);
+    expect(edited.appliedDoses).toEqual(shock.appliedDoses);
+  });
+
+  it("no recalcula dosis de mediciones sin plan ni por cambios de notas", () => {
+    const check = makeSession({ kind: "check", measuredChlorinePpm: 1 });
+    const measured = applySessionEdit(
+      check,
+      { measuredChlorinePpm: 0.2 },
+      defaultPoolConfig,
+      [],
+      [],
+      editedAt
+    );
+    expect(measured.requiredChlorineDose).toEqual(check.requiredChlorineDose);
+
+    const noted = applySessionEdit(
+      makeSession(),
+      { notes: "  " },
+      defaultPoolConfig,
+      [],
+      [],
+      editedAt
+    );
+    expect(noted.notes).toBeUndefined();
+    expect(noted.requiredChlorineDose).toEqual(makeSession().requiredChlorineDose);
+  });
+});
+
+describe("revisiones", () => {
+  it("registra los campos cambiados, incluidos los derivados", () => {
+    const session = makeSession();
+    const edited = applySessionEdit(
+      session,
+      { measuredChlorinePpm: 0.5 },
+      defaultPoolConfig,
+      [],
+      [],
+      editedAt
+    );
+
+    const fields = diffSessions(session, edited).map((change) => change.field);
+    expect(fields).toContain("measuredChlorinePpm");
+    expect(fields).toContain("requiredChlorineDose.corrective");
+    expect(fields).not.toContain("measuredPh");
+
+    const revision = buildSessionRevision(session, edited, "edit", " ", edited.updatedAt!);
+    expect(revision).toMatchObject({
+      sessionId: "s1",
+      poolId: "default",
+      action: "edit",
+      author: DEFAULT_REVISION_AUTHOR,
+      at: "2026-01-11T10:00:00.000Z"
+    });
+    expect(revision?.changes[0]).toEqual({ field: "measuredChlorinePpm", before: 5, after: 0.5 });
+  });
+
+  it("no genera revision si nada cambio y registra la eliminacion", () => {
+    const session = makeSession();
+    expect(
+      buildSessionRevision(session, { ...session }, "edit", "Ana", editedAt.toISOString())
+    ).toBeNull();
+
+    const deletedAt = "2026-01-12T08:00:00.000Z";
+    const revision = buildSessionRevision(
+      session,
+      { ...session, deletedAt },
+      "delete",
+      "Ana",
+      deletedAt
+    );
+    expect(revision?.changes).toEqual([{ field: "deletedAt", before: null, after: deletedAt }]);
+  });
+});
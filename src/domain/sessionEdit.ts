@@ -0,0 +1,257 @@
+import { buildActionPlan, buildShockPlan, type PlanContext } from "./actionPlan";
+import { calculatePoolVolumeLiters, toFixedNumber } from "./calculations";
+import { resolveSessionProduct } from "./products";
+import { sessionHadDose } from "./sessionQuery";
+import type {
+  PoolConfig,
+  Session,
+  SessionFieldChange,
+  SessionRevision,
+  SessionRevisionAction,
+  SessionRevisionValue,
+  WaterTopUp
+} from "./types";
+
+export const DEFAULT_REVISION_AUTHOR = "Usuario local";
+
+export const EDITABLE_SESSION_FIELDS = [
+  "waterHeightCm",
+  "measuredPh",
+  "measuredChlorinePpm",
+  "measuredTotalChlorinePpm",
+  "measuredAlkalinityPpm",
+  "measuredCyaPpm",
+  "notes"
+] as const;
+
+export type EditableSessionField = (typeof EDITABLE_SESSION_FIELDS)[number];
+export type SessionEdit = Partial<Pick<Session, EditableSessionField>>;
+
+// Entradas de las que dependen las dosis requeridas de un plan de accion.
+const DOSE_INPUT_FIELDS: EditableSessionField[] = [
+  "waterHeightCm",
+  "measuredPh",
+  "measuredChlorinePpm",
+  "measuredTotalChlorinePpm",
+  "measuredAlkalinityPpm",
+  "measuredCyaPpm"
+];
+
+const TRACKED_FIELDS: Array<{ field: string; read: (session: Session) => unknown }> = [
+  ...EDITABLE_SESSION_FIELDS.map((field) => ({
+    field,
+    read: (session: Session) => session[field]
+  })),
+  { field: "calculatedVolumeLiters", read: (session) => session.calculatedVolumeLiters },
+  {
+    field: "requiredPhCorrection.direction",
+    read: (session) => session.requiredPhCorrection.direction
+  },
+  { field: "requiredPhCorrection.total", read: (session) => session.requiredPhCorrection.total },
+  { field: "requiredPhCorrection.stage1", read: (session) => session.requiredPhCorrection.stage1 },
+  {
+    field: "requiredChlorineDose.maintenance",
+    read: (session) => session.requiredChlorineDose.maintenance
+  },
+  {
+    field: "requiredChlorineDose.corrective",
+    read: (session) => session.requiredChlorineDose.corrective
+  },
+  {
+    field: "requiredAlkalinityCorrection.direction",
+    read: (session) => session.requiredAlkalinityCorrection?.direction
+  },
+  {
+    field: "requiredAlkalinityCorrection.amount",
+    read: (session) => session.requiredAlkalinityCorrection?.amount
+  },
+  { field: "deletedAt", read: (session) => session.deletedAt }
+];
+
+// Planes de accion: ajustes y mediciones del ciclo intensivo guardadas con dosis. Las
+// mediciones sin dosis no se convierten en planes; el shock se recalcula aparte.
+function hasPlanDoses(session: Session): boolean {
+  const kind = session.kind ?? "adjustment";
+  if (kind === "adjustment") {
+    return true;
+  }
+  return (
+    kind === "intensive-cycle" &&
+    (sessionHadDose(session) ||
+      session.requiredPhCorrection.direction !== "none" ||
+      session.requiredChlorineDose.maintenance > 0 ||
+      session.requiredChlorineDose.corrective > 0)
+  );
+}
+
+export function recomputeSessionDerived(
+  session: Session,
+  config: PoolConfig,
+  history: Session[],
+  topUps: WaterTopUp[] = []
+): Session {
+  const volumeLitersRaw = calculatePoolVolumeLiters(config.pool, session.waterHeightCm);
+  const recomputed: Session = {
+    ...session,
+    calculatedVolumeLiters: toFixedNumber(volumeLitersRaw, 0)
+  };
+  const isShock = session.kind === "shock";
+  if (!isShock && !hasPlanDoses(session)) {
+    return recomputed;
+  }
+
+  // El plan se rehace con lo que se sabia al momento de la sesion, igual que al guardarla.
+  const sessionAt = Date.parse(session.timestamp);
+  const context: PlanContext = {
+    sessions: history.filter(
+      (item) => item.id !== session.id && Date.parse(item.timestamp) < sessionAt
+    ),
+    topUps: topUps.filter((topUp) => Date.parse(topUp.timestamp) < sessionAt),
+    now: new Date(sessionAt)
+  };
+  const plan = buildActionPlan(
+    session,
+    config,
+    {
+      chlorine: session.products?.chlorine ?? resolveSessionProduct([], null, "chlorine", config),
+      acid: session.products?.acid ?? resolveSessionProduct([], null, "acid", config),
+      phUp: session.products?.phUp ?? resolveSessionProduct([], null, "ph-up", config)
+    },
+    context
+  );
+
+  if (isShock) {
+    if (session.measuredTotalChlorinePpm === undefined) {
+      return recomputed;
+    }
+    const shockPlan = buildShockPlan(
+      plan,
+      session.measuredChlorinePpm,
+      session.measuredTotalChlorinePpm,
+      context
+    );
+    return {
+      ...recomputed,
+      requiredChlorineDose: {
+        maintenance: 0,
+        corrective: shockPlan.amount,
+        unit: shockPlan.unit
+      },
+      calculationTrace: {
+        ...session.calculationTrace,
+        shock: shockPlan.trace
+      }
+    };
+  }
+
+  return {
+    ...recomputed,
+    requiredPhCorrection: {
+      direction: plan.phDirection,
+      total: plan.phTotal,
+      stage1: plan.phStage1,
+      unit: plan.phUnit
+    },
+    requiredChlorineDose: {
+      maintenance: plan.chlorineMaintenance,
+      corrective: plan.chlorineCorrective,
+      unit: plan.chlorineUnit
+    },
+    requiredAlkalinityCorrection:
+      plan.alkalinityDirection !== "none"
+        ? {
+            direction: plan.alkalinityDirection,
+            amount: plan.alkalinityDose,
+            unit: plan.alkalinityUnit
+          }
+        : undefined,
+    calculationTrace: {
+      ...session.calculationTrace,
+      ph: plan.phTrace ?? undefined,
+      chlorine: plan.chlorineTrace,
+      alkalinity: plan.alkalinityTrace ?? undefined,
+      lsi: plan.lsi?.trace
+    }
+  };
+}
+
+export function applySessionEdit(
+  session: Session,
+  edit: SessionEdit,
+  config: PoolConfig,
+  history: Session[],
+  topUps: WaterTopUp[] = [],
+  editedAt: Date = new Date()
+): Session {
+  const next: Session = { ...session, ...edit, updatedAt: editedAt.toISOString() };
+  if ("notes" in edit) {
+    next.notes = edit.notes?.trim() || undefined;
+  }
+
+  const changedInputs = DOSE_INPUT_FIELDS.some((field) => next[field] !== session[field]);
+  return changedInputs ? recomputeSessionDerived(next, config, history, topUps) : next;
+}
+
+function toRevisionValue(value: unknown): SessionRevisionValue {
+  if (typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  return null;
+}
+
+export function diffSessions(before: Session, after: Session): SessionFieldChange[] {
+  const changes: SessionFieldChange[] = [];
+  for (const { field, read } of TRACKED_FIELDS) {
+    const previous = toRevisionValue(read(before));
+    const next = toRevisionValue(read(after));
+    if (previous !== next) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+export function buildSessionRevision(
+  before: Session,
+  after: Session,
+  action: SessionRevisionAction,
+  author: string,
+  at: string
+): SessionRevision | null {
+  const changes = diffSessions(before, after);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    sessionId: before.id,
+    poolId: before.poolId,
+    action,
+    author: author.trim() || DEFAULT_REVISION_AUTHOR,
+    at,
+    changes
+  };
+}
+
+export function getSessionFieldLabel(field: string): string {
+  const labels: Record<string, string> = {
+    waterHeightCm: "Altura del agua",
+    measuredPh: "pH medido",
+    measuredChlorinePpm: "Cloro libre",
+    measuredTotalChlorinePpm: "Cloro total",
+    measuredAlkalinityPpm: "Alcalinidad",
+    measuredCyaPpm: "CYA",
+    notes: "Notas",
+    calculatedVolumeLiters: "Volumen calculado",
+    "requiredPhCorrection.direction": "Direccion de pH",
+    "requiredPhCorrection.total": "pH total",
+    "requiredPhCorrection.stage1": "pH etapa 1",
+    "requiredChlorineDose.maintenance": "Cl mantencion",
+    "requiredChlorineDose.corrective": "Cl correctiva",
+    "requiredAlkalinityCorrection.direction": "Direccion de TA",
+    "requiredAlkalinityCorrection.amount": "TA correccion",
+    deletedAt: "Eliminada"
+  };
+  return labels[field] ?? field;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildExportFileName,
+  buildSessionExportDocument,
+  escapeCsvValue,
+  SESSION_EXPORT_FORMAT,
+  sessionsToCsv
+} from "./sessionExport";
+import type { Session } from "./types";
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    kind: "adjustment",
+    checkMoment: "start-day",
+    waterHeightCm: 70,
+    measuredPh: 7.8,
+    measuredChlorinePpm: 0.4,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "down", total: 80, stage1: 40, unit: "ml" },
+    requiredChlorineDose: { maintenance: 9, corrective: 20, unit: "g" },
+    appliedDoses: { phStage1: 40, phUnit: "ml", chlorine: 20, chlorineUnit: "g" },
+    ...overrides
+  };
+}
+
+describe("escapeCsvValue", () => {
+  it("deja valores simples sin comillas y vacia los indefinidos", () => {
+    expect(escapeCsvValue(7.4)).toBe("7.4");
+    expect(escapeCsvValue(true)).toBe("true");
+    expect(escapeCsvValue(undefined)).toBe("");
+  });
+
+  it("entrecomilla comas, comillas y saltos de linea", () => {
+    expect(escapeCsvValue('agua "turbia", lluvia')).toBe('"agua ""turbia"", lluvia"');
+    expect(escapeCsvValue("linea 1\nlinea 2")).toBe('"linea 1\nlinea 2"');
+  });
+
+  it("neutraliza textos que una planilla interpretaria como formula", () => {
+    expect(escapeCsvValue("=HYPERLINK(\"http://x\")")).toBe('"\'=HYPERLINK(""http://x"")"');
+    expect(escapeCsvValue("+cloro")).toBe("'+cloro");
+    expect(escapeCsvValue("-2 ppm")).toBe("'-2 ppm");
+    expect(escapeCsvValue("@suma")).toBe("'@suma");
+    expect(escapeCsvValue(-0.5)).toBe("-0.5");
+  });
+});
+
+describe("sessionsToCsv", () => {
+  it("genera encabezado y una fila por sesion en orden cronologico", () => {
+    const csv = sessionsToCsv([
+      makeSession("b", "2026-02-21T08:00:00.000Z", {
+        measuredPhIntermediate: 7.6,
+        postApplicationChecklist: {
+          pumpOn: true,
+          dilutedCorrectly: true,
+          perimeterApplication: false,
+          waitRespected: true
+        },
+        notes: "lluvia, hojas"
+      }),
+      makeSession("a", "2026-02-20T22:00:00.000Z", {
+        kind: "check",
+        checkMoment: "night",
+        appliedDoses: {}
+      })
+    ]);
+
+    const [header, first, second] = csv.split("\r\n");
+    expect(header.split(",")).toContain("measuredPhIntermediate");
+    expect(header.split(",")[0]).toBe("timestamp");
+    expect(first).toBe(
+      "2026-02-20T22:00:00.000Z,check,night,70,5114,7.8,,0.4,,,,,,,down,80,40,ml,9,20,g,,,,,,,,,,"
+    );
+    expect(second).toBe(
+      '2026-02-21T08:00:00.000Z,adjustment,start-day,70,5114,7.8,7.6,0.4,,,,,,,down,80,40,ml,9,20,g,40,,ml,20,g,true,true,false,true,"lluvia, hojas"'
+    );
+  });
+
+  it("retorna solo el encabezado cuando no hay sesiones", () => {
+    expect(sessionsToCsv([]).split("\r\n")).toHaveLength(1);
+  });
+});
+
+describe("buildSessionExportDocument", () => {
+  it("incluye formato, version, piscina y sesiones ordenadas", () => {
+    const document = buildSessionExportDocument(
+      [makeSession("b", "2026-02-21T08:00:00.000Z"), makeSession("a", "2026-02-20T08:00:00.000Z")],
+      { id: "default", name: "Piscina principal" },
+      new Date("2026-02-22T10:00:00.000Z")
+    );
+
+    expect(document.format).toBe(SESSION_EXPORT_FORMAT);
+    expect(document.version).toBe(1);
+    expect(document.exportedAt).toBe("2026-02-22T10:00:00.000Z");
+    expect(document.pool).toEqual({ id: "default", name: "Piscina principal" });
+    expect(document.sessions.map((session) => session.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("buildExportFileName", () => {
+  it("normaliza el nombre de la piscina y agrega fecha", () => {
+    expect(
+      buildExportFileName("Piscina Niños", "csv", new Date("2026-02-22T10:00:00.000Z"))
+    ).toBe("historial-piscina-ninos-2026-02-22.csv");
+    expect(buildExportFileName("???", "json", new Date("2026-02-22T10:00:00.000Z"))).toBe(
+      "historial-piscina-2026-02-22.json"
+    );
+  });
+});
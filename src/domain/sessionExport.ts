@@ -0,0 +1,130 @@
+import type { PoolConfig, Session } from "./types";
+
+export const SESSION_EXPORT_FORMAT = "piscina-pwa/sessions";
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface SessionExportDocument {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: typeof SESSION_EXPORT_VERSION;
+  exportedAt: string;
+  pool: {
+    id: string;
+    name: string;
+  };
+  sessions: Session[];
+}
+
+type CsvValue = string | number | boolean | undefined;
+
+interface CsvColumn {
+  header: string;
+  value: (session: Session) => CsvValue;
+}
+
+const CSV_COLUMNS: CsvColumn[] = [
+  { header: "timestamp", value: (session) => session.timestamp },
+  { header: "kind", value: (session) => session.kind },
+  { header: "checkMoment", value: (session) => session.checkMoment },
+  { header: "waterHeightCm", value: (session) => session.waterHeightCm },
+  { header: "calculatedVolumeLiters", value: (session) => session.calculatedVolumeLiters },
+  { header: "measuredPh", value: (session) => session.measuredPh },
+  { header: "measuredPhIntermediate", value: (session) => session.measuredPhIntermediate },
+  { header: "measuredChlorinePpm", value: (session) => session.measuredChlorinePpm },
+  { header: "measuredTotalChlorinePpm", value: (session) => session.measuredTotalChlorinePpm },
+  { header: "measuredAlkalinityPpm", value: (session) => session.measuredAlkalinityPpm },
+  { header: "measuredCyaPpm", value: (session) => session.measuredCyaPpm },
+  {
+    header: "measuredCalciumHardnessPpm",
+    value: (session) => session.measuredCalciumHardnessPpm
+  },
+  { header: "measuredTdsPpm", value: (session) => session.measuredTdsPpm },
+  { header: "waterTemperatureC", value: (session) => session.waterTemperatureC },
+  { header: "phDirection", value: (session) => session.requiredPhCorrection.direction },
+  { header: "phRequiredTotal", value: (session) => session.requiredPhCorrection.total },
+  { header: "phRequiredStage1", value: (session) => session.requiredPhCorrection.stage1 },
+  { header: "phRequiredUnit", value: (session) => session.requiredPhCorrection.unit },
+  {
+    header: "chlorineRequiredMaintenance",
+    value: (session) => session.requiredChlorineDose.maintenance
+  },
+  {
+    header: "chlorineRequiredCorrective",
+    value: (session) => session.requiredChlorineDose.corrective
+  },
+  { header: "chlorineRequiredUnit", value: (session) => session.requiredChlorineDose.unit },
+  { header: "phApplied", value: (session) => session.appliedDoses.phStage1 },
+  { header: "phAppliedStage2", value: (session) => session.appliedDoses.phStage2 },
+  { header: "phAppliedUnit", value: (session) => session.appliedDoses.phUnit },
+  { header: "chlorineApplied", value: (session) => session.appliedDoses.chlorine },
+  { header: "chlorineAppliedUnit", value: (session) => session.appliedDoses.chlorineUnit },
+  { header: "checklistPumpOn", value: (session) => session.postApplicationChecklist?.pumpOn },
+  {
+    header: "checklistDilutedCorrectly",
+    value: (session) => session.postApplicationChecklist?.dilutedCorrectly
+  },
+  {
+    header: "checklistPerimeterApplication",
+    value: (session) => session.postApplicationChecklist?.perimeterApplication
+  },
+  {
+    header: "checklistWaitRespected",
+    value: (session) => session.postApplicationChecklist?.waitRespected
+  },
+  { header: "notes", value: (session) => session.notes }
+];
+
+function sortByTimestampAsc(sessions: Session[]): Session[] {
+  return sessions.slice().sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === undefined) {
+    return "";
+  }
+
+  // Un texto libre que empieza como formula se ejecutaria al abrir el archivo en una planilla.
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function sessionsToCsv(sessions: Session[]): string {
+  const header = CSV_COLUMNS.map((column) => column.header).join(",");
+  const rows = sortByTimestampAsc(sessions).map((session) =>
+    CSV_COLUMNS.map((column) => escapeCsvValue(column.value(session))).join(",")
+  );
+  return [header, ...rows].join("\r\n");
+}
+
+export function buildSessionExportDocument(
+  sessions: Session[],
+  pool: Pick<PoolConfig, "id" | "name">,
+  exportedAt: Date = new Date()
+): SessionExportDocument {
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    pool: { id: pool.id, name: pool.name },
+    sessions: sortByTimestampAsc(sessions)
+  };
+}
+
+export function buildExportFileName(
+  poolName: string,
+  extension: "csv" | "json",
+  exportedAt: Date = new Date()
+): string {
+  const slug =
+    poolName
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "piscina";
+  const date = exportedAt.toISOString().slice(0, 10);
+  return `historial-${slug}-${date}.${extension}`;
+}
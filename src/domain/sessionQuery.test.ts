@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { defaultPoolConfig } from "./defaults";
+import {
+  compareSessionsDesc,
+  decodeSessionCursor,
+  matchesSessionQuery,
+  paginateSessions,
+  summarizeSessions
+} from "./sessionQuery";
+import type { Session } from "./types";
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    kind: "check",
+    checkMoment: "start-day",
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 1.5,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+const sessions = [
+  makeSession("a", "2026-01-01T08:00:00.000Z"),
+  makeSession("b", "2026-01-02T08:00:00.000Z", {
+    kind: "adjustment",
+    measuredPh: 7.9,
+    appliedDoses: { phStage1: 40, phUnit: "ml" }
+  }),
+  makeSession("c", "2026-01-02T08:00:00.000Z", { checkMoment: "night" }),
+  makeSession("d", "2026-01-03T20:00:00.000Z", {
+    kind: "shock",
+    checkMoment: undefined,
+    measuredChlorinePpm: 0.2,
+    appliedDoses: { chlorine: 200, chlorineUnit: "g" }
+  }),
+  makeSession("e", "2026-01-04T08:00:00.000Z", { deletedAt: "2026-01-05T08:00:00.000Z" })
+].sort(compareSessionsDesc);
+
+describe("matchesSessionQuery", () => {
+  it("filtra por rango de fechas, tipo, momento, dosis y fuera de rango", () => {
+    const ids = (query: Parameters<typeof matchesSessionQuery>[1]) =>
+      sessions
+        .filter((session) => matchesSessionQuery(session, query, defaultPoolConfig))
+        .map((session) => session.id);
+
+    expect(ids({})).toEqual(["d", "c", "b", "a"]);
+    expect(ids({ from: "2026-01-02T00:00:00.000Z", to: "2026-01-02T23:59:59.999Z" })).toEqual([
+      "c",
+      "b"
+    ]);
+    expect(ids({ kinds: ["check"] })).toEqual(["c", "a"]);
+    expect(ids({ checkMoments: ["night"] })).toEqual(["c"]);
+    expect(ids({ hadDose: true })).toEqual(["d", "b"]);
+    expect(ids({ outOfRange: true })).toEqual(["d", "b"]);
+  });
+});
+
+describe("paginateSessions", () => {
+  it("pagina con cursor estable aun con timestamps repetidos", () => {
+    const first = paginateSessions(sessions, { limit: 2 }, defaultPoolConfig);
+    expect(first.items.map((session) => session.id)).toEqual(["d", "c"]);
+    expect(decodeSessionCursor(first.nextCursor)).toEqual({
+      timestamp: "2026-01-02T08:00:00.000Z",
+      id: "c"
+    });
+
+    const second = paginateSessions(
+      sessions,
+      { limit: 2, cursor: first.nextCursor },
+      defaultPoolConfig
+    );
+    expect(second.items.map((session) => session.id)).toEqual(["b", "a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe("summarizeSessions", () => {
+  it("cuenta por tipo, momento, dosis y fuera de rango", () => {
+    const visible = sessions.filter((session) => !session.deletedAt);
+    expect(summarizeSessions(visible, defaultPoolConfig)).toEqual({
+      total: 4,
+      byKind: { adjustment: 1, check: 2, "intensive-cycle": 0, shock: 1 },
+      byCheckMoment: { "start-day": 2, "sun-hours": 0, night: 1, none: 1 },
+      withDose: 2,
+      outOfRange: 2
+    });
+  });
+});
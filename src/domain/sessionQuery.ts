@@ -0,0 +1,167 @@
+import { classifyChlorine, classifyPh } from "./calculations";
+import type { CheckMoment, PoolConfig, Session, SessionKind } from "./types";
+
+export const DEFAULT_PAGE_SIZE = 20;
+const CURSOR_SEPARATOR = "|";
+
+export interface SessionQuery {
+  from?: string;
+  to?: string;
+  kinds?: SessionKind[];
+  checkMoments?: CheckMoment[];
+  hadDose?: boolean;
+  outOfRange?: boolean;
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface SessionCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface SessionPage {
+  items: Session[];
+  nextCursor: string | null;
+}
+
+export interface SessionCountSummary {
+  total: number;
+  byKind: Record<SessionKind, number>;
+  byCheckMoment: Record<CheckMoment | "none", number>;
+  withDose: number;
+  outOfRange: number;
+}
+
+export function getSessionKind(session: Session): SessionKind {
+  return session.kind ?? "adjustment";
+}
+
+export function sessionHadDose(session: Session): boolean {
+  const doses = session.appliedDoses;
+  return (
+    (doses.phStage1 ?? 0) +
+      (doses.phStage2 ?? 0) +
+      (doses.chlorine ?? 0) +
+      (doses.alkalinity ?? 0) >
+    0
+  );
+}
+
+// Fuera de rango: pH o cloro libre fuera de los objetivos configurados.
+export function isSessionOutOfRange(session: Session, config: PoolConfig): boolean {
+  return (
+    classifyPh(session.measuredPh, config) !== "ok" ||
+    classifyChlorine(session.measuredChlorinePpm, config) !== "ok"
+  );
+}
+
+export function encodeSessionCursor(session: Session): string {
+  return `${session.timestamp}${CURSOR_SEPARATOR}${session.id}`;
+}
+
+export function decodeSessionCursor(cursor: string | null | undefined): SessionCursor | null {
+  if (!cursor) {
+    return null;
+  }
+  const separator = cursor.indexOf(CURSOR_SEPARATOR);
+  if (separator <= 0) {
+    return null;
+  }
+  return { timestamp: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+}
+
+// Orden del historial: mas reciente primero y, a igual timestamp, id descendente.
+export function compareSessionsDesc(a: Session, b: Session): number {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp < b.timestamp ? 1 : -1;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export function isBeforeCursor(session: Session, cursor: SessionCursor | null): boolean {
+  if (!cursor) {
+    return true;
+  }
+  return (
+    session.timestamp < cursor.timestamp ||
+    (session.timestamp === cursor.timestamp && session.id < cursor.id)
+  );
+}
+
+export function matchesSessionQuery(
+  session: Session,
+  query: SessionQuery,
+  config: PoolConfig
+): boolean {
+  if (session.deletedAt) {
+    return false;
+  }
+  if (query.from && session.timestamp < query.from) {
+    return false;
+  }
+  if (query.to && session.timestamp > query.to) {
+    return false;
+  }
+  if (query.kinds?.length && !query.kinds.includes(getSessionKind(session))) {
+    return false;
+  }
+  if (
+    query.checkMoments?.length &&
+    (!session.checkMoment || !query.checkMoments.includes(session.checkMoment))
+  ) {
+    return false;
+  }
+  if (query.hadDose !== undefined && sessionHadDose(session) !== query.hadDose) {
+    return false;
+  }
+  if (query.outOfRange !== undefined && isSessionOutOfRange(session, config) !== query.outOfRange) {
+    return false;
+  }
+  return true;
+}
+
+// Recibe candidatas en orden descendente y arma la pagina siguiente al cursor.
+export function paginateSessions(
+  candidates: Session[],
+  query: SessionQuery,
+  config: PoolConfig
+): SessionPage {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const cursor = decodeSessionCursor(query.cursor);
+  const matches = candidates
+    .filter(
+      (session) => isBeforeCursor(session, cursor) && matchesSessionQuery(session, query, config)
+    )
+    .slice(0, limit + 1);
+  const items = matches.slice(0, limit);
+
+  return {
+    items,
+    nextCursor: matches.length > limit ? encodeSessionCursor(items[items.length - 1]) : null
+  };
+}
+
+export function summarizeSessions(sessions: Session[], config: PoolConfig): SessionCountSummary {
+  const summary: SessionCountSummary = {
+    total: 0,
+    byKind: { adjustment: 0, check: 0, "intensive-cycle": 0, shock: 0 },
+    byCheckMoment: { "start-day": 0, "sun-hours": 0, night: 0, none: 0 },
+    withDose: 0,
+    outOfRange: 0
+  };
+
+  for (const session of sessions) {
+    summary.total += 1;
+    summary.byKind[getSessionKind(session)] += 1;
+    summary.byCheckMoment[session.checkMoment ?? "none"] += 1;
+    if (sessionHadDose(session)) {
+      summary.withDose += 1;
+    }
+    if (isSessionOutOfRange(session, config)) {
+      summary.outOfRange += 1;
+    }
+  }
+
+  return summary;
+}
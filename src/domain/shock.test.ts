@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCombinedChlorinePpm,
+  calculateShockDose,
+  calculateShockDoseTraced,
+  evaluateShockReentry,
+  needsShock
+} from "./shock";
+import type { Session } from "./types";
+
+function makeSession(id: string, timestamp: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    waterHeightCm: 70,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 1,
+    calculatedVolumeLiters: 5600,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {},
+    ...overrides
+  };
+}
+
+describe("cloro combinado", () => {
+  it("calcula CC como total menos libre sin bajar de cero", () => {
+    expect(calculateCombinedChlorinePpm(1, 1.8)).toBeCloseTo(0.8, 9);
+    expect(calculateCombinedChlorinePpm(2, 1.5)).toBe(0);
+  });
+
+  it("recomienda shock sobre 0.5 ppm de cloro combinado", () => {
+    expect(needsShock(1, 1.5)).toBe(false);
+    expect(needsShock(1, 1.6)).toBe(true);
+  });
+});
+
+describe("calculateShockDose", () => {
+  it("lleva el cloro libre a FC + 10 * CC", () => {
+    // CC = 0.8 -> objetivo 9 ppm, faltan 8 ppm * 5600 L / 560 mg/g = 80 g.
+    const { value, trace } = calculateShockDoseTraced(1, 1.8, 5600, 56, "granular-g");
+
+    expect(value.targetFreeChlorinePpm).toBeCloseTo(9, 9);
+    expect(value.amount).toBeCloseTo(80, 9);
+    expect(value.unit).toBe("g");
+    expect(trace.result.value).toBeCloseTo(80, 9);
+    expect(trace.note).toBeUndefined();
+  });
+
+  it("respeta el minimo de shock segun CYA", () => {
+    const dose = calculateShockDose(1, 1.8, 10000, 10, "liquid-ml", "%", 50);
+
+    expect(dose.targetFreeChlorinePpm).toBeCloseTo(20, 9);
+    expect(dose.amount).toBeCloseTo(1900, 9);
+    expect(dose.unit).toBe("ml");
+  });
+
+  it("no dosifica sin cloro combinado ni CYA", () => {
+    const { value, trace } = calculateShockDoseTraced(2, 2, 5600, 56, "granular-g");
+
+    expect(value.amount).toBe(0);
+    expect(trace.note).toContain("no se requiere shock");
+  });
+});
+
+describe("evaluateShockReentry", () => {
+  it("sin shocks registrados permite el ingreso", () => {
+    const status = evaluateShockReentry([makeSession("s1", "2026-01-01T10:00:00.000Z")], 3);
+    expect(status).toEqual({ shock: null, safe: true, lastReadingPpm: null, lastReadingAt: null });
+  });
+
+  it("bloquea el ingreso hasta medir bajo el maximo objetivo", () => {
+    const shock = makeSession("s1", "2026-01-01T10:00:00.000Z", { kind: "shock" });
+    const high = makeSession("s2", "2026-01-01T18:00:00.000Z", { measuredChlorinePpm: 6 });
+    const low = makeSession("s3", "2026-01-02T10:00:00.000Z", { measuredChlorinePpm: 2.5 });
+
+    expect(evaluateShockReentry([shock], 3)).toMatchObject({ safe: false, lastReadingPpm: null });
+    expect(evaluateShockReentry([high, shock], 3)).toMatchObject({
+      safe: false,
+      lastReadingPpm: 6
+    });
+    expect(evaluateShockReentry([low, high, shock], 3)).toMatchObject({
+      shock: { id: "s1" },
+      safe: true,
+      lastReadingAt: "2026-01-02T10:00:00.000Z"
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { getChlorineMgPerProductUnit } from "./calculations";
+import type {
+  CalculationTrace,
+  ChemicalUnit,
+  DoseUnit,
+  ProductPresentation,
+  Session,
+  TracedResult
+} from "./types";
+
+// Cloracion a punto de quiebre: agregar 10 veces el cloro combinado.
+const BREAKPOINT_CC_MULTIPLIER = 10;
+// Con estabilizador, el nivel de shock no debe quedar bajo el 40% del CYA.
+const SHOCK_FC_CYA_RATIO = 0.4;
+// Sobre este cloro combinado se recomienda shock (olor a cloraminas).
+export const COMBINED_CHLORINE_SHOCK_THRESHOLD_PPM = 0.5;
+
+export interface ShockDose {
+  amount: number;
+  unit: DoseUnit;
+  targetFreeChlorinePpm: number;
+}
+
+export interface ShockReentryStatus {
+  shock: Session | null;
+  safe: boolean;
+  lastReadingPpm: number | null;
+  lastReadingAt: string | null;
+}
+
+export function calculateCombinedChlorinePpm(freePpm: number, totalPpm: number): number {
+  return Math.max(0, totalPpm - freePpm);
+}
+
+export function needsShock(freePpm: number, totalPpm: number): boolean {
+  return calculateCombinedChlorinePpm(freePpm, totalPpm) > COMBINED_CHLORINE_SHOCK_THRESHOLD_PPM;
+}
+
+export function calculateShockDoseTraced(
+  freePpm: number,
+  totalPpm: number,
+  volumeLiters: number,
+  chlorineConcentration: number,
+  presentation: ProductPresentation,
+  concentrationUnit: ChemicalUnit = "%",
+  cyaPpm = 0
+): TracedResult<ShockDose> {
+  const unit: DoseUnit = presentation === "granular-g" ? "g" : "ml";
+  const trace: CalculationTrace = {
+    title: "Supercloracion (punto de quiebre)",
+    inputs: [
+      { symbol: "FC", label: "Cloro libre medido", value: freePpm, unit: "ppm" },
+      { symbol: "TC", label: "Cloro total medido", value: totalPpm, unit: "ppm" },
+      { symbol: "CYA", label: "Acido cianurico", value: cyaPpm, unit: "ppm" },
+      { symbol: "V_L", label: "Volumen", value: volumeLiters, unit: "L" },
+      {
+        symbol: "C",
+        label: "Concentracion del producto",
+        value: chlorineConcentration,
+        unit: concentrationUnit
+      }
+    ],
+    constants: [
+      {
+        symbol: "k_bp",
+        label: "Multiplicador de punto de quiebre",
+        value: BREAKPOINT_CC_MULTIPLIER
+      },
+      { symbol: "r_CYA", label: "Relacion FC/CYA de shock", value: SHOCK_FC_CYA_RATIO }
+    ],
+    steps: [],
+    result: { symbol: "D_shock", label: "Dosis de shock", value: 0, unit }
+  };
+
+  const combined = calculateCombinedChlorinePpm(freePpm, totalPpm);
+  const breakpointTarget = freePpm + combined * BREAKPOINT_CC_MULTIPLIER;
+  const cyaTarget = cyaPpm * SHOCK_FC_CYA_RATIO;
+  const targetFreeChlorinePpm = Math.max(breakpointTarget, cyaTarget);
+  const deficitPpm = Math.max(0, targetFreeChlorinePpm - freePpm);
+  const mgPerUnit = getChlorineMgPerProductUnit(
+    chlorineConcentration,
+    concentrationUnit,
+    presentation
+  );
+  const amount = mgPerUnit > 0 ? (deficitPpm * volumeLiters) / mgPerUnit : 0;
+
+  trace.steps = [
+    {
+      symbol: "CC",
+      label: "Cloro combinado",
+      formula: "max(0, TC - FC)",
+      value: combined,
+      unit: "ppm"
+    },
+    {
+      symbol: "FC_bp",
+      label: "Objetivo por punto de quiebre",
+      formula: "FC + CC * k_bp",
+      value: breakpointTarget,
+      unit: "ppm"
+    },
+    {
+      symbol: "FC_CYA",
+      label: "Objetivo minimo por CYA",
+      formula: "CYA * r_CYA",
+      value: cyaTarget,
+      unit: "ppm"
+    },
+    {
+      symbol: "FC_obj",
+      label: "Cloro libre objetivo",
+      formula: "max(FC_bp, FC_CYA)",
+      value: targetFreeChlorinePpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "ΔFC",
+      label: "Cloro a agregar",
+      formula: "max(0, FC_obj - FC)",
+      value: deficitPpm,
+      unit: "ppm"
+    },
+    {
+      symbol: "mg_u",
+      label: `mg de cloro por ${unit}`,
+      formula: "segun concentracion y presentacion",
+      value: mgPerUnit
+    },
+    {
+      symbol: "D_shock",
+      label: "Dosis de shock",
+      formula: "ΔFC * V_L / mg_u",
+      value: amount,
+      unit
+    }
+  ];
+  if (mgPerUnit <= 0) {
+    trace.note = "Concentracion invalida para esta presentacion: la dosis es 0.";
+  } else if (deficitPpm <= 0) {
+    trace.note = "Sin cloro combinado ni CYA que compensar: no se requiere shock.";
+  }
+  trace.result = { ...trace.result, value: amount };
+
+  return { value: { amount, unit, targetFreeChlorinePpm }, trace };
+}
+
+export function calculateShockDose(
+  freePpm: number,
+  totalPpm: number,
+  volumeLiters: number,
+  chlorineConcentration: number,
+  presentation: ProductPresentation,
+  concentrationUnit: ChemicalUnit = "%",
+  cyaPpm = 0
+): ShockDose {
+  return calculateShockDoseTraced(
+    freePpm,
+    totalPpm,
+    volumeLiters,
+    chlorineConcentration,
+    presentation,
+    concentrationUnit,
+    cyaPpm
+  ).value;
+}
+
+export function evaluateShockReentry(
+  sessions: Session[],
+  chlorineMaxPpm: number
+): ShockReentryStatus {
+  const sorted = sessions.slice().sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  let shockIndex = -1;
+  for (let index = sorted.length - 1; index >= 0; index -= 1) {
+    if (sorted[index].kind === "shock") {
+      shockIndex = index;
+      break;
+    }
+  }
+
+  if (shockIndex === -1) {
+    return { shock: null, safe: true, lastReadingPpm: null, lastReadingAt: null };
+  }
+
+  const shock = sorted[shockIndex];
+  const followUps = sorted.slice(shockIndex + 1);
+  const lastReading = followUps[followUps.length - 1];
+  // Sin mediciones posteriores se asume que el cloro sigue en nivel de shock.
+  if (!lastReading) {
+    return { shock, safe: false, lastReadingPpm: null, lastReadingAt: null };
+  }
+
+  return {
+    shock,
+    safe: lastReading.measuredChlorinePpm <= chlorineMaxPpm,
+    lastReadingPpm: lastReading.measuredChlorinePpm,
+    lastReadingAt: lastReading.timestamp
+  };
+}
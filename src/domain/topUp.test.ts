@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { defaultPoolConfig } from "./defaults";
+import {
+  calculateTopUpDilution,
+  estimateTopUpEffect,
+  evaluateEvaporation,
+  findPreviousHeight,
+  getDilutionFactor
+} from "./topUp";
+import type { Session, WaterTopUp } from "./types";
+
+function makeSession(id: string, timestamp: string, waterHeightCm: number): Session {
+  return {
+    id,
+    poolId: "default",
+    timestamp,
+    waterHeightCm,
+    measuredPh: 7.4,
+    measuredChlorinePpm: 2,
+    calculatedVolumeLiters: 5114,
+    requiredPhCorrection: { direction: "none", total: 0, stage1: 0, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 0, unit: "g" },
+    appliedDoses: {}
+  };
+}
+
+function makeTopUp(id: string, timestamp: string, before: number, after: number): WaterTopUp {
+  return { id, poolId: "default", timestamp, heightBeforeCm: before, heightAfterCm: after };
+}
+
+const pool = defaultPoolConfig.pool;
+
+describe("calculateTopUpDilution", () => {
+  it("calcula el agua agregada y el factor de dilucion por volumen", () => {
+    // Piscina redonda: el volumen es proporcional a la altura.
+    const dilution = calculateTopUpDilution(pool, 60, 75);
+    expect(dilution.factor).toBeCloseTo(0.8, 9);
+    expect(dilution.addedLiters).toBeCloseTo(
+      dilution.volumeAfterLiters - dilution.volumeBeforeLiters,
+      9
+    );
+  });
+
+  it("no diluye si la altura no sube", () => {
+    expect(calculateTopUpDilution(pool, 70, 70).factor).toBe(1);
+  });
+
+  it("considera el desnivel del fondo en piscinas inclinadas", () => {
+    const sloped = {
+      shape: "sloped-rectangular" as const,
+      lengthM: 4,
+      widthM: 2,
+      shallowDepthCm: 80,
+      deepDepthCm: 120
+    };
+    // Profundidad media 80 -> 100 cm.
+    expect(calculateTopUpDilution(sloped, 60, 80).factor).toBeCloseTo(0.8, 9);
+  });
+});
+
+describe("getDilutionFactor", () => {
+  it("acumula solo los llenados posteriores al inicio y hasta el fin inclusive", () => {
+    const topUps = [
+      makeTopUp("t1", "2026-01-02T10:00:00.000Z", 60, 75),
+      makeTopUp("t2", "2026-01-04T10:00:00.000Z", 64, 80),
+      makeTopUp("t0", "2026-01-01T10:00:00.000Z", 50, 100)
+    ];
+
+    expect(
+      getDilutionFactor(topUps, pool, "2026-01-01T10:00:00.000Z", "2026-01-04T10:00:00.000Z")
+    ).toBeCloseTo(0.64, 9);
+    expect(
+      getDilutionFactor(topUps, pool, "2026-01-01T10:00:00.000Z", "2026-01-03T10:00:00.000Z")
+    ).toBeCloseTo(0.8, 9);
+    expect(getDilutionFactor(topUps, pool, "2026-01-05T10:00:00.000Z")).toBe(1);
+  });
+});
+
+describe("estimateTopUpEffect", () => {
+  it("diluye cloro, CYA y alcalinidad conocidos", () => {
+    const effect = estimateTopUpEffect(
+      pool,
+      { timestamp: "2026-01-02T10:00:00.000Z", heightBeforeCm: 60, heightAfterCm: 75 },
+      { chlorinePpm: 2.5, cyaPpm: 40, alkalinityPpm: null }
+    );
+
+    expect(effect.after.chlorinePpm).toBeCloseTo(2, 9);
+    expect(effect.after.cyaPpm).toBeCloseTo(32, 9);
+    expect(effect.after.alkalinityPpm).toBeNull();
+  });
+});
+
+describe("evaluateEvaporation", () => {
+  const sessions = [
+    makeSession("s1", "2026-01-01T10:00:00.000Z", 72),
+    makeSession("s2", "2026-01-03T10:00:00.000Z", 70)
+  ];
+
+  it("toma la ultima altura conocida de sesiones o llenados previos", () => {
+    const topUps = [makeTopUp("t1", "2026-01-04T10:00:00.000Z", 69, 74)];
+    expect(findPreviousHeight("2026-01-05T10:00:00.000Z", sessions, topUps)).toEqual({
+      heightCm: 74,
+      at: "2026-01-04T10:00:00.000Z"
+    });
+    expect(findPreviousHeight("2026-01-01T09:00:00.000Z", sessions, topUps)).toBeNull();
+  });
+
+  it("marca una baja mayor a la evaporacion normal", () => {
+    const normal = evaluateEvaporation(
+      { timestamp: "2026-01-05T10:00:00.000Z", heightBeforeCm: 69, heightAfterCm: 74 },
+      sessions,
+      []
+    );
+    expect(normal).toMatchObject({ previousHeightCm: 70, dropCm: 1, excessive: false });
+    expect(normal?.rateCmPerDay).toBeCloseTo(0.5, 9);
+
+    const leak = evaluateEvaporation(
+      { timestamp: "2026-01-05T10:00:00.000Z", heightBeforeCm: 65, heightAfterCm: 74 },
+      sessions,
+      []
+    );
+    expect(leak?.rateCmPerDay).toBeCloseTo(2.5, 9);
+    expect(leak?.excessive).toBe(true);
+  });
+
+  it("no evalua con lecturas demasiado cercanas", () => {
+    expect(
+      evaluateEvaporation(
+        { timestamp: "2026-01-03T14:00:00.000Z", heightBeforeCm: 60, heightAfterCm: 74 },
+        sessions,
+        []
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import { calculatePoolVolumeLiters } from "./calculations";
+import type { PoolDimensions, Session, WaterTopUp } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Evaporacion alta de verano sin cobertor; una baja mayor sugiere fuga o salpicaduras.
+export const MAX_EVAPORATION_CM_PER_DAY = 1;
+// Con menos tiempo entre lecturas domina el error de medir la altura.
+const MIN_EVAPORATION_HOURS = 12;
+
+export type TopUpDraft = Pick<WaterTopUp, "timestamp" | "heightBeforeCm" | "heightAfterCm">;
+
+export interface TopUpDilution {
+  volumeBeforeLiters: number;
+  volumeAfterLiters: number;
+  addedLiters: number;
+  factor: number;
+}
+
+export interface WaterState {
+  chlorinePpm: number | null;
+  cyaPpm: number | null;
+  alkalinityPpm: number | null;
+}
+
+export interface TopUpEffect extends TopUpDilution {
+  before: WaterState;
+  after: WaterState;
+}
+
+export interface EvaporationCheck {
+  previousHeightCm: number;
+  previousAt: string;
+  dropCm: number;
+  elapsedDays: number;
+  rateCmPerDay: number;
+  excessive: boolean;
+}
+
+export function calculateTopUpDilution(
+  pool: PoolDimensions,
+  heightBeforeCm: number,
+  heightAfterCm: number
+): TopUpDilution {
+  const volumeBeforeLiters = calculatePoolVolumeLiters(pool, heightBeforeCm);
+  const volumeAfterLiters = calculatePoolVolumeLiters(pool, heightAfterCm);
+  return {
+    volumeBeforeLiters,
+    volumeAfterLiters,
+    addedLiters: Math.max(0, volumeAfterLiters - volumeBeforeLiters),
+    // Un llenado solo puede diluir: si la altura no sube el factor queda en 1.
+    factor:
+      volumeAfterLiters > volumeBeforeLiters && volumeAfterLiters > 0
+        ? volumeBeforeLiters / volumeAfterLiters
+        : 1
+  };
+}
+
+// Factor acumulado de los llenados ocurridos despues de fromIso y hasta toIso inclusive.
+export function getDilutionFactor(
+  topUps: WaterTopUp[],
+  pool: PoolDimensions,
+  fromIso: string,
+  toIso?: string
+): number {
+  const from = Date.parse(fromIso);
+  const to = toIso === undefined ? Infinity : Date.parse(toIso);
+  return topUps.reduce((factor, topUp) => {
+    const at = Date.parse(topUp.timestamp);
+    if (at <= from || at > to) {
+      return factor;
+    }
+    return factor * calculateTopUpDilution(pool, topUp.heightBeforeCm, topUp.heightAfterCm).factor;
+  }, 1);
+}
+
+export function diluteWaterState(state: WaterState, factor: number): WaterState {
+  const dilute = (value: number | null) => (value === null ? null : value * factor);
+  return {
+    chlorinePpm: dilute(state.chlorinePpm),
+    cyaPpm: dilute(state.cyaPpm),
+    alkalinityPpm: dilute(state.alkalinityPpm)
+  };
+}
+
+export function estimateTopUpEffect(
+  pool: PoolDimensions,
+  topUp: TopUpDraft,
+  before: WaterState
+): TopUpEffect {
+  const dilution = calculateTopUpDilution(pool, topUp.heightBeforeCm, topUp.heightAfterCm);
+  return { ...dilution, before, after: diluteWaterState(before, dilution.factor) };
+}
+
+// Ultima altura conocida antes del llenado: la de una sesion o la final de otro llenado.
+export function findPreviousHeight(
+  timestamp: string,
+  sessions: Session[],
+  topUps: WaterTopUp[]
+): { heightCm: number; at: string } | null {
+  const before = Date.parse(timestamp);
+  const readings = [
+    ...sessions
+      .filter((session) => !session.deletedAt)
+      .map((session) => ({ heightCm: session.waterHeightCm, at: session.timestamp })),
+    ...topUps.map((topUp) => ({ heightCm: topUp.heightAfterCm, at: topUp.timestamp }))
+  ].filter((reading) => Date.parse(reading.at) < before);
+
+  return readings.reduce<{ heightCm: number; at: string } | null>(
+    (latest, reading) =>
+      !latest || Date.parse(reading.at) > Date.parse(latest.at) ? reading : latest,
+    null
+  );
+}
+
+export function evaluateEvaporation(
+  topUp: TopUpDraft,
+  sessions: Session[],
+  topUps: WaterTopUp[]
+): EvaporationCheck | null {
+  const previous = findPreviousHeight(topUp.timestamp, sessions, topUps);
+  if (!previous) {
+    return null;
+  }
+  const elapsedMs = Date.parse(topUp.timestamp) - Date.parse(previous.at);
+  if (elapsedMs < MIN_EVAPORATION_HOURS * HOUR_MS) {
+    return null;
+  }
+
+  const dropCm = previous.heightCm - topUp.heightBeforeCm;
+  const elapsedDays = elapsedMs / DAY_MS;
+  const rateCmPerDay = Math.max(0, dropCm) / elapsedDays;
+  return {
+    previousHeightCm: previous.heightCm,
+    previousAt: previous.at,
+    dropCm,
+    elapsedDays,
+    rateCmPerDay,
+    excessive: rateCmPerDay > MAX_EVAPORATION_CM_PER_DAY
+  };
+}
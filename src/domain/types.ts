@@ -1,21 +1,67 @@
-export type ChemicalUnit = "%";
+export type ChemicalUnit = "%" | "g/L";
+export type UnitSystem = "metric" | "imperial";
 export type ProductPresentation = "liquid-ml" | "granular-g";
 export type DoseUnit = "ml" | "g";
-export type SessionKind = "adjustment" | "check" | "intensive-cycle";
+export type DisplayDoseUnit = DoseUnit | "fl oz" | "oz";
+export type SessionKind = "adjustment" | "check" | "intensive-cycle" | "shock";
 export type CheckMoment = "start-day" | "sun-hours" | "night";
+export type PoolShape = "round" | "rectangular" | "oval" | "sloped-rectangular" | "sloped-oval";
+
+export type PoolDimensions =
+  | {
+      shape: "round";
+      diameterM: number;
+      maxHeightCm?: number;
+    }
+  | {
+      shape: "rectangular" | "oval";
+      lengthM: number;
+      widthM: number;
+      maxHeightCm?: number;
+    }
+  | {
+      // Fondo inclinado: la altura de la sesion se mide en el extremo bajo y el desnivel
+      // del fondo se obtiene de shallowDepthCm/deepDepthCm.
+      shape: "sloped-rectangular" | "sloped-oval";
+      lengthM: number;
+      widthM: number;
+      shallowDepthCm: number;
+      deepDepthCm: number;
+      maxHeightCm?: number;
+    };
+
+export type ProductRole = "chlorine" | "acid" | "ph-up";
+
+export interface ChemicalProduct {
+  id: string;
+  role: ProductRole;
+  type: string;
+  concentration: number;
+  unit: ChemicalUnit;
+  presentation: ProductPresentation;
+  // ppm de CYA que aporta cada ppm de cloro libre (cloro estabilizado); sin valor no aporta.
+  cyaPerFcPpm?: number;
+  createdAt: string;
+  archivedAt?: string;
+}
+
+export type ProductSnapshot = Pick<
+  ChemicalProduct,
+  "id" | "type" | "concentration" | "unit" | "presentation" | "cyaPerFcPpm"
+>;
 
 export interface PoolConfig {
   id: string;
+  name: string;
   updatedAt: string;
-  pool: {
-    diameterM: number;
-    maxHeightCm?: number;
-  };
+  archivedAt?: string;
+  pool: PoolDimensions;
   chlorineProduct: {
     type: string;
     concentration: number;
     unit: ChemicalUnit;
     presentation: ProductPresentation;
+    cyaPerFcPpm: number;
   };
   acidProduct: {
     type: string;
@@ -33,6 +79,7 @@ export interface PoolConfig {
   chemistry: {
     estimatedAlkalinityPpm: number;
     usesCover: boolean;
+    lastRefillAt?: string;
   };
   workflow: {
     defaultWaitMinutes: number;
@@ -46,18 +93,129 @@ export interface PoolConfig {
     phMax: number;
     chlorineMinPpm: number;
     chlorineMaxPpm: number;
+    alkalinityMinPpm: number;
+    alkalinityMaxPpm: number;
+  };
+  preferences: {
+    unitSystem: UnitSystem;
   };
 }
 
+export interface InventoryContainer {
+  id: string;
+  productId: string;
+  quantity: number;
+  remaining: number;
+  unit: DoseUnit;
+  price?: number;
+  purchasedAt: string;
+  openedAt?: string;
+  emptiedAt?: string;
+}
+
+// "reversal" devuelve al stock el consumo de una sesion eliminada o corregida.
+export type InventoryMovementKind = "restock" | "usage" | "reversal";
+
+export interface InventoryMovement {
+  id: string;
+  productId: string;
+  containerId?: string;
+  kind: InventoryMovementKind;
+  amount: number;
+  unit: DoseUnit;
+  at: string;
+  sessionId?: string;
+  price?: number;
+}
+
+export type ReminderKind = "wait-end" | "max-wait" | "check-moment";
+
+export interface Reminder {
+  id: string;
+  poolId: string;
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  fireAt: string;
+  createdAt: string;
+  checkMoment?: CheckMoment;
+  firedAt?: string;
+}
+
+// Llenado con agua nueva: la altura se mide igual que en las sesiones.
+export interface WaterTopUp {
+  id: string;
+  poolId: string;
+  timestamp: string;
+  heightBeforeCm: number;
+  heightAfterCm: number;
+  notes?: string;
+}
+
+export interface IntensiveCycleSummary {
+  nightsEvaluated: number;
+  avgOvernightLossPpm: number;
+  lastOvernightLossPpm: number;
+  recommendation: string;
+}
+
+// Los criterios se copian de la configuracion al iniciar: cambiarla no altera ciclos ya abiertos.
+export interface IntensiveCycle {
+  id: string;
+  poolId: string;
+  reason: string;
+  startedAt: string;
+  closedAt?: string;
+  cancelledAt?: string;
+  minNights: number;
+  maxOvernightLossPpm: number;
+  summary?: IntensiveCycleSummary;
+}
+
+export interface TraceValue {
+  symbol: string;
+  label: string;
+  value: number;
+  unit?: string;
+}
+
+export interface TraceStep extends TraceValue {
+  formula: string;
+}
+
+export interface CalculationTrace {
+  title: string;
+  inputs: TraceValue[];
+  constants: TraceValue[];
+  steps: TraceStep[];
+  result: TraceValue;
+  note?: string;
+}
+
+export interface TracedResult<T> {
+  value: T;
+  trace: CalculationTrace;
+}
+
 export interface Session {
   id: string;
+  poolId: string;
   timestamp: string;
   kind?: SessionKind;
   checkMoment?: CheckMoment;
+  // Solo en mediciones de noche: si el cobertor quedo puesto hasta la manana.
+  coverOn?: boolean;
+  intensiveCycleId?: string;
   waterHeightCm: number;
   measuredPh: number;
   measuredPhIntermediate?: number;
   measuredChlorinePpm: number;
+  measuredTotalChlorinePpm?: number;
+  measuredAlkalinityPpm?: number;
+  measuredCyaPpm?: number;
+  measuredCalciumHardnessPpm?: number;
+  measuredTdsPpm?: number;
+  waterTemperatureC?: number;
   calculatedVolumeLiters: number;
   requiredPhCorrection: {
     direction: "down" | "up" | "none";
@@ -70,11 +228,36 @@ export interface Session {
     corrective: number;
     unit: DoseUnit;
   };
+  // Subir TA usa bicarbonato (g); bajarla usa el acido de la sesion (ml).
+  requiredAlkalinityCorrection?: {
+    direction: "up" | "down";
+    amount: number;
+    unit: DoseUnit;
+  };
   appliedDoses: {
     phStage1?: number;
+    phStage2?: number;
+    // Hora en que se aplico cada etapa de pH; la etapa 2 llega despues de re-medir.
+    phStage1At?: string;
+    phStage2At?: string;
     phUnit?: DoseUnit;
     chlorine?: number;
     chlorineUnit?: DoseUnit;
+    alkalinity?: number;
+    alkalinityUnit?: DoseUnit;
+  };
+  products?: {
+    chlorine?: ProductSnapshot;
+    acid?: ProductSnapshot;
+    phUp?: ProductSnapshot;
+  };
+  calculationTrace?: {
+    ph?: CalculationTrace;
+    phStage2?: CalculationTrace;
+    chlorine?: CalculationTrace;
+    alkalinity?: CalculationTrace;
+    lsi?: CalculationTrace;
+    shock?: CalculationTrace;
   };
   postApplicationChecklist?: {
     pumpOn: boolean;
@@ -83,4 +266,25 @@ export interface Session {
     waitRespected: boolean;
   };
   notes?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+}
+
+export type SessionRevisionAction = "edit" | "delete";
+export type SessionRevisionValue = string | number | null;
+
+export interface SessionFieldChange {
+  field: string;
+  before: SessionRevisionValue;
+  after: SessionRevisionValue;
+}
+
+export interface SessionRevision {
+  id: string;
+  sessionId: string;
+  poolId: string;
+  action: SessionRevisionAction;
+  author: string;
+  at: string;
+  changes: SessionFieldChange[];
 }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatConcentration,
+  formatDose,
+  formatHeight,
+  formatVolume,
+  fromConcentrationPct,
+  fromDisplayDose,
+  fromDisplayHeight,
+  fromDisplayLength,
+  fromDisplayTemperature,
+  toConcentrationPct,
+  toDisplayDose,
+  toDisplayHeight,
+  toDisplayLength,
+  toDisplayTemperature,
+  toDisplayVolume
+} from "./units";
+
+describe("conversion de longitudes", () => {
+  it("convierte altura entre cm y pulgadas", () => {
+    expect(toDisplayHeight(76.2, "imperial").value).toBeCloseTo(30, 9);
+    expect(toDisplayHeight(76.2, "imperial").unit).toBe("in");
+    expect(toDisplayHeight(76, "metric")).toEqual({ value: 76, unit: "cm" });
+    expect(fromDisplayHeight(30, "imperial")).toBeCloseTo(76.2, 9);
+    expect(fromDisplayHeight(76, "metric")).toBe(76);
+  });
+
+  it("convierte dimensiones entre m y pies", () => {
+    expect(toDisplayLength(3.6576, "imperial").value).toBeCloseTo(12, 9);
+    expect(toDisplayLength(3.6576, "imperial").unit).toBe("ft");
+    expect(fromDisplayLength(12, "imperial")).toBeCloseTo(3.6576, 9);
+    expect(fromDisplayLength(3.05, "metric")).toBe(3.05);
+  });
+});
+
+describe("conversion de temperatura", () => {
+  it("convierte entre grados Celsius y Fahrenheit", () => {
+    expect(toDisplayTemperature(25, "imperial")).toEqual({ value: 77, unit: "°F" });
+    expect(toDisplayTemperature(25, "metric")).toEqual({ value: 25, unit: "°C" });
+    expect(fromDisplayTemperature(77, "imperial")).toBeCloseTo(25, 9);
+    expect(fromDisplayTemperature(25, "metric")).toBe(25);
+  });
+});
+
+describe("conversion de volumen y dosis", () => {
+  it("muestra volumen en galones US", () => {
+    const volume = toDisplayVolume(5552.686475403619, "imperial");
+    expect(volume.unit).toBe("gal");
+    expect(volume.value).toBeCloseTo(1466.86, 2);
+    expect(formatVolume(5552.686475403619, "metric")).toBe("5553 L");
+    expect(formatVolume(5552.686475403619, "imperial")).toBe("1467 gal");
+  });
+
+  it("convierte ml a fl oz y g a oz ida y vuelta", () => {
+    expect(toDisplayDose(87, "ml", "imperial").unit).toBe("fl oz");
+    expect(toDisplayDose(87, "ml", "imperial").value).toBeCloseTo(2.9418, 4);
+    expect(toDisplayDose(18, "g", "imperial").unit).toBe("oz");
+    expect(fromDisplayDose(toDisplayDose(87, "ml", "imperial").value, "fl oz").value).toBeCloseTo(
+      87,
+      9
+    );
+    expect(fromDisplayDose(1, "oz")).toEqual({ value: 28.349523125, unit: "g" });
+    expect(toDisplayDose(87, "ml", "metric")).toEqual({ value: 87, unit: "ml" });
+  });
+
+  it("formatea cantidades con decimales segun la unidad", () => {
+    expect(formatDose(87, "ml", "metric")).toBe("87 ml");
+    expect(formatDose(87, "ml", "imperial")).toBe("2.9 fl oz");
+    expect(formatDose(18, "g", "imperial")).toBe("0.6 oz");
+    expect(formatHeight(76, "imperial")).toBe("29.9 in");
+  });
+});
+
+describe("conversion de concentracion", () => {
+  it("convierte etiquetas en g/L a porcentaje equivalente", () => {
+    expect(toConcentrationPct(50, "g/L")).toBe(5);
+    expect(toConcentrationPct(5, "%")).toBe(5);
+    expect(fromConcentrationPct(5, "g/L")).toBe(50);
+    expect(formatConcentration(50, "g/L")).toBe("50 g/L");
+    expect(formatConcentration(5, "%")).toBe("5%");
+  });
+});
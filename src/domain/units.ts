@@ -0,0 +1,125 @@
+import { toFixedNumber } from "./calculations";
+import type { ChemicalUnit, DisplayDoseUnit, DoseUnit, UnitSystem } from "./types";
+
+// Los valores se guardan siempre en unidades canonicas (cm, m, L, ml, g, %, °C);
+// este modulo solo convierte para mostrar o para leer lo que ingresa el usuario.
+export const CM_PER_INCH = 2.54;
+export const M_PER_FOOT = 0.3048;
+export const LITERS_PER_US_GALLON = 3.785411784;
+export const ML_PER_US_FL_OZ = 29.5735295625;
+export const G_PER_OZ = 28.349523125;
+const G_PER_L_PER_PCT = 10;
+
+export interface DisplayQuantity<U extends string = string> {
+  value: number;
+  unit: U;
+}
+
+export function toDisplayHeight(
+  heightCm: number,
+  system: UnitSystem
+): DisplayQuantity<"cm" | "in"> {
+  return system === "imperial"
+    ? { value: heightCm / CM_PER_INCH, unit: "in" }
+    : { value: heightCm, unit: "cm" };
+}
+
+export function fromDisplayHeight(value: number, system: UnitSystem): number {
+  return system === "imperial" ? value * CM_PER_INCH : value;
+}
+
+export function toDisplayLength(lengthM: number, system: UnitSystem): DisplayQuantity<"m" | "ft"> {
+  return system === "imperial"
+    ? { value: lengthM / M_PER_FOOT, unit: "ft" }
+    : { value: lengthM, unit: "m" };
+}
+
+export function fromDisplayLength(value: number, system: UnitSystem): number {
+  return system === "imperial" ? value * M_PER_FOOT : value;
+}
+
+export function toDisplayVolume(
+  volumeLiters: number,
+  system: UnitSystem
+): DisplayQuantity<"L" | "gal"> {
+  return system === "imperial"
+    ? { value: volumeLiters / LITERS_PER_US_GALLON, unit: "gal" }
+    : { value: volumeLiters, unit: "L" };
+}
+
+export function toDisplayTemperature(
+  temperatureC: number,
+  system: UnitSystem
+): DisplayQuantity<"°C" | "°F"> {
+  return system === "imperial"
+    ? { value: (temperatureC * 9) / 5 + 32, unit: "°F" }
+    : { value: temperatureC, unit: "°C" };
+}
+
+export function fromDisplayTemperature(value: number, system: UnitSystem): number {
+  return system === "imperial" ? ((value - 32) * 5) / 9 : value;
+}
+
+export function toDisplayDose(
+  value: number,
+  unit: DoseUnit,
+  system: UnitSystem
+): DisplayQuantity<DisplayDoseUnit> {
+  if (system === "metric") {
+    return { value, unit };
+  }
+  return unit === "ml"
+    ? { value: value / ML_PER_US_FL_OZ, unit: "fl oz" }
+    : { value: value / G_PER_OZ, unit: "oz" };
+}
+
+export function fromDisplayDose(value: number, unit: DisplayDoseUnit): DisplayQuantity<DoseUnit> {
+  if (unit === "fl oz") {
+    return { value: value * ML_PER_US_FL_OZ, unit: "ml" };
+  }
+  if (unit === "oz") {
+    return { value: value * G_PER_OZ, unit: "g" };
+  }
+  return { value, unit };
+}
+
+export function toConcentrationPct(concentration: number, unit: ChemicalUnit): number {
+  return unit === "g/L" ? concentration / G_PER_L_PER_PCT : concentration;
+}
+
+export function fromConcentrationPct(concentrationPct: number, unit: ChemicalUnit): number {
+  return unit === "g/L" ? concentrationPct * G_PER_L_PER_PCT : concentrationPct;
+}
+
+export function getDisplayDigits(unit: string): number {
+  if (unit === "m") {
+    return 2;
+  }
+  if (unit === "in" || unit === "ft" || unit === "fl oz" || unit === "oz") {
+    return 1;
+  }
+  return 0;
+}
+
+export function formatQuantity(
+  quantity: DisplayQuantity,
+  digits = getDisplayDigits(quantity.unit)
+): string {
+  return `${toFixedNumber(quantity.value, digits)} ${quantity.unit}`;
+}
+
+export function formatHeight(heightCm: number, system: UnitSystem): string {
+  return formatQuantity(toDisplayHeight(heightCm, system));
+}
+
+export function formatVolume(volumeLiters: number, system: UnitSystem): string {
+  return formatQuantity(toDisplayVolume(volumeLiters, system));
+}
+
+export function formatDose(value: number, unit: DoseUnit, system: UnitSystem): string {
+  return formatQuantity(toDisplayDose(value, unit, system));
+}
+
+export function formatConcentration(concentration: number, unit: ChemicalUnit): string {
+  return unit === "g/L" ? `${concentration} g/L` : `${concentration}%`;
+}
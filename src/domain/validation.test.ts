@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest";
+import { defaultPoolConfig, normalizePoolConfig } from "./defaults";
+import type { PoolConfig, Session } from "./types";
+import {
+  assertValidPoolConfig,
+  assertValidSession,
+  validateChemicalProduct,
+  validatePoolConfig,
+  validateSession,
+  validateIntensiveCycle,
+  validateWaterTopUp,
+  ValidationError
+} from "./validation";
+
+function makeConfig(overrides: Partial<PoolConfig> = {}): PoolConfig {
+  return {
+    ...defaultPoolConfig,
+    updatedAt: "2026-01-01T10:00:00.000Z",
+    ...overrides
+  };
+}
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: "s1",
+    poolId: "default",
+    timestamp: "2026-01-02T10:00:00.000Z",
+    kind: "adjustment",
+    waterHeightCm: 70,
+    measuredPh: 7.8,
+    measuredChlorinePpm: 0.5,
+    calculatedVolumeLiters: 5600,
+    requiredPhCorrection: { direction: "down", total: 80, stage1: 40, unit: "ml" },
+    requiredChlorineDose: { maintenance: 0, corrective: 20, unit: "g" },
+    appliedDoses: { phStage1: 40, phUnit: "ml", chlorine: 20, chlorineUnit: "g" },
+    ...overrides
+  };
+}
+
+describe("validatePoolConfig", () => {
+  it("acepta la configuracion por defecto", () => {
+    expect(validatePoolConfig(makeConfig())).toEqual([]);
+  });
+
+  it("detecta reglas cruzadas entre campos con codigo y ruta", () => {
+    const config = makeConfig({
+      targets: { ...defaultPoolConfig.targets, phMin: 7.6, phMax: 7.2 },
+      workflow: { ...defaultPoolConfig.workflow, defaultWaitMinutes: 50, maxWaitMinutes: 40 }
+    });
+
+    expect(validatePoolConfig(config)).toEqual([
+      {
+        code: "min-not-below-max",
+        path: "targets.phMin",
+        message: "El objetivo de pH minimo debe ser menor al maximo."
+      },
+      {
+        code: "exceeds-max",
+        path: "workflow.defaultWaitMinutes",
+        message: "La pausa por defecto no puede superar la pausa maxima."
+      }
+    ]);
+  });
+
+  it("valida dimensiones segun la forma y concentraciones en porcentaje", () => {
+    const config = makeConfig({
+      pool: {
+        shape: "sloped-rectangular",
+        lengthM: 4,
+        widthM: 0,
+        shallowDepthCm: 90,
+        deepDepthCm: 60,
+        maxHeightCm: 100
+      },
+      acidProduct: { ...defaultPoolConfig.acidProduct, concentration: 140 }
+    });
+
+    expect(validatePoolConfig(config).map((issue) => [issue.code, issue.path])).toEqual([
+      ["not-positive", "pool.widthM"],
+      ["min-not-below-max", "pool.deepDepthCm"],
+      ["exceeds-max", "acidProduct.concentration"]
+    ]);
+  });
+
+  it("exige la altura maxima y completa la de referencia al normalizar", () => {
+    const config = makeConfig({ pool: { shape: "round", diameterM: 3.05 } });
+
+    expect(validatePoolConfig(config).map((issue) => [issue.code, issue.path])).toEqual([
+      ["required", "pool.maxHeightCm"]
+    ]);
+    expect(normalizePoolConfig(config).pool.maxHeightCm).toBe(defaultPoolConfig.pool.maxHeightCm);
+    expect(validatePoolConfig(normalizePoolConfig(config))).toEqual([]);
+  });
+
+  it("rechaza cloro granulado con concentracion en g/L", () => {
+    const config = makeConfig({
+      chlorineProduct: {
+        ...defaultPoolConfig.chlorineProduct,
+        presentation: "granular-g",
+        unit: "g/L",
+        concentration: 60
+      }
+    });
+
+    expect(validatePoolConfig(config).map((issue) => [issue.code, issue.path])).toEqual([
+      ["invalid-option", "chlorineProduct.unit"]
+    ]);
+    expect(
+      validateChemicalProduct({
+        role: "chlorine",
+        type: "Dicloro",
+        concentration: 60,
+        unit: "g/L",
+        presentation: "granular-g"
+      }).map((issue) => [issue.code, issue.path])
+    ).toEqual([["invalid-option", "unit"]]);
+  });
+
+  it("ignora el pH+ deshabilitado y marca valores no numericos", () => {
+    const config = makeConfig({
+      phUpProduct: { ...defaultPoolConfig.phUpProduct, enabled: false, concentration: 0 },
+      chemistry: { ...defaultPoolConfig.chemistry, estimatedAlkalinityPpm: Number.NaN }
+    });
+
+    expect(validatePoolConfig(config)).toEqual([
+      {
+        code: "not-a-number",
+        path: "chemistry.estimatedAlkalinityPpm",
+        message: "Debe ser un numero."
+      }
+    ]);
+  });
+});
+
+describe("validateSession", () => {
+  it("acepta una sesion completa", () => {
+    expect(validateSession(makeSession())).toEqual([]);
+  });
+
+  it("detecta mediciones fuera de rango y dosis inconsistentes", () => {
+    const session = makeSession({
+      timestamp: "ayer",
+      measuredPh: 9.1,
+      measuredChlorinePpm: 2,
+      measuredTotalChlorinePpm: 1.5,
+      requiredPhCorrection: { direction: "down", total: 30, stage1: 40, unit: "ml" },
+      appliedDoses: { chlorine: -5 }
+    });
+
+    expect(validateSession(session).map((issue) => [issue.code, issue.path])).toEqual([
+      ["invalid-date", "timestamp"],
+      ["out-of-range", "measuredPh"],
+      ["out-of-range", "measuredTotalChlorinePpm"],
+      ["exceeds-max", "requiredPhCorrection.stage1"],
+      ["out-of-range", "appliedDoses.chlorine"]
+    ]);
+  });
+
+  it("valida la hora de aplicacion de cada etapa de pH", () => {
+    const session = makeSession({
+      appliedDoses: { phStage1: 40, phStage1At: "2026-01-01T09:10:00.000Z", phStage2At: "luego" }
+    });
+
+    expect(validateSession(session).map((issue) => [issue.code, issue.path])).toEqual([
+      ["invalid-date", "appliedDoses.phStage2At"]
+    ]);
+  });
+});
+
+describe("validateWaterTopUp", () => {
+  it("exige que la altura suba con el llenado", () => {
+    const topUp = {
+      id: "t1",
+      poolId: "default",
+      timestamp: "2026-01-02T10:00:00.000Z",
+      heightBeforeCm: 60,
+      heightAfterCm: 75
+    };
+    expect(validateWaterTopUp(topUp)).toEqual([]);
+    expect(
+      validateWaterTopUp({ ...topUp, heightBeforeCm: 75, heightAfterCm: 70 }).map((issue) => [
+        issue.code,
+        issue.path
+      ])
+    ).toEqual([["min-not-below-max", "heightAfterCm"]]);
+  });
+});
+
+describe("assertValid*", () => {
+  it("lanza ValidationError con todos los problemas", () => {
+    expect(() => assertValidSession(makeSession())).not.toThrow();
+    try {
+      assertValidPoolConfig(makeConfig({ name: " " }));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ValidationError);
+      expect((err as ValidationError).record).toBe("config");
+      expect((err as ValidationError).message).toBe("Ingresa un nombre para la piscina.");
+      expect((err as ValidationError).issues).toHaveLength(1);
+    }
+  });
+});
+
+describe("validateIntensiveCycle", () => {
+  it("exige motivo, criterios validos y un solo estado final", () => {
+    const cycle = {
+      id: "c1",
+      poolId: "default",
+      reason: "cambio a dicloro",
+      startedAt: "2026-01-02T10:00:00.000Z",
+      minNights: 2,
+      maxOvernightLossPpm: 1
+    };
+    expect(validateIntensiveCycle(cycle)).toEqual([]);
+    expect(
+      validateIntensiveCycle({
+        ...cycle,
+        reason: " ",
+        minNights: 1,
+        closedAt: "2026-01-05T08:00:00.000Z",
+        cancelledAt: "2026-01-05T08:00:00.000Z"
+      }).map((issue) => [issue.code, issue.path])
+    ).toEqual([
+      ["required", "reason"],
+      ["invalid-option", "cancelledAt"],
+      ["out-of-range", "minNights"]
+    ]);
+  });
+});
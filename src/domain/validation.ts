@@ -0,0 +1,745 @@
+import { isAlkalinityInRange } from "./alkalinity";
+import { isChlorineInRange, isHeightInRange, isPhInRange } from "./calculations";
+import { isCyaInRange } from "./cya";
+import type {
+  ChemicalProduct,
+  ChemicalUnit,
+  DoseUnit,
+  IntensiveCycle,
+  PoolConfig,
+  ProductPresentation,
+  Session,
+  WaterTopUp
+} from "./types";
+
+export type ValidationCode =
+  | "required"
+  | "not-a-number"
+  | "not-positive"
+  | "out-of-range"
+  | "invalid-date"
+  | "invalid-option"
+  | "min-not-below-max"
+  | "exceeds-max";
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  path: string;
+  message: string;
+}
+
+export type ValidatedRecord = "config" | "session" | "top-up" | "intensive-cycle" | "product";
+
+export class ValidationError extends Error {
+  readonly record: ValidatedRecord;
+  readonly issues: ValidationIssue[];
+
+  constructor(record: ValidatedRecord, issues: ValidationIssue[]) {
+    super(issues[0]?.message ?? "Registro invalido.");
+    this.name = "ValidationError";
+    this.record = record;
+    this.issues = issues;
+  }
+}
+
+export const MAX_WAIT_MINUTES = 60;
+export const MIN_INTENSIVE_NIGHTS = 2;
+const MAX_WATER_TEMPERATURE_C = 45;
+
+const POOL_SHAPES = ["round", "rectangular", "oval", "sloped-rectangular", "sloped-oval"];
+const CHEMICAL_UNITS: ChemicalUnit[] = ["%", "g/L"];
+const DOSE_UNITS: DoseUnit[] = ["ml", "g"];
+const UNIT_SYSTEMS = ["metric", "imperial"];
+const PRESENTATIONS = ["liquid-ml", "granular-g"];
+const PRODUCT_ROLES = ["chlorine", "acid", "ph-up"];
+const SESSION_KINDS = ["adjustment", "check", "intensive-cycle", "shock"];
+const CHECK_MOMENTS = ["start-day", "sun-hours", "night"];
+const PH_DIRECTIONS = ["down", "up", "none"];
+const ALKALINITY_DIRECTIONS = ["down", "up"];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isIsoDate(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+function pushIssue(
+  issues: ValidationIssue[],
+  code: ValidationCode,
+  path: string,
+  message: string
+): void {
+  issues.push({ code, path, message });
+}
+
+// Retorna false si el valor no es numerico para cortar las reglas que dependen de el.
+function checkNumber(issues: ValidationIssue[], value: unknown, path: string): value is number {
+  if (!isFiniteNumber(value)) {
+    pushIssue(issues, "not-a-number", path, "Debe ser un numero.");
+    return false;
+  }
+  return true;
+}
+
+function checkPositive(
+  issues: ValidationIssue[],
+  value: unknown,
+  path: string,
+  message: string
+): void {
+  if (checkNumber(issues, value, path) && value <= 0) {
+    pushIssue(issues, "not-positive", path, message);
+  }
+}
+
+function checkOption(
+  issues: ValidationIssue[],
+  value: unknown,
+  options: string[],
+  path: string,
+  message: string
+): void {
+  if (!options.includes(String(value))) {
+    pushIssue(issues, "invalid-option", path, message);
+  }
+}
+
+function checkDate(issues: ValidationIssue[], value: unknown, path: string): void {
+  if (!isIsoDate(value)) {
+    pushIssue(issues, "invalid-date", path, "Debe ser una fecha ISO.");
+  }
+}
+
+function checkMinBelowMax(
+  issues: ValidationIssue[],
+  record: Record<string, number>,
+  path: string,
+  minKey: string,
+  maxKey: string,
+  message: string
+): void {
+  const minOk = checkNumber(issues, record[minKey], `${path}.${minKey}`);
+  const maxOk = checkNumber(issues, record[maxKey], `${path}.${maxKey}`);
+  if (minOk && maxOk && record[minKey] >= record[maxKey]) {
+    pushIssue(issues, "min-not-below-max", `${path}.${minKey}`, message);
+  }
+}
+
+function fieldPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function checkConcentration(
+  issues: ValidationIssue[],
+  product: { concentration: number; unit: ChemicalUnit; presentation?: ProductPresentation },
+  path: string,
+  label: string
+): void {
+  checkPositive(
+    issues,
+    product.concentration,
+    fieldPath(path, "concentration"),
+    `La concentracion de ${label} debe ser mayor que 0.`
+  );
+  checkOption(
+    issues,
+    product.unit,
+    CHEMICAL_UNITS,
+    fieldPath(path, "unit"),
+    "Unidad de concentracion desconocida."
+  );
+  if (product.unit === "%" && product.concentration > 100) {
+    pushIssue(
+      issues,
+      "exceeds-max",
+      fieldPath(path, "concentration"),
+      `La concentracion de ${label} no puede superar 100%.`
+    );
+  }
+  // g/L no describe un granulado: la dosis de cloro resultaria 0.
+  if (product.presentation === "granular-g" && product.unit === "g/L") {
+    pushIssue(
+      issues,
+      "invalid-option",
+      fieldPath(path, "unit"),
+      `La concentracion de ${label} granulado debe indicarse en %.`
+    );
+  }
+}
+
+function checkPoolDimensions(issues: ValidationIssue[], config: PoolConfig): void {
+  const pool = config.pool;
+  const message = "Las dimensiones de la piscina deben ser mayores que 0.";
+  checkOption(issues, pool.shape, POOL_SHAPES, "pool.shape", "Forma de piscina desconocida.");
+  if (pool.shape === "round") {
+    checkPositive(issues, pool.diameterM, "pool.diameterM", message);
+  } else {
+    checkPositive(issues, pool.lengthM, "pool.lengthM", message);
+    checkPositive(issues, pool.widthM, "pool.widthM", message);
+  }
+  if (pool.shape === "sloped-rectangular" || pool.shape === "sloped-oval") {
+    checkPositive(issues, pool.shallowDepthCm, "pool.shallowDepthCm", message);
+    if (
+      checkNumber(issues, pool.deepDepthCm, "pool.deepDepthCm") &&
+      pool.deepDepthCm < pool.shallowDepthCm
+    ) {
+      pushIssue(
+        issues,
+        "min-not-below-max",
+        "pool.deepDepthCm",
+        "La profundidad del extremo hondo no puede ser menor que la del extremo bajo."
+      );
+    }
+  }
+  // La altura maxima acota la altura medida y define la capacidad para los topes de dosis.
+  if (pool.maxHeightCm === undefined) {
+    pushIssue(issues, "required", "pool.maxHeightCm", "La altura maxima debe ser mayor que 0.");
+  } else {
+    checkPositive(
+      issues,
+      pool.maxHeightCm,
+      "pool.maxHeightCm",
+      "La altura maxima debe ser mayor que 0."
+    );
+  }
+}
+
+export function validatePoolConfig(config: PoolConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof config.id !== "string" || !config.id) {
+    pushIssue(issues, "required", "id", "Falta el identificador de la piscina.");
+  }
+  if (typeof config.name !== "string" || !config.name.trim()) {
+    pushIssue(issues, "required", "name", "Ingresa un nombre para la piscina.");
+  }
+  checkDate(issues, config.updatedAt, "updatedAt");
+  if (config.archivedAt !== undefined) {
+    checkDate(issues, config.archivedAt, "archivedAt");
+  }
+
+  checkPoolDimensions(issues, config);
+  checkConcentration(issues, config.chlorineProduct, "chlorineProduct", "cloro");
+  checkOption(
+    issues,
+    config.chlorineProduct.presentation,
+    PRESENTATIONS,
+    "chlorineProduct.presentation",
+    "Presentacion de producto desconocida."
+  );
+  checkNonNegative(issues, config.chlorineProduct.cyaPerFcPpm, "chlorineProduct.cyaPerFcPpm");
+  checkConcentration(issues, config.acidProduct, "acidProduct", "HCl");
+  if (config.phUpProduct.enabled) {
+    checkConcentration(issues, config.phUpProduct, "phUpProduct", "pH+");
+    checkPositive(
+      issues,
+      config.phUpProduct.referenceDoseGPerPointPer10kL,
+      "phUpProduct.referenceDoseGPerPointPer10kL",
+      "La dosis de referencia de pH+ debe ser mayor que 0."
+    );
+  }
+
+  const { targets, workflow, chemistry } = config;
+  checkMinBelowMax(
+    issues,
+    targets,
+    "targets",
+    "phMin",
+    "phMax",
+    "El objetivo de pH minimo debe ser menor al maximo."
+  );
+  checkMinBelowMax(
+    issues,
+    targets,
+    "targets",
+    "chlorineMinPpm",
+    "chlorineMaxPpm",
+    "El objetivo de cloro minimo debe ser menor al maximo."
+  );
+  checkMinBelowMax(
+    issues,
+    targets,
+    "targets",
+    "alkalinityMinPpm",
+    "alkalinityMaxPpm",
+    "El objetivo de alcalinidad minimo debe ser menor al maximo."
+  );
+
+  if (checkNumber(issues, workflow.maxWaitMinutes, "workflow.maxWaitMinutes")) {
+    if (workflow.maxWaitMinutes > MAX_WAIT_MINUTES) {
+      pushIssue(
+        issues,
+        "exceeds-max",
+        "workflow.maxWaitMinutes",
+        `La pausa maxima no puede superar ${MAX_WAIT_MINUTES} minutos.`
+      );
+    }
+  }
+  if (checkNumber(issues, workflow.defaultWaitMinutes, "workflow.defaultWaitMinutes")) {
+    if (workflow.defaultWaitMinutes < 0) {
+      pushIssue(
+        issues,
+        "out-of-range",
+        "workflow.defaultWaitMinutes",
+        "La pausa por defecto no puede ser negativa."
+      );
+    } else if (workflow.defaultWaitMinutes > workflow.maxWaitMinutes) {
+      pushIssue(
+        issues,
+        "exceeds-max",
+        "workflow.defaultWaitMinutes",
+        "La pausa por defecto no puede superar la pausa maxima."
+      );
+    }
+  }
+  if (
+    checkNumber(issues, workflow.intensiveMinNights, "workflow.intensiveMinNights") &&
+    workflow.intensiveMinNights < MIN_INTENSIVE_NIGHTS
+  ) {
+    pushIssue(
+      issues,
+      "out-of-range",
+      "workflow.intensiveMinNights",
+      `El ciclo intensivo requiere al menos ${MIN_INTENSIVE_NIGHTS} noches.`
+    );
+  }
+  checkPositive(
+    issues,
+    workflow.intensiveMaxOvernightLossPpm,
+    "workflow.intensiveMaxOvernightLossPpm",
+    "El umbral de perdida nocturna del ciclo intensivo debe ser mayor a 0."
+  );
+
+  if (
+    checkNumber(issues, chemistry.estimatedAlkalinityPpm, "chemistry.estimatedAlkalinityPpm") &&
+    chemistry.estimatedAlkalinityPpm < 0
+  ) {
+    pushIssue(
+      issues,
+      "out-of-range",
+      "chemistry.estimatedAlkalinityPpm",
+      "La alcalinidad estimada no puede ser negativa."
+    );
+  }
+  if (chemistry.lastRefillAt !== undefined) {
+    checkDate(issues, chemistry.lastRefillAt, "chemistry.lastRefillAt");
+  }
+  checkOption(
+    issues,
+    config.preferences.unitSystem,
+    UNIT_SYSTEMS,
+    "preferences.unitSystem",
+    "Sistema de unidades desconocido."
+  );
+
+  return issues;
+}
+
+function checkMeasure(
+  issues: ValidationIssue[],
+  value: unknown,
+  path: string,
+  isInRange: (value: number) => boolean,
+  message: string
+): void {
+  if (checkNumber(issues, value, path) && !isInRange(value)) {
+    pushIssue(issues, "out-of-range", path, message);
+  }
+}
+
+function checkOptionalMeasure(
+  issues: ValidationIssue[],
+  value: number | undefined,
+  path: string,
+  isInRange: (value: number) => boolean,
+  message: string
+): void {
+  if (value !== undefined) {
+    checkMeasure(issues, value, path, isInRange, message);
+  }
+}
+
+function checkNonNegative(
+  issues: ValidationIssue[],
+  value: number | undefined,
+  path: string
+): void {
+  if (value !== undefined && checkNumber(issues, value, path) && value < 0) {
+    pushIssue(issues, "out-of-range", path, "No puede ser negativo.");
+  }
+}
+
+export function validateSession(session: Session): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof session.id !== "string" || !session.id) {
+    pushIssue(issues, "required", "id", "Falta el identificador de la sesion.");
+  }
+  if (typeof session.poolId !== "string" || !session.poolId) {
+    pushIssue(issues, "required", "poolId", "Falta la piscina de la sesion.");
+  }
+  checkDate(issues, session.timestamp, "timestamp");
+  if (session.updatedAt !== undefined) {
+    checkDate(issues, session.updatedAt, "updatedAt");
+  }
+  if (session.deletedAt !== undefined) {
+    checkDate(issues, session.deletedAt, "deletedAt");
+  }
+  if (session.kind !== undefined) {
+    checkOption(issues, session.kind, SESSION_KINDS, "kind", "Tipo de sesion desconocido.");
+  }
+  if (session.checkMoment !== undefined) {
+    checkOption(
+      issues,
+      session.checkMoment,
+      CHECK_MOMENTS,
+      "checkMoment",
+      "Momento de medicion desconocido."
+    );
+  }
+  if (session.coverOn !== undefined && typeof session.coverOn !== "boolean") {
+    pushIssue(issues, "invalid-option", "coverOn", "El uso del cobertor debe ser si o no.");
+  }
+  if (
+    session.intensiveCycleId !== undefined &&
+    (typeof session.intensiveCycleId !== "string" || !session.intensiveCycleId)
+  ) {
+    pushIssue(
+      issues,
+      "required",
+      "intensiveCycleId",
+      "Falta el identificador del ciclo intensivo."
+    );
+  }
+
+  checkMeasure(
+    issues,
+    session.waterHeightCm,
+    "waterHeightCm",
+    (value) => isHeightInRange(value),
+    "La altura del agua esta fuera de rango."
+  );
+  checkMeasure(
+    issues,
+    session.measuredPh,
+    "measuredPh",
+    isPhInRange,
+    "El pH medido esta fuera de rango."
+  );
+  checkOptionalMeasure(
+    issues,
+    session.measuredPhIntermediate,
+    "measuredPhIntermediate",
+    isPhInRange,
+    "El pH intermedio esta fuera de rango."
+  );
+  checkMeasure(
+    issues,
+    session.measuredChlorinePpm,
+    "measuredChlorinePpm",
+    isChlorineInRange,
+    "El cloro medido esta fuera de rango."
+  );
+  checkOptionalMeasure(
+    issues,
+    session.measuredTotalChlorinePpm,
+    "measuredTotalChlorinePpm",
+    isChlorineInRange,
+    "El cloro total esta fuera de rango."
+  );
+  if (
+    isFiniteNumber(session.measuredTotalChlorinePpm) &&
+    isFiniteNumber(session.measuredChlorinePpm) &&
+    session.measuredTotalChlorinePpm < session.measuredChlorinePpm
+  ) {
+    pushIssue(
+      issues,
+      "out-of-range",
+      "measuredTotalChlorinePpm",
+      "El cloro total no puede ser menor que el cloro libre."
+    );
+  }
+  checkOptionalMeasure(
+    issues,
+    session.measuredAlkalinityPpm,
+    "measuredAlkalinityPpm",
+    isAlkalinityInRange,
+    "La alcalinidad medida esta fuera de rango."
+  );
+  checkOptionalMeasure(
+    issues,
+    session.measuredCyaPpm,
+    "measuredCyaPpm",
+    isCyaInRange,
+    "El CYA medido esta fuera de rango."
+  );
+  checkNonNegative(issues, session.measuredCalciumHardnessPpm, "measuredCalciumHardnessPpm");
+  checkNonNegative(issues, session.measuredTdsPpm, "measuredTdsPpm");
+  checkOptionalMeasure(
+    issues,
+    session.waterTemperatureC,
+    "waterTemperatureC",
+    (value) => value >= 0 && value <= MAX_WATER_TEMPERATURE_C,
+    "La temperatura del agua esta fuera de rango."
+  );
+  checkPositive(
+    issues,
+    session.calculatedVolumeLiters,
+    "calculatedVolumeLiters",
+    "El volumen calculado debe ser mayor que 0."
+  );
+
+  const ph = session.requiredPhCorrection;
+  checkOption(
+    issues,
+    ph.direction,
+    PH_DIRECTIONS,
+    "requiredPhCorrection.direction",
+    "Direccion de correccion de pH desconocida."
+  );
+  checkNonNegative(issues, ph.total, "requiredPhCorrection.total");
+  checkNonNegative(issues, ph.stage1, "requiredPhCorrection.stage1");
+  if (isFiniteNumber(ph.stage1) && isFiniteNumber(ph.total) && ph.stage1 > ph.total) {
+    pushIssue(
+      issues,
+      "exceeds-max",
+      "requiredPhCorrection.stage1",
+      "La etapa 1 de pH no puede superar la correccion total."
+    );
+  }
+  checkOption(
+    issues,
+    ph.unit,
+    DOSE_UNITS,
+    "requiredPhCorrection.unit",
+    "Unidad de dosis desconocida."
+  );
+
+  const chlorine = session.requiredChlorineDose;
+  checkNonNegative(issues, chlorine.maintenance, "requiredChlorineDose.maintenance");
+  checkNonNegative(issues, chlorine.corrective, "requiredChlorineDose.corrective");
+  checkOption(
+    issues,
+    chlorine.unit,
+    DOSE_UNITS,
+    "requiredChlorineDose.unit",
+    "Unidad de dosis desconocida."
+  );
+
+  const alkalinity = session.requiredAlkalinityCorrection;
+  if (alkalinity !== undefined) {
+    checkOption(
+      issues,
+      alkalinity.direction,
+      ALKALINITY_DIRECTIONS,
+      "requiredAlkalinityCorrection.direction",
+      "Direccion de correccion de alcalinidad desconocida."
+    );
+    checkNonNegative(issues, alkalinity.amount, "requiredAlkalinityCorrection.amount");
+    checkOption(
+      issues,
+      alkalinity.unit,
+      DOSE_UNITS,
+      "requiredAlkalinityCorrection.unit",
+      "Unidad de dosis desconocida."
+    );
+  }
+
+  const applied = session.appliedDoses;
+  checkNonNegative(issues, applied.phStage1, "appliedDoses.phStage1");
+  checkNonNegative(issues, applied.phStage2, "appliedDoses.phStage2");
+  checkNonNegative(issues, applied.chlorine, "appliedDoses.chlorine");
+  checkNonNegative(issues, applied.alkalinity, "appliedDoses.alkalinity");
+  if (applied.phStage1At !== undefined) {
+    checkDate(issues, applied.phStage1At, "appliedDoses.phStage1At");
+  }
+  if (applied.phStage2At !== undefined) {
+    checkDate(issues, applied.phStage2At, "appliedDoses.phStage2At");
+  }
+  if (applied.phUnit !== undefined) {
+    checkOption(
+      issues,
+      applied.phUnit,
+      DOSE_UNITS,
+      "appliedDoses.phUnit",
+      "Unidad de dosis desconocida."
+    );
+  }
+  if (applied.chlorineUnit !== undefined) {
+    checkOption(
+      issues,
+      applied.chlorineUnit,
+      DOSE_UNITS,
+      "appliedDoses.chlorineUnit",
+      "Unidad de dosis desconocida."
+    );
+  }
+  if (applied.alkalinityUnit !== undefined) {
+    checkOption(
+      issues,
+      applied.alkalinityUnit,
+      DOSE_UNITS,
+      "appliedDoses.alkalinityUnit",
+      "Unidad de dosis desconocida."
+    );
+  }
+
+  return issues;
+}
+
+export function validateWaterTopUp(topUp: WaterTopUp): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof topUp.id !== "string" || !topUp.id) {
+    pushIssue(issues, "required", "id", "Falta el identificador del llenado.");
+  }
+  if (typeof topUp.poolId !== "string" || !topUp.poolId) {
+    pushIssue(issues, "required", "poolId", "Falta la piscina del llenado.");
+  }
+  checkDate(issues, topUp.timestamp, "timestamp");
+  checkMeasure(
+    issues,
+    topUp.heightBeforeCm,
+    "heightBeforeCm",
+    (value) => isHeightInRange(value),
+    "La altura antes del llenado esta fuera de rango."
+  );
+  checkMeasure(
+    issues,
+    topUp.heightAfterCm,
+    "heightAfterCm",
+    (value) => isHeightInRange(value),
+    "La altura despues del llenado esta fuera de rango."
+  );
+  if (
+    isFiniteNumber(topUp.heightBeforeCm) &&
+    isFiniteNumber(topUp.heightAfterCm) &&
+    topUp.heightAfterCm <= topUp.heightBeforeCm
+  ) {
+    pushIssue(
+      issues,
+      "min-not-below-max",
+      "heightAfterCm",
+      "La altura despues del llenado debe ser mayor que la de antes."
+    );
+  }
+
+  return issues;
+}
+
+export function validateChemicalProduct(
+  product: Pick<
+    ChemicalProduct,
+    "role" | "type" | "concentration" | "unit" | "presentation" | "cyaPerFcPpm"
+  >
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  checkOption(issues, product.role, PRODUCT_ROLES, "role", "Uso de producto desconocido.");
+  if (typeof product.type !== "string" || !product.type.trim()) {
+    pushIssue(issues, "required", "type", "Ingresa el nombre del producto.");
+  }
+  checkOption(
+    issues,
+    product.presentation,
+    PRESENTATIONS,
+    "presentation",
+    "Presentacion de producto desconocida."
+  );
+  checkConcentration(issues, product, "", "producto");
+  checkNonNegative(issues, product.cyaPerFcPpm, "cyaPerFcPpm");
+
+  return issues;
+}
+
+export function validateIntensiveCycle(cycle: IntensiveCycle): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof cycle.id !== "string" || !cycle.id) {
+    pushIssue(issues, "required", "id", "Falta el identificador del ciclo intensivo.");
+  }
+  if (typeof cycle.poolId !== "string" || !cycle.poolId) {
+    pushIssue(issues, "required", "poolId", "Falta la piscina del ciclo intensivo.");
+  }
+  if (typeof cycle.reason !== "string" || !cycle.reason.trim()) {
+    pushIssue(issues, "required", "reason", "Ingresa un motivo para el ciclo intensivo.");
+  }
+  checkDate(issues, cycle.startedAt, "startedAt");
+  if (cycle.closedAt !== undefined) {
+    checkDate(issues, cycle.closedAt, "closedAt");
+  }
+  if (cycle.cancelledAt !== undefined) {
+    checkDate(issues, cycle.cancelledAt, "cancelledAt");
+  }
+  if (cycle.closedAt !== undefined && cycle.cancelledAt !== undefined) {
+    pushIssue(
+      issues,
+      "invalid-option",
+      "cancelledAt",
+      "Un ciclo intensivo no puede estar cerrado y cancelado a la vez."
+    );
+  }
+  if (checkNumber(issues, cycle.minNights, "minNights") && cycle.minNights < MIN_INTENSIVE_NIGHTS) {
+    pushIssue(
+      issues,
+      "out-of-range",
+      "minNights",
+      `El ciclo intensivo requiere al menos ${MIN_INTENSIVE_NIGHTS} noches.`
+    );
+  }
+  checkPositive(
+    issues,
+    cycle.maxOvernightLossPpm,
+    "maxOvernightLossPpm",
+    "El umbral de perdida nocturna del ciclo intensivo debe ser mayor a 0."
+  );
+  if (cycle.summary !== undefined) {
+    checkNumber(issues, cycle.summary.nightsEvaluated, "summary.nightsEvaluated");
+    checkNumber(issues, cycle.summary.avgOvernightLossPpm, "summary.avgOvernightLossPpm");
+    checkNumber(issues, cycle.summary.lastOvernightLossPpm, "summary.lastOvernightLossPpm");
+  }
+
+  return issues;
+}
+
+export function assertValidPoolConfig(config: PoolConfig): void {
+  const issues = validatePoolConfig(config);
+  if (issues.length > 0) {
+    throw new ValidationError("config", issues);
+  }
+}
+
+export function assertValidSession(session: Session): void {
+  const issues = validateSession(session);
+  if (issues.length > 0) {
+    throw new ValidationError("session", issues);
+  }
+}
+
+export function assertValidWaterTopUp(topUp: WaterTopUp): void {
+  const issues = validateWaterTopUp(topUp);
+  if (issues.length > 0) {
+    throw new ValidationError("top-up", issues);
+  }
+}
+
+export function assertValidIntensiveCycle(cycle: IntensiveCycle): void {
+  const issues = validateIntensiveCycle(cycle);
+  if (issues.length > 0) {
+    throw new ValidationError("intensive-cycle", issues);
+  }
+}
+
+export function assertValidChemicalProduct(
+  product: Pick<
+    ChemicalProduct,
+    "role" | "type" | "concentration" | "unit" | "presentation" | "cyaPerFcPpm"
+  >
+): void {
+  const issues = validateChemicalProduct(product);
+  if (issues.length > 0) {
+    throw new ValidationError("product", issues);
+  }
+}